@@ -6,7 +6,7 @@ import DocxProcessor from '@/lib/docx-processor-integrated';
 export async function POST(request: NextRequest) {
   try {
     const requestData = await request.json();
-    const { fileId } = requestData;
+    const { fileId, typography } = requestData;
 
     if (!fileId) {
       return NextResponse.json({ success: false, error: '缺少文件ID' }, { status: 400 });
@@ -27,7 +27,8 @@ export async function POST(request: NextRequest) {
     const processor = new DocxProcessor();
       // 分析文档
     try {
-      const analysisResult = await processor.analyzeDocument(fileContent);
+      // 传入模板的排版规范化规则时，分析结果中包含各规则的替换次数
+      const analysisResult = await processor.analyzeDocument(fileContent, true, typography);
       
       return NextResponse.json({
         success: true,
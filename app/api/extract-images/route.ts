@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { storageAdapter } from '@/lib/storage-adapter';
-import { ImageExtractor, ExtractedImage } from '@/lib/image-extractor';
+import { ImageExtractor, ExtractedImage, IMAGE_FORMATS } from '@/lib/image-extractor';
 
 export async function POST(request: NextRequest) {
   try {
@@ -42,7 +42,9 @@ export async function POST(request: NextRequest) {
       
       for (let i = 0; i < extractionResult.images.length; i++) {
         const image = extractionResult.images[i];
-        const fileName = i === 0 ? `${originalName}.png` : `${originalName}-${i}.png`;
+        // 按图片的真实格式确定扩展名
+        const extension = image.format ? IMAGE_FORMATS[image.format].extension : 'png';
+        const fileName = i === 0 ? `${originalName}.${extension}` : `${originalName}-${i}.${extension}`;
         
         try {
           // 从base64数据转换为Buffer
@@ -82,6 +84,7 @@ export async function POST(request: NextRequest) {
         name: img.name,
         paragraphIndex: img.paragraphIndex,
         runIndex: img.runIndex,
+        format: img.format,
         size: img.size
       }))
     };
@@ -2,8 +2,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import { storageAdapter } from '@/lib/storage-adapter';
 import DocxProcessor from '@/lib/docx-processor-integrated';
 import * as path from 'path';
-import { FontModificationOptions } from '@/types/document-processing';
+import { FontModificationOptions, DocumentProcessingOptions } from '@/types/document-processing';
+import { SanitizeReport, TemplateDocumentProperties, TemplateStyle, TemplateWatermark } from '@/app/types';
 import { convertChineseFontSize } from '@/lib/font-utils';
+import { OFFICIAL_DOCUMENT_GRID, OFFICIAL_PAGE_SETUP } from '@/lib/official-document';
+import { compileReplacementRule } from '@/lib/text-replace';
+import { resolveWatermark } from '@/lib/watermark';
+import { CORE_TEXT_PROPERTIES, resolveCustomProperty } from '@/lib/document-properties';
+import { hasPlaceholders } from '@/lib/header-footer';
 
 function applyFileNameTemplate(template: string, originalFileName: string, titleText?: string, authorText?: string): string {
   const titleWithoutExt = path.parse(originalFileName).name;
@@ -20,6 +26,95 @@ function applyFileNameTemplate(template: string, originalFileName: string, title
   return result;
 }
 
+/**
+ * 将模板中的样式转换为字体修改选项
+ */
+function toFontOptions(style: TemplateStyle): FontModificationOptions {
+  return {
+    targetFontName: style.fontName,
+    targetFonts: style.fonts,
+    targetFontSize: style.fontSize ? convertChineseFontSize(style.fontSize) : undefined,
+    targetIsBold: style.isBold,
+    targetIsItalic: style.isItalic,
+    targetIsUnderline: style.isUnderline,
+    targetColor: style.color,
+    targetAlignment: style.alignment,
+    paragraphFormat: style.paragraphFormat,
+  };
+}
+
+/**
+ * 检查请求中的水印设置，返回错误说明，有效时返回 undefined
+ */
+function getWatermarkError(watermark: TemplateWatermark): string | undefined {
+  if (typeof watermark !== 'object' || !['text', 'image'].includes(watermark.type)) {
+    return '水印类型无效: 只支持 text 和 image';
+  }
+  for (const key of ['text', 'fontName', 'fontSize', 'color', 'image'] as const) {
+    if (watermark[key] !== undefined && typeof watermark[key] !== 'string') {
+      return `水印设置无效: ${key} 应为字符串`;
+    }
+  }
+  for (const key of ['width', 'opacity', 'rotation'] as const) {
+    if (watermark[key] !== undefined && !Number.isFinite(watermark[key])) {
+      return `水印设置无效: ${key} 应为数字`;
+    }
+  }
+  if (watermark.color && !/^#[0-9A-Fa-f]{6}$/.test(watermark.color)) {
+    return `水印颜色无效: ${watermark.color}`;
+  }
+  const fontSize = watermark.fontSize ? convertChineseFontSize(watermark.fontSize) : undefined;
+  if (watermark.fontSize && !(fontSize && fontSize > 0)) {
+    return `水印字号无效: ${watermark.fontSize}`;
+  }
+  try {
+    resolveWatermark({ ...watermark, fontSize });
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * 检查请求中的文档属性设置，返回错误说明，有效时返回 undefined
+ */
+function getPropertiesError(properties: TemplateDocumentProperties): string | undefined {
+  if (typeof properties !== 'object' || Array.isArray(properties)) {
+    return '文档属性设置无效';
+  }
+  if (properties.keepOriginal !== undefined && typeof properties.keepOriginal !== 'boolean') {
+    return '文档属性设置无效: keepOriginal 应为布尔值';
+  }
+  for (const key of [...CORE_TEXT_PROPERTIES, 'company', 'created', 'modified'] as const) {
+    if (properties[key] !== undefined && typeof properties[key] !== 'string') {
+      return `文档属性设置无效: ${key} 应为字符串`;
+    }
+  }
+  for (const key of ['created', 'modified'] as const) {
+    if (properties[key]?.trim() && isNaN(Date.parse(properties[key]!))) {
+      return `文档属性日期无效: ${properties[key]}`;
+    }
+  }
+  if (properties.custom === undefined) return undefined;
+  if (!Array.isArray(properties.custom)) {
+    return '文档属性设置无效: custom 应为数组';
+  }
+  for (const property of properties.custom) {
+    if (typeof property?.name !== 'string' || typeof property.value !== 'string'
+      || (property.type !== undefined && !['text', 'number', 'boolean', 'date'].includes(property.type))) {
+      return '自定义属性设置无效: 需要字符串 name、value 和 text、number、boolean 或 date 类型';
+    }
+    // 含占位符的值在处理时才能确定，替换后无效的属性跳过
+    if (!property.name.trim() || hasPlaceholders(property.value)) continue;
+    try {
+      resolveCustomProperty(property, { date: new Date() });
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+  return undefined;
+}
+
 export async function POST(request: NextRequest) {
   try {
     const requestData = await request.json();
@@ -29,13 +124,35 @@ export async function POST(request: NextRequest) {
       template,
       titleOptions,
       bodyOptions,
-      authorOptions
+      authorOptions,
+      processingMode,
+      watermark,
+      properties
     } = requestData;
 
     if (!originalFileName) {
       return NextResponse.json({ success: false, error: '缺少原始文件名' }, { status: 400 });
     }
 
+    // 替换规则在处理前检查，避免格式处理完成后才因正则表达式无效而失败
+    for (const rule of template?.replacements || []) {
+      try {
+        compileReplacementRule(rule);
+      } catch (error) {
+        return NextResponse.json({ success: false, error: error instanceof Error ? error.message : String(error) }, { status: 400 });
+      }
+    }
+
+    // 请求中的水印和文档属性覆盖模板设置，处理前检查
+    const watermarkError = watermark != null ? getWatermarkError(watermark) : undefined;
+    if (watermarkError) {
+      return NextResponse.json({ success: false, error: watermarkError }, { status: 400 });
+    }
+    const propertiesError = properties != null ? getPropertiesError(properties) : undefined;
+    if (propertiesError) {
+      return NextResponse.json({ success: false, error: propertiesError }, { status: 400 });
+    }
+
     // 使用存储适配器获取文件内容
     const inputBuffer = await storageAdapter.getFileContent(requestData.fileId);
     if (!inputBuffer) {
@@ -43,10 +160,19 @@ export async function POST(request: NextRequest) {
     }
 
     const processor = new DocxProcessor();
+
+    // 文档清理在分析和格式处理之前进行，报告原文档中清理掉的内容
+    let sourceBuffer = inputBuffer;
+    let sanitizeReport: SanitizeReport | undefined;
+    if (template?.sanitize) {
+      const sanitized = await processor.sanitize(inputBuffer, template.sanitize);
+      sourceBuffer = sanitized.buffer;
+      sanitizeReport = sanitized.report;
+    }
     
     let titleText: string | undefined, authorText: string | undefined;
     try {
-      const analysisResult = await processor.analyzeDocument(inputBuffer);
+      const analysisResult = await processor.analyzeDocument(sourceBuffer);
       titleText = analysisResult.title?.text;
       authorText = analysisResult.author?.text;
       console.log('文档分析结果:', { titleText, authorText });
@@ -67,33 +193,13 @@ export async function POST(request: NextRequest) {
 
     if (template) {
       finalTitleOptions = {
-        targetFontName: template.titleStyle.fontName,
-        targetFontSize: template.titleStyle.fontSize ? convertChineseFontSize(template.titleStyle.fontSize) : undefined,
-        targetIsBold: template.titleStyle.isBold,
-        targetIsItalic: template.titleStyle.isItalic,
-        targetIsUnderline: template.titleStyle.isUnderline,
-        targetColor: template.titleStyle.color,
-        targetAlignment: template.titleStyle.alignment,
+        ...toFontOptions(template.titleStyle),
         addPrefix: template.titlePrefix,
         addSuffix: template.titleSuffix,
       };
-      finalBodyOptions = {
-        targetFontName: template.bodyStyle.fontName,
-        targetFontSize: template.bodyStyle.fontSize ? convertChineseFontSize(template.bodyStyle.fontSize) : undefined,
-        targetIsBold: template.bodyStyle.isBold,
-        targetIsItalic: template.bodyStyle.isItalic,
-        targetIsUnderline: template.bodyStyle.isUnderline,
-        targetColor: template.bodyStyle.color,
-        targetAlignment: template.bodyStyle.alignment,
-      };
+      finalBodyOptions = toFontOptions(template.bodyStyle);
       finalAuthorOptions = {
-        targetFontName: template.authorStyle.fontName,
-        targetFontSize: template.authorStyle.fontSize ? convertChineseFontSize(template.authorStyle.fontSize) : undefined,
-        targetIsBold: template.authorStyle.isBold,
-        targetIsItalic: template.authorStyle.isItalic,
-        targetIsUnderline: template.authorStyle.isUnderline,
-        targetColor: template.authorStyle.color,
-        targetAlignment: template.authorStyle.alignment,
+        ...toFontOptions(template.authorStyle),
         addPrefix: template.authorPrefix,
         addSuffix: template.authorSuffix,
       };
@@ -103,7 +209,121 @@ export async function POST(request: NextRequest) {
       finalAuthorOptions = authorOptions;
     }
 
-    const modifiedBuffer = await processor.modifyFonts(inputBuffer, finalTitleOptions, finalBodyOptions, finalAuthorOptions);
+    // 请求中显式指定的处理模式优先于模板设置
+    const processingOptions: DocumentProcessingOptions = {
+      mode: processingMode || template?.processingMode || 'regenerate',
+      preserveRunFormatting: template?.preserveRunFormatting,
+      fitImagesToPage: template?.fitImagesToPage,
+    };
+
+    if (template?.headingStyles) {
+      processingOptions.headings = template.headingStyles.map((style: TemplateStyle | null | undefined) => style ? toFontOptions(style) : undefined);
+    }
+
+    if (template?.tableStyle) {
+      processingOptions.table = {
+        ...template.tableStyle,
+        fontSize: template.tableStyle.fontSize ? convertChineseFontSize(template.tableStyle.fontSize) : undefined,
+      };
+    }
+
+    if (template?.listStyle) {
+      processingOptions.list = template.listStyle;
+    }
+
+    if (template?.footnoteStyle) {
+      processingOptions.footnote = toFontOptions(template.footnoteStyle);
+    }
+
+    if (template?.abstractStyle) {
+      const { labelStyle, contentStyle } = template.abstractStyle;
+      processingOptions.abstract = {
+        // 标签与内容在同一段落中，段落的对齐方式和段落格式沿用内容样式
+        labelStyle: { ...toFontOptions(labelStyle), targetAlignment: undefined, paragraphFormat: undefined },
+        contentStyle: toFontOptions(contentStyle),
+        keywordSeparator: template.abstractStyle.keywordSeparator || undefined,
+      };
+    }
+
+    if (template?.captionStyle) {
+      const { style } = template.captionStyle;
+      processingOptions.caption = {
+        style: toFontOptions(style),
+        numbering: template.captionStyle.numbering,
+        chapterSeparator: template.captionStyle.chapterSeparator || undefined,
+      };
+    }
+
+    if (template?.referenceStyle) {
+      const { style } = template.referenceStyle;
+      processingOptions.references = {
+        style: toFontOptions(style),
+      };
+    }
+
+    if (template?.headingNumbering) {
+      processingOptions.headingNumbering = template.headingNumbering;
+    }
+
+    if (template?.typography) {
+      processingOptions.typography = template.typography;
+    }
+
+    if (template?.hyperlinkStyle) {
+      processingOptions.hyperlink = template.hyperlinkStyle;
+    }
+
+    if (template?.headerFooter) {
+      processingOptions.headerFooter = {
+        ...template.headerFooter,
+        fontSize: template.headerFooter.fontSize ? convertChineseFontSize(template.headerFooter.fontSize) : undefined,
+      };
+    }
+
+    // 处理请求中的水印优先于模板设置
+    const watermarkSetting: TemplateWatermark | undefined = watermark ?? template?.watermark;
+    if (watermarkSetting) {
+      processingOptions.watermark = {
+        ...watermarkSetting,
+        fontSize: watermarkSetting.fontSize ? convertChineseFontSize(watermarkSetting.fontSize) : undefined,
+      };
+    }
+
+    // 处理请求中的文档属性优先于模板设置
+    const propertiesSetting: TemplateDocumentProperties | undefined = properties ?? template?.properties;
+    if (propertiesSetting) {
+      processingOptions.properties = propertiesSetting;
+    }
+
+    if (template?.officialDocument) {
+      processingOptions.officialDocument = {
+        ...template.officialDocument,
+        mastheadFontSize: template.officialDocument.mastheadFontSize
+          ? convertChineseFontSize(template.officialDocument.mastheadFontSize)
+          : undefined,
+      };
+    }
+
+    if (template?.pageSetup) {
+      processingOptions.page = template.pageSetup;
+    } else if (processingOptions.officialDocument) {
+      processingOptions.page = OFFICIAL_PAGE_SETUP;
+    }
+    // 公文版式未单独设置文档网格时使用每页 22 行、每行 28 字
+    if (processingOptions.officialDocument && processingOptions.page && !processingOptions.page.grid) {
+      processingOptions.page = { ...processingOptions.page, grid: OFFICIAL_DOCUMENT_GRID };
+    }
+
+    const modified = await processor.modifyFonts(sourceBuffer, finalTitleOptions, finalBodyOptions, finalAuthorOptions, processingOptions);
+    let modifiedBuffer = modified.buffer;
+
+    // 查找替换在格式处理之后进行，模板生成的页眉页脚文字同样参与替换
+    let replacementCount: number | undefined;
+    if (template?.replacements?.length) {
+      const replaced = await processor.replaceText(modifiedBuffer, template.replacements);
+      modifiedBuffer = replaced.buffer;
+      replacementCount = replaced.count;
+    }
 
     // 使用存储适配器保存处理后的文件
     const processedFileUrl = await storageAdapter.uploadProcessedFile(outputFileName, modifiedBuffer);
@@ -112,6 +332,10 @@ export async function POST(request: NextRequest) {
       success: true,
       processedFileUrl: processedFileUrl,
       processedFileName: outputFileName,
+      typography: modified.typography,
+      warnings: modified.warnings.length > 0 ? modified.warnings : undefined,
+      replacementCount,
+      sanitize: sanitizeReport,
     });
 
   } catch (error) {
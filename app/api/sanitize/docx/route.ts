@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { storageAdapter } from '@/lib/storage-adapter';
+import DocxProcessor from '@/lib/docx-processor-integrated';
+import * as path from 'path';
+import { SanitizeOptions } from '@/types/document-processing';
+
+// 对外发送前清理 .docx 文件，返回清理后的文件和清理掉的内容
+export async function POST(request: NextRequest) {
+  try {
+    const requestData = await request.json();
+    const { fileId, originalFileName, options } = requestData as {
+      fileId?: string;
+      originalFileName?: string;
+      options?: SanitizeOptions;
+    };
+
+    if (!fileId) {
+      return NextResponse.json({ success: false, error: '缺少文件ID' }, { status: 400 });
+    }
+
+    const inputBuffer = await storageAdapter.getFileContent(fileId);
+    if (!inputBuffer) {
+      return NextResponse.json({ success: false, error: '找不到指定的文件' }, { status: 404 });
+    }
+
+    const processor = new DocxProcessor();
+    const { buffer, report } = await processor.sanitize(inputBuffer, options);
+
+    const fileNameBase = path.parse(originalFileName || 'document').name.replace(/[\/\\:*?"<>|]/g, '_') || 'document';
+    const outputFileName = `${Date.now()}_${fileNameBase}.docx`;
+    const processedFileUrl = await storageAdapter.uploadProcessedFile(outputFileName, buffer);
+
+    return NextResponse.json({
+      success: true,
+      processedFileUrl,
+      processedFileName: outputFileName,
+      sanitize: report,
+    });
+  } catch (error) {
+    console.error('清理文档时出错:', error);
+    const errorMessage = error instanceof Error ? error.message : "未知错误";
+    return NextResponse.json({ success: false, error: `清理失败: ${errorMessage}` }, { status: 500 });
+  }
+}
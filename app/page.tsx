@@ -79,7 +79,9 @@ export default function HomePage() {
   const handleUpload = () => fileManagement.handleUpload(addToast);
   const handleDownloadAllProcessedFiles = () => fileManagement.downloadAllProcessedFiles(addToast);
   const handleClearAllFiles = () => fileManagement.clearAllFiles(addToast);
-  const handleAnalyzeDocument = (fileId: string) => documentAnalysis.analyzeDocument(fileId, addToast);
+  const handleAnalyzeDocument = (fileId: string) => documentAnalysis.analyzeDocument(
+    fileId, addToast, fileManagement.setProcessedDocuments, templateManagement.selectedTemplate.typography
+  );
 
   return (
     <main className="container mx-auto p-4 md:p-8 lg:p-12">
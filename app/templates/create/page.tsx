@@ -12,10 +12,229 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { FontSizeSelector } from "@/components/ui/font-size-selector";
-import { DocumentTemplate, TemplateStyle } from "@/app/types";
+import { DocumentTemplate, TemplateStyle, TemplateTableStyle, TemplatePageSetup, TemplateParagraphFormat, TemplateIndent, TemplateListStyle, TemplateListLevel, TemplateHyperlinkStyle, TemplateHeaderFooter, TemplateHeaderFooterText, TemplateOfficialDocument, TemplateAbstractStyle, TemplateCaptionStyle, TemplateReferenceStyle, TemplateTypography, TemplateReplacementRule, TemplateHeadingNumbering, TemplateWatermark, TemplateDocumentProperties, TemplateCustomProperty, TemplateSanitize } from "@/app/types";
 import { generateUUID } from "@/lib/utils";
+import { paperSizeMap } from "@/lib/page-utils";
+import { listNumberFormatMap } from "@/lib/list-format";
+import { compileReplacementRule } from "@/lib/text-replace";
+import { resolveCustomProperty } from "@/lib/document-properties";
+import { hasPlaceholders } from "@/lib/header-footer";
 import { useToast } from "@/components/ui/toast";
 
+const selectClassName = "w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-zinc-800 dark:border-zinc-600";
+
+// 缩进输入（数值 + 单位）
+const IndentInput = ({
+  id,
+  value,
+  onChange
+}: {
+  id: string;
+  value?: TemplateIndent;
+  onChange: (value: TemplateIndent | undefined) => void;
+}) => (
+  <div className="flex space-x-2">
+    <Input
+      id={id}
+      type="number"
+      min={0}
+      step={0.5}
+      placeholder="0"
+      value={value?.value ?? ""}
+      onChange={(e) => onChange(e.target.value === "" ? undefined : {
+        value: parseFloat(e.target.value) || 0,
+        unit: value?.unit || 'char'
+      })}
+    />
+    <select
+      className="px-2 py-2 border border-gray-300 rounded-md dark:bg-zinc-800 dark:border-zinc-600"
+      value={value?.unit || 'char'}
+      onChange={(e) => value && onChange({...value, unit: e.target.value as TemplateIndent['unit']})}
+    >
+      <option value="char">字符</option>
+      <option value="mm">毫米</option>
+    </select>
+  </div>
+);
+
+// 段落格式配置（缩进、段间距、行距）
+const ParagraphFormatFields = ({
+  idPrefix,
+  format,
+  onChange
+}: {
+  idPrefix: string;
+  format: TemplateParagraphFormat;
+  onChange: (format: TemplateParagraphFormat) => void;
+}) => {
+  const specialIndent = format.hangingIndent ? 'hanging' : format.firstLineIndent ? 'firstLine' : 'none';
+  const lineSpacing = format.lineSpacing;
+
+  const handleSpecialIndentChange = (type: string) => {
+    const current = format.hangingIndent || format.firstLineIndent || { value: 2, unit: 'char' as const };
+    onChange({
+      ...format,
+      firstLineIndent: type === 'firstLine' ? current : undefined,
+      hangingIndent: type === 'hanging' ? current : undefined,
+    });
+  };
+
+  const handleNumberChange = (key: 'spaceBefore' | 'spaceAfter', value: string) => {
+    onChange({...format, [key]: value === "" ? undefined : parseFloat(value) || 0});
+  };
+
+  const handleLineRuleChange = (rule: string) => {
+    if (!rule) {
+      onChange({...format, lineSpacing: undefined});
+      return;
+    }
+    const defaultValues: Record<string, number | undefined> = { single: undefined, multiple: 1.5, exact: 28, atLeast: 12 };
+    onChange({
+      ...format,
+      lineSpacing: { rule: rule as NonNullable<TemplateParagraphFormat['lineSpacing']>['rule'], value: defaultValues[rule] }
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor={`${idPrefix}-specialIndent`}>特殊格式</Label>
+          <select
+            id={`${idPrefix}-specialIndent`}
+            className={selectClassName}
+            value={specialIndent}
+            onChange={(e) => handleSpecialIndentChange(e.target.value)}
+          >
+            <option value="none">无</option>
+            <option value="firstLine">首行缩进</option>
+            <option value="hanging">悬挂缩进</option>
+          </select>
+        </div>
+        {specialIndent !== 'none' && (
+          <div>
+            <Label htmlFor={`${idPrefix}-specialIndentValue`}>缩进值</Label>
+            <IndentInput
+              id={`${idPrefix}-specialIndentValue`}
+              value={format.hangingIndent || format.firstLineIndent}
+              onChange={(value) => onChange(specialIndent === 'hanging'
+                ? {...format, hangingIndent: value}
+                : {...format, firstLineIndent: value})}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor={`${idPrefix}-leftIndent`}>左缩进</Label>
+          <IndentInput
+            id={`${idPrefix}-leftIndent`}
+            value={format.leftIndent}
+            onChange={(value) => onChange({...format, leftIndent: value})}
+          />
+        </div>
+        <div>
+          <Label htmlFor={`${idPrefix}-rightIndent`}>右缩进</Label>
+          <IndentInput
+            id={`${idPrefix}-rightIndent`}
+            value={format.rightIndent}
+            onChange={(value) => onChange({...format, rightIndent: value})}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-4 gap-3">
+        <div>
+          <Label htmlFor={`${idPrefix}-spaceBefore`}>段前（磅）</Label>
+          <Input
+            id={`${idPrefix}-spaceBefore`}
+            type="number"
+            min={0}
+            step={0.5}
+            value={format.spaceBefore ?? ""}
+            onChange={(e) => handleNumberChange('spaceBefore', e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor={`${idPrefix}-spaceAfter`}>段后（磅）</Label>
+          <Input
+            id={`${idPrefix}-spaceAfter`}
+            type="number"
+            min={0}
+            step={0.5}
+            value={format.spaceAfter ?? ""}
+            onChange={(e) => handleNumberChange('spaceAfter', e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor={`${idPrefix}-lineRule`}>行距</Label>
+          <select
+            id={`${idPrefix}-lineRule`}
+            className={selectClassName}
+            value={lineSpacing?.rule || ""}
+            onChange={(e) => handleLineRuleChange(e.target.value)}
+          >
+            <option value="">保持原样</option>
+            <option value="single">单倍行距</option>
+            <option value="multiple">多倍行距</option>
+            <option value="exact">固定值</option>
+            <option value="atLeast">最小值</option>
+          </select>
+        </div>
+        {lineSpacing && lineSpacing.rule !== 'single' && (
+          <div>
+            <Label htmlFor={`${idPrefix}-lineValue`}>{lineSpacing.rule === 'multiple' ? '设置值（倍）' : '设置值（磅）'}</Label>
+            <Input
+              id={`${idPrefix}-lineValue`}
+              type="number"
+              min={0}
+              step={lineSpacing.rule === 'multiple' ? 0.25 : 1}
+              value={lineSpacing.value ?? ""}
+              onChange={(e) => onChange({...format, lineSpacing: {...lineSpacing, value: parseFloat(e.target.value) || undefined}})}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const runFontSlots: { key: keyof NonNullable<TemplateStyle['fonts']>; label: string; placeholder: string }[] = [
+  { key: 'eastAsia', label: '中文字体', placeholder: '同字体名称' },
+  { key: 'ascii', label: '西文和数字字体', placeholder: '例如：Times New Roman' },
+  { key: 'hAnsi', label: '其他西文字符', placeholder: '同西文字体' },
+  { key: 'cs', label: '复杂文种字体', placeholder: '同西文字体' },
+];
+
+// 按文种分别设置字体的输入，清空的槽位不保存
+const RunFontsInput = ({
+  id,
+  value,
+  onChange
+}: {
+  id: string;
+  value?: TemplateStyle['fonts'];
+  onChange: (value: TemplateStyle['fonts']) => void;
+}) => (
+  <div className="grid grid-cols-2 gap-3">
+    {runFontSlots.map(slot => (
+      <div key={slot.key}>
+        <Label htmlFor={`${id}-${slot.key}`}>{slot.label}</Label>
+        <Input
+          id={`${id}-${slot.key}`}
+          placeholder={slot.placeholder}
+          value={value?.[slot.key] || ""}
+          onChange={(e) => {
+            const fonts = { ...value, [slot.key]: e.target.value || undefined };
+            onChange(Object.values(fonts).some(Boolean) ? fonts : undefined);
+          }}
+        />
+      </div>
+    ))}
+  </div>
+);
+
 // 字体样式配置组件 - 使用React.memo防止不必要的重新渲染
 const StyleConfigSection = React.memo(({ 
   title, 
@@ -40,6 +259,10 @@ const StyleConfigSection = React.memo(({
     setStyle({...style, fontName: e.target.value});
   }, [style, setStyle]);
 
+  const handleFontsChange = useCallback((fonts: TemplateStyle['fonts']) => {
+    setStyle({...style, fonts});
+  }, [style, setStyle]);
+
   const handleColorChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     setStyle({...style, color: e.target.value});
   }, [style, setStyle]);
@@ -72,11 +295,15 @@ const StyleConfigSection = React.memo(({
     if (setSuffix) setSuffix(e.target.value);
   }, [setSuffix]);
 
+  const handleParagraphFormatChange = useCallback((paragraphFormat: TemplateParagraphFormat) => {
+    setStyle({...style, paragraphFormat});
+  }, [style, setStyle]);
+
   return (
     <Card>
       <CardHeader>
         <CardTitle>{title}样式配置</CardTitle>
-        <CardDescription>配置{title}的字体、大小、样式和对齐方式</CardDescription>
+        <CardDescription>配置{title}的字体、大小、样式、对齐方式和段落格式</CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
         <div className="grid grid-cols-2 gap-3">
@@ -100,6 +327,13 @@ const StyleConfigSection = React.memo(({
           </div>
         </div>
 
+        <details open={!!style.fonts}>
+          <summary className="cursor-pointer text-sm text-zinc-600 dark:text-zinc-400">分别设置中文和西文字体</summary>
+          <div className="mt-2">
+            <RunFontsInput id={`${title}-fonts`} value={style.fonts} onChange={handleFontsChange} />
+          </div>
+        </details>
+
         <div className="grid grid-cols-2 gap-3">
           <div>
             <Label htmlFor={`${title}-color`}>字体颜色</Label>
@@ -164,6 +398,12 @@ const StyleConfigSection = React.memo(({
           </label>
         </div>
 
+        <ParagraphFormatFields
+          idPrefix={title}
+          format={style.paragraphFormat || {}}
+          onChange={handleParagraphFormatChange}
+        />
+
         {showPrefix && prefix !== undefined && setPrefix && suffix !== undefined && setSuffix && (
           <div className="grid grid-cols-2 gap-3">
             <div>
@@ -193,6 +433,1877 @@ const StyleConfigSection = React.memo(({
 
 StyleConfigSection.displayName = 'StyleConfigSection';
 
+
+const defaultBodyParagraphFormat: TemplateParagraphFormat = {
+  firstLineIndent: { value: 2, unit: 'char' },
+  spaceBefore: 0,
+  spaceAfter: 0,
+  lineSpacing: { rule: 'multiple', value: 1.5 },
+};
+
+const headingLevelLabels = ["一级标题", "二级标题", "三级标题", "四级标题"];
+
+const defaultHeadingStyles: TemplateStyle[] = [
+  { fontName: "黑体", fontSize: "三号", isBold: true, isItalic: false, isUnderline: false, color: "#000000", alignment: "left" },
+  { fontName: "楷体", fontSize: "四号", isBold: true, isItalic: false, isUnderline: false, color: "#000000", alignment: "left" },
+  { fontName: "宋体", fontSize: "小四", isBold: true, isItalic: false, isUnderline: false, color: "#000000", alignment: "left" },
+  { fontName: "宋体", fontSize: "小四", isBold: false, isItalic: false, isUnderline: false, color: "#000000", alignment: "left" },
+];
+
+// 各级标题启用开关组件
+const HeadingLevelsSection = React.memo(({
+  enabledLevels,
+  setEnabledLevels
+}: {
+  enabledLevels: boolean[];
+  setEnabledLevels: (value: boolean[]) => void;
+}) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>各级标题</CardTitle>
+      <CardDescription>
+        根据 Word 标题样式、大纲级别和“一、”“（一）”“1.”“（1）”等编号识别一至四级标题，未启用的级别按正文处理
+      </CardDescription>
+    </CardHeader>
+    <CardContent>
+      <div className="flex flex-wrap gap-4">
+        {headingLevelLabels.map((label, index) => (
+          <label key={label} className="flex items-center">
+            <input
+              type="checkbox"
+              checked={enabledLevels[index]}
+              onChange={(e) => setEnabledLevels(enabledLevels.map((enabled, i) => i === index ? e.target.checked : enabled))}
+              className="mr-2"
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+    </CardContent>
+  </Card>
+));
+
+HeadingLevelsSection.displayName = 'HeadingLevelsSection';
+
+const defaultHeadingNumbering: TemplateHeadingNumbering = {
+  levels: ["chineseComma", "chineseParen", "decimal", "decimalParen"],
+  mode: "text",
+};
+
+const HEADING_NUMBER_FORMATS: { value: NonNullable<TemplateHeadingNumbering['levels'][number]>; label: string }[] = [
+  { value: "chineseComma", label: "一、" },
+  { value: "chineseParen", label: "（一）" },
+  { value: "decimal", label: "1." },
+  { value: "decimalParen", label: "（1）" },
+  { value: "chapter", label: "第一章 / 第一节" },
+  { value: "outline", label: "1.1 多级数字" },
+];
+
+// 标题编号配置组件
+const HeadingNumberingSection = React.memo(({
+  enabled,
+  setEnabled,
+  config,
+  setConfig
+}: {
+  enabled: boolean;
+  setEnabled: (value: boolean) => void;
+  config: TemplateHeadingNumbering;
+  setConfig: (config: TemplateHeadingNumbering) => void;
+}) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>标题编号</CardTitle>
+      <CardDescription>删除标题原有的手动编号和自动编号，按各级格式重新编号；目录、摘要、参考文献、致谢和附录等标题不编号</CardDescription>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+          className="mr-2"
+        />
+        统一标题编号
+      </label>
+      {enabled && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {headingLevelLabels.map((label, index) => (
+              <div key={label}>
+                <Label htmlFor={`heading-numbering-${index}`}>{label}</Label>
+                <select
+                  id={`heading-numbering-${index}`}
+                  className={selectClassName}
+                  value={config.levels[index] || ""}
+                  onChange={(e) => setConfig({
+                    ...config,
+                    levels: headingLevelLabels.map((_, i) => i === index
+                      ? (e.target.value || undefined) as TemplateHeadingNumbering['levels'][number]
+                      : config.levels[i])
+                  })}
+                >
+                  <option value="">保持原样</option>
+                  {HEADING_NUMBER_FORMATS.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          <div>
+            <Label htmlFor="heading-numbering-mode">编号方式</Label>
+            <select
+              id="heading-numbering-mode"
+              className={selectClassName}
+              value={config.mode}
+              onChange={(e) => setConfig({ ...config, mode: e.target.value as TemplateHeadingNumbering['mode'] })}
+            >
+              <option value="text">写成文字</option>
+              <option value="word">Word 自动编号（多级列表）</option>
+            </select>
+          </div>
+        </div>
+      )}
+    </CardContent>
+  </Card>
+));
+
+HeadingNumberingSection.displayName = 'HeadingNumberingSection';
+
+const defaultFootnoteStyle: TemplateStyle = {
+  fontName: "宋体",
+  fontSize: "小五",
+  isBold: false,
+  isItalic: false,
+  isUnderline: false,
+  color: "#000000",
+  alignment: "justify",
+};
+
+// 脚注和尾注样式启用开关组件
+const FootnoteSection = React.memo(({
+  enabled,
+  setEnabled
+}: {
+  enabled: boolean;
+  setEnabled: (value: boolean) => void;
+}) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>脚注和尾注</CardTitle>
+      <CardDescription>
+        脚注和尾注始终随文档保留，未设置样式时使用正文字体和比正文小的字号
+      </CardDescription>
+    </CardHeader>
+    <CardContent>
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+          className="mr-2"
+        />
+        设置脚注和尾注文字样式
+      </label>
+    </CardContent>
+  </Card>
+));
+
+FootnoteSection.displayName = 'FootnoteSection';
+
+const defaultAbstractStyle: TemplateAbstractStyle = {
+  labelStyle: {
+    fontName: "黑体",
+    fontSize: "五号",
+    isBold: true,
+    isItalic: false,
+    isUnderline: false,
+    color: "#000000",
+  },
+  contentStyle: {
+    fontName: "楷体",
+    fontSize: "五号",
+    isBold: false,
+    isItalic: false,
+    isUnderline: false,
+    color: "#000000",
+    alignment: "justify",
+  },
+  keywordSeparator: "；",
+};
+
+// 摘要和关键词样式启用开关和关键词分隔符
+const AbstractSection = React.memo(({
+  enabled,
+  setEnabled,
+  style,
+  setStyle
+}: {
+  enabled: boolean;
+  setEnabled: (value: boolean) => void;
+  style: TemplateAbstractStyle;
+  setStyle: (style: TemplateAbstractStyle) => void;
+}) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>摘要和关键词</CardTitle>
+      <CardDescription>
+        识别“摘要：”“关键词：”“Abstract:”“Keywords:”等段落，标签和内容分别使用不同的样式
+      </CardDescription>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+          className="mr-2"
+        />
+        设置摘要和关键词样式
+      </label>
+      {enabled && (
+        <div className="space-y-2">
+          <Label htmlFor="keyword-separator">中文关键词分隔符</Label>
+          <Input
+            id="keyword-separator"
+            value={style.keywordSeparator || ""}
+            onChange={(e) => setStyle({ ...style, keywordSeparator: e.target.value })}
+            placeholder="；"
+            className="w-24"
+          />
+          <p className="text-xs text-zinc-500">英文关键词统一使用“; ”分隔</p>
+        </div>
+      )}
+    </CardContent>
+  </Card>
+));
+
+AbstractSection.displayName = 'AbstractSection';
+
+const defaultCaptionStyle: TemplateCaptionStyle = {
+  style: {
+    fontName: "黑体",
+    fontSize: "五号",
+    isBold: false,
+    isItalic: false,
+    isUnderline: false,
+    color: "#000000",
+    alignment: "center",
+  },
+  numbering: "keep",
+  chapterSeparator: "-",
+};
+
+// 图表题注样式启用开关和编号方式
+const CaptionSection = React.memo(({
+  enabled,
+  setEnabled,
+  style,
+  setStyle
+}: {
+  enabled: boolean;
+  setEnabled: (value: boolean) => void;
+  style: TemplateCaptionStyle;
+  setStyle: (style: TemplateCaptionStyle) => void;
+}) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>图表题注</CardTitle>
+      <CardDescription>
+        识别“图1 系统架构”“表 2-1 参数”等题注，关联到所属的图片和表格并保持在同一页
+      </CardDescription>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+          className="mr-2"
+        />
+        设置图表题注样式
+      </label>
+      {enabled && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="caption-numbering">编号方式</Label>
+            <select
+              id="caption-numbering"
+              className={selectClassName}
+              value={style.numbering}
+              onChange={(e) => setStyle({ ...style, numbering: e.target.value as TemplateCaptionStyle['numbering'] })}
+            >
+              <option value="keep">保留原编号</option>
+              <option value="sequential">全文顺序编号（图1、图2）</option>
+              <option value="chapter">按章编号（图2-1、图2-2）</option>
+            </select>
+          </div>
+          {style.numbering === "chapter" && (
+            <div>
+              <Label htmlFor="caption-separator">章号分隔符</Label>
+              <Input
+                id="caption-separator"
+                value={style.chapterSeparator || ""}
+                onChange={(e) => setStyle({ ...style, chapterSeparator: e.target.value })}
+                placeholder="-"
+                className="w-24"
+              />
+            </div>
+          )}
+          {style.numbering !== "keep" && (
+            <p className="col-span-2 text-xs text-zinc-500">按一级标题计章，正文中“如图3所示”等引用的编号同步改写</p>
+          )}
+        </div>
+      )}
+    </CardContent>
+  </Card>
+));
+
+CaptionSection.displayName = 'CaptionSection';
+
+const defaultReferenceStyle: TemplateReferenceStyle = {
+  style: {
+    fontName: "宋体",
+    fontSize: "五号",
+    isBold: false,
+    isItalic: false,
+    isUnderline: false,
+    color: "#000000",
+    alignment: "left",
+  },
+};
+
+// 参考文献样式启用开关
+const ReferenceSection = React.memo(({
+  enabled,
+  setEnabled
+}: {
+  enabled: boolean;
+  setEnabled: (value: boolean) => void;
+}) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>参考文献</CardTitle>
+      <CardDescription>
+        识别“参考文献”标题之后的条目，按 GB/T 7714 重新著录并以 [1]、[2] 顺序编号，无法解析的条目会在分析结果中列出
+      </CardDescription>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+          className="mr-2"
+        />
+        设置参考文献样式
+      </label>
+      {enabled && (
+        <p className="text-xs text-zinc-500">未设置段落格式时条目悬挂缩进两个字符</p>
+      )}
+    </CardContent>
+  </Card>
+));
+
+ReferenceSection.displayName = 'ReferenceSection';
+
+const defaultTypography: TemplateTypography = {
+  punctuationWidth: true,
+  ellipsis: true,
+  quotes: "curly",
+  cjkSpaces: true,
+};
+
+const TYPOGRAPHY_TOGGLES: { key: 'punctuationWidth' | 'ellipsis' | 'cjkSpaces'; label: string }[] = [
+  { key: "punctuationWidth", label: "中文语境用全角标点，英文语境用半角标点" },
+  { key: "ellipsis", label: "“...”改为“……”" },
+  { key: "cjkSpaces", label: "删除汉字之间多余的空格" },
+];
+
+// 中文排版规范化配置组件
+const TypographySection = React.memo(({
+  enabled,
+  setEnabled,
+  config,
+  setConfig
+}: {
+  enabled: boolean;
+  setEnabled: (value: boolean) => void;
+  config: TemplateTypography;
+  setConfig: (config: TemplateTypography) => void;
+}) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>排版规范化</CardTitle>
+      <CardDescription>统一标点、省略号、引号和空格，参考文献条目不参与；处理结果中列出各规则的替换次数</CardDescription>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+          className="mr-2"
+        />
+        规范化正文文字
+      </label>
+      {enabled && (
+        <div className="space-y-3">
+          {TYPOGRAPHY_TOGGLES.map(({ key, label }) => (
+            <label key={key} className="flex items-center">
+              <input
+                type="checkbox"
+                checked={!!config[key]}
+                onChange={(e) => setConfig({ ...config, [key]: e.target.checked })}
+                className="mr-2"
+              />
+              {label}
+            </label>
+          ))}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="typography-quotes">引号</Label>
+              <select
+                id="typography-quotes"
+                className={selectClassName}
+                value={config.quotes || ""}
+                onChange={(e) => setConfig({ ...config, quotes: (e.target.value || undefined) as TemplateTypography['quotes'] })}
+              >
+                <option value="">保持原样</option>
+                <option value="curly">“”‘’</option>
+                <option value="corner">「」『』</option>
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="typography-spacing">汉字与英文、数字之间</Label>
+              <select
+                id="typography-spacing"
+                className={selectClassName}
+                value={config.cjkLatinSpacing || ""}
+                onChange={(e) => setConfig({ ...config, cjkLatinSpacing: (e.target.value || undefined) as TemplateTypography['cjkLatinSpacing'] })}
+              >
+                <option value="">保持原样</option>
+                <option value="insert">加空格</option>
+                <option value="remove">去掉空格</option>
+              </select>
+            </div>
+          </div>
+        </div>
+      )}
+    </CardContent>
+  </Card>
+));
+
+TypographySection.displayName = 'TypographySection';
+
+// 规则无效时返回错误说明
+const getReplacementRuleError = (rule: TemplateReplacementRule): string | undefined => {
+  if (!rule.regex || !rule.find) return undefined;
+  try {
+    compileReplacementRule(rule);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+// 查找替换规则编辑组件，规则按列表顺序依次应用
+const ReplacementRulesSection = React.memo(({
+  rules,
+  setRules
+}: {
+  rules: TemplateReplacementRule[];
+  setRules: (rules: TemplateReplacementRule[]) => void;
+}) => {
+  const updateRule = (index: number, rule: TemplateReplacementRule) =>
+    setRules(rules.map((r, i) => i === index ? rule : r));
+  const moveRule = (index: number, offset: number) => {
+    const next = [...rules];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setRules(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>查找替换</CardTitle>
+        <CardDescription>
+          按顺序替换正文、表格、页眉页脚和脚注中的文字，可匹配跨越不同格式的文字，如统一机构名称、旧术语和日期格式
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rules.map((rule, index) => {
+          const error = getReplacementRuleError(rule);
+          return (
+            <div key={index} className="space-y-2 border-b pb-4 last:border-b-0">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor={`replacement-find-${index}`}>查找</Label>
+                  <Input
+                    id={`replacement-find-${index}`}
+                    value={rule.find}
+                    onChange={(e) => updateRule(index, { ...rule, find: e.target.value })}
+                    placeholder={rule.regex ? "(\\d{4})\\.(\\d{1,2})\\.(\\d{1,2})" : "原文字"}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`replacement-replace-${index}`}>替换为</Label>
+                  <Input
+                    id={`replacement-replace-${index}`}
+                    value={rule.replace}
+                    onChange={(e) => updateRule(index, { ...rule, replace: e.target.value })}
+                    placeholder={rule.regex ? "$1年$2月$3日" : "新文字"}
+                  />
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-4">
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={!!rule.regex}
+                    onChange={(e) => updateRule(index, { ...rule, regex: e.target.checked })}
+                    className="mr-2"
+                  />
+                  正则表达式
+                </label>
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={!!rule.ignoreCase}
+                    onChange={(e) => updateRule(index, { ...rule, ignoreCase: e.target.checked })}
+                    className="mr-2"
+                  />
+                  不区分大小写
+                </label>
+                <Button type="button" variant="outline" size="sm" disabled={index === 0} onClick={() => moveRule(index, -1)}>
+                  上移
+                </Button>
+                <Button type="button" variant="outline" size="sm" disabled={index === rules.length - 1} onClick={() => moveRule(index, 1)}>
+                  下移
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={() => setRules(rules.filter((_, i) => i !== index))}>
+                  删除
+                </Button>
+              </div>
+              {error && <p className="text-xs text-red-600">{error}</p>}
+            </div>
+          );
+        })}
+        <Button type="button" variant="outline" size="sm" onClick={() => setRules([...rules, { find: "", replace: "" }])}>
+          添加规则
+        </Button>
+      </CardContent>
+    </Card>
+  );
+});
+
+ReplacementRulesSection.displayName = 'ReplacementRulesSection';
+
+const defaultHyperlinkStyle: TemplateHyperlinkStyle = {
+  color: "#0563C1",
+  isUnderline: true,
+};
+
+// 超链接样式配置组件
+const HyperlinkStyleConfigSection = React.memo(({
+  enabled,
+  setEnabled,
+  style,
+  setStyle
+}: {
+  enabled: boolean;
+  setEnabled: (value: boolean) => void;
+  style: TemplateHyperlinkStyle;
+  setStyle: (style: TemplateHyperlinkStyle) => void;
+}) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>超链接样式</CardTitle>
+      <CardDescription>超链接、书签和交叉引用始终随文档保留，可统一超链接的颜色和下划线</CardDescription>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          className="h-4 w-4 rounded border-gray-300"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+        />
+        <span className="ml-2">统一超链接样式</span>
+      </label>
+
+      {enabled && (
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <Label htmlFor="hyperlink-color">文字颜色</Label>
+            <Input
+              id="hyperlink-color"
+              type="color"
+              value={style.color}
+              onChange={(e) => setStyle({...style, color: e.target.value})}
+              className="w-16 h-8"
+            />
+          </div>
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={style.isUnderline}
+              onChange={(e) => setStyle({...style, isUnderline: e.target.checked})}
+              className="mr-2"
+            />
+            下划线
+          </label>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setStyle({ color: "#000000", isUnderline: false })}
+          >
+            黑色无下划线（适合打印）
+          </Button>
+        </div>
+      )}
+    </CardContent>
+  </Card>
+));
+
+HyperlinkStyleConfigSection.displayName = 'HyperlinkStyleConfigSection';
+
+const defaultHeaderFooter: TemplateHeaderFooter = {
+  keepOriginal: false,
+  header: { text: "{title}", alignment: "center" },
+  footer: { alignment: "center" },
+  pageNumber: { style: "dashed", position: "outside" },
+  differentFirstPage: false,
+  differentOddEven: false,
+  fontName: "宋体",
+  fontSize: "四号",
+};
+
+// 页眉或页脚文字输入，按是否首页不同、奇偶页不同显示对应的输入框
+const HeaderFooterTextInput = ({
+  id,
+  label,
+  value,
+  onChange,
+  showFirst,
+  showEven
+}: {
+  id: string;
+  label: string;
+  value?: TemplateHeaderFooterText;
+  onChange: (value: TemplateHeaderFooterText) => void;
+  showFirst: boolean;
+  showEven: boolean;
+}) => (
+  <div className="space-y-2">
+    <div className="grid grid-cols-4 gap-3">
+      <div className="col-span-3">
+        <Label htmlFor={`${id}-text`}>{showEven ? `${label}（奇数页）` : label}</Label>
+        <Input
+          id={`${id}-text`}
+          placeholder="例如：{title}，留空则不显示"
+          value={value?.text || ""}
+          onChange={(e) => onChange({...value, text: e.target.value})}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${id}-alignment`}>对齐</Label>
+        <select
+          id={`${id}-alignment`}
+          className={selectClassName}
+          value={value?.alignment || "center"}
+          onChange={(e) => onChange({...value, alignment: e.target.value as TemplateHeaderFooterText['alignment']})}
+        >
+          <option value="left">左对齐</option>
+          <option value="center">居中</option>
+          <option value="right">右对齐</option>
+        </select>
+      </div>
+    </div>
+    {showEven && (
+      <div>
+        <Label htmlFor={`${id}-evenText`}>{label}（偶数页）</Label>
+        <Input
+          id={`${id}-evenText`}
+          placeholder="留空则与奇数页相同"
+          value={value?.evenText || ""}
+          onChange={(e) => onChange({...value, evenText: e.target.value})}
+        />
+      </div>
+    )}
+    {showFirst && (
+      <div>
+        <Label htmlFor={`${id}-firstText`}>{label}（首页）</Label>
+        <Input
+          id={`${id}-firstText`}
+          placeholder="留空则首页不显示"
+          value={value?.firstText || ""}
+          onChange={(e) => onChange({...value, firstText: e.target.value})}
+        />
+      </div>
+    )}
+  </div>
+);
+
+// 页眉页脚和页码配置组件
+const HeaderFooterConfigSection = React.memo(({
+  enabled,
+  setEnabled,
+  config,
+  setConfig
+}: {
+  enabled: boolean;
+  setEnabled: (value: boolean) => void;
+  config: TemplateHeaderFooter;
+  setConfig: (config: TemplateHeaderFooter) => void;
+}) => {
+  const update = useCallback(<K extends keyof TemplateHeaderFooter>(key: K, value: TemplateHeaderFooter[K]) => {
+    setConfig({...config, [key]: value});
+  }, [config, setConfig]);
+  const pageNumber = config.pageNumber;
+  // 页码位于外侧时奇偶页的页码位置不同，自动启用奇偶页不同
+  const showEven = !!config.differentOddEven || pageNumber?.position === 'outside';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>页眉页脚和页码</CardTitle>
+        <CardDescription>
+          文字中可使用 {"{title}"}（文档标题）、{"{author}"}（作者）、{"{date}"}（处理日期）占位符，页码输出为 Word 页码域
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            className="h-4 w-4 rounded border-gray-300"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+          />
+          <span className="ml-2">设置页眉页脚</span>
+        </label>
+
+        {enabled && (
+          <>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={!!config.keepOriginal}
+                onChange={(e) => update('keepOriginal', e.target.checked)}
+                className="mr-2"
+              />
+              保留原文档的页眉页脚
+            </label>
+
+            {!config.keepOriginal && (
+              <>
+                <div className="flex flex-wrap gap-4">
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={!!config.differentFirstPage}
+                      onChange={(e) => update('differentFirstPage', e.target.checked)}
+                      className="mr-2"
+                    />
+                    首页不同（首页不显示页码）
+                  </label>
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={showEven}
+                      disabled={pageNumber?.position === 'outside'}
+                      onChange={(e) => update('differentOddEven', e.target.checked)}
+                      className="mr-2"
+                    />
+                    奇偶页不同
+                  </label>
+                </div>
+
+                <HeaderFooterTextInput
+                  id="header"
+                  label="页眉"
+                  value={config.header}
+                  onChange={(value) => update('header', value)}
+                  showFirst={!!config.differentFirstPage}
+                  showEven={showEven}
+                />
+                <HeaderFooterTextInput
+                  id="footer"
+                  label="页脚"
+                  value={config.footer}
+                  onChange={(value) => update('footer', value)}
+                  showFirst={!!config.differentFirstPage}
+                  showEven={showEven}
+                />
+
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={!!pageNumber}
+                    onChange={(e) => update('pageNumber', e.target.checked ? defaultHeaderFooter.pageNumber : undefined)}
+                    className="mr-2"
+                  />
+                  在页脚显示页码
+                </label>
+                {pageNumber && (
+                  <div className="grid grid-cols-3 gap-3">
+                    <div>
+                      <Label htmlFor="pageNumber-style">页码格式</Label>
+                      <select
+                        id="pageNumber-style"
+                        className={selectClassName}
+                        value={pageNumber.style}
+                        onChange={(e) => update('pageNumber', {...pageNumber, style: e.target.value as typeof pageNumber.style})}
+                      >
+                        <option value="plain">1</option>
+                        <option value="dashed">— 1 —（公文）</option>
+                        <option value="chinese">第 1 页</option>
+                      </select>
+                    </div>
+                    <div>
+                      <Label htmlFor="pageNumber-position">页码位置</Label>
+                      <select
+                        id="pageNumber-position"
+                        className={selectClassName}
+                        value={pageNumber.position}
+                        onChange={(e) => update('pageNumber', {...pageNumber, position: e.target.value as typeof pageNumber.position})}
+                      >
+                        <option value="left">左侧</option>
+                        <option value="center">居中</option>
+                        <option value="right">右侧</option>
+                        <option value="outside">外侧（奇数页居右、偶数页居左）</option>
+                      </select>
+                    </div>
+                    <div>
+                      <Label htmlFor="pageNumber-frontMatter">前置部分页码</Label>
+                      <select
+                        id="pageNumber-frontMatter"
+                        className={selectClassName}
+                        value={pageNumber.frontMatterFormat || ""}
+                        onChange={(e) => update('pageNumber', {
+                          ...pageNumber,
+                          frontMatterFormat: (e.target.value || undefined) as typeof pageNumber.frontMatterFormat
+                        })}
+                      >
+                        <option value="">与正文连续编号</option>
+                        <option value="upperRoman">I II III（正文从 1 开始）</option>
+                        <option value="lowerRoman">i ii iii（正文从 1 开始）</option>
+                      </select>
+                    </div>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label htmlFor="headerFooter-fontName">页眉页脚字体</Label>
+                    <Input
+                      id="headerFooter-fontName"
+                      placeholder="例如：宋体"
+                      value={config.fontName || ""}
+                      onChange={(e) => update('fontName', e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <FontSizeSelector
+                      id="headerFooter-fontSize"
+                      label=""
+                      placeholder="例如：四号、14"
+                      value={config.fontSize || ""}
+                      onChange={(value) => update('fontSize', value)}
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+
+HeaderFooterConfigSection.displayName = 'HeaderFooterConfigSection';
+
+const defaultWatermark: TemplateWatermark = {
+  type: "text",
+  text: "内部资料",
+  fontName: "宋体",
+  fontSize: "54pt",
+  color: "#C0C0C0",
+  opacity: 0.5,
+  rotation: 45,
+};
+
+// 水印配置组件，水印写入页眉，每页都会显示
+const WatermarkConfigSection = React.memo(({
+  enabled,
+  setEnabled,
+  config,
+  setConfig
+}: {
+  enabled: boolean;
+  setEnabled: (value: boolean) => void;
+  config: TemplateWatermark;
+  setConfig: (config: TemplateWatermark) => void;
+}) => {
+  const update = useCallback(<K extends keyof TemplateWatermark>(key: K, value: TemplateWatermark[K]) => {
+    setConfig({...config, [key]: value});
+  }, [config, setConfig]);
+
+  const handleTypeChange = useCallback((type: TemplateWatermark['type']) => {
+    // 图片水印默认不旋转，文字水印默认斜 45 度
+    setConfig({...config, type, rotation: type === 'image' ? 0 : 45});
+  }, [config, setConfig]);
+
+  const handleImageChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => update('image', typeof reader.result === 'string' ? reader.result : undefined);
+    reader.readAsDataURL(file);
+  }, [update]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>水印</CardTitle>
+        <CardDescription>在每页添加文字或图片水印，如“内部资料”、“草稿”、“CONFIDENTIAL”</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            className="h-4 w-4 rounded border-gray-300"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+          />
+          <span className="ml-2">添加水印</span>
+        </label>
+
+        {enabled && (
+          <>
+            <div>
+              <Label htmlFor="watermark-type">水印类型</Label>
+              <select
+                id="watermark-type"
+                className={selectClassName}
+                value={config.type}
+                onChange={(e) => handleTypeChange(e.target.value as TemplateWatermark['type'])}
+              >
+                <option value="text">文字水印</option>
+                <option value="image">图片水印</option>
+              </select>
+            </div>
+
+            {config.type === 'text' ? (
+              <>
+                <div>
+                  <Label htmlFor="watermark-text">水印文字</Label>
+                  <Input
+                    id="watermark-text"
+                    placeholder="例如：内部资料、草稿、CONFIDENTIAL"
+                    value={config.text || ""}
+                    onChange={(e) => update('text', e.target.value)}
+                  />
+                </div>
+                <div className="grid grid-cols-3 gap-3">
+                  <div>
+                    <Label htmlFor="watermark-fontName">字体</Label>
+                    <Input
+                      id="watermark-fontName"
+                      placeholder="例如：宋体"
+                      value={config.fontName || ""}
+                      onChange={(e) => update('fontName', e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <FontSizeSelector
+                      id="watermark-fontSize"
+                      label="字号"
+                      placeholder="例如：小初、54pt"
+                      value={config.fontSize || ""}
+                      onChange={(value) => update('fontSize', value)}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="watermark-color">颜色</Label>
+                    <Input
+                      id="watermark-color"
+                      type="color"
+                      className="w-16 h-8"
+                      value={config.color || "#C0C0C0"}
+                      onChange={(e) => update('color', e.target.value)}
+                    />
+                  </div>
+                </div>
+              </>
+            ) : (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="watermark-image">水印图片</Label>
+                  <Input
+                    id="watermark-image"
+                    type="file"
+                    accept="image/png,image/jpeg,image/gif"
+                    onChange={handleImageChange}
+                  />
+                  <p className="text-sm text-gray-500 mt-1">
+                    {config.image ? "已选择图片" : "支持 PNG、JPEG、GIF 格式"}
+                  </p>
+                </div>
+                <div>
+                  <Label htmlFor="watermark-width">宽度（毫米）</Label>
+                  <Input
+                    id="watermark-width"
+                    type="number"
+                    min="1"
+                    placeholder="留空则按原始尺寸"
+                    value={config.width ?? ""}
+                    onChange={(e) => update('width', e.target.value ? parseFloat(e.target.value) : undefined)}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="watermark-opacity">不透明度（%）</Label>
+                <Input
+                  id="watermark-opacity"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={Math.round((config.opacity ?? 0.5) * 100)}
+                  onChange={(e) => update('opacity', (parseFloat(e.target.value) || 0) / 100)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="watermark-rotation">旋转角度（逆时针）</Label>
+                <Input
+                  id="watermark-rotation"
+                  type="number"
+                  min="-360"
+                  max="360"
+                  value={config.rotation ?? 0}
+                  onChange={(e) => update('rotation', parseFloat(e.target.value) || 0)}
+                />
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+
+WatermarkConfigSection.displayName = 'WatermarkConfigSection';
+
+const defaultDocumentProperties: TemplateDocumentProperties = {
+  keepOriginal: false,
+  title: "{title}",
+  creator: "{author}",
+  custom: [],
+};
+
+// 文档属性中的文字字段
+const DOCUMENT_PROPERTY_FIELDS: { key: 'title' | 'subject' | 'creator' | 'keywords' | 'description' | 'lastModifiedBy' | 'company'; label: string; placeholder: string }[] = [
+  { key: "title", label: "标题", placeholder: "例如：{title}" },
+  { key: "subject", label: "主题", placeholder: "留空则保留原值" },
+  { key: "creator", label: "作者", placeholder: "例如：{author}" },
+  { key: "keywords", label: "关键词", placeholder: "多个关键词用分号分隔" },
+  { key: "description", label: "备注", placeholder: "留空则保留原值" },
+  { key: "lastModifiedBy", label: "最后修改者", placeholder: "留空则保留原值" },
+  { key: "company", label: "单位", placeholder: "留空则保留原值" },
+];
+
+// 文档属性配置组件，包括核心属性和自定义属性
+const DocumentPropertiesSection = React.memo(({
+  enabled,
+  setEnabled,
+  config,
+  setConfig
+}: {
+  enabled: boolean;
+  setEnabled: (value: boolean) => void;
+  config: TemplateDocumentProperties;
+  setConfig: (config: TemplateDocumentProperties) => void;
+}) => {
+  const update = useCallback(<K extends keyof TemplateDocumentProperties>(key: K, value: TemplateDocumentProperties[K]) => {
+    setConfig({...config, [key]: value});
+  }, [config, setConfig]);
+  const custom = config.custom || [];
+  const updateCustom = (index: number, property: TemplateCustomProperty) =>
+    update('custom', custom.map((p, i) => i === index ? property : p));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>文档属性</CardTitle>
+        <CardDescription>
+          设置文件属性中的标题、作者、关键词等，文字中可使用 {"{title}"}（文档标题）、{"{author}"}（作者）、{"{date}"}（处理日期）占位符
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            className="h-4 w-4 rounded border-gray-300"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+          />
+          <span className="ml-2">设置文档属性</span>
+        </label>
+
+        {enabled && (
+          <>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={!!config.keepOriginal}
+                onChange={(e) => update('keepOriginal', e.target.checked)}
+                className="mr-2"
+              />
+              保留原文档已有的属性，只填补空缺
+            </label>
+
+            <div className="grid grid-cols-2 gap-3">
+              {DOCUMENT_PROPERTY_FIELDS.map(({ key, label, placeholder }) => (
+                <div key={key}>
+                  <Label htmlFor={`properties-${key}`}>{label}</Label>
+                  <Input
+                    id={`properties-${key}`}
+                    placeholder={placeholder}
+                    value={config[key] || ""}
+                    onChange={(e) => update(key, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="properties-created">创建时间</Label>
+                <Input
+                  id="properties-created"
+                  type="date"
+                  value={config.created || ""}
+                  onChange={(e) => update('created', e.target.value || undefined)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="properties-modified">修改时间</Label>
+                <Input
+                  id="properties-modified"
+                  type="date"
+                  value={config.modified || ""}
+                  onChange={(e) => update('modified', e.target.value || undefined)}
+                />
+                <p className="text-sm text-gray-500 mt-1">留空则为处理时间</p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>自定义属性</Label>
+              {custom.map((property, index) => (
+                <div key={index} className="grid grid-cols-7 gap-2 items-center">
+                  <Input
+                    className="col-span-2"
+                    placeholder="名称"
+                    value={property.name}
+                    onChange={(e) => updateCustom(index, { ...property, name: e.target.value })}
+                  />
+                  <select
+                    className={selectClassName}
+                    value={property.type || "text"}
+                    onChange={(e) => updateCustom(index, { ...property, type: e.target.value as TemplateCustomProperty['type'] })}
+                  >
+                    <option value="text">文本</option>
+                    <option value="number">数字</option>
+                    <option value="boolean">是/否</option>
+                    <option value="date">日期</option>
+                  </select>
+                  <Input
+                    className="col-span-3"
+                    placeholder={property.type === "boolean" ? "true 或 false" : property.type === "date" ? "例如：2024-05-01" : "值"}
+                    value={property.value}
+                    onChange={(e) => updateCustom(index, { ...property, value: e.target.value })}
+                  />
+                  <Button type="button" variant="outline" size="sm" onClick={() => update('custom', custom.filter((_, i) => i !== index))}>
+                    删除
+                  </Button>
+                </div>
+              ))}
+              <Button type="button" variant="outline" size="sm" onClick={() => update('custom', [...custom, { name: "", value: "" }])}>
+                添加自定义属性
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+
+DocumentPropertiesSection.displayName = 'DocumentPropertiesSection';
+
+// 自定义属性的取值无效时返回错误说明，含占位符的取值在处理时替换后检查
+const getCustomPropertyError = (property: TemplateCustomProperty): string | undefined => {
+  if (!property.name.trim() || hasPlaceholders(property.value)) return undefined;
+  try {
+    resolveCustomProperty(property, { date: new Date() });
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+const defaultSanitize: TemplateSanitize = {
+  comments: true,
+  revisionAuthors: true,
+  rsid: true,
+  hiddenText: true,
+  personalInfo: true,
+  customXml: true,
+  attachedTemplate: true,
+};
+
+const SANITIZE_ITEMS: { key: keyof TemplateSanitize; label: string }[] = [
+  { key: "comments", label: "删除批注" },
+  { key: "revisionAuthors", label: "修订作者改为匿名" },
+  { key: "rsid", label: "删除编辑会话标识（rsid）" },
+  { key: "hiddenText", label: "删除隐藏文字" },
+  { key: "personalInfo", label: "删除文档属性中的作者、最后修改者、单位和经理" },
+  { key: "customXml", label: "删除自定义 XML" },
+  { key: "attachedTemplate", label: "删除附加模板" },
+];
+
+// 文档清理配置组件，对外发送前删除元数据和不可见内容
+const SanitizeSection = React.memo(({
+  enabled,
+  setEnabled,
+  config,
+  setConfig
+}: {
+  enabled: boolean;
+  setEnabled: (value: boolean) => void;
+  config: TemplateSanitize;
+  setConfig: (config: TemplateSanitize) => void;
+}) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>文档清理</CardTitle>
+      <CardDescription>对外发送前清理原文档，处理完成后列出每个文件清理掉的内容</CardDescription>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          className="h-4 w-4 rounded border-gray-300"
+          checked={enabled}
+          onChange={(e) => setEnabled(e.target.checked)}
+        />
+        <span className="ml-2">清理文档</span>
+      </label>
+
+      {enabled && (
+        <div className="grid grid-cols-2 gap-2">
+          {SANITIZE_ITEMS.map(({ key, label }) => (
+            <label key={key} className="flex items-center">
+              <input
+                type="checkbox"
+                checked={config[key] !== false}
+                onChange={(e) => setConfig({ ...config, [key]: e.target.checked })}
+                className="mr-2"
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      )}
+    </CardContent>
+  </Card>
+));
+
+SanitizeSection.displayName = 'SanitizeSection';
+
+const defaultOfficialDocument: TemplateOfficialDocument = {
+  mastheadText: "",
+  mastheadFontName: "方正小标宋简体",
+  mastheadFontSize: "36pt",
+  mastheadColor: "#FF0000",
+  separatorColor: "#FF0000",
+  fontName: "",
+};
+
+const OfficialDocumentConfigSection = React.memo(({
+  enabled,
+  setEnabled,
+  config,
+  setConfig
+}: {
+  enabled: boolean;
+  setEnabled: (value: boolean) => void;
+  config: TemplateOfficialDocument;
+  setConfig: (config: TemplateOfficialDocument) => void;
+}) => {
+  const update = useCallback(<K extends keyof TemplateOfficialDocument>(key: K, value: TemplateOfficialDocument[K]) => {
+    setConfig({...config, [key]: value});
+  }, [config, setConfig]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>公文版式</CardTitle>
+        <CardDescription>
+          按 GB/T 9704 识别并编排发文机关标志、发文字号、主送机关、附件说明、落款和版记，版心为每页 22 行、每行 28 字；未设置页面时使用公文用纸和页边距
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            className="h-4 w-4 rounded border-gray-300"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+          />
+          <span className="ml-2">按公文格式编排</span>
+        </label>
+
+        {enabled && (
+          <>
+            <div>
+              <Label htmlFor="official-mastheadText">发文机关标志</Label>
+              <Input
+                id="official-mastheadText"
+                placeholder="原文档没有发文机关标志时插入，例如：××市人民政府文件"
+                value={config.mastheadText || ""}
+                onChange={(e) => update('mastheadText', e.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="official-mastheadFontName">发文机关标志字体</Label>
+                <Input
+                  id="official-mastheadFontName"
+                  placeholder="例如：方正小标宋简体"
+                  value={config.mastheadFontName || ""}
+                  onChange={(e) => update('mastheadFontName', e.target.value)}
+                />
+              </div>
+              <div>
+                <FontSizeSelector
+                  id="official-mastheadFontSize"
+                  label="发文机关标志字号"
+                  placeholder="例如：初号、36"
+                  value={config.mastheadFontSize || ""}
+                  onChange={(value) => update('mastheadFontSize', value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="official-mastheadColor">发文机关标志颜色</Label>
+                <Input
+                  id="official-mastheadColor"
+                  type="color"
+                  value={config.mastheadColor || "#FF0000"}
+                  onChange={(e) => update('mastheadColor', e.target.value)}
+                  className="w-16 h-8"
+                />
+              </div>
+              <div>
+                <Label htmlFor="official-separatorColor">分隔线颜色</Label>
+                <Input
+                  id="official-separatorColor"
+                  type="color"
+                  value={config.separatorColor || "#FF0000"}
+                  onChange={(e) => update('separatorColor', e.target.value)}
+                  className="w-16 h-8"
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="official-fontName">落款和版记字体</Label>
+              <Input
+                id="official-fontName"
+                placeholder="为空时与正文相同，例如：仿宋_GB2312"
+                value={config.fontName || ""}
+                onChange={(e) => update('fontName', e.target.value)}
+              />
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+
+OfficialDocumentConfigSection.displayName = 'OfficialDocumentConfigSection';
+
+const defaultTableStyle: TemplateTableStyle = {
+  fontName: "宋体",
+  fontSize: "五号",
+  headerRowBold: true,
+  borderStyle: "single",
+  borderSize: 0.5,
+  borderColor: "#000000",
+  cellAlignment: "center",
+  cellVerticalAlignment: "center",
+  autoFit: "window",
+};
+
+// 表格样式配置组件
+const TableStyleConfigSection = React.memo(({
+  enabled,
+  setEnabled,
+  style,
+  setStyle
+}: {
+  enabled: boolean;
+  setEnabled: (value: boolean) => void;
+  style: TemplateTableStyle;
+  setStyle: (style: TemplateTableStyle) => void;
+}) => {
+  const update = useCallback(<K extends keyof TemplateTableStyle>(key: K, value: TemplateTableStyle[K]) => {
+    setStyle({...style, [key]: value});
+  }, [style, setStyle]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>表格样式配置</CardTitle>
+        <CardDescription>统一文档中表格的字体、表头、边框、对齐和列宽调整方式</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            className="h-4 w-4 rounded border-gray-300"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+          />
+          <span className="ml-2">统一表格格式</span>
+        </label>
+
+        {enabled && (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="table-fontName">单元格字体</Label>
+                <Input
+                  id="table-fontName"
+                  placeholder="例如：宋体"
+                  value={style.fontName || ""}
+                  onChange={(e) => update('fontName', e.target.value)}
+                />
+              </div>
+              <div>
+                <FontSizeSelector
+                  id="table-fontSize"
+                  label=""
+                  placeholder="例如：五号、10.5"
+                  value={style.fontSize || ""}
+                  onChange={(value) => update('fontSize', value)}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label htmlFor="table-borderStyle">边框样式</Label>
+                <select
+                  id="table-borderStyle"
+                  className={selectClassName}
+                  value={style.borderStyle}
+                  onChange={(e) => update('borderStyle', e.target.value as TemplateTableStyle['borderStyle'])}
+                >
+                  <option value="single">单实线</option>
+                  <option value="double">双线</option>
+                  <option value="dashed">虚线</option>
+                  <option value="none">无边框</option>
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="table-borderSize">边框粗细（磅）</Label>
+                <Input
+                  id="table-borderSize"
+                  type="number"
+                  min={0.25}
+                  max={6}
+                  step={0.25}
+                  value={style.borderSize ?? 0.5}
+                  onChange={(e) => update('borderSize', parseFloat(e.target.value) || 0.5)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="table-borderColor">边框颜色</Label>
+                <Input
+                  id="table-borderColor"
+                  type="color"
+                  value={style.borderColor || "#000000"}
+                  onChange={(e) => update('borderColor', e.target.value)}
+                  className="w-16 h-8"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label htmlFor="table-cellAlignment">单元格水平对齐</Label>
+                <select
+                  id="table-cellAlignment"
+                  className={selectClassName}
+                  value={style.cellAlignment}
+                  onChange={(e) => update('cellAlignment', e.target.value as TemplateTableStyle['cellAlignment'])}
+                >
+                  <option value="left">左对齐</option>
+                  <option value="center">居中</option>
+                  <option value="right">右对齐</option>
+                  <option value="justify">两端对齐</option>
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="table-cellVerticalAlignment">单元格垂直对齐</Label>
+                <select
+                  id="table-cellVerticalAlignment"
+                  className={selectClassName}
+                  value={style.cellVerticalAlignment}
+                  onChange={(e) => update('cellVerticalAlignment', e.target.value as TemplateTableStyle['cellVerticalAlignment'])}
+                >
+                  <option value="top">顶端对齐</option>
+                  <option value="center">居中</option>
+                  <option value="bottom">底端对齐</option>
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="table-autoFit">自动调整</Label>
+                <select
+                  id="table-autoFit"
+                  className={selectClassName}
+                  value={style.autoFit}
+                  onChange={(e) => update('autoFit', e.target.value as TemplateTableStyle['autoFit'])}
+                >
+                  <option value="window">根据窗口调整表格</option>
+                  <option value="contents">根据内容调整表格</option>
+                  <option value="fixed">固定列宽</option>
+                </select>
+              </div>
+            </div>
+
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                className="h-4 w-4 rounded border-gray-300"
+                checked={style.headerRowBold}
+                onChange={(e) => update('headerRowBold', e.target.checked)}
+              />
+              <span className="ml-2">首行作为表头并加粗</span>
+            </label>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+
+TableStyleConfigSection.displayName = 'TableStyleConfigSection';
+
+const listLevelLabels = ['第 1 级', '第 2 级', '第 3 级'];
+
+const defaultListStyle: TemplateListStyle = {
+  levels: [
+    { format: 'decimal', leftIndent: { value: 2, unit: 'char' }, hangingIndent: { value: 2, unit: 'char' } },
+    { format: 'lowerLetter', leftIndent: { value: 4, unit: 'char' }, hangingIndent: { value: 2, unit: 'char' } },
+    { format: 'lowerRoman', leftIndent: { value: 6, unit: 'char' }, hangingIndent: { value: 2, unit: 'char' } },
+  ]
+};
+
+// 列表格式配置组件
+const ListStyleConfigSection = React.memo(({
+  enabled,
+  setEnabled,
+  style,
+  setStyle
+}: {
+  enabled: boolean;
+  setEnabled: (value: boolean) => void;
+  style: TemplateListStyle;
+  setStyle: (style: TemplateListStyle) => void;
+}) => {
+  const updateLevel = useCallback(<K extends keyof TemplateListLevel>(index: number, key: K, value: TemplateListLevel[K]) => {
+    const levels = listLevelLabels.map((_, i) => style.levels[i]);
+    levels[index] = {...levels[index], [key]: value};
+    setStyle({...style, levels});
+  }, [style, setStyle]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>列表格式配置</CardTitle>
+        <CardDescription>保留文档中的项目符号和编号列表，并统一各级编号格式和缩进</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            className="h-4 w-4 rounded border-gray-300"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+          />
+          <span className="ml-2">统一列表格式</span>
+        </label>
+
+        {enabled && listLevelLabels.map((label, index) => {
+          const level = style.levels[index] || {};
+          const defaultText = level.format
+            ? listNumberFormatMap[level.format].defaultText.replace('%1', `%${index + 1}`)
+            : "保持原样";
+          return (
+            <div key={index} className="border border-gray-200 rounded-md p-3 space-y-3 dark:border-zinc-700">
+              <h4 className="text-sm font-medium">{label}</h4>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor={`list-${index}-format`}>编号格式</Label>
+                  <select
+                    id={`list-${index}-format`}
+                    className={selectClassName}
+                    value={level.format || ""}
+                    onChange={(e) => updateLevel(index, 'format', (e.target.value || undefined) as TemplateListLevel['format'])}
+                  >
+                    <option value="">保持原样</option>
+                    {Object.entries(listNumberFormatMap).map(([value, format]) => (
+                      <option key={value} value={value}>{format.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor={`list-${index}-levelText`}>编号文字</Label>
+                  <Input
+                    id={`list-${index}-levelText`}
+                    placeholder={defaultText}
+                    value={level.levelText || ""}
+                    onChange={(e) => updateLevel(index, 'levelText', e.target.value || undefined)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`list-${index}-leftIndent`}>左缩进</Label>
+                  <IndentInput
+                    id={`list-${index}-leftIndent`}
+                    value={level.leftIndent}
+                    onChange={(value) => updateLevel(index, 'leftIndent', value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor={`list-${index}-hangingIndent`}>悬挂缩进</Label>
+                  <IndentInput
+                    id={`list-${index}-hangingIndent`}
+                    value={level.hangingIndent}
+                    onChange={(value) => updateLevel(index, 'hangingIndent', value)}
+                  />
+                </div>
+              </div>
+            </div>
+          );
+        })}
+        {enabled && (
+          <p className="text-xs text-gray-500">编号文字中的 %1、%2、%3 分别表示第 1、2、3 级的编号；项目符号列表只应用缩进。</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+
+ListStyleConfigSection.displayName = 'ListStyleConfigSection';
+
+const defaultPageSetup: TemplatePageSetup = {
+  paperSize: "A4",
+  orientation: "portrait",
+  margins: { top: 25.4, bottom: 25.4, left: 31.8, right: 31.8 },
+  gutter: 0,
+  headerDistance: 15,
+  footerDistance: 17.5,
+};
+
+// 页面设置配置组件
+const PageSetupConfigSection = React.memo(({
+  enabled,
+  setEnabled,
+  pageSetup,
+  setPageSetup
+}: {
+  enabled: boolean;
+  setEnabled: (value: boolean) => void;
+  pageSetup: TemplatePageSetup;
+  setPageSetup: (pageSetup: TemplatePageSetup) => void;
+}) => {
+  const margins = pageSetup.margins || defaultPageSetup.margins!;
+
+  const handleMarginChange = useCallback((side: keyof typeof margins, value: string) => {
+    setPageSetup({...pageSetup, margins: {...margins, [side]: parseFloat(value) || 0}});
+  }, [pageSetup, margins, setPageSetup]);
+
+  const handleDistanceChange = useCallback((key: 'gutter' | 'headerDistance' | 'footerDistance', value: string) => {
+    setPageSetup({...pageSetup, [key]: parseFloat(value) || 0});
+  }, [pageSetup, setPageSetup]);
+
+  const grid = pageSetup.grid;
+  // 切换网格类型时保留已填写的行数和字数，首次启用时按公文的每页 22 行、每行 28 字填写
+  const handleGridTypeChange = useCallback((type: string) => {
+    setPageSetup({
+      ...pageSetup,
+      grid: type ? {
+        linesPerPage: 22,
+        charsPerLine: 28,
+        ...pageSetup.grid,
+        type: type as NonNullable<TemplatePageSetup['grid']>['type']
+      } : undefined
+    });
+  }, [pageSetup, setPageSetup]);
+
+  const marginFields: { key: keyof typeof margins; label: string }[] = [
+    { key: 'top', label: '上边距' },
+    { key: 'bottom', label: '下边距' },
+    { key: 'left', label: '左边距' },
+    { key: 'right', label: '右边距' },
+  ];
+
+  const distanceFields: { key: 'gutter' | 'headerDistance' | 'footerDistance'; label: string }[] = [
+    { key: 'gutter', label: '装订线' },
+    { key: 'headerDistance', label: '页眉距边界' },
+    { key: 'footerDistance', label: '页脚距边界' },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>页面设置</CardTitle>
+        <CardDescription>设置纸张大小、方向、页边距、装订线和文档网格，处理时应用到文档的每一节（单位：毫米）</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            className="h-4 w-4 rounded border-gray-300"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+          />
+          <span className="ml-2">统一页面设置</span>
+        </label>
+
+        {enabled && (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="page-paperSize">纸张大小</Label>
+                <select
+                  id="page-paperSize"
+                  className={selectClassName}
+                  value={pageSetup.paperSize}
+                  onChange={(e) => setPageSetup({...pageSetup, paperSize: e.target.value as TemplatePageSetup['paperSize']})}
+                >
+                  {Object.entries(paperSizeMap).map(([value, paper]) => (
+                    <option key={value} value={value}>{paper.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="page-orientation">纸张方向</Label>
+                <select
+                  id="page-orientation"
+                  className={selectClassName}
+                  value={pageSetup.orientation}
+                  onChange={(e) => setPageSetup({...pageSetup, orientation: e.target.value as TemplatePageSetup['orientation']})}
+                >
+                  <option value="portrait">纵向</option>
+                  <option value="landscape">横向</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-4 gap-3">
+              {marginFields.map(field => (
+                <div key={field.key}>
+                  <Label htmlFor={`page-margin-${field.key}`}>{field.label}</Label>
+                  <Input
+                    id={`page-margin-${field.key}`}
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={margins[field.key]}
+                    onChange={(e) => handleMarginChange(field.key, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              {distanceFields.map(field => (
+                <div key={field.key}>
+                  <Label htmlFor={`page-${field.key}`}>{field.label}</Label>
+                  <Input
+                    id={`page-${field.key}`}
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={pageSetup[field.key] ?? 0}
+                    onChange={(e) => handleDistanceChange(field.key, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label htmlFor="page-grid-type">文档网格</Label>
+                <select
+                  id="page-grid-type"
+                  className={selectClassName}
+                  value={grid?.type || ""}
+                  onChange={(e) => handleGridTypeChange(e.target.value)}
+                >
+                  <option value="">保持原样</option>
+                  <option value="default">无网格</option>
+                  <option value="lines">只指定行网格</option>
+                  <option value="linesAndChars">指定行和字符网格</option>
+                  <option value="snapToChars">文字对齐字符网格</option>
+                </select>
+              </div>
+              {grid && grid.type !== 'default' && (
+                <div>
+                  <Label htmlFor="page-grid-lines">每页行数</Label>
+                  <Input
+                    id="page-grid-lines"
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={grid.linesPerPage ?? ""}
+                    onChange={(e) => setPageSetup({...pageSetup, grid: {...grid, linesPerPage: parseInt(e.target.value, 10) || undefined}})}
+                  />
+                </div>
+              )}
+              {grid && (grid.type === 'linesAndChars' || grid.type === 'snapToChars') && (
+                <div>
+                  <Label htmlFor="page-grid-chars">每行字数</Label>
+                  <Input
+                    id="page-grid-chars"
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={grid.charsPerLine ?? ""}
+                    onChange={(e) => setPageSetup({...pageSetup, grid: {...grid, charsPerLine: parseInt(e.target.value, 10) || undefined}})}
+                  />
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+});
+
+PageSetupConfigSection.displayName = 'PageSetupConfigSection';
+
 export default function CreateTemplatePage() {
   const [templateName, setTemplateName] = useState<string>("");
   const [templateDescription, setTemplateDescription] = useState<string>("");
@@ -231,6 +2342,7 @@ export default function CreateTemplatePage() {
     isUnderline: false,
     color: "#000000",
     alignment: "justify",
+    paragraphFormat: defaultBodyParagraphFormat,
   });
 
   // 额外配置
@@ -238,6 +2350,89 @@ export default function CreateTemplatePage() {
   const [titleSuffix, setTitleSuffix] = useState<string>("");
   const [authorPrefix, setAuthorPrefix] = useState<string>("");
   const [authorSuffix, setAuthorSuffix] = useState<string>("");
+  const [processingMode, setProcessingMode] = useState<'regenerate' | 'inPlace'>("inPlace");
+  const [preserveRunFormatting, setPreserveRunFormatting] = useState<boolean>(true);
+  const [fitImagesToPage, setFitImagesToPage] = useState<boolean>(true);
+
+  // 各级标题样式配置
+  const [headingLevelsEnabled, setHeadingLevelsEnabled] = useState<boolean[]>([false, false, false, false]);
+  const [headingStyles, setHeadingStyles] = useState<TemplateStyle[]>(defaultHeadingStyles);
+
+  const [headingNumberingEnabled, setHeadingNumberingEnabled] = useState<boolean>(false);
+  const [headingNumbering, setHeadingNumbering] = useState<TemplateHeadingNumbering>(defaultHeadingNumbering);
+
+  const updateHeadingStyle = useCallback((index: number, style: TemplateStyle) => {
+    setHeadingStyles(prev => prev.map((s, i) => i === index ? style : s));
+  }, []);
+
+  // 脚注和尾注样式配置
+  const [footnoteStyleEnabled, setFootnoteStyleEnabled] = useState<boolean>(false);
+  const [footnoteStyle, setFootnoteStyle] = useState<TemplateStyle>(defaultFootnoteStyle);
+
+  // 摘要和关键词样式配置
+  const [abstractStyleEnabled, setAbstractStyleEnabled] = useState<boolean>(false);
+  const [abstractStyle, setAbstractStyle] = useState<TemplateAbstractStyle>(defaultAbstractStyle);
+  const setAbstractLabelStyle = useCallback((labelStyle: TemplateStyle) => {
+    setAbstractStyle(prev => ({ ...prev, labelStyle }));
+  }, []);
+  const setAbstractContentStyle = useCallback((contentStyle: TemplateStyle) => {
+    setAbstractStyle(prev => ({ ...prev, contentStyle }));
+  }, []);
+
+  // 图表题注样式配置
+  const [captionStyleEnabled, setCaptionStyleEnabled] = useState<boolean>(false);
+  const [captionStyle, setCaptionStyle] = useState<TemplateCaptionStyle>(defaultCaptionStyle);
+  const setCaptionTextStyle = useCallback((style: TemplateStyle) => {
+    setCaptionStyle(prev => ({ ...prev, style }));
+  }, []);
+
+  // 参考文献样式配置
+  const [referenceStyleEnabled, setReferenceStyleEnabled] = useState<boolean>(false);
+  const [referenceStyle, setReferenceStyle] = useState<TemplateReferenceStyle>(defaultReferenceStyle);
+  const setReferenceTextStyle = useCallback((style: TemplateStyle) => {
+    setReferenceStyle({ style });
+  }, []);
+
+  // 排版规范化配置
+  const [typographyEnabled, setTypographyEnabled] = useState<boolean>(false);
+  const [typography, setTypography] = useState<TemplateTypography>(defaultTypography);
+
+  // 查找替换规则
+  const [replacementRules, setReplacementRules] = useState<TemplateReplacementRule[]>([]);
+
+  // 超链接样式配置
+  const [hyperlinkStyleEnabled, setHyperlinkStyleEnabled] = useState<boolean>(false);
+  const [hyperlinkStyle, setHyperlinkStyle] = useState<TemplateHyperlinkStyle>(defaultHyperlinkStyle);
+  const [headerFooterEnabled, setHeaderFooterEnabled] = useState<boolean>(false);
+  const [headerFooter, setHeaderFooter] = useState<TemplateHeaderFooter>(defaultHeaderFooter);
+
+  // 水印配置
+  const [watermarkEnabled, setWatermarkEnabled] = useState<boolean>(false);
+  const [watermark, setWatermark] = useState<TemplateWatermark>(defaultWatermark);
+
+  // 文档属性配置
+  const [propertiesEnabled, setPropertiesEnabled] = useState<boolean>(false);
+  const [properties, setProperties] = useState<TemplateDocumentProperties>(defaultDocumentProperties);
+
+  // 文档清理配置
+  const [sanitizeEnabled, setSanitizeEnabled] = useState<boolean>(false);
+  const [sanitize, setSanitize] = useState<TemplateSanitize>(defaultSanitize);
+
+  // 公文版式配置
+  const [officialDocumentEnabled, setOfficialDocumentEnabled] = useState<boolean>(false);
+  const [officialDocument, setOfficialDocument] = useState<TemplateOfficialDocument>(defaultOfficialDocument);
+
+  // 表格样式配置
+  const [tableStyleEnabled, setTableStyleEnabled] = useState<boolean>(false);
+  const [tableStyle, setTableStyle] = useState<TemplateTableStyle>(defaultTableStyle);
+
+  // 列表格式配置
+  const [listStyleEnabled, setListStyleEnabled] = useState<boolean>(false);
+  const [listStyle, setListStyle] = useState<TemplateListStyle>(defaultListStyle);
+
+  // 页面设置
+  const [pageSetupEnabled, setPageSetupEnabled] = useState<boolean>(false);
+  const [pageSetup, setPageSetup] = useState<TemplatePageSetup>(defaultPageSetup);
 
   // 保存模板
   const saveTemplate = async () => {
@@ -250,6 +2445,36 @@ export default function CreateTemplatePage() {
       return;
     }
 
+    const invalidRule = replacementRules.find(rule => getReplacementRuleError(rule));
+    if (invalidRule) {
+      addToast({
+        type: 'warning',
+        title: '查找替换规则无效',
+        description: getReplacementRuleError(invalidRule)
+      });
+      return;
+    }
+    const activeRules = replacementRules.filter(rule => rule.find);
+
+    if (watermarkEnabled && (watermark.type === 'text' ? !watermark.text?.trim() : !watermark.image)) {
+      addToast({
+        type: 'warning',
+        title: '水印设置不完整',
+        description: watermark.type === 'text' ? '请输入水印文字' : '请选择水印图片'
+      });
+      return;
+    }
+
+    const invalidProperty = propertiesEnabled ? properties.custom?.find(property => getCustomPropertyError(property)) : undefined;
+    if (invalidProperty) {
+      addToast({
+        type: 'warning',
+        title: '自定义属性无效',
+        description: getCustomPropertyError(invalidProperty)
+      });
+      return;
+    }
+
     const newTemplate: DocumentTemplate = {
       id: generateUUID(),
       name: templateName.trim(),
@@ -260,10 +2485,36 @@ export default function CreateTemplatePage() {
       titleStyle,
       authorStyle,
       bodyStyle,
+      headingStyles: headingLevelsEnabled.some(Boolean)
+        ? headingStyles.map((style, i) => headingLevelsEnabled[i] ? style : undefined)
+        : undefined,
+      headingNumbering: headingNumberingEnabled && headingNumbering.levels.some(Boolean) ? headingNumbering : undefined,
+      tableStyle: tableStyleEnabled ? tableStyle : undefined,
+      listStyle: listStyleEnabled ? listStyle : undefined,
+      footnoteStyle: footnoteStyleEnabled ? footnoteStyle : undefined,
+      abstractStyle: abstractStyleEnabled ? abstractStyle : undefined,
+      captionStyle: captionStyleEnabled ? captionStyle : undefined,
+      referenceStyle: referenceStyleEnabled ? referenceStyle : undefined,
+      typography: typographyEnabled ? typography : undefined,
+      replacements: activeRules.length > 0 ? activeRules : undefined,
+      hyperlinkStyle: hyperlinkStyleEnabled ? hyperlinkStyle : undefined,
+      headerFooter: headerFooterEnabled ? headerFooter : undefined,
+      watermark: watermarkEnabled ? watermark : undefined,
+      properties: propertiesEnabled ? properties : undefined,
+      sanitize: sanitizeEnabled ? sanitize : undefined,
+      officialDocument: officialDocumentEnabled ? {
+        ...officialDocument,
+        mastheadText: officialDocument.mastheadText || undefined,
+        fontName: officialDocument.fontName || undefined,
+      } : undefined,
+      pageSetup: pageSetupEnabled ? pageSetup : undefined,
       titlePrefix: titlePrefix || undefined,
       titleSuffix: titleSuffix || undefined,
       authorPrefix: authorPrefix || undefined,
       authorSuffix: authorSuffix || undefined,
+      processingMode,
+      preserveRunFormatting,
+      fitImagesToPage,
     };
 
     try {
@@ -328,11 +2579,48 @@ export default function CreateTemplatePage() {
       isUnderline: false,
       color: "#000000",
       alignment: "justify",
+      paragraphFormat: defaultBodyParagraphFormat,
     });
     setTitlePrefix("");
     setTitleSuffix("");
     setAuthorPrefix("");
     setAuthorSuffix("");
+    setProcessingMode("inPlace");
+    setPreserveRunFormatting(true);
+    setFitImagesToPage(true);
+    setHeadingLevelsEnabled([false, false, false, false]);
+    setHeadingStyles(defaultHeadingStyles);
+    setHeadingNumberingEnabled(false);
+    setHeadingNumbering(defaultHeadingNumbering);
+    setTableStyleEnabled(false);
+    setTableStyle(defaultTableStyle);
+    setListStyleEnabled(false);
+    setListStyle(defaultListStyle);
+    setFootnoteStyleEnabled(false);
+    setFootnoteStyle(defaultFootnoteStyle);
+    setAbstractStyleEnabled(false);
+    setAbstractStyle(defaultAbstractStyle);
+    setCaptionStyleEnabled(false);
+    setCaptionStyle(defaultCaptionStyle);
+    setReferenceStyleEnabled(false);
+    setReferenceStyle(defaultReferenceStyle);
+    setTypographyEnabled(false);
+    setTypography(defaultTypography);
+    setReplacementRules([]);
+    setHyperlinkStyleEnabled(false);
+    setHyperlinkStyle(defaultHyperlinkStyle);
+    setHeaderFooterEnabled(false);
+    setHeaderFooter(defaultHeaderFooter);
+    setWatermarkEnabled(false);
+    setWatermark(defaultWatermark);
+    setPropertiesEnabled(false);
+    setProperties(defaultDocumentProperties);
+    setSanitizeEnabled(false);
+    setSanitize(defaultSanitize);
+    setOfficialDocumentEnabled(false);
+    setOfficialDocument(defaultOfficialDocument);
+    setPageSetupEnabled(false);
+    setPageSetup(defaultPageSetup);
   };
 
   return (
@@ -379,6 +2667,36 @@ export default function CreateTemplatePage() {
                 onChange={(e) => setTemplateDescription(e.target.value)}
               />
             </div>
+            <div>
+              <Label htmlFor="processingMode">处理方式</Label>
+              <select
+                id="processingMode"
+                className={selectClassName}
+                value={processingMode}
+                onChange={(e) => setProcessingMode(e.target.value as 'regenerate' | 'inPlace')}
+              >
+                <option value="inPlace">原位修改（保留表格、列表、脚注、页眉等内容）</option>
+                <option value="regenerate">重新生成（仅保留文字和图片）</option>
+              </select>
+            </div>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={preserveRunFormatting}
+                onChange={(e) => setPreserveRunFormatting(e.target.checked)}
+                className="mr-2"
+              />
+              保留正文中的加粗、斜体、下划线、上下标和颜色（字体和字号仍使用模板设置）
+            </label>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={fitImagesToPage}
+                onChange={(e) => setFitImagesToPage(e.target.checked)}
+                className="mr-2"
+              />
+              图片保持原始尺寸，宽度超出版心时等比缩小
+            </label>
           </CardContent>
         </Card>
 
@@ -413,6 +2731,175 @@ export default function CreateTemplatePage() {
           setStyle={setBodyStyle}
         />
 
+        {/* 各级标题样式配置 */}
+        <HeadingLevelsSection
+          enabledLevels={headingLevelsEnabled}
+          setEnabledLevels={setHeadingLevelsEnabled}
+        />
+        {headingLevelLabels.map((label, index) => headingLevelsEnabled[index] && (
+          <StyleConfigSection
+            key={label}
+            title={label}
+            style={headingStyles[index]}
+            setStyle={(style) => updateHeadingStyle(index, style)}
+          />
+        ))}
+        <HeadingNumberingSection
+          enabled={headingNumberingEnabled}
+          setEnabled={setHeadingNumberingEnabled}
+          config={headingNumbering}
+          setConfig={setHeadingNumbering}
+        />
+
+        {/* 表格样式配置 */}
+        <TableStyleConfigSection
+          enabled={tableStyleEnabled}
+          setEnabled={setTableStyleEnabled}
+          style={tableStyle}
+          setStyle={setTableStyle}
+        />
+
+        {/* 列表格式配置 */}
+        <ListStyleConfigSection
+          enabled={listStyleEnabled}
+          setEnabled={setListStyleEnabled}
+          style={listStyle}
+          setStyle={setListStyle}
+        />
+
+        {/* 脚注和尾注样式配置 */}
+        <FootnoteSection
+          enabled={footnoteStyleEnabled}
+          setEnabled={setFootnoteStyleEnabled}
+        />
+        {footnoteStyleEnabled && (
+          <StyleConfigSection
+            title="脚注和尾注"
+            style={footnoteStyle}
+            setStyle={setFootnoteStyle}
+          />
+        )}
+
+        {/* 摘要和关键词样式配置 */}
+        <AbstractSection
+          enabled={abstractStyleEnabled}
+          setEnabled={setAbstractStyleEnabled}
+          style={abstractStyle}
+          setStyle={setAbstractStyle}
+        />
+        {abstractStyleEnabled && (
+          <>
+            <StyleConfigSection
+              title="摘要和关键词标签"
+              style={abstractStyle.labelStyle}
+              setStyle={setAbstractLabelStyle}
+            />
+            <StyleConfigSection
+              title="摘要和关键词内容"
+              style={abstractStyle.contentStyle}
+              setStyle={setAbstractContentStyle}
+            />
+          </>
+        )}
+
+        {/* 图表题注样式配置 */}
+        <CaptionSection
+          enabled={captionStyleEnabled}
+          setEnabled={setCaptionStyleEnabled}
+          style={captionStyle}
+          setStyle={setCaptionStyle}
+        />
+        {captionStyleEnabled && (
+          <StyleConfigSection
+            title="图表题注"
+            style={captionStyle.style}
+            setStyle={setCaptionTextStyle}
+          />
+        )}
+
+        {/* 参考文献样式配置 */}
+        <ReferenceSection
+          enabled={referenceStyleEnabled}
+          setEnabled={setReferenceStyleEnabled}
+        />
+        {referenceStyleEnabled && (
+          <StyleConfigSection
+            title="参考文献"
+            style={referenceStyle.style}
+            setStyle={setReferenceTextStyle}
+          />
+        )}
+
+        {/* 排版规范化配置 */}
+        <TypographySection
+          enabled={typographyEnabled}
+          setEnabled={setTypographyEnabled}
+          config={typography}
+          setConfig={setTypography}
+        />
+
+        {/* 查找替换规则 */}
+        <ReplacementRulesSection
+          rules={replacementRules}
+          setRules={setReplacementRules}
+        />
+
+        {/* 超链接样式配置 */}
+        <HyperlinkStyleConfigSection
+          enabled={hyperlinkStyleEnabled}
+          setEnabled={setHyperlinkStyleEnabled}
+          style={hyperlinkStyle}
+          setStyle={setHyperlinkStyle}
+        />
+
+        {/* 页眉页脚和页码配置 */}
+        <HeaderFooterConfigSection
+          enabled={headerFooterEnabled}
+          setEnabled={setHeaderFooterEnabled}
+          config={headerFooter}
+          setConfig={setHeaderFooter}
+        />
+
+        {/* 水印配置 */}
+        <WatermarkConfigSection
+          enabled={watermarkEnabled}
+          setEnabled={setWatermarkEnabled}
+          config={watermark}
+          setConfig={setWatermark}
+        />
+
+        {/* 文档属性配置 */}
+        <DocumentPropertiesSection
+          enabled={propertiesEnabled}
+          setEnabled={setPropertiesEnabled}
+          config={properties}
+          setConfig={setProperties}
+        />
+
+        {/* 文档清理配置 */}
+        <SanitizeSection
+          enabled={sanitizeEnabled}
+          setEnabled={setSanitizeEnabled}
+          config={sanitize}
+          setConfig={setSanitize}
+        />
+
+        {/* 公文版式配置 */}
+        <OfficialDocumentConfigSection
+          enabled={officialDocumentEnabled}
+          setEnabled={setOfficialDocumentEnabled}
+          config={officialDocument}
+          setConfig={setOfficialDocument}
+        />
+
+        {/* 页面设置 */}
+        <PageSetupConfigSection
+          enabled={pageSetupEnabled}
+          setEnabled={setPageSetupEnabled}
+          pageSetup={pageSetup}
+          setPageSetup={setPageSetup}
+        />
+
         {/* 模板预览 */}
         <Card>
           <CardHeader>
@@ -452,6 +2939,24 @@ export default function CreateTemplatePage() {
                 {authorPrefix}示例作者{authorSuffix}
               </div>
               
+              {/* 各级标题预览 */}
+              {headingLevelLabels.map((label, index) => headingLevelsEnabled[index] && (
+                <div
+                  key={label}
+                  style={{
+                    fontFamily: headingStyles[index].fontName,
+                    fontSize: headingStyles[index].fontSize,
+                    color: headingStyles[index].color,
+                    textAlign: headingStyles[index].alignment,
+                    fontWeight: headingStyles[index].isBold ? 'bold' : 'normal',
+                    fontStyle: headingStyles[index].isItalic ? 'italic' : 'normal',
+                    textDecoration: headingStyles[index].isUnderline ? 'underline' : 'none',
+                  }}
+                >
+                  {["一、", "（一）", "1.", "（1）"][index]}示例{label}
+                </div>
+              ))}
+
               {/* 正文预览 */}
               <div 
                 style={{
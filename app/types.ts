@@ -70,6 +70,10 @@ export interface ProcessedDocument {
   // 处理结果
   processedFileUrl?: string; // 处理后（例如修改了字体）的文件的下载链接
   processedFileName?: string; // 处理后的文件名（基于文件名模板生成）
+  typography?: TypographyReport; // 模板设置了排版规范化规则时，各规则的替换次数
+  replacementCount?: number; // 模板设置了查找替换规则时的替换总数
+  sanitize?: SanitizeReport; // 模板启用了文档清理时清理掉的内容
+  warnings?: string[]; // 处理中因取值无效而跳过的设置，如替换占位符后无效的自定义属性
   previewHtml?: string; // (可选) 文档内容的HTML预览，用于前端展示 (mammoth.js 对 .docx 效果好)
   errorMessage?: string; // 如果处理失败，记录错误信息
 }
@@ -88,7 +92,69 @@ export interface DocumentAnalysisData {
     styles: FontInfo[]; // 一个作者部分可能包含多种样式
   };
   bodyStyles?: FontInfo[]; // 正文可能包含多种样式
+  headings?: Array<{
+    level: number;
+    text: string;
+    paragraphIndex: number;
+    source: 'style' | 'outline' | 'numbering'; // 识别依据：标题样式 / 大纲级别 / 中文编号
+    styles?: FontInfo[];
+  }>;
   wordCount?: number;
+  footnoteCount?: number;
+  endnoteCount?: number;
+  officialDocument?: {
+    elements: Array<{
+      role: 'masthead' | 'documentNumber' | 'title' | 'recipient' | 'attachment'
+        | 'signature' | 'date' | 'note' | 'copyTo' | 'printedBy';
+      paragraphIndex: number;
+      text: string;
+    }>;
+  };
+  abstracts?: Array<{
+    type: 'abstract' | 'keywords';
+    language: 'zh' | 'en';
+    paragraphIndex: number;
+    paragraphCount: number;
+    label: string;
+    content: string;
+    keywords?: string[];
+  }>;
+  captions?: Array<{
+    type: 'figure' | 'table';
+    paragraphIndex: number;
+    label: string;
+    number: string;
+    continued?: boolean;
+    position?: 'above' | 'below';
+    imageNames?: string[];
+    tableIndex?: number;
+  }>;
+  references?: {
+    headingIndex: number;
+    entries: Array<{
+      paragraphIndex: number;
+      text: string;
+      number?: number;
+      parsed?: {
+        authors: string[];
+        etAl?: boolean;
+        title: string;
+        type: string;
+        source: string;
+      };
+      error?: string; // 无法解析的原因
+    }>;
+    unparsedCount: number;
+  };
+  typography?: TypographyReport; // 分析时传入了排版规范化规则时，各规则的替换次数
+  paragraphRoles?: Array<{
+    role: 'title' | 'subtitle' | 'author' | 'affiliation' | 'abstract' | 'keywords'
+      | 'heading' | 'caption' | 'reference' | 'signature' | 'body';
+    confidence: number; // 置信度 0-1
+    rule?: string;
+    paragraphIndex: number;
+    text: string;
+  }>;
 }
 
 /**
@@ -107,17 +173,283 @@ export interface UploadedFile {
   errorMessage?: string;
 }
 
+/**
+ * 模板缩进值：char 按字符数，mm 按毫米
+ */
+export interface TemplateIndent {
+  value: number;
+  unit: 'char' | 'mm';
+}
+
+/**
+ * 模板段落格式配置
+ */
+export interface TemplateParagraphFormat {
+  firstLineIndent?: TemplateIndent;
+  hangingIndent?: TemplateIndent; // 与首行缩进互斥
+  leftIndent?: TemplateIndent;
+  rightIndent?: TemplateIndent;
+  spaceBefore?: number; // 段前（磅）
+  spaceAfter?: number; // 段后（磅）
+  lineSpacing?: {
+    rule: 'single' | 'multiple' | 'exact' | 'atLeast'; // 单倍 / 多倍 / 固定值 / 最小值
+    value?: number; // 多倍时为倍数，固定值和最小值时为磅
+  };
+}
+
 /**
  * 模板样式配置
  */
 export interface TemplateStyle {
   fontName: string;
   fontSize: string; // 支持如"小四"、"14pt"等格式
+  // 按文种分别设置的字体，未设置的槽位使用 fontName；如中文仿宋_GB2312、西文和数字 Times New Roman
+  fonts?: {
+    eastAsia?: string;
+    ascii?: string;
+    hAnsi?: string; // 未设置时与 ascii 相同
+    cs?: string;    // 复杂文种，未设置时与 ascii 相同
+  };
   isBold?: boolean;
   isItalic?: boolean;
   isUnderline?: boolean;
   color?: string;
   alignment?: 'left' | 'center' | 'right' | 'justify';
+  paragraphFormat?: TemplateParagraphFormat;
+}
+
+/**
+ * 模板表格样式配置
+ */
+export interface TemplateTableStyle {
+  fontName?: string;
+  fontSize?: string; // 支持如"五号"、"10.5pt"等格式
+  headerRowBold?: boolean;
+  borderStyle?: 'single' | 'double' | 'dashed' | 'none';
+  borderSize?: number; // 边框粗细（磅）
+  borderColor?: string;
+  cellAlignment?: 'left' | 'center' | 'right' | 'justify';
+  cellVerticalAlignment?: 'top' | 'center' | 'bottom';
+  autoFit?: 'contents' | 'window' | 'fixed';
+}
+
+/**
+ * 模板页面设置，长度单位均为毫米
+ */
+export interface TemplatePageSetup {
+  paperSize?: 'A4' | 'A3' | 'A5' | 'B5' | 'Letter' | '16K';
+  orientation?: 'portrait' | 'landscape';
+  margins?: {
+    top: number;
+    bottom: number;
+    left: number;
+    right: number;
+  };
+  gutter?: number; // 装订线
+  headerDistance?: number; // 页眉距边界
+  footerDistance?: number; // 页脚距边界
+  grid?: {
+    type: 'default' | 'lines' | 'linesAndChars' | 'snapToChars'; // 无网格 / 只指定行网格 / 指定行和字符网格 / 文字对齐字符网格
+    linesPerPage?: number;
+    charsPerLine?: number;
+  };
+}
+
+/**
+ * 模板列表某一级的格式
+ */
+export interface TemplateListLevel {
+  // 编号格式，只作用于编号列表，项目符号列表只应用缩进
+  format?: 'decimal' | 'decimalEnclosedCircle' | 'decimalEnclosedParen' | 'lowerLetter' | 'upperLetter'
+    | 'lowerRoman' | 'upperRoman' | 'chineseCounting' | 'ideographTraditional';
+  levelText?: string; // 编号文字，%1 表示第 1 级编号，如"（%1）"；为空时按编号格式取默认值
+  leftIndent?: TemplateIndent;
+  hangingIndent?: TemplateIndent;
+}
+
+/**
+ * 模板列表格式配置
+ */
+export interface TemplateListStyle {
+  levels: (TemplateListLevel | undefined)[]; // 依次为第 1、2、3 级，未设置的级别保持原样
+}
+
+/**
+ * 模板超链接样式配置
+ */
+export interface TemplateHyperlinkStyle {
+  color: string;        // #RRGGBB，打印用公文可设为黑色
+  isUnderline: boolean;
+}
+
+/**
+ * 模板页眉或页脚的文字，可使用 {title}、{author}、{date} 占位符
+ */
+export interface TemplateHeaderFooterText {
+  text?: string;       // 默认（奇数页）
+  evenText?: string;   // 偶数页，为空时与奇数页相同
+  firstText?: string;  // 首页，为空时首页不显示
+  alignment?: 'left' | 'center' | 'right';
+}
+
+/**
+ * 模板页眉页脚和页码配置
+ */
+export interface TemplateHeaderFooter {
+  keepOriginal?: boolean; // 保留原文档的页眉页脚，忽略其余设置
+  header?: TemplateHeaderFooterText;
+  footer?: TemplateHeaderFooterText;
+  pageNumber?: {
+    style: 'plain' | 'dashed' | 'chinese'; // 1 / — 1 — / 第 1 页
+    position: 'left' | 'center' | 'right' | 'outside'; // outside 为奇数页居右、偶数页居左
+    frontMatterFormat?: 'upperRoman' | 'lowerRoman'; // 第一个一级标题之前的页码格式
+  };
+  differentFirstPage?: boolean;
+  differentOddEven?: boolean;
+  fontName?: string;
+  fontSize?: string; // 支持如"小四"、"14pt"等格式
+}
+
+/**
+ * 模板水印，写入各节页眉，显示在每一页的正文之下
+ */
+export interface TemplateWatermark {
+  type: 'text' | 'image';
+  text?: string;      // 如"内部资料"、"草稿"、"CONFIDENTIAL"
+  fontName?: string;  // 默认宋体
+  fontSize?: string;  // 支持如"小初"、"54pt"等格式，默认 54pt
+  color?: string;     // #RRGGBB，默认银灰色
+  image?: string;     // 图片水印的 data URL，支持 PNG、JPEG 和 GIF
+  width?: number;     // 图片水印宽度（毫米），为空时按原始尺寸且不超过版心宽度
+  opacity?: number;   // 不透明度 0-1，默认 0.5
+  rotation?: number;  // 逆时针旋转角度，文字水印默认 45，图片水印默认 0
+}
+
+/**
+ * 模板自定义文档属性
+ */
+export interface TemplateCustomProperty {
+  name: string;
+  value: string;  // 可使用 {title}、{author}、{date} 占位符
+  type?: 'text' | 'number' | 'boolean' | 'date';
+}
+
+/**
+ * 模板文档属性，文字可使用 {title}、{author}、{date} 占位符
+ */
+export interface TemplateDocumentProperties {
+  keepOriginal?: boolean;   // 保留原文档已有的属性，只填补空缺
+  title?: string;
+  subject?: string;
+  creator?: string;         // 作者
+  keywords?: string;
+  description?: string;
+  lastModifiedBy?: string;
+  company?: string;
+  created?: string;         // ISO 日期，如 2024-05-01
+  modified?: string;        // ISO 日期，为空时为处理时间
+  custom?: TemplateCustomProperty[];
+}
+
+/**
+ * 模板摘要和关键词样式，标签为"摘要："、"关键词："、"Abstract:"、"Keywords:"等
+ */
+export interface TemplateAbstractStyle {
+  labelStyle: TemplateStyle;
+  contentStyle: TemplateStyle;
+  keywordSeparator?: string; // 中文关键词分隔符，默认"；"
+}
+
+/**
+ * 模板图表题注样式和编号方式，题注为"图1 系统架构"、"表 2-1 参数"等段落
+ */
+export interface TemplateCaptionStyle {
+  style: TemplateStyle;
+  numbering: 'keep' | 'sequential' | 'chapter'; // 保留原编号、全文顺序编号或按章编号（图2-3），重新编号时同步改写正文中的引用
+  chapterSeparator?: string; // 按章编号时章号与序号之间的分隔符，默认"-"
+}
+
+/**
+ * 模板参考文献样式，"参考文献"标题之后的条目按 GB/T 7714 重新著录并以 [n] 顺序编号
+ */
+export interface TemplateReferenceStyle {
+  style: TemplateStyle; // 未设置段落格式时悬挂缩进两个字符
+}
+
+/**
+ * 模板标题编号，删除标题原有的手动编号和自动编号后按各级格式重新编号
+ */
+export interface TemplateHeadingNumbering {
+  // 依次为一至四级标题：一、/（一）/ 1. /（1）/ 第一章（二级以下为第一节）/ 1.1；未设置的级别保持原样
+  levels: ('chineseComma' | 'chineseParen' | 'decimal' | 'decimalParen' | 'chapter' | 'outline' | undefined)[];
+  mode: 'text' | 'word'; // 编号写成文字，或使用 Word 多级列表自动编号
+}
+
+/**
+ * 模板排版规范化规则，各规则单独开关
+ */
+export interface TemplateTypography {
+  punctuationWidth?: boolean;             // 中文语境用全角标点，英文语境用半角标点
+  ellipsis?: boolean;                     // "..."改为"……"
+  quotes?: 'curly' | 'corner';            // 引号统一为“”或「」
+  cjkSpaces?: boolean;                    // 删除汉字之间多余的空格
+  cjkLatinSpacing?: 'insert' | 'remove';  // 汉字与英文、数字之间加空格或去掉空格
+}
+
+/**
+ * 模板查找替换规则，按顺序依次应用
+ */
+export interface TemplateReplacementRule {
+  find: string;
+  replace: string;
+  regex?: boolean;       // 按正则表达式匹配，替换文字中可用 $1 引用分组
+  ignoreCase?: boolean;  // 不区分大小写
+}
+
+/**
+ * 模板文档清理选项，对外发送前删除元数据和不可见内容，各项默认启用
+ */
+export interface TemplateSanitize {
+  comments?: boolean;          // 批注
+  revisionAuthors?: boolean;   // 修订作者匿名化
+  rsid?: boolean;              // w:rsid 编辑会话标识
+  hiddenText?: boolean;        // 隐藏文字
+  personalInfo?: boolean;      // 文档属性中的作者、最后修改者、单位和经理
+  customXml?: boolean;         // 自定义 XML
+  attachedTemplate?: boolean;  // 附加模板
+}
+
+/**
+ * 文档清理掉的内容
+ */
+export interface SanitizeReport {
+  comments: number;
+  revisionAuthors: string[];
+  revisionMarks: number;
+  rsids: number;
+  hiddenTextRuns: number;
+  hiddenTextLength: number;
+  personalInfo: string[];     // creator、lastModifiedBy、company、manager
+  customXmlParts: string[];
+  customXmlTags: number;
+  attachedTemplate?: string;
+}
+
+/**
+ * 排版规范化各规则的替换次数
+ */
+export type TypographyReport = Partial<Record<keyof TemplateTypography, number>>;
+
+/**
+ * 模板公文版式配置，按 GB/T 9704 编排发文机关标志、发文字号、主送机关、落款和版记
+ */
+export interface TemplateOfficialDocument {
+  mastheadText?: string;     // 原文档没有发文机关标志时插入，如"××市人民政府文件"
+  mastheadFontName?: string; // 默认方正小标宋简体
+  mastheadFontSize?: string; // 支持如"初号"、"36pt"等格式，默认 36pt
+  mastheadColor?: string;    // 默认红色
+  separatorColor?: string;   // 发文字号下分隔线的颜色，默认红色
+  fontName?: string;         // 主送机关、落款和版记等要素的字体，为空时与正文相同
 }
 
 /**
@@ -135,12 +467,36 @@ export interface DocumentTemplate {
   titleStyle: TemplateStyle;
   authorStyle: TemplateStyle;
   bodyStyle: TemplateStyle;
+  headingStyles?: (TemplateStyle | undefined)[]; // 依次为一至四级标题，未设置的级别按正文处理
+  headingNumbering?: TemplateHeadingNumbering; // 未设置时标题编号保持原样
+  tableStyle?: TemplateTableStyle;
+  listStyle?: TemplateListStyle;
+  footnoteStyle?: TemplateStyle; // 脚注和尾注文字，未设置时使用正文字体和较小的字号
+  abstractStyle?: TemplateAbstractStyle; // 未设置时摘要和关键词按正文处理
+  captionStyle?: TemplateCaptionStyle; // 未设置时图表题注按正文处理
+  referenceStyle?: TemplateReferenceStyle; // 未设置时参考文献条目按正文处理
+  typography?: TemplateTypography; // 未设置时不改动文字
+  replacements?: TemplateReplacementRule[]; // 格式处理之后依次应用，替换正文、表格、页眉页脚和脚注尾注中的文字
+  hyperlinkStyle?: TemplateHyperlinkStyle; // 未设置时超链接保持原样（重新生成时为蓝色带下划线）
+  headerFooter?: TemplateHeaderFooter; // 未设置时原位修改保留原页眉页脚，重新生成不输出页眉页脚
+  watermark?: TemplateWatermark; // 处理请求中的 watermark 优先于模板设置
+  properties?: TemplateDocumentProperties; // 处理请求中的 properties 优先于模板设置
+  sanitize?: TemplateSanitize; // 设置后在处理前清理原文档，其后设置的文档属性仍会写入
+  officialDocument?: TemplateOfficialDocument; // 设置后识别公文要素并按公文格式编排，未设置页面时使用公文用纸
+  pageSetup?: TemplatePageSetup;
   
   // 可选的额外配置
   titlePrefix?: string;
   titleSuffix?: string;
   authorPrefix?: string;
   authorSuffix?: string;
+
+  // 处理模式：regenerate 重新生成文档，inPlace 在原文档上直接修改格式（保留表格、脚注等内容）
+  processingMode?: 'regenerate' | 'inPlace';
+  // 保留正文中的加粗、斜体、下划线、上下标和颜色等字符格式，字体和字号仍使用模板设置
+  preserveRunFormatting?: boolean;
+  // 宽度超出版心的图片等比缩小到版心宽度
+  fitImagesToPage?: boolean;
 }
 
 /**
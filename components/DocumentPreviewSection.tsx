@@ -9,6 +9,36 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { DocumentAnalysisData } from '@/app/types';
+import { describeTypographyReport } from '@/lib/typography';
+
+// 公文要素的中文名称
+const officialRoleLabels: Record<string, string> = {
+  masthead: '发文机关标志',
+  documentNumber: '发文字号',
+  title: '标题',
+  recipient: '主送机关',
+  attachment: '附件说明',
+  signature: '发文机关署名',
+  date: '成文日期',
+  note: '附注',
+  copyTo: '抄送机关',
+  printedBy: '印发机关和日期',
+};
+
+// 段落角色的中文名称
+const paragraphRoleLabels: Record<string, string> = {
+  title: '标题',
+  subtitle: '副标题',
+  author: '作者',
+  affiliation: '作者单位',
+  abstract: '摘要',
+  keywords: '关键词',
+  heading: '章节标题',
+  caption: '题注',
+  reference: '参考文献',
+  signature: '落款',
+  body: '正文',
+};
 
 interface DocumentPreviewSectionProps {
   documentAnalysis: DocumentAnalysisData | null;
@@ -51,11 +81,78 @@ export function DocumentPreviewSection({ documentAnalysis }: DocumentPreviewSect
           </div>
         )}
 
+        {documentAnalysis.headings && documentAnalysis.headings.length > 0 && (
+          <div className="mb-3 p-3 bg-amber-50 border border-amber-200 rounded-md">
+            <div className="flex items-center text-sm">
+              <span className="font-medium text-amber-700">检测到的各级标题（{documentAnalysis.headings.length}个）:</span>
+            </div>
+            <ul className="mt-1 text-sm space-y-0.5 max-h-48 overflow-y-auto">
+              {documentAnalysis.headings.map(heading => (
+                <li
+                  key={heading.paragraphIndex}
+                  className="truncate"
+                  style={{ paddingLeft: `${(heading.level - 1) * 1}rem` }}
+                  title={heading.text}
+                >
+                  <span className="text-xs text-amber-600 mr-1">H{heading.level}</span>
+                  {heading.text}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {documentAnalysis.officialDocument && (
+          <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-md">
+            <div className="flex items-center text-sm">
+              <span className="font-medium text-red-700">检测到的公文要素（{documentAnalysis.officialDocument.elements.length}个）:</span>
+            </div>
+            <ul className="mt-1 text-sm space-y-0.5 max-h-48 overflow-y-auto">
+              {documentAnalysis.officialDocument.elements.map(element => (
+                <li key={element.paragraphIndex} className="truncate" title={element.text}>
+                  <span className="text-xs text-red-600 mr-1">{officialRoleLabels[element.role]}</span>
+                  {element.text}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {documentAnalysis.paragraphRoles && documentAnalysis.paragraphRoles.length > 0 && (
+          <div className="mb-3 p-3 bg-zinc-50 border border-zinc-200 rounded-md">
+            <div className="flex items-center text-sm">
+              <span className="font-medium text-zinc-700">段落角色识别（{documentAnalysis.paragraphRoles.length}个）:</span>
+            </div>
+            <ul className="mt-1 text-sm space-y-0.5 max-h-48 overflow-y-auto">
+              {documentAnalysis.paragraphRoles.map(item => (
+                <li key={item.paragraphIndex} className="truncate" title={item.text}>
+                  <span className="text-xs text-zinc-600 mr-1">
+                    {paragraphRoleLabels[item.role]} {Math.round(item.confidence * 100)}%
+                  </span>
+                  {item.text}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {documentAnalysis.typography && (
+          <div className="mb-3 text-sm text-zinc-600">
+            排版规范化: {describeTypographyReport(documentAnalysis.typography)}
+          </div>
+        )}
+
         {documentAnalysis.wordCount && (
           <div className="text-sm text-zinc-600">
             字数统计: {documentAnalysis.wordCount} 字
           </div>
         )}
+
+        {(documentAnalysis.footnoteCount || documentAnalysis.endnoteCount) ? (
+          <div className="text-sm text-zinc-600">
+            脚注: {documentAnalysis.footnoteCount || 0} 个，尾注: {documentAnalysis.endnoteCount || 0} 个
+          </div>
+        ) : null}
       </CardContent>
     </Card>
   );
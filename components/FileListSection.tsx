@@ -12,12 +12,32 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { ProcessedDocument } from '@/app/types';
+import { ProcessedDocument, SanitizeReport } from '@/app/types';
+import { describeTypographyReport } from '@/lib/typography';
 import { UploadProgress } from "@/components/upload-progress";
 import { ImageExtractionResults } from './ImageExtractionResults';
 import { ImageExtractionState } from '@/types/document-processing';
 import { Cpu, Download } from 'lucide-react';
 
+const PERSONAL_INFO_LABELS: Record<string, string> = {
+  creator: '作者',
+  lastModifiedBy: '最后修改者',
+  company: '单位',
+  manager: '经理'
+};
+
+// 列出文档清理删除的各项内容
+const describeSanitizeReport = (report: SanitizeReport): string => [
+  report.comments > 0 && `批注${report.comments}条`,
+  report.revisionMarks > 0 && `修订作者${report.revisionMarks}处（${report.revisionAuthors.join('、') || '未署名'}）`,
+  report.rsids > 0 && `rsid ${report.rsids}个`,
+  report.hiddenTextRuns > 0 && `隐藏文字${report.hiddenTextRuns}处（${report.hiddenTextLength}字）`,
+  report.personalInfo.length > 0 && `个人信息：${report.personalInfo.map(name => PERSONAL_INFO_LABELS[name] || name).join('、')}`,
+  report.customXmlParts.length > 0 && `自定义XML部件${report.customXmlParts.length}个`,
+  report.customXmlTags > 0 && `自定义XML标记${report.customXmlTags}处`,
+  report.attachedTemplate !== undefined && `附加模板${report.attachedTemplate ? ` ${report.attachedTemplate}` : ''}`
+].filter(Boolean).join('，') || '无需清理';
+
 interface FileListSectionProps {
   processedDocuments: ProcessedDocument[];
   uploadProgress: Record<string, number>;
@@ -173,6 +193,20 @@ export function FileListSection({
                     doc.status
                   }
                 </p>
+                {doc.status === 'completed' && doc.typography && (
+                  <p className="text-xs text-zinc-500">
+                    排版规范化: {describeTypographyReport(doc.typography)}
+                  </p>
+                )}
+                {doc.status === 'completed' && doc.replacementCount !== undefined && (
+                  <p className="text-xs text-zinc-500">查找替换: {doc.replacementCount}处</p>
+                )}
+                {doc.status === 'completed' && doc.sanitize && (
+                  <p className="text-xs text-zinc-500">文档清理: {describeSanitizeReport(doc.sanitize)}</p>
+                )}
+                {doc.status === 'completed' && doc.warnings?.map((warning, index) => (
+                  <p key={index} className="text-xs text-amber-600">注意: {warning}</p>
+                ))}
                 <div className="flex flex-wrap gap-2 mt-2">
                   {/* 预览按钮 */}
                   {(doc.status === 'uploaded_to_server' || doc.status === 'completed') && (
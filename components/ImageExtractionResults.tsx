@@ -87,7 +87,7 @@ export function ImageExtractionResults({
                       {img.name.split('/').pop() || img.name}
                     </p>
                     <p className="text-xs text-gray-500">
-                      {(img.size / 1024).toFixed(1)} KB
+                      {img.format ? `${img.format.toUpperCase()} · ` : ''}{(img.size / 1024).toFixed(1)} KB
                     </p>
                     {img.relationshipId && (
                       <p className="text-xs text-blue-600" title={`关系ID: ${img.relationshipId}`}>
@@ -2,7 +2,7 @@
  * 文档分析相关的自定义Hook
  */
 import { useState, useCallback, useEffect } from 'react';
-import { ProcessedDocument, DocumentAnalysisData } from '@/app/types';
+import { ProcessedDocument, DocumentAnalysisData, TemplateTypography } from '@/app/types';
 
 interface ToastOptions {
   type?: 'default' | 'success' | 'warning' | 'error';
@@ -18,7 +18,12 @@ interface UseDocumentAnalysisReturn {
   setCurrentEditingFileId: React.Dispatch<React.SetStateAction<string | null>>;
   isAnalyzing: boolean;
   setIsAnalyzing: React.Dispatch<React.SetStateAction<boolean>>;
-  analyzeDocument: (fileId: string, showToast?: (options: ToastOptions) => void) => Promise<void>;
+  analyzeDocument: (
+    fileId: string,
+    showToast?: (options: ToastOptions) => void,
+    setProcessedDocuments?: React.Dispatch<React.SetStateAction<ProcessedDocument[]>>,
+    typography?: TemplateTypography
+  ) => Promise<void>;
   resetUIState: (options?: {
     resetEditingFile?: boolean;
     resetDocumentAnalysis?: boolean;
@@ -31,7 +36,12 @@ export function useDocumentAnalysis(): UseDocumentAnalysisReturn {
   const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
 
   // 保留文档分析功能用于预览
-  const analyzeDocument = useCallback(async (fileId: string, showToast?: (options: ToastOptions) => void) => {
+  const analyzeDocument = useCallback(async (
+    fileId: string,
+    showToast?: (options: ToastOptions) => void,
+    setProcessedDocuments?: React.Dispatch<React.SetStateAction<ProcessedDocument[]>>,
+    typography?: TemplateTypography
+  ) => {
     setIsAnalyzing(true);
     setCurrentEditingFileId(fileId);
     
@@ -41,7 +51,8 @@ export function useDocumentAnalysis(): UseDocumentAnalysisReturn {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ fileId }),
+        // 传入所选模板的排版规范化规则，分析结果中列出各规则的替换次数
+        body: JSON.stringify({ fileId, typography }),
       });
 
       if (!response.ok) {
@@ -52,6 +63,19 @@ export function useDocumentAnalysis(): UseDocumentAnalysisReturn {
       
       if (result.success && result.analysis) {
         setDocumentAnalysis(result.analysis);
+
+        // 将识别出的各级标题记录到文档上
+        const analysis: DocumentAnalysisData = result.analysis;
+        setProcessedDocuments?.(prevDocs =>
+          prevDocs.map(doc => doc.id === fileId ? {
+            ...doc,
+            headings: analysis.headings?.map(heading => ({
+              level: heading.level,
+              text: heading.text,
+              font: heading.styles?.[0]
+            }))
+          } : doc)
+        );
       } else {
         throw new Error(result.error || '分析失败');
       }
@@ -111,6 +111,10 @@ export function useDocumentProcessing(): UseDocumentProcessingReturn {
                     processedFileUrl: result.processedFileUrl,
                     processedFileName: result.processedFileName,
                     targetFileName: result.targetFileName,
+                    typography: result.typography,
+                    replacementCount: result.replacementCount,
+                    sanitize: result.sanitize,
+                    warnings: result.warnings,
                   } 
                 : d
             )
@@ -0,0 +1,85 @@
+/**
+ * 摘要和关键词工具
+ * 识别"摘要："、"关键词："、"Abstract:"、"Keywords:"等标签，规范标签标点和关键词分隔符
+ */
+import { AbstractBlockInfo, AbstractOptions, FontModificationOptions } from '@/types/document-processing';
+
+export const DEFAULT_KEYWORD_SEPARATOR = '；';
+
+// 标签之后可以是冒号、空白或直接结束（标签单独成段）
+const LABEL_PATTERNS: { type: AbstractBlockInfo['type']; language: AbstractBlockInfo['language']; pattern: RegExp }[] = [
+  { type: 'abstract', language: 'zh', pattern: /^(摘\s*要|内容摘要|内容提要)(\s*[：:]\s*|\s+|$)/ },
+  { type: 'abstract', language: 'en', pattern: /^(abstract)(\s*[：:]\s*|\s+|$)/i },
+  { type: 'keywords', language: 'zh', pattern: /^(关\s*键\s*词|关键字)(\s*[：:]\s*|\s+)/ },
+  { type: 'keywords', language: 'en', pattern: /^(key\s*words?|index\s+terms)(\s*[：:]\s*|\s+)/i }
+];
+const KEYWORD_SEPARATOR_PATTERN = /\s*[,，;；、]\s*/;
+
+/**
+ * 拆分段落开头的摘要或关键词标签
+ * @returns 不以标签开头时返回 undefined；label 为原文中的标签（含冒号和空白），word 为标签文字
+ */
+export function parseAbstractLabel(text: string): {
+  type: AbstractBlockInfo['type'];
+  language: AbstractBlockInfo['language'];
+  label: string;
+  word: string;
+  content: string;
+} | undefined {
+  const trimmed = text.trim();
+  for (const { type, language, pattern } of LABEL_PATTERNS) {
+    const match = trimmed.match(pattern);
+    if (match) {
+      return { type, language, label: match[0], word: match[1], content: trimmed.substring(match[0].length) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 规范标签：中文标签去掉字间空格并使用全角冒号，英文标签使用半角冒号加空格；标签单独成段时不加冒号
+ */
+export function normalizeAbstractLabel(word: string, language: AbstractBlockInfo['language'], standalone = false): string {
+  const text = language === 'zh' ? word.replace(/\s+/g, '') : word.trim();
+  if (standalone) return text;
+  return language === 'zh' ? `${text}：` : `${text}: `;
+}
+
+/**
+ * 拆分关键词；中文关键词没有标点分隔时按空白拆分
+ */
+export function splitKeywords(content: string, language: AbstractBlockInfo['language']): string[] {
+  const text = content.trim().replace(/[。.；;，,]$/, '');
+  const separator = language === 'zh' && !KEYWORD_SEPARATOR_PATTERN.test(text) ? /\s+/ : KEYWORD_SEPARATOR_PATTERN;
+  return text.split(separator).map(keyword => keyword.trim()).filter(keyword => keyword.length > 0);
+}
+
+/**
+ * 以统一的分隔符连接关键词，英文关键词使用半角分号加空格
+ */
+export function joinKeywords(
+  keywords: string[],
+  language: AbstractBlockInfo['language'],
+  separator: string = DEFAULT_KEYWORD_SEPARATOR
+): string {
+  return keywords.join(language === 'zh' ? separator : '; ');
+}
+
+/**
+ * 计算标签和内容的样式：内容未设置时使用正文样式，标签未设置的属性沿用内容样式且默认加粗
+ */
+export function resolveAbstractStyles(
+  options: AbstractOptions,
+  bodyOptions?: FontModificationOptions
+): { label: FontModificationOptions; content: FontModificationOptions } {
+  const content = options.contentStyle || bodyOptions || {};
+  const label: FontModificationOptions = { ...content, paragraphFormat: undefined };
+  (Object.keys(options.labelStyle || {}) as (keyof FontModificationOptions)[]).forEach(key => {
+    const value = options.labelStyle![key];
+    if (value !== undefined) {
+      (label as Record<string, unknown>)[key] = value;
+    }
+  });
+  label.targetIsBold = options.labelStyle?.targetIsBold ?? true;
+  return { label, content };
+}
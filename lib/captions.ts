@@ -0,0 +1,129 @@
+/**
+ * 图表题注工具
+ * 解析"图1 系统架构"、"表 2-1 参数"等题注，计算顺序编号或按章编号，并改写正文中"如图3所示"等引用的编号
+ */
+import { CaptionInfo, CaptionOptions, DocxAnalysisResult, FontModificationOptions } from '@/types/document-processing';
+import { TextEdit } from './text-edits';
+import { isNumberedHeading } from './heading-numbering';
+
+const CAPTION_PATTERN = /^(续?(图|表)|figure|fig\.|table)\s*(\d+(?:\s*[.\-－—]\s*\d+)*)/i;
+// 题注编号的引用；前面是英文字母或与"图""表"组成词语的汉字时（如"代表3项"、"地图2张"）不是引用
+const REFERENCE_PATTERN = /(^|[^A-Za-z代发列报外仪课电手钟水地试意企版插蓝构绘制略统])(续?(图|表)|figure|fig\.|table)\s*(\d+(?:[.\-－—]\d+)*)/gi;
+const DEFAULT_CHAPTER_SEPARATOR = '-';
+
+/**
+ * 题注重新编号的结果
+ */
+export interface CaptionRenumbering {
+  captionNumbers: Map<number, string>;  // 以题注段落索引为键的新编号
+  references: Map<string, string>;      // 以"类型:原编号"为键的新编号，原编号重复的题注无法确定引用对象，不在其中
+}
+
+/**
+ * 解析段落开头的题注标签和编号
+ * @returns 不是题注时返回 undefined
+ */
+export function parseCaption(text: string): Pick<CaptionInfo, 'type' | 'label' | 'number' | 'continued'> | undefined {
+  const match = text.trim().match(CAPTION_PATTERN);
+  if (!match) return undefined;
+  return {
+    type: getCaptionType(match[1]),
+    label: match[1],
+    number: match[3].replace(/\s+/g, ''),
+    continued: match[1].startsWith('续') || undefined
+  };
+}
+
+/**
+ * 计算各题注的新编号，以及正文引用的原编号与新编号的对应关系
+ * 按章编号时以一级标题计章，摘要、目录、参考文献等不编号的章节标题不计章，第一章之前的题注归入第 1 章
+ * @returns 不重新编号时返回 undefined
+ */
+export function resolveCaptionNumbering(
+  analysis: Pick<DocxAnalysisResult, 'captions' | 'paragraphs'>,
+  options: CaptionOptions
+): CaptionRenumbering | undefined {
+  if (!options.numbering || options.numbering === 'keep' || !analysis.captions?.length) return undefined;
+
+  const separator = options.chapterSeparator ?? DEFAULT_CHAPTER_SEPARATOR;
+  const captionNumbers = new Map<number, string>();
+  const references = new Map<string, string>();
+  const duplicated = new Set<string>();
+  const counters: Record<CaptionInfo['type'], number> = { figure: 0, table: 0 };
+  const lastNumbers: Partial<Record<CaptionInfo['type'], string>> = {};
+  let chapter = 0;
+  let paragraphIndex = 0;
+
+  for (const caption of analysis.captions) {
+    for (; paragraphIndex < caption.paragraphIndex; paragraphIndex++) {
+      const para = analysis.paragraphs[paragraphIndex];
+      if (para?.headingLevel === 1 && isNumberedHeading(para)) {
+        chapter++;
+        if (options.numbering === 'chapter') {
+          counters.figure = 0;
+          counters.table = 0;
+        }
+      }
+    }
+
+    if (caption.continued) {
+      const number = lastNumbers[caption.type];
+      if (number) captionNumbers.set(caption.paragraphIndex, number);
+      continue;
+    }
+
+    const sequence = ++counters[caption.type];
+    const number = options.numbering === 'chapter' ? `${Math.max(chapter, 1)}${separator}${sequence}` : String(sequence);
+    captionNumbers.set(caption.paragraphIndex, number);
+    lastNumbers[caption.type] = number;
+
+    const key = getReferenceKey(caption.type, caption.number);
+    if (references.has(key)) {
+      duplicated.add(key);
+    }
+    references.set(key, number);
+  }
+
+  duplicated.forEach(key => references.delete(key));
+  return { captionNumbers, references };
+}
+
+/**
+ * 计算把段落中的题注编号和引用编号改为新编号的替换
+ * @param ownNumber 题注段落的新编号，替换段落中第一个编号
+ */
+export function getCaptionNumberEdits(text: string, renumbering: CaptionRenumbering, ownNumber?: string): TextEdit[] {
+  const edits: TextEdit[] = [];
+  let isFirst = true;
+  for (const match of text.matchAll(REFERENCE_PATTERN)) {
+    const number = match[4];
+    const newNumber = isFirst && ownNumber !== undefined
+      ? ownNumber
+      : renumbering.references.get(getReferenceKey(getCaptionType(match[2]), number));
+    isFirst = false;
+    if (newNumber !== undefined && newNumber !== number) {
+      edits.push({ offset: match.index! + match[0].length - number.length, length: number.length, text: newNumber });
+    }
+  }
+  return edits;
+}
+
+/**
+ * 计算题注样式：未设置时沿用正文字体，题注默认居中且没有首行缩进
+ */
+export function resolveCaptionStyle(options: CaptionOptions, bodyOptions?: FontModificationOptions): FontModificationOptions {
+  const style = options.style || { ...bodyOptions, paragraphFormat: undefined };
+  return {
+    ...style,
+    targetAlignment: style.targetAlignment || 'center',
+    paragraphFormat: { firstLineIndent: { value: 0, unit: 'char' }, ...style.paragraphFormat }
+  };
+}
+
+function getCaptionType(label: string): CaptionInfo['type'] {
+  return /^(续?图|fig)/i.test(label) ? 'figure' : 'table';
+}
+
+function getReferenceKey(type: CaptionInfo['type'], number: string): string {
+  return `${type}:${number.replace(/\s+/g, '').replace(/[.－—]/g, '-')}`;
+}
@@ -4,7 +4,7 @@
  */
 import * as JSZip from 'jszip';
 import { DOMParser } from 'xmldom';
-import { FontInfo } from '@/types/document-processing';
+import { FontInfo, TextRunInfo } from '@/types/document-processing';
 
 export interface StyleInfo {
   id: string;
@@ -48,6 +48,7 @@ export class DeepFontDetector {
   public async analyzeDocx(inputBuffer: Buffer): Promise<{ 
     styles: StyleInfo[],
     paragraphFonts: Map<number, FontInfo[]>,
+    paragraphRuns: Map<number, TextRunInfo[]>,
     defaultFonts: Record<string, string>
   }> {
     console.log(`深度分析文档字体 (从buffer)...`);
@@ -59,11 +60,12 @@ export class DeepFontDetector {
       await this.parseStyles(zip);
       
       // 解析文档内容
-      const paragraphFonts = await this.parseDocumentContent(zip);
+      const { paragraphFonts, paragraphRuns } = await this.parseDocumentContent(zip);
       
       return {
         styles: Array.from(this.styleMap.values()),
         paragraphFonts,
+        paragraphRuns,
         defaultFonts: {
           // 修复默认字体设置，不再使用"默认字体"替代实际字体名称
           eastAsia: this.defaultFonts.eastAsia || '等线', // 使用"等线"作为默认中文字体
@@ -310,10 +312,15 @@ export class DeepFontDetector {
     return themeMapping[themeName] || themeName;
   }
     /**
-   * 解析文档内容，提取段落及其字体信息
+   * 解析文档内容，提取段落及其字体信息，以及每个文本运行的文本和字符格式
+   * 两个结果均以 document.xml 中 w:p 的顺序为索引
    */
-  private async parseDocumentContent(zip: unknown): Promise<Map<number, FontInfo[]>> {
+  private async parseDocumentContent(zip: unknown): Promise<{
+    paragraphFonts: Map<number, FontInfo[]>,
+    paragraphRuns: Map<number, TextRunInfo[]>
+  }> {
     const paragraphFonts = new Map<number, FontInfo[]>();
+    const paragraphRuns = new Map<number, TextRunInfo[]>();
     
     try {
       // 提取document.xml
@@ -323,7 +330,7 @@ export class DeepFontDetector {
       const documentXml = await jsZip.file('word/document.xml')?.async('text');
       if (!documentXml) {
         console.warn('文档中没有找到document.xml');
-        return paragraphFonts;
+        return { paragraphFonts, paragraphRuns };
       }
       
       // 解析XML
@@ -336,6 +343,7 @@ export class DeepFontDetector {
       for (let i = 0; i < paragraphs.length; i++) {
         const paragraph = paragraphs[i];
         const fontInfoList: FontInfo[] = [];
+        const textRuns: TextRunInfo[] = [];
         
         // 获取段落样式
         const pPr = paragraph.getElementsByTagName('w:pPr')[0];
@@ -383,6 +391,10 @@ export class DeepFontDetector {
           for (let k = 0; k < textNodes.length; k++) {
             text += textNodes[k].textContent || '';
           }
+          
+          if (text) {
+            textRuns.push(this.parseRunFormatting(text, rPr));
+          }
             // 如果有文本内容且有样式，解析字体信息
           if (text && rPr) {
             const fontInfo: FontInfo = {
@@ -462,12 +474,57 @@ export class DeepFontDetector {
         if (fontInfoList.length > 0) {
           paragraphFonts.set(i, fontInfoList);
         }
+        if (textRuns.length > 0) {
+          paragraphRuns.set(i, textRuns);
+        }
       }
     } catch (error) {
       console.warn('解析文档内容时出错:', error);
     }
     
-    return paragraphFonts;
+    return { paragraphFonts, paragraphRuns };
+  }
+
+  /**
+   * 解析文本运行上直接设置的字符格式（加粗、斜体、下划线、上下标、颜色）
+   */
+  private parseRunFormatting(text: string, rPr: Element | undefined): TextRunInfo {
+    const runInfo: TextRunInfo = {
+      text,
+      isBold: false,
+      isItalic: false,
+      isUnderline: false
+    };
+    if (!rPr) return runInfo;
+
+    const bNode = rPr.getElementsByTagName('w:b')[0];
+    if (bNode) {
+      runInfo.isBold = !['false', '0'].includes(bNode.getAttribute('w:val') || '');
+    }
+
+    const iNode = rPr.getElementsByTagName('w:i')[0];
+    if (iNode) {
+      runInfo.isItalic = !['false', '0'].includes(iNode.getAttribute('w:val') || '');
+    }
+
+    const uNode = rPr.getElementsByTagName('w:u')[0];
+    if (uNode) {
+      runInfo.isUnderline = uNode.getAttribute('w:val') !== 'none';
+    }
+
+    const vertAlignNode = rPr.getElementsByTagName('w:vertAlign')[0];
+    const vertAlign = vertAlignNode?.getAttribute('w:val');
+    if (vertAlign === 'superscript' || vertAlign === 'subscript') {
+      runInfo.verticalAlign = vertAlign;
+    }
+
+    const colorNode = rPr.getElementsByTagName('w:color')[0];
+    const color = colorNode?.getAttribute('w:val');
+    if (color && color !== 'auto') {
+      runInfo.color = color;
+    }
+
+    return runInfo;
   }
   
   /**
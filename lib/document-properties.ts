@@ -0,0 +1,104 @@
+/**
+ * 文档属性工具
+ * 按保留或覆盖原值的方式合并文档属性设置，替换占位符并规范日期和自定义属性的取值
+ */
+import { CustomDocumentProperty, DocumentPropertiesOptions } from '@/types/document-processing';
+import { fillPlaceholders, HeaderFooterValues } from './header-footer';
+
+/**
+ * 写入 docProps/core.xml 的文字属性
+ */
+export const CORE_TEXT_PROPERTIES = ['title', 'subject', 'creator', 'keywords', 'description', 'lastModifiedBy'] as const;
+
+export type CoreTextProperty = typeof CORE_TEXT_PROPERTIES[number];
+
+/**
+ * 文档属性的取值，日期为 W3CDTF 格式，未设置的属性为 undefined
+ */
+export type DocumentPropertyValues = Partial<Record<CoreTextProperty | 'company' | 'created' | 'modified', string>>;
+
+/**
+ * 整理后的自定义属性，value 已按类型规范化
+ */
+export interface ResolvedCustomProperty {
+  name: string;
+  type: NonNullable<CustomDocumentProperty['type']>;
+  value: string;
+}
+
+/**
+ * 合并原文档属性和设置的属性
+ * keepOriginal 时原文档已有的值优先，否则设置的值优先；创建时间都没有时取处理时间
+ * 设置了文档属性时，标题和作者都没有的取识别结果；未设置时不补充，已清理的作者等信息不会重新写入
+ * @param options 文档属性设置，未设置时只沿用原文档的属性
+ * @returns 合并后的属性和无效日期的说明，无效的日期不写入
+ */
+export function resolveDocumentProperties(
+  options: DocumentPropertiesOptions | undefined,
+  original: DocumentPropertyValues,
+  values: HeaderFooterValues
+): { properties: DocumentPropertyValues; warnings: string[] } {
+  const settings = options || {};
+  const pick = (configured: string | undefined, originalValue: string | undefined) =>
+    settings.keepOriginal ? originalValue || configured : configured || originalValue;
+  const fill = (text?: string) => text?.trim() ? fillPlaceholders(text, values).trim() || undefined : undefined;
+  const now = formatW3CDate(values.date.toISOString());
+
+  const warnings: string[] = [];
+  const formatDate = (value?: string) => {
+    if (!value?.trim()) return undefined;
+    try {
+      return formatW3CDate(value);
+    } catch (error) {
+      warnings.push(`${error instanceof Error ? error.message : String(error)}，已跳过`);
+      return undefined;
+    }
+  };
+
+  const properties: DocumentPropertyValues = {};
+  for (const key of CORE_TEXT_PROPERTIES) {
+    properties[key] = pick(fill(settings[key]), original[key]);
+  }
+  if (options) {
+    properties.title = properties.title || values.title;
+    properties.creator = properties.creator || values.author;
+  }
+  properties.company = pick(fill(settings.company), original.company);
+  properties.created = pick(formatDate(settings.created), original.created) || now;
+  properties.modified = formatDate(settings.modified) || now;
+  return { properties, warnings };
+}
+
+/**
+ * 替换自定义属性中的占位符，并按类型检查和规范取值
+ */
+export function resolveCustomProperty(property: CustomDocumentProperty, values: HeaderFooterValues): ResolvedCustomProperty {
+  const type = property.type || 'text';
+  const value = fillPlaceholders(property.value, values).trim();
+  const invalid = () => new Error(`自定义属性"${property.name}"的值无效: ${property.value}`);
+
+  switch (type) {
+    case 'number':
+      if (!value || !isFinite(Number(value))) throw invalid();
+      return { name: property.name, type, value: String(Number(value)) };
+    case 'boolean':
+      if (!/^(true|false)$/i.test(value)) throw invalid();
+      return { name: property.name, type, value: value.toLowerCase() };
+    case 'date':
+      if (isNaN(Date.parse(value))) throw invalid();
+      return { name: property.name, type, value: formatW3CDate(value) };
+    default:
+      return { name: property.name, type, value };
+  }
+}
+
+/**
+ * 将日期规范为不含毫秒的 UTC 时间，如 2024-05-01T00:00:00Z
+ */
+export function formatW3CDate(value: string): string {
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(`文档属性日期无效: ${value}`);
+  }
+  return new Date(time).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
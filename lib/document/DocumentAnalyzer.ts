@@ -2,29 +2,76 @@
  * 文档分析器 - 专注于文档内容分析和字体检测
  */
 import mammoth from 'mammoth';
+import JSZip from 'jszip';
 import docx4js, { DocxDocument, DocxNode } from 'docx4js';
 import { DeepFontDetector } from '../deep-font-detector';
-import { ImageExtractor } from '../image-extractor';
+import { ExtractedImage, ImageExtractor } from '../image-extractor';
+import { HeadingDetector } from './HeadingDetector';
+import { ListDetector } from './ListDetector';
+import { NoteExtractor } from './NoteExtractor';
+import { LinkExtractor } from './LinkExtractor';
+import { OfficialDocumentDetector } from './OfficialDocumentDetector';
+import { ParagraphFeatures, ParagraphRoleClassifier } from './ParagraphRoleClassifier';
+import { parseAbstractLabel, splitKeywords } from '../abstract-keywords';
+import { parseCaption } from '../captions';
+import { isReferencesHeading, parseReference, splitReferenceNumber } from '../references';
+import { addTypographyCounts, getTypographyEdits, hasTypographyRules } from '../typography';
 import { 
   DocxAnalysisResult, 
   FontInfo, 
   TextRunInfo, 
-  ParagraphInfo
+  ParagraphInfo,
+  HeadingInfo,
+  TableInfo,
+  TableRowInfo,
+  TableCellInfo,
+  ClassifiedParagraphInfo,
+  AbstractBlockInfo,
+  CaptionInfo,
+  ReferenceEntryInfo,
+  TypographyOptions,
+  TypographyReport
 } from '@/types/document-processing';
+import {
+  loadXmlPart,
+  getChildElements,
+  getFirstChild,
+  getParagraphTextLines,
+  isInAlternateChoice
+} from './ooxml-utils';
+
+// 关键词之前属于摘要的最大段落数
+const MAX_ABSTRACT_PARAGRAPHS = 6;
 
 export class DocumentAnalyzer {
   private deepFontDetector: DeepFontDetector;
   private imageExtractor: ImageExtractor;
+  private headingDetector: HeadingDetector;
+  private listDetector: ListDetector;
+  private noteExtractor: NoteExtractor;
+  private linkExtractor: LinkExtractor;
+  private officialDocumentDetector: OfficialDocumentDetector;
+  private paragraphRoleClassifier: ParagraphRoleClassifier;
 
   constructor() {
     this.deepFontDetector = new DeepFontDetector();
     this.imageExtractor = new ImageExtractor();
+    this.headingDetector = new HeadingDetector();
+    this.listDetector = new ListDetector();
+    this.noteExtractor = new NoteExtractor();
+    this.linkExtractor = new LinkExtractor();
+    this.officialDocumentDetector = new OfficialDocumentDetector();
+    this.paragraphRoleClassifier = new ParagraphRoleClassifier();
   }
 
   /**
    * 解析 docx 文件的 Buffer，提取标题、作者、正文和字体信息
    */  
-  async analyzeDocument(inputBuffer: Buffer, useDeepDetection: boolean = true): Promise<DocxAnalysisResult> {
+  async analyzeDocument(
+    inputBuffer: Buffer,
+    useDeepDetection: boolean = true,
+    typography?: TypographyOptions
+  ): Promise<DocxAnalysisResult> {
     try {      
       // 使用 mammoth.js 提取文本内容
       const { value: extractedText } = await mammoth.extractRawText({ buffer: inputBuffer });
@@ -46,11 +93,13 @@ export class DocumentAnalyzer {
       }
       
       const paragraphInfoMap = await this.extractStyleInfo(docx);
+      let paragraphRuns: Map<number, TextRunInfo[]> | undefined;
       
       if (useDeepDetection) {
         try {
           console.log('开始使用深度字体检测...');
           const deepAnalysisResult = await this.deepFontDetector.analyzeDocx(inputBuffer);
+          paragraphRuns = deepAnalysisResult.paragraphRuns;
           
           // 收集字体使用情况统计
           const fontUsage = new Map<string, { count: number, samples: string[] }>();
@@ -129,12 +178,104 @@ export class DocumentAnalyzer {
         }
       }
       
-      this.processDocumentStructure(result, paragraphs, paragraphInfoMap);
+      this.processParagraphs(result, paragraphs, paragraphInfoMap);
+      
+      // 提取表格结构
+      try {
+        const tables = await this.extractTables(inputBuffer);
+        if (tables.length > 0) {
+          result.tables = tables;
+          tables.forEach(table => {
+            for (let i = table.startParagraphIndex; i < table.startParagraphIndex + table.paragraphCount; i++) {
+              if (result.paragraphs[i]) {
+                result.paragraphs[i].tableIndex = table.index;
+              }
+            }
+          });
+          console.log(`识别到${tables.length}个表格`);
+        }
+      } catch (tableError) {
+        console.warn('提取表格结构时出错:', tableError);
+      }
+      
+      // 关联文本运行的字符格式
+      if (paragraphRuns) {
+        try {
+          await this.attachTextRuns(result, inputBuffer, paragraphRuns);
+        } catch (runError) {
+          console.warn('关联文本运行格式时出错:', runError);
+        }
+      }
+      
+      // 识别公文要素，需在标题之前进行，公文要素不作为标题
+      try {
+        this.extractOfficialDocument(result, paragraphs);
+      } catch (officialError) {
+        console.warn('识别公文要素时出错:', officialError);
+      }
+      
+      // 按段落特征识别文档标题、作者等段落角色，需在表格、文本运行和公文要素之后进行
+      this.processDocumentStructure(result, paragraphs);
+      
+      // 识别摘要和关键词，需在标题之前进行，摘要标签不作为标题
+      try {
+        this.extractAbstracts(result);
+      } catch (abstractError) {
+        console.warn('识别摘要和关键词时出错:', abstractError);
+      }
+      
+      // 识别各级标题
+      try {
+        await this.extractHeadings(result, inputBuffer, paragraphs);
+      } catch (headingError) {
+        console.warn('识别标题时出错:', headingError);
+      }
+      this.collectParagraphRoles(result);
+      
+      // 识别列表段落和编号定义
+      try {
+        await this.extractLists(result, inputBuffer, paragraphs);
+      } catch (listError) {
+        console.warn('识别列表时出错:', listError);
+      }
+      
+      // 识别并解析参考文献条目，需在列表之后进行，条目可能使用 Word 自动编号
+      try {
+        this.extractReferences(result);
+      } catch (referenceError) {
+        console.warn('识别参考文献时出错:', referenceError);
+      }
+      
+      // 提取脚注和尾注
+      try {
+        const { footnotes, endnotes } = await this.noteExtractor.extractNotes(inputBuffer);
+        result.footnotes = footnotes;
+        result.endnotes = endnotes;
+        result.footnoteCount = footnotes.length;
+        result.endnoteCount = endnotes.length;
+        if (footnotes.length > 0 || endnotes.length > 0) {
+          console.log(`提取到${footnotes.length}个脚注，${endnotes.length}个尾注`);
+        }
+      } catch (noteError) {
+        console.warn('提取脚注和尾注时出错:', noteError);
+      }
+      
+      // 提取超链接、书签和交叉引用
+      try {
+        result.links = await this.linkExtractor.extractLinks(inputBuffer);
+        if (result.links.length > 0) {
+          console.log(`提取到${result.links.length}个超链接、书签和交叉引用`);
+        }
+      } catch (linkError) {
+        console.warn('提取超链接时出错:', linkError);
+      }
       
       // 提取图片信息
+      let extractedImages: ExtractedImage[] = [];
       try {
         console.log('开始提取图片...');
         const imageResult = await this.imageExtractor.extractImagesFromBuffer(inputBuffer);
+        extractedImages = imageResult.images;
         if (imageResult.images.length > 0) {
           result.images = imageResult.images;
           console.log(`成功提取${result.images.length}张图片`);
@@ -145,6 +286,22 @@ export class DocumentAnalyzer {
         console.warn('提取图片时出错:', imgError);
       }
       
+      // 识别图表题注并关联到所属的图片和表格，需在段落角色、表格和图片之后进行
+      try {
+        this.extractCaptions(result, extractedImages);
+      } catch (captionError) {
+        console.warn('识别图表题注时出错:', captionError);
+      }
+      
+      // 统计排版规范化各规则的替换次数，需在参考文献之后进行，参考文献条目不参与规范化
+      if (hasTypographyRules(typography)) {
+        try {
+          result.typography = this.countTypographyEdits(result, typography);
+        } catch (typographyError) {
+          console.warn('统计排版规范化替换次数时出错:', typographyError);
+        }
+      }
+      
       this.deduplicateStyles(result);
 
       return result;
@@ -188,166 +345,93 @@ export class DocumentAnalyzer {
   }
 
   /**
-   * 处理文档结构（标题、作者、段落）
+   * 处理文档结构：对段落进行角色分类，确定标题和作者，构建正文并收集正文样式
    */
-  private processDocumentStructure(
-    result: DocxAnalysisResult, 
-    paragraphs: string[], 
-    paragraphInfoMap: Record<number, ParagraphInfo>
-  ) {
-    if (paragraphs.length > 0) {
-      // 智能识别标题 - 必须是第一段，并且满足特定条件
-      const isTitle = this.identifyTitle(paragraphs, paragraphInfoMap);
-      
-      if (isTitle) {
-        // 处理标题
-        result.title = {
-          text: paragraphs[0],
-          exists: true,
-          styles: paragraphInfoMap[0] ? paragraphInfoMap[0].textRuns.map(run => ({
-            name: run.name,
-            size: run.size,
-            isBold: run.isBold,
-            isItalic: run.isItalic,
-            isUnderline: run.isUnderline,
-            color: run.color,
-            alignment: run.alignment,
-            originalStyleKey: run.originalStyleKey
-          })) : [{
-            name: '默认字体',
-            size: 16,
-            isBold: true,
-            isItalic: false,
-            isUnderline: false,
-            alignment: 'center',
-            originalStyleKey: 'default-title'
-          }]
-        };
-      } else {
-        // 第一段不是标题，不设置title
-        result.title = undefined;
-      }
-      
-      // 尝试识别作者信息（只有在有标题的情况下才检查第二段作为作者）
-      if (isTitle && paragraphs.length > 1 && paragraphs[1].length < 30) {
-        const authorPattern = /[\（\(](.+)[\)\）]|作者[：:]\s*(.+)/;
-        const authorMatch = paragraphs[1].match(authorPattern);
-        
-        if (authorMatch) {
-          result.author = {
-            text: authorMatch[1] || authorMatch[2],
-            exists: true,
-            styles: paragraphInfoMap[1] ? paragraphInfoMap[1].textRuns.map(run => ({
-              name: run.name,
-              size: run.size,
-              isBold: run.isBold,
-              isItalic: run.isItalic,
-              isUnderline: run.isUnderline,
-              color: run.color,
-              alignment: run.alignment,
-              originalStyleKey: run.originalStyleKey
-            })) : [{
-              name: '默认字体',
-              size: 12,
-              isBold: false,
-              isItalic: false,
-              isUnderline: false,
-              alignment: 'center',
-              originalStyleKey: 'default-author'
-            }]
-          };
-        }
-      }
-      
-      // 处理段落
-      this.processParagraphs(result, paragraphs, paragraphInfoMap);
-      
-      // 构建正文
-      const startIndex = result.author?.exists ? 2 : (result.title?.exists ? 1 : 0);
-      result.bodyText = paragraphs.slice(startIndex).join('\n\n');
+  private processDocumentStructure(result: DocxAnalysisResult, paragraphs: string[]) {
+    if (paragraphs.length === 0) return;
+
+    const roles = this.paragraphRoleClassifier.classify(
+      result.paragraphs.map(paragraph => this.getParagraphFeatures(paragraph))
+    );
+    roles.forEach((role, index) => {
+      if (role) result.paragraphs[index].role = role;
+    });
+
+    const titleIndex = roles.findIndex(role => role?.role === 'title');
+    if (titleIndex !== -1) {
+      const paragraph = result.paragraphs[titleIndex];
+      paragraph.isTitle = true;
+      result.title = {
+        text: paragraphs[titleIndex],
+        exists: true,
+        paragraphIndex: titleIndex,
+        styles: paragraph.styles || []
+      };
+      console.log(`第${titleIndex + 1}段识别为标题，置信度 ${roles[titleIndex]!.confidence}`);
+    } else {
+      console.log('未识别到文档标题，全部段落作为正文处理');
+    }
+
+    const authorIndex = roles.findIndex(role => role?.role === 'author');
+    if (authorIndex !== -1) {
+      const paragraph = result.paragraphs[authorIndex];
+      paragraph.isAuthor = true;
+      result.author = {
+        text: this.extractAuthorName(paragraphs[authorIndex]),
+        exists: true,
+        paragraphIndex: authorIndex,
+        styles: paragraph.styles || []
+      };
     }
+
+    result.bodyText = paragraphs.filter((_, index) => index !== titleIndex && index !== authorIndex).join('\n\n');
+    this.collectBodyStyles(result);
   }
 
   /**
-   * 智能识别标题
-   * 必要条件：在第一段
-   * 充分条件：字体大小和第二段不同，或为居中排列
+   * 从分析段落的样式中取分类所需的特征，没有样式信息时使用文本运行的格式
+   * 没有样式信息时使用的默认样式不作为特征
    */
-  private identifyTitle(
-    paragraphs: string[], 
-    paragraphInfoMap: Record<number, ParagraphInfo>
-  ): boolean {
-    if (paragraphs.length === 0) return false;
-    
-    // 获取第一段的样式信息
-    const firstParagraph = paragraphInfoMap[0];
-    if (!firstParagraph || !firstParagraph.textRuns || firstParagraph.textRuns.length === 0) {
-      // 如果没有样式信息，通过深度分析检查
-      return this.checkTitleByDeepAnalysis(paragraphs);
-    }
+  private getParagraphFeatures(paragraph: DocxAnalysisResult['paragraphs'][number]): ParagraphFeatures {
+    const styles = (paragraph.styles || []).filter(style => !style.originalStyleKey?.startsWith('default-'));
+    const runs: FontInfo[] = styles.length > 0 ? styles : paragraph.textRuns || [];
+    const first = runs[0];
+    return {
+      text: paragraph.text,
+      fontSize: first?.size,
+      isBold: !!first?.isBold,
+      alignment: runs.find(run => run.alignment)?.alignment,
+      inTable: paragraph.tableIndex !== undefined,
+      officialRole: paragraph.officialRole
+    };
+  }
 
-    const firstParagraphStyle = firstParagraph.textRuns[0];
-    
-    // 检查是否居中排列
-    const isCenter = firstParagraph.alignment === 'center' || 
-                    firstParagraphStyle.alignment === 'center';
-    
-    if (isCenter) {
-      console.log('第一段识别为标题：居中排列');
-      return true;
-    }
-    
-    // 如果有第二段，比较字体大小
-    if (paragraphs.length > 1) {
-      const secondParagraph = paragraphInfoMap[1];
-      if (secondParagraph && secondParagraph.textRuns && secondParagraph.textRuns.length > 0) {
-        const secondParagraphStyle = secondParagraph.textRuns[0];
-        
-        const firstSize = firstParagraphStyle.size || 12;
-        const secondSize = secondParagraphStyle.size || 12;
-        
-        // 如果第一段字体比第二段大，认为是标题
-        if (firstSize > secondSize) {
-          console.log(`第一段识别为标题：字体大小 ${firstSize} > ${secondSize}`);
-          return true;
-        }
-        
-        // 如果第一段加粗而第二段不加粗，也可能是标题
-        if (firstParagraphStyle.isBold && !secondParagraphStyle.isBold) {
-          console.log('第一段识别为标题：第一段加粗，第二段不加粗');
-          return true;
-        }
-      }
-    }
-    
-    // 检查第一段是否明显像标题（短且简洁）
-    const firstParagraphText = paragraphs[0].trim();
-    if (firstParagraphText.length < 50 && !firstParagraphText.includes('。') && 
-        !firstParagraphText.includes('.') && paragraphs.length > 1) {
-      console.log('第一段识别为标题：短且简洁，类似标题格式');
-      return true;
-    }
-    
-    console.log('第一段不符合标题特征，作为正文处理');
-    return false;
+  /**
+   * 从作者段落中提取作者姓名，如"作者：张三"或"（张三）"
+   */
+  private extractAuthorName(text: string): string {
+    const authorMatch = text.trim().match(/^作\s*者[：:]\s*(.+)$|^[（(](.+)[）)]$/);
+    return authorMatch ? (authorMatch[1] || authorMatch[2]).trim() : text.trim();
   }
 
   /**
-   * 通过深度分析检查标题
+   * 汇总非正文段落的角色，标题识别器认定的标题段落以其结果为准
    */
-  private checkTitleByDeepAnalysis(paragraphs: string[]): boolean {
-    if (paragraphs.length === 0) return false;
-    
-    const firstParagraph = paragraphs[0].trim();
-    
-    // 如果第一段很短且不包含句号，可能是标题
-    if (firstParagraph.length < 30 && !firstParagraph.includes('。') && 
-        !firstParagraph.includes('.') && paragraphs.length > 1) {
-      console.log('深度分析：第一段识别为标题（短且无句号）');
-      return true;
+  private collectParagraphRoles(result: DocxAnalysisResult) {
+    const classified: ClassifiedParagraphInfo[] = [];
+    result.paragraphs.forEach((paragraph, index) => {
+      if (paragraph.headingLevel && paragraph.role?.role !== 'heading') {
+        paragraph.role = { role: 'heading', confidence: 0.9, rule: 'headingDetector' };
+      }
+      if (paragraph.role && paragraph.role.role !== 'body') {
+        classified.push({ ...paragraph.role, paragraphIndex: index, text: paragraph.text });
+      }
+    });
+
+    if (classified.length > 0) {
+      result.paragraphRoles = classified;
+      console.log(`识别到${classified.length}个非正文段落:`, classified.map(c => `${c.role}(${c.confidence}) ${c.text.substring(0, 20)}`));
     }
-    
-    return false;
   }
 
   /**
@@ -398,35 +482,37 @@ export class DocumentAnalyzer {
         }];
       }
 
-      const paragraph = {
+      result.paragraphs.push({
         text,
         index,
-        isTitle: index === 0,
-        isAuthor: index === 1 && result.author?.exists,
         styles: paragraphStyles
-      };
-      
-      result.paragraphs.push(paragraph);
-      
-      // 收集正文样式
-      if (!paragraph.isTitle && !paragraph.isAuthor && paragraph.styles) {
-        paragraph.styles.forEach(style => {
-          const existingStyleIndex = result.bodyStyles.findIndex(s => 
-            s.name === style.name && 
-            s.size === style.size && 
-            s.isBold === style.isBold && 
-            s.isItalic === style.isItalic && 
-            s.isUnderline === style.isUnderline &&
-            ((s.color === style.color) || (!s.color && !style.color)) &&
-            ((s.alignment === style.alignment) || (!s.alignment && !style.alignment))
-          );
-            
-          if (existingStyleIndex === -1) {
-            console.log(`添加正文样式: ${style.name || '未命名'}, 大小: ${style.size || '未知'}, 粗体: ${style.isBold}`);
-            result.bodyStyles.push(style);
-          }
-        });
-      }
+      });
+    });
+  }
+
+  /**
+   * 收集标题和作者以外段落的样式作为正文样式
+   */
+  private collectBodyStyles(result: DocxAnalysisResult) {
+    result.paragraphs.forEach(paragraph => {
+      if (paragraph.isTitle || paragraph.isAuthor || !paragraph.styles) return;
+
+      paragraph.styles.forEach(style => {
+        const existingStyleIndex = result.bodyStyles.findIndex(s => 
+          s.name === style.name && 
+          s.size === style.size && 
+          s.isBold === style.isBold && 
+          s.isItalic === style.isItalic && 
+          s.isUnderline === style.isUnderline &&
+          ((s.color === style.color) || (!s.color && !style.color)) &&
+          ((s.alignment === style.alignment) || (!s.alignment && !style.alignment))
+        );
+          
+        if (existingStyleIndex === -1) {
+          console.log(`添加正文样式: ${style.name || '未命名'}, 大小: ${style.size || '未知'}, 粗体: ${style.isBold}`);
+          result.bodyStyles.push(style);
+        }
+      });
     });
   }
 
@@ -540,6 +626,350 @@ export class DocumentAnalyzer {
     return paragraphInfoMap;
   }
 
+  /**
+   * 将深度检测得到的文本运行（按 XML 段落索引）关联到对应的分析段落上
+   * 只处理单行段落，且要求运行文本与段落文本一致
+   */
+  private async attachTextRuns(
+    result: DocxAnalysisResult,
+    inputBuffer: Buffer,
+    paragraphRuns: Map<number, TextRunInfo[]>
+  ) {
+    const zip = await JSZip.loadAsync(inputBuffer);
+    const documentXml = await loadXmlPart(zip, 'word/document.xml');
+    if (!documentXml) return;
+
+    const normalize = (text: string) => text.replace(/\s+/g, '');
+    const xmlParagraphs = documentXml.getElementsByTagName('w:p');
+    let lineIndex = 0;
+    let attached = 0;
+
+    for (let i = 0; i < xmlParagraphs.length; i++) {
+      // 文本框在 mc:Choice 中的副本不在 mammoth 的分析结果中
+      if (isInAlternateChoice(xmlParagraphs[i])) continue;
+      const lines = getParagraphTextLines(xmlParagraphs[i]);
+      const paragraph = result.paragraphs[lineIndex];
+      const runs = paragraphRuns.get(i);
+
+      if (lines.length === 1 && paragraph && runs &&
+          normalize(runs.map(run => run.text).join('')) === normalize(paragraph.text)) {
+        paragraph.textRuns = runs;
+        attached++;
+      }
+      lineIndex += lines.length;
+    }
+
+    console.log(`已关联${attached}个段落的文本运行格式`);
+  }
+
+  /**
+   * 识别各级标题并标记到段落上，标题、作者和表格中的段落除外
+   */
+  private async extractHeadings(result: DocxAnalysisResult, inputBuffer: Buffer, paragraphs: string[]) {
+    const detected = await this.headingDetector.detectHeadings(inputBuffer, paragraphs);
+    const headings: HeadingInfo[] = [];
+
+    detected.forEach((heading, index) => {
+      const paragraph = result.paragraphs[index];
+      if (!paragraph || paragraph.tableIndex !== undefined) return;
+      if (paragraph.isTitle || paragraph.isAuthor) return;
+      if (paragraph.officialRole || paragraph.abstractIndex !== undefined) return;
+
+      paragraph.headingLevel = heading.level;
+      headings.push({
+        level: heading.level,
+        text: paragraph.text,
+        paragraphIndex: index,
+        source: heading.source,
+        styles: paragraph.styles
+      });
+    });
+
+    if (headings.length > 0) {
+      result.headings = headings.sort((a, b) => a.paragraphIndex - b.paragraphIndex);
+      console.log(`识别到${headings.length}个标题:`, headings.map(h => `${h.level}级 ${h.text.substring(0, 20)}`));
+    }
+  }
+
+  /**
+   * 识别摘要和关键词块并标记到段落上
+   * 摘要标签单独成段时包含其后一段；其后几段内出现关键词时，二者之间的段落都属于摘要
+   */
+  private extractAbstracts(result: DocxAnalysisResult) {
+    const abstracts: AbstractBlockInfo[] = [];
+    const paragraphs = result.paragraphs;
+    const isContent = (index: number) => {
+      const paragraph = paragraphs[index];
+      return !!paragraph && paragraph.tableIndex === undefined && paragraph.abstractIndex === undefined &&
+        (!paragraph.role || paragraph.role.role === 'body' || paragraph.role.role === 'abstract') &&
+        !parseAbstractLabel(paragraph.text);
+    };
+
+    paragraphs.forEach((paragraph, index) => {
+      const role = paragraph.role?.role;
+      if ((role !== 'abstract' && role !== 'keywords') || paragraph.abstractIndex !== undefined) return;
+      const parsed = parseAbstractLabel(paragraph.text);
+      if (!parsed) return;
+
+      let count = 1;
+      if (parsed.type === 'abstract') {
+        let end = index + 1;
+        while (end - index <= MAX_ABSTRACT_PARAGRAPHS && isContent(end)) end++;
+        const next = parseAbstractLabel(paragraphs[end]?.text || '');
+        if (next?.type === 'keywords' && next.language === parsed.language) {
+          count = end - index;
+        } else if (!parsed.content && isContent(index + 1)) {
+          count = 2;
+        }
+      }
+
+      const contents = [parsed.content, ...paragraphs.slice(index + 1, index + count).map(p => p.text.trim())];
+      const content = contents.filter(text => text.length > 0).join('\n');
+      paragraphs.slice(index, index + count).forEach((p, offset) => {
+        p.abstractIndex = abstracts.length;
+        if (offset > 0) p.role = { role: parsed.type, confidence: 0.8, rule: 'abstract' };
+      });
+      abstracts.push({
+        type: parsed.type,
+        language: parsed.language,
+        paragraphIndex: index,
+        paragraphCount: count,
+        label: parsed.label,
+        content,
+        keywords: parsed.type === 'keywords' ? splitKeywords(content, parsed.language) : undefined
+      });
+    });
+
+    if (abstracts.length > 0) {
+      result.abstracts = abstracts;
+      console.log(`识别到${abstracts.length}个摘要和关键词块:`, abstracts.map(a => `${a.type}(${a.language}) ${a.content.substring(0, 20)}`));
+    }
+  }
+
+  /**
+   * 识别图表题注并标记到段落上
+   * 图的题注通常在图下方：优先关联紧邻其前（或同一段落中）的图片，其次关联紧邻其后的图片；
+   * 表的题注通常在表上方：优先关联紧邻其后的表格，其次关联紧邻其前的表格
+   */
+  private extractCaptions(result: DocxAnalysisResult, images: ExtractedImage[]) {
+    const captions: CaptionInfo[] = [];
+    // 只关联按原始位置定位到的独立图片，SVG 图片随其后备图输出
+    const located = images.filter(img => img.placement && !img.fallbackImageName);
+    const imagesBefore = (index: number) => located
+      .filter(img => img.placement!.lineIndex === index)
+      .map(img => img.name);
+    const tableAt = (predicate: (start: number, end: number) => boolean) =>
+      result.tables?.find(table => predicate(table.startParagraphIndex, table.startParagraphIndex + table.paragraphCount));
+
+    result.paragraphs.forEach((paragraph, index) => {
+      if (paragraph.role?.role !== 'caption') return;
+      const parsed = parseCaption(paragraph.text);
+      if (!parsed) return;
+
+      const caption: CaptionInfo = { ...parsed, paragraphIndex: index };
+      if (parsed.type === 'figure') {
+        const below = imagesBefore(index);
+        const above = below.length > 0 ? [] : located
+          .filter(img => img.placement!.lineIndex === index + 1 && img.placement!.textOffset === undefined)
+          .map(img => img.name);
+        if (below.length > 0 || above.length > 0) {
+          caption.position = below.length > 0 ? 'below' : 'above';
+          caption.imageNames = below.length > 0 ? below : above;
+        }
+      } else {
+        const above = tableAt(start => start === index + 1);
+        const below = above ? undefined : tableAt((start, end) => end === index);
+        if (above || below) {
+          caption.position = above ? 'above' : 'below';
+          caption.tableIndex = (above || below)!.index;
+        }
+      }
+      paragraph.captionIndex = captions.length;
+      captions.push(caption);
+    });
+
+    if (captions.length > 0) {
+      result.captions = captions;
+      console.log(`识别到${captions.length}个图表题注:`, captions.map(c => `${c.label}${c.number}(${c.position ?? '未关联'})`));
+    }
+  }
+
+  /**
+   * 识别"参考文献"标题之后的条目并按 GB/T 7714 解析
+   * 条目为标题之后连续的、被识别为参考文献或带有编号的段落，遇到其他段落（如落款、附录标题）时结束
+   */
+  private extractReferences(result: DocxAnalysisResult) {
+    const paragraphs = result.paragraphs;
+    const headingIndex = paragraphs.findIndex(p => p.tableIndex === undefined && isReferencesHeading(p.text));
+    if (headingIndex < 0) return;
+
+    const entries: ReferenceEntryInfo[] = [];
+    for (let index = headingIndex + 1; index < paragraphs.length; index++) {
+      const paragraph = paragraphs[index];
+      const role = paragraph.role?.role;
+      const { number, content } = splitReferenceNumber(paragraph.text);
+      const isEntry = paragraph.tableIndex === undefined && content.length > 0 && (role === 'reference' ||
+        ((!role || role === 'body') && (number !== undefined || paragraph.list !== undefined)));
+      if (!isEntry) break;
+
+      const { parsed, error } = parseReference(content);
+      paragraph.referenceIndex = entries.length;
+      entries.push({ paragraphIndex: index, text: content, number, parsed, error });
+    }
+    if (entries.length === 0) return;
+
+    const unparsed = entries.filter(entry => !entry.parsed);
+    result.references = { headingIndex, entries, unparsedCount: unparsed.length };
+    console.log(`识别到${entries.length}条参考文献，其中${unparsed.length}条无法解析`);
+    unparsed.forEach(entry => console.log(`  无法解析的参考文献: ${entry.text.substring(0, 40)}（${entry.error}）`));
+  }
+
+  /**
+   * 统计各段落按排版规范化规则需要替换的次数，与重新生成和原位修改时逐段改写的统计方式相同
+   */
+  private countTypographyEdits(result: DocxAnalysisResult, options: TypographyOptions): TypographyReport {
+    const report: TypographyReport = {};
+    result.paragraphs
+      .filter(paragraph => paragraph.referenceIndex === undefined)
+      .forEach(paragraph => addTypographyCounts(report, getTypographyEdits(paragraph.text, options).counts));
+    console.log('排版规范化各规则的替换次数:', report);
+    return report;
+  }
+
+  /**
+   * 识别公文版头、落款和版记等要素并标记到段落上，表格中的段落除外
+   */
+  private extractOfficialDocument(result: DocxAnalysisResult, paragraphs: string[]) {
+    const info = this.officialDocumentDetector.detect(paragraphs);
+    if (!info) return;
+
+    info.elements = info.elements.filter(element => result.paragraphs[element.paragraphIndex]?.tableIndex === undefined);
+    if (info.elements.length === 0) return;
+
+    info.elements.forEach(element => {
+      result.paragraphs[element.paragraphIndex].officialRole = element.role;
+    });
+    result.officialDocument = info;
+    console.log(`识别到${info.elements.length}个公文要素:`, info.elements.map(e => `${e.role} ${e.text.substring(0, 20)}`));
+  }
+
+  /**
+   * 识别列表段落并标记到段落上，同时记录这些列表的编号定义
+   */
+  private async extractLists(result: DocxAnalysisResult, inputBuffer: Buffer, paragraphs: string[]) {
+    const { lists, paragraphLists } = await this.listDetector.detectLists(inputBuffer, paragraphs);
+    if (paragraphLists.size === 0) return;
+
+    paragraphLists.forEach((list, index) => {
+      if (result.paragraphs[index]) {
+        result.paragraphs[index].list = list;
+      }
+    });
+    result.lists = lists;
+    console.log(`识别到${lists.length}个列表，共${paragraphLists.size}个列表段落`);
+  }
+
+  /**
+   * 提取文档正文中的顶层表格结构
+   * 表格位置以 mammoth 纯文本段落的索引表示，与 result.paragraphs 对应
+   */
+  private async extractTables(inputBuffer: Buffer): Promise<TableInfo[]> {
+    const zip = await JSZip.loadAsync(inputBuffer);
+    const documentXml = await loadXmlPart(zip, 'word/document.xml');
+    const body = documentXml?.getElementsByTagName('w:body')[0];
+    if (!body) return [];
+
+    const tables: TableInfo[] = [];
+    let paragraphIndex = 0;
+
+    for (const child of getChildElements(body)) {
+      if (child.tagName === 'w:tbl') {
+        const table = this.parseTable(child, tables.length, paragraphIndex);
+        tables.push(table);
+        paragraphIndex += table.paragraphCount;
+      } else {
+        paragraphIndex += this.countTextLines(child);
+      }
+    }
+
+    return tables;
+  }
+
+  /**
+   * 解析单个表格的行列结构
+   */
+  private parseTable(tableNode: Element, index: number, startParagraphIndex: number): TableInfo {
+    const rows: TableRowInfo[] = [];
+    let paragraphCount = 0;
+
+    for (const rowNode of getChildElements(tableNode, 'w:tr')) {
+      const trPr = getFirstChild(rowNode, 'w:trPr');
+      const row: TableRowInfo = {
+        cells: [],
+        isHeader: !!(trPr && getFirstChild(trPr, 'w:tblHeader'))
+      };
+
+      for (const cellNode of getChildElements(rowNode, 'w:tc')) {
+        const cellParagraphs: string[] = [];
+        for (const content of getChildElements(cellNode)) {
+          if (content.tagName === 'w:p') {
+            cellParagraphs.push(...getParagraphTextLines(content));
+          } else if (content.tagName !== 'w:tcPr') {
+            // 嵌套表格等内容按纯文本并入单元格
+            const nested = content.getElementsByTagName('w:p');
+            for (let i = 0; i < nested.length; i++) {
+              if (!isInAlternateChoice(nested[i])) {
+                cellParagraphs.push(...getParagraphTextLines(nested[i]));
+              }
+            }
+          }
+        }
+        paragraphCount += cellParagraphs.length;
+
+        const cell: TableCellInfo = {
+          text: cellParagraphs.join('\n'),
+          paragraphs: cellParagraphs
+        };
+
+        const tcPr = getFirstChild(cellNode, 'w:tcPr');
+        if (tcPr) {
+          const gridSpan = getFirstChild(tcPr, 'w:gridSpan');
+          if (gridSpan) {
+            cell.gridSpan = parseInt(gridSpan.getAttribute('w:val') || '1', 10);
+          }
+          const vMerge = getFirstChild(tcPr, 'w:vMerge');
+          if (vMerge) {
+            cell.vMerge = vMerge.getAttribute('w:val') === 'restart' ? 'restart' : 'continue';
+          }
+        }
+
+        row.cells.push(cell);
+      }
+
+      rows.push(row);
+    }
+
+    return { index, startParagraphIndex, paragraphCount, rows };
+  }
+
+  /**
+   * 统计元素中的非空文本行数
+   */
+  private countTextLines(element: Element): number {
+    if (element.tagName === 'w:p') {
+      return getParagraphTextLines(element).length;
+    }
+
+    let count = 0;
+    const paragraphs = element.getElementsByTagName('w:p');
+    for (let i = 0; i < paragraphs.length; i++) {
+      if (!isInAlternateChoice(paragraphs[i])) {
+        count += getParagraphTextLines(paragraphs[i]).length;
+      }
+    }
+    return count;
+  }
+
   /**
    * 将 docx4js 的对齐方式映射到 FontInfo 中的对齐方式
    */
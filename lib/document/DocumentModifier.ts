@@ -2,63 +2,268 @@
  * 文档修改器 - 专注于文档格式修改和生成
  */
 import { 
-  Document, Packer, Paragraph, 
-  AlignmentType, UnderlineType, ImageRun
+  Document, Packer, Paragraph, TextRun, ImageRun,
+  Table, TableRow, TableCell,
+  AlignmentType, UnderlineType, BorderStyle, TableLayoutType, HeadingLevel,
+  VerticalAlignTable, VerticalMergeType, WidthType, PageOrientation, TextWrappingType,
+  IBaseParagraphStyleOptions, IFloating, IHorizontalPositionOptions, IVerticalPositionOptions,
+  ILevelsOptions, LevelSuffix, FootnoteReferenceRun, ParagraphChild,
+  ExternalHyperlink, InternalHyperlink, Bookmark, SimpleField,
+  Header, Footer, PageNumber, NumberFormat, ISectionOptions, IPageNumberTypeAttributes, IFontAttributesProperties,
+  Tab, TabStopType, FrameAnchorType, FrameWrap, HorizontalPositionAlign, VerticalPositionAlign, DocumentGridType
 } from 'docx';
-import { ImageExtractor } from '../image-extractor';
+import JSZip from 'jszip';
+import { DOMParser } from 'xmldom';
+import { ImageExtractor, IMAGE_FORMATS } from '../image-extractor';
 import { DocumentAnalyzer } from './DocumentAnalyzer';
+import { OoxmlRestyler } from './OoxmlRestyler';
+import { HeaderFooterWriter } from './HeaderFooterWriter';
+import { WatermarkWriter } from './WatermarkWriter';
+import { PropertiesWriter } from './PropertiesWriter';
+import { resolvePageSetup, resolveDocumentGrid } from '../page-utils';
+import { resolveParagraphFormat } from '../paragraph-format';
+import { resolveListLevel } from '../list-format';
+import { resolveRunFonts } from '../font-utils';
+import { HeaderFooterParagraph, HeaderFooterValues, ResolvedHeaderFooter, resolveHeaderFooter, splitPageNumber } from '../header-footer';
+import {
+  OFFICIAL_BODY_FONT_SIZE,
+  INSERTED_MASTHEAD_INDEX,
+  OfficialBorder,
+  OfficialElementLayout,
+  resolveOfficialLayout,
+  splitPrintedBy
+} from '../official-document';
+import { joinKeywords, normalizeAbstractLabel, parseAbstractLabel, resolveAbstractStyles, splitKeywords } from '../abstract-keywords';
+import { getCaptionNumberEdits, resolveCaptionNumbering, resolveCaptionStyle } from '../captions';
+import { formatReferenceEntry, resolveReferenceStyle } from '../references';
+import { addTypographyCounts, getTypographyEdits, hasTypographyRules } from '../typography';
+import { getHeadingNumberEdits, getHeadingNumberingLevels, resolveHeadingNumbering } from '../heading-numbering';
+import { TextEdit, applyTextEdits, mapTextOffset } from '../text-edits';
+import { loadXmlPart, saveXmlPart, getChildElements, W_NS } from './ooxml-utils';
 import { 
   FontModificationOptions,
   DocxAnalysisResult,
+  DocumentProcessingOptions,
+  TableModificationOptions,
+  TableInfo,
+  TextRunInfo,
+  ListInfo,
+  ListModificationOptions,
+  ParagraphListInfo,
+  PageSetupOptions,
+  ImagePlacement,
+  ImageFormat,
+  NoteInfo,
+  LinkInfo,
+  HeaderFooterOptions,
+  DocumentGridOptions,
+  OfficialElementRole,
+  AbstractBlockInfo,
+  AbstractOptions,
+  CaptionInfo,
+  CaptionOptions,
+  ReferenceEntryInfo,
+  TypographyOptions,
+  TypographyReport,
+  HeadingNumberingOptions,
   ExtractedImage 
 } from '@/types/document-processing';
 
+type DocumentChild = Paragraph | Table;
+
+/**
+ * 新文档的正文内容
+ */
+interface DocumentBody {
+  children: DocumentChild[];
+  mainMatterIndex?: number;  // 第一个一级标题的位置，前置部分页码格式在此分节
+}
+
+/**
+ * 输出图片时的选项
+ */
+interface ImageRunOptions {
+  maxWidth?: number;  // 最大宽度（EMU），超出时等比缩小
+  svgImages: Map<string, ExtractedImage>;  // 按名称索引的 SVG 图片，随其后备图输出
+}
+
+/**
+ * 生成文档中的注释引用，脚注和尾注各自按出现顺序从 1 重新编号
+ */
+interface NoteReference {
+  note: NoteInfo;
+  id: number;
+}
+
+/**
+ * 按字符位置插入到段落文本中的对象（段内图片、注释引用）
+ */
+interface InlineObject {
+  offset: number;
+  create: () => ParagraphChild;
+}
+
+/**
+ * 包装一段文本的段内范围（超链接、书签、交叉引用域）
+ */
+interface InlineRange {
+  offset: number;
+  length: number;
+  wrap: (children: ParagraphChild[]) => ParagraphChild;
+  runStyle?: string;      // 范围内文本使用的字符样式
+  collapsible?: boolean;  // 为空或与其他范围重叠时作为空范围插入，否则忽略
+}
+
+/**
+ * 同一段落中的注释引用和链接
+ */
+interface ParagraphInlines {
+  notes: NoteReference[];
+  links: LinkInfo[];
+}
+
+const DOCUMENT_GRID_TYPES: Record<DocumentGridOptions['type'], typeof DocumentGridType[keyof typeof DocumentGridType]> = {
+  default: DocumentGridType.DEFAULT,
+  lines: DocumentGridType.LINES,
+  linesAndChars: DocumentGridType.LINES_AND_CHARS,
+  snapToChars: DocumentGridType.SNAP_TO_CHARS
+};
+const HEADING_LEVELS = [HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3, HeadingLevel.HEADING_4];
+const HEADING_STYLE_KEYS = ['heading1', 'heading2', 'heading3', 'heading4'] as const;
+const DEFAULT_HEADING_FONT_SIZES = [16, 15, 14, 12];
+const EMU_PER_PIXEL = 9525;
+const EMU_PER_TWIP = 635;
+const CONTENT_TYPES_NS = 'http://schemas.openxmlformats.org/package/2006/content-types';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const ENDNOTES_RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/endnotes';
+const ENDNOTES_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.endnotes+xml';
+// docx.js 不支持尾注，尾注引用先以占位文本输出，打包后再替换为 w:endnoteReference
+const ENDNOTE_PLACEHOLDER = /^\[\[endnote:(\d+)\]\]$/;
+// 标题自动编号使用的列表，与原文档的列表编号区分
+const HEADING_NUMBERING_ID = 'heading';
+// 未设置脚注样式时，注释字号为正文字号的四分之三（小四正文对应小五注释）
+const NOTE_FONT_SIZE_RATIO = 0.75;
+
+// docx.js 可以直接嵌入的图片格式；其他格式先占位嵌入，打包后再还原为原始格式
+const DOCX_IMAGE_TYPES: Partial<Record<ImageFormat, 'png' | 'jpg' | 'gif' | 'bmp'>> = {
+  png: 'png',
+  jpeg: 'jpg',
+  gif: 'gif',
+  bmp: 'bmp'
+};
+
 export class DocumentModifier {
   private documentAnalyzer: DocumentAnalyzer;
   private imageExtractor: ImageExtractor;
+  private ooxmlRestyler: OoxmlRestyler;
+  private headerFooterWriter: HeaderFooterWriter;
+  private watermarkWriter: WatermarkWriter;
+  private propertiesWriter: PropertiesWriter;
 
   constructor() {
     this.documentAnalyzer = new DocumentAnalyzer();
     this.imageExtractor = new ImageExtractor();
+    this.ooxmlRestyler = new OoxmlRestyler();
+    this.headerFooterWriter = new HeaderFooterWriter();
+    this.watermarkWriter = new WatermarkWriter();
+    this.propertiesWriter = new PropertiesWriter();
   }
 
   /**
    * 修改文档字体和样式 (基于Buffer)
-   * 创建一个新的 docx 文档，应用用户指定的字体和样式，同时保留原有图片
-   * @returns {Promise<Buffer>} 返回包含新文档内容的Buffer
+   * 默认创建一个新的 docx 文档，应用用户指定的字体和样式，同时保留原有图片；
+   * processingOptions.mode 为 'inPlace' 时直接改写原始文档的格式属性，其余内容原样保留
+   * @returns 新文档内容的Buffer，设置了排版规范化规则时附带各规则实际的替换次数，以及处理中跳过的设置说明
    */
   async modifyFonts(
     inputBuffer: Buffer, 
     titleOptions?: FontModificationOptions,
     bodyOptions?: FontModificationOptions,
-    authorOptions?: FontModificationOptions
-  ): Promise<Buffer> {
+    authorOptions?: FontModificationOptions,
+    processingOptions?: DocumentProcessingOptions
+  ): Promise<{ buffer: Buffer; typography?: TypographyReport; warnings: string[] }> {
     try {
       // 1. 先分析文档，获取内容结构和图片
       const analysis = await this.documentAnalyzer.analyzeDocument(inputBuffer);
       
+      if (processingOptions?.mode === 'inPlace') {
+        console.log('使用原位修改模式处理文档');
+        const result = await this.ooxmlRestyler.restyle(inputBuffer, analysis, titleOptions, bodyOptions, authorOptions, processingOptions);
+        let restyled = result.buffer;
+        const warnings: string[] = [];
+        if (processingOptions.watermark) {
+          const watermarked = await this.watermarkWriter.addWatermark(restyled, processingOptions.watermark);
+          restyled = watermarked.buffer;
+          warnings.push(...watermarked.warnings);
+        }
+        // 原位修改保留了原文档的属性部件，只在设置了文档属性时改写
+        if (processingOptions.properties) {
+          const written = await this.propertiesWriter.writeProperties(restyled, processingOptions.properties, this.getPlaceholderValues(analysis));
+          restyled = written.buffer;
+          warnings.push(...written.warnings);
+        }
+        return { buffer: restyled, typography: result.typography, warnings };
+      }
+      
       // 2. 提取图片信息
       const imageResult = await this.imageExtractor.extractImagesFromBuffer(inputBuffer);
       const extractedImages = imageResult.images;
       console.log(`从原文档提取了${extractedImages.length}张图片用于新文档`);
 
       // 3. 创建新文档的段落
-      const paragraphs = this.createDocumentParagraphs(
+      const typographyOptions = processingOptions?.typography;
+      const typography = hasTypographyRules(typographyOptions)
+        ? this.normalizeTypography(analysis, extractedImages, typographyOptions)
+        : undefined;
+      if (processingOptions?.caption) {
+        this.renumberCaptions(analysis, extractedImages, processingOptions.caption);
+      }
+      if (processingOptions?.headingNumbering) {
+        this.numberHeadings(analysis, extractedImages, processingOptions.headingNumbering);
+      }
+      const notes = this.numberNotes(analysis);
+      const body = this.createDocumentParagraphs(
         analysis, 
         extractedImages, 
+        notes,
         titleOptions, 
         bodyOptions, 
-        authorOptions
+        authorOptions,
+        processingOptions
       );
       
       // 4. 生成最终文档对象
-      const doc = this.createDocument(paragraphs, analysis, titleOptions, bodyOptions, authorOptions);
+      const doc = this.createDocument(body, analysis, notes, titleOptions, bodyOptions, authorOptions, processingOptions);
       
       // 5. 将文档打包成Buffer并返回
-      const buffer = await Packer.toBuffer(doc);
+      let buffer = await Packer.toBuffer(doc);
+      if (extractedImages.some(img => img.placement?.crop || this.isPassthroughImage(img))) {
+        buffer = await this.restoreImageDetails(buffer, extractedImages);
+      }
+      const endnotes = notes.filter(ref => ref.note.type === 'endnote');
+      if (endnotes.length > 0) {
+        buffer = await this.restoreEndnotes(buffer, endnotes);
+      }
+      if (processingOptions?.headingNumbering?.mode === 'word' && processingOptions.headingNumbering.levels.includes('outline')) {
+        buffer = await this.reorderLegalNumbering(buffer);
+      }
+      if (processingOptions?.headerFooter?.keepOriginal) {
+        buffer = await this.headerFooterWriter.copyHeaderFooters(inputBuffer, buffer);
+      }
+      // 水印写入最终的页眉，在页眉页脚生成或复制之后进行
+      const warnings: string[] = [];
+      if (processingOptions?.watermark) {
+        const watermarked = await this.watermarkWriter.addWatermark(buffer, processingOptions.watermark);
+        buffer = watermarked.buffer;
+        warnings.push(...watermarked.warnings);
+      }
+      // 新文档的属性以原文档的属性为基础，未设置文档属性时保留原作者、关键词等
+      const written = await this.propertiesWriter.writeProperties(
+        buffer, processingOptions?.properties, this.getPlaceholderValues(analysis), inputBuffer
+      );
       
       console.log(`文档处理完成，保留了${extractedImages.length}张图片`);
-      return buffer;
+      return { buffer: written.buffer, typography, warnings: [...warnings, ...written.warnings] };
     } catch (error) {
       console.error('修改文档字体和样式时出错:', error);
       throw new Error(`修改文档失败: ${error instanceof Error ? error.message : String(error)}`);
@@ -74,12 +279,13 @@ export class DocumentModifier {
     authorAlignment?: 'left' | 'center' | 'right',
     bodyAlignment?: 'left' | 'center' | 'right' | 'justify'
   ): Promise<Buffer> {
-    return this.modifyFonts(
+    const result = await this.modifyFonts(
       inputBuffer,
       { targetAlignment: titleAlignment },
       { targetAlignment: bodyAlignment },
       { targetAlignment: authorAlignment }
     );
+    return result.buffer;
   }
 
   /**
@@ -90,12 +296,13 @@ export class DocumentModifier {
     prefix?: string,
     suffix?: string
   ): Promise<Buffer> {
-    return this.modifyFonts(
+    const result = await this.modifyFonts(
       inputBuffer,
       { addPrefix: prefix, addSuffix: suffix },
       undefined,
       undefined
     );
+    return result.buffer;
   }
 
   /**
@@ -104,34 +311,45 @@ export class DocumentModifier {
   private createDocumentParagraphs(
     analysis: DocxAnalysisResult,
     extractedImages: ExtractedImage[],
+    notes: NoteReference[],
     titleOptions?: FontModificationOptions,
     bodyOptions?: FontModificationOptions,
-    authorOptions?: FontModificationOptions
-  ): Paragraph[] {
-    const paragraphs: Paragraph[] = [];
+    authorOptions?: FontModificationOptions,
+    processingOptions?: DocumentProcessingOptions
+  ): DocumentBody {
+    const paragraphs: DocumentChild[] = [];
+    const inlinesByParagraph = this.groupInlinesByParagraph(notes, analysis.links || []);
+    const officialLayouts = this.resolveOfficialLayouts(analysis, titleOptions, bodyOptions, processingOptions);
     
-    // 添加标题
-    if (analysis.title?.exists) {
-      const titleParagraph = this.createTitleParagraph(analysis.title.text, titleOptions);
-      paragraphs.push(titleParagraph);
+    // 公文的标题由公文要素确定，原文档没有发文机关标志时插入模板设置的标志
+    const masthead = officialLayouts?.get(INSERTED_MASTHEAD_INDEX);
+    if (masthead) {
+      paragraphs.push(this.createOfficialParagraph(processingOptions!.officialDocument!.mastheadText!, masthead));
     }
     
-    // 添加作者
-    if (analysis.author?.exists) {
-      const authorParagraph = this.createAuthorParagraph(analysis.author.text, authorOptions);
-      paragraphs.push(authorParagraph);
+    // 标题和作者在正文中按其原段落位置输出
+    const frontMatter = new Map<number, Paragraph>();
+    if (!officialLayouts) {
+      if (analysis.title?.exists) {
+        const index = analysis.title.paragraphIndex;
+        frontMatter.set(index, this.createTitleParagraph(analysis.title.text, titleOptions, inlinesByParagraph.get(index)));
+      }
+      if (analysis.author?.exists) {
+        const index = analysis.author.paragraphIndex;
+        frontMatter.set(index, this.createAuthorParagraph(analysis.author.text, authorOptions, inlinesByParagraph.get(index)));
+      }
     }
     
     // 添加正文内容和图片
-    this.addBodyContentWithImages(paragraphs, analysis, extractedImages, bodyOptions);
+    const mainMatterIndex = this.addBodyContentWithImages(paragraphs, analysis, extractedImages, inlinesByParagraph, frontMatter, bodyOptions, processingOptions, officialLayouts);
     
-    return paragraphs;
+    return { children: paragraphs, mainMatterIndex };
   }
 
   /**
    * 创建标题段落
    */
-  private createTitleParagraph(titleText: string, options?: FontModificationOptions): Paragraph {
+  private createTitleParagraph(titleText: string, options?: FontModificationOptions, inlines?: ParagraphInlines): Paragraph {
     let text = titleText;
     
     if (options?.addPrefix) {
@@ -142,7 +360,7 @@ export class DocumentModifier {
     }
     
     return new Paragraph({
-      text: text,
+      children: this.createTextWithInlines(text, inlines, options?.addPrefix?.length),
       style: 'Title',
       alignment: this.getAlignmentType(options?.targetAlignment || 'center')
     });
@@ -151,7 +369,7 @@ export class DocumentModifier {
   /**
    * 创建作者段落
    */
-  private createAuthorParagraph(authorText: string, options?: FontModificationOptions): Paragraph {
+  private createAuthorParagraph(authorText: string, options?: FontModificationOptions, inlines?: ParagraphInlines): Paragraph {
     let text = authorText;
     
     if (options?.addPrefix) {
@@ -162,47 +380,229 @@ export class DocumentModifier {
     }
     
     return new Paragraph({
-      text: text,
+      children: this.createTextWithInlines(text, inlines, options?.addPrefix?.length),
       style: 'Author',
       alignment: this.getAlignmentType(options?.targetAlignment || 'center')
     });
   }
 
+  /**
+   * 计算识别出的公文要素的版式，模板未启用公文版式或没有识别到公文要素时返回 undefined
+   */
+  private resolveOfficialLayouts(
+    analysis: DocxAnalysisResult,
+    titleOptions?: FontModificationOptions,
+    bodyOptions?: FontModificationOptions,
+    processingOptions?: DocumentProcessingOptions
+  ): Map<number, OfficialElementLayout> | undefined {
+    const officialOptions = processingOptions?.officialDocument;
+    if (!officialOptions || !analysis.officialDocument) return undefined;
+
+    const textWidth = this.getTextArea(processingOptions.page).width;
+    return resolveOfficialLayout(analysis.officialDocument, officialOptions, { title: titleOptions, body: bodyOptions }, textWidth);
+  }
+
+  /**
+   * 创建公文要素段落，字符格式由各要素的段落样式决定，缩进、间距和分隔线直接设置在段落上
+   */
+  private createOfficialParagraph(text: string, layout: OfficialElementLayout, inlines?: ParagraphInlines): Paragraph {
+    const options = layout.options;
+    const format = resolveParagraphFormat(options.paragraphFormat || {}, options.targetFontSize || OFFICIAL_BODY_FONT_SIZE);
+    const fullText = (options.addPrefix || '') + text + (options.addSuffix || '');
+    const printedBy = layout.rightTabStop !== undefined ? splitPrintedBy(fullText) : undefined;
+
+    return new Paragraph({
+      children: printedBy
+        ? [new TextRun({ children: [printedBy[0], new Tab(), printedBy[1]] })]
+        : this.createTextWithInlines(fullText, inlines, options.addPrefix?.length),
+      style: layout.role === 'title' ? 'Title' : this.getOfficialStyleId(layout.role),
+      alignment: this.getAlignmentType(options.targetAlignment),
+      spacing: format.spacing,
+      indent: format.indent ? {
+        firstLine: format.indent.firstLine,
+        hanging: format.indent.hanging,
+        left: format.indent.left,
+        right: format.indent.right,
+      } : undefined,
+      border: layout.borderTop || layout.borderBottom ? {
+        top: this.createOfficialBorder(layout.borderTop),
+        bottom: this.createOfficialBorder(layout.borderBottom),
+      } : undefined,
+      // 版记的段落使用相同的图文框属性，Word 会把它们合并到同一个图文框中
+      frame: layout.frameWidth ? {
+        type: 'alignment',
+        alignment: { x: HorizontalPositionAlign.CENTER, y: VerticalPositionAlign.BOTTOM },
+        width: layout.frameWidth,
+        height: 0,
+        anchor: { horizontal: FrameAnchorType.MARGIN, vertical: FrameAnchorType.MARGIN },
+        wrap: FrameWrap.NOT_BESIDE,
+      } : undefined,
+      tabStops: layout.rightTabStop !== undefined ? [{ type: TabStopType.RIGHT, position: layout.rightTabStop }] : undefined
+    });
+  }
+
+  private createOfficialBorder(border?: OfficialBorder) {
+    return border ? {
+      style: BorderStyle.SINGLE,
+      size: border.size,
+      color: border.color.replace(/^#/, ''),
+      space: border.space,
+    } : undefined;
+  }
+
+  /**
+   * 创建公文要素的段落样式，同一类要素共用一个样式；公文标题使用 Title 样式
+   */
+  private createOfficialStyles(layouts: Map<number, OfficialElementLayout>) {
+    const styles = new Map<OfficialElementRole, OfficialElementLayout>();
+    layouts.forEach(layout => {
+      if (layout.role !== 'title' && !styles.has(layout.role)) {
+        styles.set(layout.role, layout);
+      }
+    });
+
+    return Array.from(styles.values()).map(({ role, options }) => ({
+      id: this.getOfficialStyleId(role),
+      name: this.getOfficialStyleId(role),
+      basedOn: 'Normal',
+      next: 'Body',
+      run: {
+        font: this.createRunFont(options),
+        size: (options.targetFontSize || OFFICIAL_BODY_FONT_SIZE) * 2,
+        bold: options.targetIsBold || false,
+        color: options.targetColor?.replace(/^#/, ''),
+      }
+    }));
+  }
+
+  private getOfficialStyleId(role: OfficialElementRole): string {
+    return `Official${role.charAt(0).toUpperCase()}${role.slice(1)}`;
+  }
+
+  /**
+   * 创建各级标题段落
+   */
+  private createHeadingParagraph(
+    text: string,
+    level: number,
+    options: FontModificationOptions,
+    list?: ParagraphListInfo,
+    inlines?: ParagraphInlines
+  ): Paragraph {
+    return new Paragraph({
+      children: this.createTextWithInlines(text, inlines),
+      heading: HEADING_LEVELS[level - 1],
+      alignment: this.getAlignmentType(options.targetAlignment || 'left'),
+      numbering: this.getListNumbering(list)
+    });
+  }
+
+  /**
+   * 创建摘要或关键词段落，标签和内容分别使用 AbstractLabel 字符样式和 Abstract 段落样式
+   * @param isLabelParagraph 是否为标签所在的段落，其余为标签单独成段时的内容段落
+   */
+  private createAbstractParagraph(
+    text: string,
+    block: AbstractBlockInfo,
+    isLabelParagraph: boolean,
+    options: AbstractOptions,
+    inlines?: ParagraphInlines
+  ): Paragraph {
+    const parsed = isLabelParagraph ? parseAbstractLabel(text) : undefined;
+    if (!parsed) {
+      return new Paragraph({ children: this.createTextWithInlines(text, inlines), style: 'Abstract' });
+    }
+
+    const label = new TextRun({ text: normalizeAbstractLabel(parsed.word, parsed.language, !parsed.content), style: 'AbstractLabel' });
+    // 关键词改写了分隔符，原有的注释和链接位置无法对应，不再保留
+    const content = block.type === 'keywords'
+      ? [new TextRun(joinKeywords(splitKeywords(parsed.content, parsed.language), parsed.language, options.keywordSeparator))]
+      : this.createTextWithInlines(parsed.content, inlines, -(text.length - parsed.content.length));
+    return new Paragraph({ children: [label, ...content], style: 'Abstract' });
+  }
+
+  /**
+   * 创建图表题注段落，题注在图表上方时与其后的图表保持在同一页
+   */
+  private createCaptionParagraph(text: string, caption: CaptionInfo, inlines?: ParagraphInlines): Paragraph {
+    return new Paragraph({
+      children: this.createTextWithInlines(text, inlines),
+      style: 'Caption',
+      keepNext: caption.position === 'above' || undefined
+    });
+  }
+
+  /**
+   * 创建参考文献条目段落，使用 Reference 段落样式和文字编号 [n]
+   * 条目按 GB/T 7714 重新著录，原有的注释和链接位置无法对应，不再保留；Word 自动编号改为文字编号
+   */
+  private createReferenceParagraph(entry: ReferenceEntryInfo, index: number): Paragraph {
+    return new Paragraph({
+      children: [new TextRun(formatReferenceEntry(entry, index))],
+      style: 'Reference'
+    });
+  }
+
   /**
    * 添加正文内容和图片
+   * 读取到原始位置的图片按原位置插入：段落内的图片插入到文本中，独占一段的图片插入到其后段落之前
+   * @returns 第一个一级标题在 paragraphs 中的位置
    */
   private addBodyContentWithImages(
-    paragraphs: Paragraph[],
+    paragraphs: DocumentChild[],
     analysis: DocxAnalysisResult,
     extractedImages: ExtractedImage[],
-    bodyOptions?: FontModificationOptions
-  ) {
+    inlinesByParagraph: Map<number, ParagraphInlines>,
+    frontMatter: Map<number, Paragraph>,
+    bodyOptions?: FontModificationOptions,
+    processingOptions?: DocumentProcessingOptions,
+    officialLayouts?: Map<number, OfficialElementLayout>
+  ): number | undefined {
+    let mainMatterIndex: number | undefined;
+    const tableOptions = processingOptions?.table;
+    const imageOptions: ImageRunOptions = {
+      maxWidth: processingOptions?.fitImagesToPage ? this.getTextWidthEmu(processingOptions.page) : undefined,
+      svgImages: new Map(extractedImages.filter(img => img.fallbackImageName).map(img => [img.name, img]))
+    };
+    // SVG 图片随其后备图一同输出，不单独插入
+    extractedImages = extractedImages.filter(img => !img.fallbackImageName);
     if (analysis.paragraphs && analysis.paragraphs.length > 0) {
-      // 确定正文开始索引
-      let startIndex = 0;
-      if (analysis.title?.exists) startIndex++;
-      if (analysis.author?.exists) startIndex++;
+      // 确定正文开始索引：标题、作者及其之前段落中的图片放在正文开始处
+      const startIndex = frontMatter.size > 0 ? Math.max(...frontMatter.keys()) + 1 : 0;
       
       console.log(`正文开始索引: ${startIndex}, 总段落数: ${analysis.paragraphs.length}`);
       console.log(`提取的图片数量: ${extractedImages.length}`);
       
+      const addToMap = (map: Map<number, ExtractedImage[]>, index: number, img: ExtractedImage) => {
+        if (!map.has(index)) {
+          map.set(index, []);
+        }
+        map.get(index)!.push(img);
+      };
+      
       // 创建图片位置映射 - 修复：图片段落索引不需要调整，直接使用原始索引
       const imagesByParagraph = new Map<number, ExtractedImage[]>();
+      // 按原始位置插入的图片：独占一段的图片（插入到段落之前）和段落内的图片
+      const imagesBeforeParagraph = new Map<number, ExtractedImage[]>();
+      const inlineImagesByParagraph = new Map<number, ExtractedImage[]>();
       extractedImages.forEach(img => {
-        if (img.paragraphIndex !== undefined) {
-          // 直接使用原始段落索引，不进行偏移调整
-          const paragraphIndex = img.paragraphIndex;
-          
-          if (!imagesByParagraph.has(paragraphIndex)) {
-            imagesByParagraph.set(paragraphIndex, []);
+        if (img.placement) {
+          const index = Math.max(img.placement.lineIndex, startIndex);
+          if (img.placement.textOffset !== undefined && img.placement.lineIndex >= startIndex) {
+            addToMap(inlineImagesByParagraph, index, img);
+          } else {
+            addToMap(imagesBeforeParagraph, index, img);
           }
-          imagesByParagraph.get(paragraphIndex)!.push(img);
-          console.log(`📍 图片 ${img.name} 映射到段落 ${paragraphIndex}`);
+          console.log(`📍 图片 ${img.name} 按原始位置插入到段落 ${index}`);
+        } else if (img.paragraphIndex !== undefined) {
+          // 直接使用原始段落索引，不进行偏移调整
+          addToMap(imagesByParagraph, img.paragraphIndex, img);
+          console.log(`📍 图片 ${img.name} 映射到段落 ${img.paragraphIndex}`);
         }
       });
       
       // 收集无法精确匹配的图片
-      const unassignedImages = extractedImages.filter(img => img.paragraphIndex === undefined);
+      const unassignedImages = extractedImages.filter(img => !img.placement && img.paragraphIndex === undefined);
       if (unassignedImages.length > 0) {
         console.log(`⚠️ 发现${unassignedImages.length}张无法精确定位的图片，将使用智能分配策略`);
       }
@@ -214,12 +614,85 @@ export class DocumentModifier {
       console.log(`处理段落范围: ${startIndex} 到 ${Math.min(maxParagraphIndex, totalParagraphs - 1)}, 图片映射段落: [${Array.from(imagesByParagraph.keys()).join(', ')}]`);
       
       // 遍历段落并添加内容和图片
-      for (let i = startIndex; i < totalParagraphs; i++) {
+      for (let i = 0; i < totalParagraphs; i++) {
         const para = analysis.paragraphs[i];
+        const caption = processingOptions?.caption && para.captionIndex !== undefined
+          ? analysis.captions?.[para.captionIndex]
+          : undefined;
         
-        // 创建段落
-        const bodyParagraph = this.createParagraphWithOriginalFormat(para, bodyOptions);
+        // 图片与其下方的题注保持在同一页
+        this.addParagraphImages(paragraphs, imagesBeforeParagraph.get(i) || [], imageOptions, caption?.position === 'below');
+        
+        const frontMatterParagraph = frontMatter.get(i);
+        if (frontMatterParagraph) {
+          paragraphs.push(frontMatterParagraph);
+          continue;
+        }
+        
+        // 表格段落整体还原为表格，并跳过表格占用的其余段落
+        const table = para.tableIndex !== undefined ? analysis.tables?.[para.tableIndex] : undefined;
+        if (table) {
+          paragraphs.push(this.createTable(table, inlinesByParagraph, bodyOptions, tableOptions));
+          console.log(`段落${i}: 还原表格${table.index}，共${table.rows.length}行`);
+          const tableEnd = table.startParagraphIndex + table.paragraphCount;
+          // 单元格中的图片无法还原到表格内，放在表格之后
+          for (let j = i; j < tableEnd; j++) {
+            const cellImages = [
+              ...(j > i ? imagesBeforeParagraph.get(j) || [] : []),
+              ...(inlineImagesByParagraph.get(j) || [])
+            ];
+            this.addParagraphImages(paragraphs, cellImages, imageOptions);
+          }
+          i = tableEnd - 1;
+          continue;
+        }
+        
+        // 创建段落，模板设置了对应级别样式的标题使用标题样式
+        const headingOptions = para.headingLevel ? processingOptions?.headings?.[para.headingLevel - 1] : undefined;
+        const inlineImages = inlineImagesByParagraph.get(i);
+        const inlines = inlinesByParagraph.get(i);
+        const officialLayout = officialLayouts?.get(i);
+        const abstractBlock = processingOptions?.abstract && para.abstractIndex !== undefined
+          ? analysis.abstracts?.[para.abstractIndex]
+          : undefined;
+        const referenceEntry = processingOptions?.references && para.referenceIndex !== undefined
+          ? analysis.references?.entries[para.referenceIndex]
+          : undefined;
+        let bodyParagraph: Paragraph;
+        if (officialLayout) {
+          bodyParagraph = this.createOfficialParagraph(para.text, officialLayout, inlines);
+        } else if (abstractBlock) {
+          bodyParagraph = this.createAbstractParagraph(para.text, abstractBlock, i === abstractBlock.paragraphIndex, processingOptions!.abstract!, inlines);
+        } else if (caption) {
+          bodyParagraph = this.createCaptionParagraph(para.text, caption, inlines);
+        } else if (referenceEntry) {
+          bodyParagraph = this.createReferenceParagraph(referenceEntry, para.referenceIndex!);
+        } else if ((inlineImages || inlines) && !headingOptions) {
+          const inlineObjects = [
+            ...(inlineImages || []).map(img => ({
+              offset: img.placement!.textOffset!,
+              create: () => this.createImageRun(img, imageOptions)
+            })),
+            ...this.createNoteObjects(inlines?.notes)
+          ];
+          const linkRanges = this.createLinkRanges(inlines?.links, para.text);
+          bodyParagraph = this.createParagraphWithInlineObjects(para, inlineObjects, linkRanges, bodyOptions, processingOptions?.preserveRunFormatting);
+        } else {
+          bodyParagraph = headingOptions
+            ? this.createHeadingParagraph(para.text, para.headingLevel!, headingOptions, para.list, inlines)
+            : this.createParagraphWithOriginalFormat(para, bodyOptions, processingOptions?.preserveRunFormatting);
+        }
+        if (para.headingLevel === 1 && mainMatterIndex === undefined) {
+          mainMatterIndex = paragraphs.length;
+        }
+        // 与题注同段的图片放在题注之前
+        if (inlineImages && caption) {
+          this.addParagraphImages(paragraphs, inlineImages, imageOptions, true);
+        }
         paragraphs.push(bodyParagraph);
+        if (inlineImages && (headingOptions || officialLayout || abstractBlock || referenceEntry)) {
+          this.addParagraphImages(paragraphs, inlineImages, imageOptions);
+        }
         
         // 检查是否有图片应该在这个段落后插入
         const paragraphImages = imagesByParagraph.get(i) || [];
@@ -229,28 +702,36 @@ export class DocumentModifier {
         // 添加匹配到的图片
         if (paragraphImages.length > 0) {
           console.log(`正在添加段落${i}的${paragraphImages.length}张图片...`);
-          this.addParagraphImages(paragraphs, paragraphImages);
+          this.addParagraphImages(paragraphs, paragraphImages, imageOptions);
           console.log(`段落${i}的图片添加完成`);
         }
         
         // 智能分配无法精确定位的图片
-        this.tryAssignUnassignedImages(paragraphs, unassignedImages, i, totalParagraphs, startIndex);
+        this.tryAssignUnassignedImages(paragraphs, unassignedImages, i, totalParagraphs, startIndex, imageOptions);
       }
       
+      // 位于文档末尾的图片
+      Array.from(imagesBeforeParagraph.keys())
+        .filter(index => index >= totalParagraphs)
+        .sort((a, b) => a - b)
+        .forEach(index => this.addParagraphImages(paragraphs, imagesBeforeParagraph.get(index)!, imageOptions));
+      
       // 添加剩余未分配的图片到文档末尾
-      this.addRemainingImages(paragraphs, unassignedImages);
+      this.addRemainingImages(paragraphs, unassignedImages, imageOptions);
     }
+    return mainMatterIndex;
   }
 
   /**
    * 尝试智能分配无法精确定位的图片
    */
   private tryAssignUnassignedImages(
-    paragraphs: Paragraph[],
+    paragraphs: DocumentChild[],
     unassignedImages: ExtractedImage[],
     currentParagraphIndex: number,
     totalParagraphs: number,
-    startIndex: number
+    startIndex: number,
+    imageOptions?: ImageRunOptions
   ) {
     const relativeParagraphIndex = currentParagraphIndex - startIndex;
     const totalBodyParagraphs = totalParagraphs - startIndex;
@@ -269,7 +750,7 @@ export class DocumentModifier {
       if (shouldInsertImage(i)) {
         const imageToInsert = unassignedImages.splice(i, 1)[0];
         console.log(`🎯 智能插入图片 ${imageToInsert.name} 在段落 ${currentParagraphIndex} 后`);
-        this.addParagraphImages(paragraphs, [imageToInsert]);
+        this.addParagraphImages(paragraphs, [imageToInsert], imageOptions);
       }
     }
   }
@@ -277,10 +758,10 @@ export class DocumentModifier {
   /**
    * 添加剩余的图片到文档末尾
    */
-  private addRemainingImages(paragraphs: Paragraph[], remainingImages: ExtractedImage[]) {
+  private addRemainingImages(paragraphs: DocumentChild[], remainingImages: ExtractedImage[], imageOptions?: ImageRunOptions) {
     if (remainingImages.length > 0) {
       console.log(`📎 添加${remainingImages.length}张剩余图片到文档末尾`);
-      this.addParagraphImages(paragraphs, remainingImages);
+      this.addParagraphImages(paragraphs, remainingImages, imageOptions);
       remainingImages.length = 0; // 清空数组
     }
   }
@@ -289,9 +770,23 @@ export class DocumentModifier {
    * 创建保留原始格式的段落
    */
   private createParagraphWithOriginalFormat(
-    para: { text: string; styles?: Array<{ name?: string; size?: number; isBold?: boolean; isItalic?: boolean; isUnderline?: boolean; color?: string; alignment?: string }> },
-    bodyOptions?: FontModificationOptions
+    para: { text: string; styles?: Array<{ name?: string; size?: number; isBold?: boolean; isItalic?: boolean; isUnderline?: boolean; color?: string; alignment?: string }>; textRuns?: TextRunInfo[]; list?: ParagraphListInfo },
+    bodyOptions?: FontModificationOptions,
+    preserveRunFormatting?: boolean
   ): Paragraph {
+    const numbering = this.getListNumbering(para.list);
+
+    // 保留文本运行的字符格式，字体和字号仍由 Body 样式决定
+    if (preserveRunFormatting && para.textRuns && para.textRuns.length > 0) {
+      const firstStyle = para.styles?.[0];
+      return new Paragraph({
+        children: para.textRuns.map(run => this.createFormattedTextRun(run)),
+        style: 'Body',
+        alignment: this.getAlignmentType(bodyOptions?.targetAlignment || firstStyle?.alignment || 'left'),
+        numbering
+      });
+    }
+
     // 如果有原始样式信息，尽量保留
     if (para.styles && para.styles.length > 0) {
       const firstStyle = para.styles[0];
@@ -308,59 +803,152 @@ export class DocumentModifier {
       return new Paragraph({
         text: para.text,
         style: 'Body',
-        alignment: alignment
+        alignment: alignment,
+        numbering
       });
     } else {
       // 没有样式信息时使用默认格式
       return new Paragraph({
         text: para.text,
         style: 'Body',
-        alignment: this.getAlignmentType(bodyOptions?.targetAlignment || 'left')
+        alignment: this.getAlignmentType(bodyOptions?.targetAlignment || 'left'),
+        numbering
       });
     }
   }
 
   /**
-   * 添加段落图片
+   * 创建保留原始字符格式的文本运行，未设置的属性沿用段落样式
+   */
+  private createFormattedTextRun(run: TextRunInfo, style?: string): TextRun {
+    return new TextRun({
+      text: run.text,
+      style,
+      bold: run.isBold || undefined,
+      italics: run.isItalic || undefined,
+      underline: run.isUnderline ? { type: UnderlineType.SINGLE } : undefined,
+      color: run.color,
+      superScript: run.verticalAlign === 'superscript' || undefined,
+      subScript: run.verticalAlign === 'subscript' || undefined,
+    });
+  }
+
+  /**
+   * 根据分析得到的表格结构创建表格
+   */
+  private createTable(
+    table: TableInfo,
+    inlinesByParagraph: Map<number, ParagraphInlines>,
+    bodyOptions?: FontModificationOptions,
+    tableOptions?: TableModificationOptions
+  ): Table {
+    const borderStyle = this.getBorderStyle(tableOptions?.borderStyle || 'single');
+    const border = {
+      style: borderStyle,
+      size: Math.round((tableOptions?.borderSize || 0.5) * 8), // 边框粗细以1/8磅为单位
+      color: (tableOptions?.borderColor || '000000').replace(/^#/, ''),
+    };
+    const font = tableOptions?.fontName || this.createRunFont(bodyOptions);
+    const fontSize = tableOptions?.fontSize || bodyOptions?.targetFontSize;
+    const autoFit = tableOptions?.autoFit || 'window';
+    // 单元格段落按行、列顺序对应分析结果中的段落索引
+    let paragraphIndex = table.startParagraphIndex;
+
+    return new Table({
+      layout: autoFit === 'fixed' ? TableLayoutType.FIXED : TableLayoutType.AUTOFIT,
+      width: autoFit === 'window'
+        ? { size: 100, type: WidthType.PERCENTAGE }
+        : { size: 0, type: WidthType.AUTO },
+      borders: {
+        top: border,
+        bottom: border,
+        left: border,
+        right: border,
+        insideHorizontal: border,
+        insideVertical: border,
+      },
+      rows: table.rows.map((row, rowIndex) => {
+        const isHeaderRow = rowIndex === 0 && (row.isHeader || tableOptions?.headerRowBold);
+        return new TableRow({
+          tableHeader: isHeaderRow || undefined,
+          children: row.cells.map(cell => new TableCell({
+            columnSpan: cell.gridSpan,
+            verticalMerge: cell.vMerge === 'restart' ? VerticalMergeType.RESTART :
+              cell.vMerge === 'continue' ? VerticalMergeType.CONTINUE : undefined,
+            verticalAlign: this.getVerticalAlign(tableOptions?.cellVerticalAlignment),
+            children: (cell.paragraphs.length > 0 ? cell.paragraphs : ['']).map(text => {
+              const inlines = text ? inlinesByParagraph.get(paragraphIndex++) : undefined;
+              return new Paragraph({
+                alignment: this.getAlignmentType(tableOptions?.cellAlignment || 'left'),
+                children: this.splitTextRuns(
+                  [{ text }],
+                  this.createNoteObjects(inlines?.notes),
+                  (run, style) => new TextRun({
+                    text: run.text,
+                    style,
+                    font,
+                    size: fontSize ? fontSize * 2 : undefined,
+                    bold: isHeaderRow && tableOptions?.headerRowBold ? true : undefined,
+                  }),
+                  this.createLinkRanges(inlines?.links, text)
+                )
+              });
+            })
+          }))
+        });
+      })
+    });
+  }
+
+  /**
+   * 将边框样式名称转换为 docx.js 的 BorderStyle
+   */
+  private getBorderStyle(style: string): typeof BorderStyle[keyof typeof BorderStyle] {
+    switch (style) {
+      case 'double':
+        return BorderStyle.DOUBLE;
+      case 'dashed':
+        return BorderStyle.DASHED;
+      case 'none':
+        return BorderStyle.NONE;
+      case 'single':
+      default:
+        return BorderStyle.SINGLE;
+    }
+  }
+
+  /**
+   * 将单元格垂直对齐方式转换为 docx.js 的 VerticalAlignTable
+   */
+  private getVerticalAlign(alignment?: string): typeof VerticalAlignTable[keyof typeof VerticalAlignTable] | undefined {
+    switch (alignment) {
+      case 'top':
+        return VerticalAlignTable.TOP;
+      case 'center':
+        return VerticalAlignTable.CENTER;
+      case 'bottom':
+        return VerticalAlignTable.BOTTOM;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * 添加段落图片，每张图片独占一个居中的段落
    */
-  private addParagraphImages(paragraphs: Paragraph[], images: ExtractedImage[]) {
+  private addParagraphImages(paragraphs: DocumentChild[], images: ExtractedImage[], imageOptions?: ImageRunOptions, keepNext?: boolean) {
     for (const img of images) {
       try {
         console.log(`尝试添加图片: ${img.name}, mimeType: ${img.mimeType}`);
         
-        const base64Data = img.base64Data.replace(/^data:image\/[^;]+;base64,/, '');
-        const imageBuffer = Buffer.from(base64Data, 'base64');
-        
-        console.log(`图片buffer大小: ${imageBuffer.length} bytes`);
-        
-        // 根据mimeType确定图片类型
-        let imageType: 'png' | 'jpg' | 'gif' = 'png'; // 默认为png
-        if (img.mimeType.includes('jpeg') || img.mimeType.includes('jpg')) {
-          imageType = 'jpg';
-        } else if (img.mimeType.includes('gif')) {
-          imageType = 'gif';
-        } // PNG和其他格式使用默认的png
-        
-        const maxWidth = 600;
-        const imageWidth = Math.min(maxWidth, 400);
-        const imageHeight = Math.round(imageWidth * 0.75);
-        
         const imageParagraph = new Paragraph({
-          children: [
-            new ImageRun({
-              data: imageBuffer,
-              transformation: {
-                width: imageWidth,
-                height: imageHeight,
-              },
-              type: imageType, // 使用正确的图片类型
-            }),
-          ],
+          children: [this.createImageRun(img, imageOptions)],
           alignment: AlignmentType.CENTER,
+          keepNext: keepNext || undefined,
         });
         
         paragraphs.push(imageParagraph);
-        console.log(`成功添加图片到新文档: ${img.name}, 类型: ${imageType}`);
+        console.log(`成功添加图片到新文档: ${img.name}`);
       } catch (imgAddError) {
         console.warn(`添加图片${img.name}时出错:`, imgAddError);
         
@@ -374,28 +962,698 @@ export class DocumentModifier {
     }
   }
 
+  /**
+   * 创建图片运行
+   * 有原始尺寸时按原尺寸（超出最大宽度时等比缩小）输出，浮动图片保留定位和环绕方式
+   * SVG 图片连同后备图输出；docx.js 不支持的格式（EMF、WMF、TIFF 等）先按 png 占位，打包后还原
+   */
+  private createImageRun(img: ExtractedImage, imageOptions?: ImageRunOptions): ImageRun {
+    const imageBuffer = this.getImageBuffer(img);
+    
+    console.log(`图片buffer大小: ${imageBuffer.length} bytes`);
+    
+    const imageType = DOCX_IMAGE_TYPES[this.getImageFormat(img)];
+    const svgImage = img.svgImageName ? imageOptions?.svgImages.get(img.svgImageName) : undefined;
+    
+    // 没有原始尺寸时使用默认的 400×300 像素
+    let imageWidth = 400;
+    let imageHeight = 300;
+    const placement = img.placement;
+    if (placement && placement.width > 0 && placement.height > 0) {
+      let width = placement.width;
+      let height = placement.height;
+      const maxWidth = imageOptions?.maxWidth;
+      if (maxWidth && width > maxWidth) {
+        height = Math.round(height * maxWidth / width);
+        width = maxWidth;
+        console.log(`图片 ${img.name} 宽度超出版心，已等比缩小`);
+      }
+      imageWidth = width / EMU_PER_PIXEL;
+      imageHeight = height / EMU_PER_PIXEL;
+    }
+    
+    const options = {
+      transformation: {
+        width: imageWidth,
+        height: imageHeight,
+      },
+      altText: { name: img.name },
+      floating: placement?.anchor ? this.createImageFloating(placement.anchor) : undefined,
+    };
+    
+    if (svgImage && imageType) {
+      return new ImageRun({
+        ...options,
+        type: 'svg',
+        data: this.getImageBuffer(svgImage),
+        fallback: { type: imageType, data: imageBuffer },
+      });
+    }
+    
+    return new ImageRun({
+      ...options,
+      data: imageBuffer,
+      type: imageType || 'png',
+    });
+  }
+
+  /**
+   * 获取图片的二进制数据
+   */
+  private getImageBuffer(img: ExtractedImage): Buffer {
+    return Buffer.from(img.base64Data.replace(/^data:[^;]+;base64,/, ''), 'base64');
+  }
+
+  /**
+   * 获取图片格式，未识别格式时按 MIME 类型判断
+   */
+  private getImageFormat(img: ExtractedImage): ImageFormat {
+    if (img.format) return img.format;
+    const entry = Object.entries(IMAGE_FORMATS).find(([, info]) => info.mimeType === img.mimeType);
+    return entry ? entry[0] as ImageFormat : 'png';
+  }
+
+  /**
+   * 判断图片是否需要在打包后还原为原始格式
+   */
+  private isPassthroughImage(img: ExtractedImage): boolean {
+    return !img.fallbackImageName && !DOCX_IMAGE_TYPES[this.getImageFormat(img)];
+  }
+
+  /**
+   * 将原始浮动图片的定位信息转换为 docx.js 的浮动选项
+   */
+  private createImageFloating(anchor: NonNullable<ImagePlacement['anchor']>): IFloating {
+    const wrapTypes = {
+      none: TextWrappingType.NONE,
+      square: TextWrappingType.SQUARE,
+      tight: TextWrappingType.TIGHT,
+      through: TextWrappingType.TIGHT,
+      topAndBottom: TextWrappingType.TOP_AND_BOTTOM,
+    };
+    
+    return {
+      horizontalPosition: {
+        relative: anchor.horizontal.relativeFrom as IHorizontalPositionOptions['relative'],
+        align: anchor.horizontal.align as IHorizontalPositionOptions['align'],
+        offset: anchor.horizontal.align ? undefined : anchor.horizontal.offset ?? 0,
+      },
+      verticalPosition: {
+        relative: anchor.vertical.relativeFrom as IVerticalPositionOptions['relative'],
+        align: anchor.vertical.align as IVerticalPositionOptions['align'],
+        offset: anchor.vertical.align ? undefined : anchor.vertical.offset ?? 0,
+      },
+      wrap: { type: wrapTypes[anchor.wrap] },
+      behindDocument: anchor.behindDocument,
+    };
+  }
+
+  /**
+   * 创建包含段内对象的正文段落，图片和注释引用按原始字符位置插入到文本之间，链接包装其覆盖的文本
+   */
+  private createParagraphWithInlineObjects(
+    para: { text: string; styles?: Array<{ alignment?: string }>; textRuns?: TextRunInfo[]; list?: ParagraphListInfo },
+    inlineObjects: InlineObject[],
+    linkRanges: InlineRange[],
+    bodyOptions?: FontModificationOptions,
+    preserveRunFormatting?: boolean
+  ): Paragraph {
+    const textRuns: TextRunInfo[] = preserveRunFormatting && para.textRuns && para.textRuns.length > 0
+      ? para.textRuns
+      : [{ text: para.text }];
+    
+    const firstStyle = para.styles?.[0];
+    return new Paragraph({
+      children: this.splitTextRuns(textRuns, inlineObjects, (run, style) => this.createFormattedTextRun(run, style), linkRanges),
+      style: 'Body',
+      alignment: this.getAlignmentType(bodyOptions?.targetAlignment || firstStyle?.alignment || 'left'),
+      numbering: this.getListNumbering(para.list)
+    });
+  }
+
+  /**
+   * 在对象位置和范围边界处拆分文本运行，返回依次排列的文本和对象；超出文本长度的对象放在末尾
+   * 范围内的文本和对象由范围包装为一个整体（超链接、书签、域），互相重叠的范围只保留先出现的
+   */
+  private splitTextRuns(
+    textRuns: TextRunInfo[],
+    inlineObjects: InlineObject[],
+    createRun: (run: TextRunInfo, style?: string) => TextRun,
+    ranges: InlineRange[] = []
+  ): ParagraphChild[] {
+    // 空范围和与其他范围重叠的可退化范围作为对象插入
+    const acceptedRanges: InlineRange[] = [];
+    const objects = [...inlineObjects];
+    for (const range of ranges) {
+      const overlaps = acceptedRanges.some(other =>
+        range.offset < other.offset + other.length && other.offset < range.offset + range.length);
+      if (range.length > 0 && !overlaps) {
+        acceptedRanges.push(range);
+      } else if (range.collapsible) {
+        objects.push({ offset: range.offset, create: () => range.wrap([]) });
+      }
+    }
+    const sortedObjects = objects.sort((a, b) => a.offset - b.offset);
+    const boundaries = acceptedRanges.flatMap(range => [range.offset, range.offset + range.length]).sort((a, b) => a - b);
+    const findRange = (position: number, isText: boolean) => acceptedRanges.find(range =>
+      (isText ? range.offset <= position : range.offset < position) && position < range.offset + range.length);
+    
+    const pieces: { child: ParagraphChild; range?: InlineRange }[] = [];
+    let offset = 0;
+    let objectIndex = 0;
+    const flushObjects = (position: number) => {
+      while (objectIndex < sortedObjects.length && sortedObjects[objectIndex].offset <= position) {
+        const object = sortedObjects[objectIndex];
+        pieces.push({ child: object.create(), range: findRange(object.offset, false) });
+        objectIndex++;
+      }
+    };
+    
+    for (const run of textRuns) {
+      let start = 0;
+      while (start < run.text.length) {
+        const position = offset + start;
+        flushObjects(position);
+        const nextObject = sortedObjects[objectIndex];
+        const nextBoundary = boundaries.find(boundary => boundary > position);
+        const end = Math.min(
+          run.text.length,
+          nextObject ? nextObject.offset - offset : Number.MAX_SAFE_INTEGER,
+          nextBoundary !== undefined ? nextBoundary - offset : Number.MAX_SAFE_INTEGER
+        );
+        const range = findRange(position, true);
+        pieces.push({ child: createRun({ ...run, text: run.text.substring(start, end) }, range?.runStyle), range });
+        start = end;
+      }
+      offset += run.text.length;
+    }
+    flushObjects(Number.MAX_SAFE_INTEGER);
+    
+    // 合并属于同一范围的相邻片段
+    const children: ParagraphChild[] = [];
+    let group: { range: InlineRange; children: ParagraphChild[] } | undefined;
+    for (const piece of pieces) {
+      if (group && group.range !== piece.range) {
+        children.push(group.range.wrap(group.children));
+        group = undefined;
+      }
+      if (piece.range) {
+        group = group ?? { range: piece.range, children: [] };
+        group.children.push(piece.child);
+      } else {
+        children.push(piece.child);
+      }
+    }
+    if (group) {
+      children.push(group.range.wrap(group.children));
+    }
+    
+    return children;
+  }
+
+  /**
+   * 创建标题、作者等整段文本的运行，并插入其中的注释引用和链接
+   * @param offsetShift 文本前添加的前缀长度，注释和链接位置随之后移
+   */
+  private createTextWithInlines(text: string, inlines?: ParagraphInlines, offsetShift: number = 0): ParagraphChild[] {
+    const noteObjects = this.createNoteObjects(inlines?.notes).map(obj => ({ ...obj, offset: obj.offset + offsetShift }));
+    return this.splitTextRuns(
+      [{ text }],
+      noteObjects,
+      (run, style) => new TextRun({ text: run.text, style }),
+      this.createLinkRanges(inlines?.links, text, offsetShift)
+    );
+  }
+
+  /**
+   * 创建链接的文本范围：超链接和交叉引用域优先，书签与其重叠时退化为空书签
+   * @param text 段落文本，没有记录结果文字的域使用其覆盖的文本
+   */
+  private createLinkRanges(links: LinkInfo[] | undefined, text: string, offsetShift: number = 0): InlineRange[] {
+    const ranges = (links || []).map((link): InlineRange => {
+      const offset = link.textOffset + offsetShift;
+      switch (link.type) {
+        case 'hyperlink':
+          return {
+            offset,
+            length: link.length,
+            runStyle: 'Hyperlink',
+            wrap: children => link.url
+              ? new ExternalHyperlink({ link: link.url, children })
+              : new InternalHyperlink({ anchor: link.anchor!, children })
+          };
+        case 'field':
+          // 域结果保留原文档中的显示文字，打开文档后可在 Word 中更新
+          return {
+            offset,
+            length: link.length,
+            collapsible: link.length === 0,
+            wrap: () => new SimpleField(link.instruction!, link.text ?? text.substring(offset, offset + link.length))
+          };
+        case 'bookmark':
+          return {
+            offset,
+            length: link.length,
+            collapsible: true,
+            wrap: children => new Bookmark({ id: link.name!, children })
+          };
+      }
+    });
+    return ranges.sort((a, b) => Number(!!a.collapsible) - Number(!!b.collapsible));
+  }
+
+  /**
+   * 重新编号图表题注，并改写正文和表格中引用的编号
+   */
+  private renumberCaptions(analysis: DocxAnalysisResult, images: ExtractedImage[], options: CaptionOptions) {
+    const renumbering = resolveCaptionNumbering(analysis, options);
+    if (!renumbering) return;
+
+    const replaced = this.applyParagraphEdits(analysis, images, (text, index) =>
+      getCaptionNumberEdits(text, renumbering, index !== undefined ? renumbering.captionNumbers.get(index) : undefined));
+    console.log(`已重新编号${renumbering.captionNumbers.size}个图表题注，共改写${replaced}处编号`);
+  }
+
+  /**
+   * 按排版规范化规则改写正文和表格文字，参考文献条目按 GB/T 7714 使用半角著录符号，不参与规范化
+   * @returns 各规则实际的替换次数
+   */
+  private normalizeTypography(analysis: DocxAnalysisResult, images: ExtractedImage[], options: TypographyOptions): TypographyReport {
+    const report: TypographyReport = {};
+    const counted = new Set<number>();
+    this.applyParagraphEdits(analysis, images, (text, index) => {
+      if (index !== undefined && analysis.paragraphs[index].referenceIndex !== undefined) return [];
+      const { edits, counts } = getTypographyEdits(text, options);
+      // 段落的文字和文本运行各改写一次，只统计段落文字；表格单元格的段落已在段落中统计
+      if (index !== undefined && !counted.has(index)) {
+        counted.add(index);
+        addTypographyCounts(report, counts);
+      }
+      return edits;
+    });
+    console.log('已按排版规范化规则改写文字，各规则替换次数:', report);
+    return report;
+  }
+
+  /**
+   * 删除标题原有的手动编号并重新编号：文字编号写入标题开头，Word 自动编号改用标题编号列表
+   * 标题原有的自动编号一并去掉
+   */
+  private numberHeadings(analysis: DocxAnalysisResult, images: ExtractedImage[], options: HeadingNumberingOptions) {
+    const numbering = resolveHeadingNumbering(analysis, options);
+    this.applyParagraphEdits(analysis, images, (text, index) => {
+      const heading = index !== undefined ? numbering.get(index) : undefined;
+      return heading ? getHeadingNumberEdits(text, heading.number) : [];
+    });
+    numbering.forEach(({ level }, index) => {
+      analysis.paragraphs[index].list = options.mode === 'word'
+        ? { numId: HEADING_NUMBERING_ID, level: level - 1, isBullet: false }
+        : undefined;
+    });
+    console.log(`已重新编号${numbering.size}个标题，编号方式: ${options.mode === 'word' ? 'Word 自动编号' : '文字编号'}`);
+  }
+
+  /**
+   * 把按文字计算的替换应用到段落文字、文本运行和表格单元格
+   * 文字长度变化时，同一段落中注释引用、链接和段内图片的位置随之调整
+   * @param getEdits 计算替换，index 为段落索引，表格单元格为 undefined
+   * @returns 段落文字中的替换数
+   */
+  private applyParagraphEdits(
+    analysis: DocxAnalysisResult,
+    images: ExtractedImage[],
+    getEdits: (text: string, index?: number) => TextEdit[]
+  ): number {
+    let replaced = 0;
+    analysis.paragraphs.forEach((para, index) => {
+      const edits = getEdits(para.text, index);
+      if (edits.length === 0) return;
+      replaced += edits.length;
+      para.text = applyTextEdits([para.text], edits)[0];
+      if (para.textRuns) {
+        const runEdits = getEdits(para.textRuns.map(run => run.text).join(''), index);
+        const texts = applyTextEdits(para.textRuns.map(run => run.text), runEdits);
+        para.textRuns = para.textRuns.map((run, i) => ({ ...run, text: texts[i] }));
+      }
+
+      const shift = (offset: number) => mapTextOffset(edits, offset);
+      [...(analysis.footnotes || []), ...(analysis.endnotes || [])]
+        .filter(note => note.paragraphIndex === index && note.textOffset !== undefined)
+        .forEach(note => { note.textOffset = shift(note.textOffset!); });
+      (analysis.links || []).filter(link => link.paragraphIndex === index).forEach(link => {
+        const end = shift(link.textOffset + link.length);
+        link.textOffset = shift(link.textOffset);
+        link.length = end - link.textOffset;
+      });
+      images
+        .filter(img => img.placement?.lineIndex === index && img.placement.textOffset !== undefined)
+        .forEach(img => { img.placement!.textOffset = shift(img.placement!.textOffset!); });
+    });
+
+    // 表格按单元格段落的文本输出，单独改写
+    analysis.tables?.forEach(table => table.rows.forEach(row => row.cells.forEach(cell => {
+      cell.paragraphs = cell.paragraphs.map(text => applyTextEdits([text], getEdits(text))[0]);
+      cell.text = applyTextEdits([cell.text], getEdits(cell.text))[0];
+    })));
+    return replaced;
+  }
+
+  /**
+   * 按引用位置排序脚注和尾注并重新编号，找不到引用位置的注释无法还原
+   */
+  private numberNotes(analysis: DocxAnalysisResult): NoteReference[] {
+    const references: NoteReference[] = [];
+    for (const [notes, label] of [[analysis.footnotes || [], '脚注'], [analysis.endnotes || [], '尾注']] as const) {
+      const located = notes.filter(note => note.paragraphIndex !== undefined);
+      if (located.length < notes.length) {
+        console.warn(`⚠️ ${notes.length - located.length}个${label}找不到引用位置，已忽略`);
+      }
+      located
+        .sort((a, b) => a.paragraphIndex! - b.paragraphIndex! || (a.textOffset ?? 0) - (b.textOffset ?? 0))
+        .forEach((note, index) => references.push({ note, id: index + 1 }));
+    }
+    return references;
+  }
+
+  /**
+   * 按段落索引归集注释引用和链接
+   */
+  private groupInlinesByParagraph(notes: NoteReference[], links: LinkInfo[]): Map<number, ParagraphInlines> {
+    const result = new Map<number, ParagraphInlines>();
+    const get = (index: number) => {
+      if (!result.has(index)) {
+        result.set(index, { notes: [], links: [] });
+      }
+      return result.get(index)!;
+    };
+    notes.forEach(ref => get(ref.note.paragraphIndex!).notes.push(ref));
+    links.forEach(link => get(link.paragraphIndex).links.push(link));
+    return result;
+  }
+
+  /**
+   * 创建注释引用的段内对象
+   */
+  private createNoteObjects(notes?: NoteReference[]): InlineObject[] {
+    return (notes || []).map(ref => ({
+      offset: ref.note.textOffset ?? 0,
+      create: () => ref.note.type === 'footnote'
+        ? new FootnoteReferenceRun(ref.id)
+        : new TextRun({ text: `[[endnote:${ref.id}]]`, style: 'EndnoteReference' })
+    }));
+  }
+
+  /**
+   * 创建注释正文段落，每个原始段落对应一段
+   */
+  private createNoteParagraphs(note: NoteInfo, style: string): Paragraph[] {
+    return (note.paragraphs.length > 0 ? note.paragraphs : ['']).map(text => new Paragraph({
+      style,
+      children: [new TextRun(text ? ` ${text}` : '')]
+    }));
+  }
+
+  /**
+   * 计算版心宽度（EMU），未设置页面时按 A4 和默认 2cm 页边距计算
+   */
+  private getTextWidthEmu(pageOptions?: PageSetupOptions): number {
+    return this.getTextArea(pageOptions).width * EMU_PER_TWIP;
+  }
+
+  /**
+   * 计算版心尺寸（twip），未设置页面时按 A4 和默认 2cm 页边距计算
+   */
+  private getTextArea(pageOptions?: PageSetupOptions): { width: number; height: number } {
+    const defaultMargin = 1134;
+    const page = pageOptions ? resolvePageSetup(pageOptions) : undefined;
+    let width = page?.width ?? 11906;
+    let height = page?.height ?? 16838;
+    if (page?.orientation === 'landscape' && page.width && page.height) {
+      [width, height] = [height, width];
+    }
+    return {
+      width: width - (page?.margin.left ?? defaultMargin) - (page?.margin.right ?? defaultMargin) - (page?.margin.gutter ?? 0),
+      height: height - (page?.margin.top ?? defaultMargin) - (page?.margin.bottom ?? defaultMargin)
+    };
+  }
+
+  /**
+   * 将原始图片的裁剪区域和文件格式写回生成文档
+   * 生成文档中图片的 docPr 名称为原始图片名；占位嵌入的图片替换为原始格式的文件名和内容类型
+   */
+  private async restoreImageDetails(buffer: Buffer, images: ExtractedImage[]): Promise<Buffer> {
+    const imagesByName = new Map(images.map(img => [img.name, img]));
+    const zip = await JSZip.loadAsync(buffer);
+    const documentXml = await loadXmlPart(zip, 'word/document.xml');
+    const relsXml = await loadXmlPart(zip, 'word/_rels/document.xml.rels');
+    const contentTypesXml = await loadXmlPart(zip, '[Content_Types].xml');
+    if (!documentXml || !relsXml || !contentTypesXml) return buffer;
+    
+    const relationships = new Map<string, Element>();
+    const relElements = relsXml.getElementsByTagName('Relationship');
+    for (let i = 0; i < relElements.length; i++) {
+      relationships.set(relElements[i].getAttribute('Id') || '', relElements[i]);
+    }
+    
+    const docPrs = documentXml.getElementsByTagName('wp:docPr');
+    for (let i = 0; i < docPrs.length; i++) {
+      const img = imagesByName.get(docPrs[i].getAttribute('name') || '');
+      const container = docPrs[i].parentNode as Element;
+      if (!img) continue;
+      
+      const crop = img.placement?.crop;
+      const srcRect = crop && container.getElementsByTagName('a:srcRect')[0];
+      if (crop && srcRect) {
+        srcRect.setAttribute('l', String(crop.left));
+        srcRect.setAttribute('t', String(crop.top));
+        srcRect.setAttribute('r', String(crop.right));
+        srcRect.setAttribute('b', String(crop.bottom));
+      }
+      
+      if (this.isPassthroughImage(img)) {
+        const relationshipId = container.getElementsByTagName('a:blip')[0]?.getAttribute('r:embed');
+        const relationship = relationshipId ? relationships.get(relationshipId) : undefined;
+        if (relationship) {
+          this.restoreImageFormat(zip, relationship, contentTypesXml.documentElement, this.getImageFormat(img));
+        }
+      }
+    }
+    
+    saveXmlPart(zip, 'word/document.xml', documentXml);
+    saveXmlPart(zip, 'word/_rels/document.xml.rels', relsXml);
+    saveXmlPart(zip, '[Content_Types].xml', contentTypesXml);
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  }
+
+  /**
+   * 将占位嵌入的媒体文件改回原始格式的扩展名，并登记对应的内容类型
+   */
+  private restoreImageFormat(zip: JSZip, relationship: Element, types: Element, format: ImageFormat) {
+    const { extension, mimeType } = IMAGE_FORMATS[format];
+    const target = relationship.getAttribute('Target') || '';
+    const newTarget = target.replace(/\.[^./]+$/, `.${extension}`);
+    if (!target || newTarget === target) return;
+    
+    // 相同内容的图片可能共用一个媒体文件，已改名时只需更新关系
+    const oldFile = zip.file(`word/${target}`);
+    if (oldFile && !zip.file(`word/${newTarget}`)) {
+      zip.file(`word/${newTarget}`, oldFile.async('nodebuffer'));
+      zip.remove(`word/${target}`);
+    }
+    relationship.setAttribute('Target', newTarget);
+    
+    const defaults = types.getElementsByTagName('Default');
+    for (let i = 0; i < defaults.length; i++) {
+      if (defaults[i].getAttribute('Extension')?.toLowerCase() === extension) return;
+    }
+    const entry = types.ownerDocument.createElementNS(CONTENT_TYPES_NS, 'Default');
+    entry.setAttribute('Extension', extension);
+    entry.setAttribute('ContentType', mimeType);
+    types.insertBefore(entry, types.firstChild);
+  }
+
+  /**
+   * docx.js 把 w:isLgl 写在 w:suff 之后，不符合 w:lvl 子元素的顺序，打包后移到 w:suff 之前
+   */
+  private async reorderLegalNumbering(buffer: Buffer): Promise<Buffer> {
+    const zip = await JSZip.loadAsync(buffer);
+    const numberingXml = await loadXmlPart(zip, 'word/numbering.xml');
+    if (!numberingXml) return buffer;
+
+    const legalElements = numberingXml.getElementsByTagName('w:isLgl');
+    for (let i = 0; i < legalElements.length; i++) {
+      const suffix = getChildElements(legalElements[i].parentNode as Element, 'w:suff')[0];
+      if (suffix) {
+        suffix.parentNode!.insertBefore(legalElements[i], suffix);
+      }
+    }
+    saveXmlPart(zip, 'word/numbering.xml', numberingXml);
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  }
+
+  /**
+   * 写入尾注：将占位文本替换为尾注引用，并生成 endnotes.xml 及其关系和内容类型
+   */
+  private async restoreEndnotes(buffer: Buffer, endnotes: NoteReference[]): Promise<Buffer> {
+    const zip = await JSZip.loadAsync(buffer);
+    const documentXml = await loadXmlPart(zip, 'word/document.xml');
+    const relsXml = await loadXmlPart(zip, 'word/_rels/document.xml.rels');
+    const contentTypesXml = await loadXmlPart(zip, '[Content_Types].xml');
+    if (!documentXml || !relsXml || !contentTypesXml) return buffer;
+    
+    // 替换节点会改变动态节点列表，先复制出占位文本
+    const textNodes = documentXml.getElementsByTagName('w:t');
+    const texts: Element[] = [];
+    for (let i = 0; i < textNodes.length; i++) {
+      texts.push(textNodes[i]);
+    }
+    for (const text of texts) {
+      const match = ENDNOTE_PLACEHOLDER.exec(text.textContent || '');
+      if (!match) continue;
+      const reference = documentXml.createElementNS(W_NS, 'w:endnoteReference');
+      reference.setAttribute('w:id', match[1]);
+      text.parentNode!.replaceChild(reference, text);
+    }
+    
+    const endnotesXml = new DOMParser().parseFromString(
+      `<w:endnotes xmlns:w="${W_NS}">` +
+      '<w:endnote w:type="separator" w:id="-1"><w:p><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:r><w:separator/></w:r></w:p></w:endnote>' +
+      '<w:endnote w:type="continuationSeparator" w:id="0"><w:p><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:r><w:continuationSeparator/></w:r></w:p></w:endnote>' +
+      '</w:endnotes>',
+      'text/xml'
+    );
+    for (const { note, id } of endnotes) {
+      const endnote = endnotesXml.createElementNS(W_NS, 'w:endnote');
+      endnote.setAttribute('w:id', String(id));
+      (note.paragraphs.length > 0 ? note.paragraphs : ['']).forEach((text, index) => {
+        this.appendEndnoteParagraph(endnote, text, index === 0);
+      });
+      endnotesXml.documentElement.appendChild(endnote);
+    }
+    saveXmlPart(zip, 'word/endnotes.xml', endnotesXml);
+    
+    const relationships = getChildElements(relsXml.documentElement, 'Relationship');
+    const maxId = Math.max(0, ...relationships.map(rel => parseInt((rel.getAttribute('Id') || '').replace(/^rId/, ''), 10) || 0));
+    const relationship = relsXml.createElementNS(RELATIONSHIPS_NS, 'Relationship');
+    relationship.setAttribute('Id', `rId${maxId + 1}`);
+    relationship.setAttribute('Type', ENDNOTES_RELATIONSHIP_TYPE);
+    relationship.setAttribute('Target', 'endnotes.xml');
+    relsXml.documentElement.appendChild(relationship);
+    
+    const override = contentTypesXml.createElementNS(CONTENT_TYPES_NS, 'Override');
+    override.setAttribute('PartName', '/word/endnotes.xml');
+    override.setAttribute('ContentType', ENDNOTES_CONTENT_TYPE);
+    contentTypesXml.documentElement.appendChild(override);
+    
+    saveXmlPart(zip, 'word/document.xml', documentXml);
+    saveXmlPart(zip, 'word/_rels/document.xml.rels', relsXml);
+    saveXmlPart(zip, '[Content_Types].xml', contentTypesXml);
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  }
+
+  /**
+   * 添加尾注正文段落，首段以尾注编号开头
+   */
+  private appendEndnoteParagraph(endnote: Element, text: string, withReference: boolean) {
+    const createElement = (tagName: string, attributes: Record<string, string> = {}, ...children: Element[]) => {
+      const element = endnote.ownerDocument.createElementNS(W_NS, tagName);
+      Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, value));
+      children.forEach(child => element.appendChild(child));
+      return element;
+    };
+    
+    const paragraph = createElement('w:p', {}, createElement('w:pPr', {}, createElement('w:pStyle', { 'w:val': 'EndnoteText' })));
+    if (withReference) {
+      paragraph.appendChild(createElement('w:r', {},
+        createElement('w:rPr', {}, createElement('w:rStyle', { 'w:val': 'EndnoteReference' })),
+        createElement('w:endnoteRef')));
+    }
+    if (text) {
+      const t = createElement('w:t', { 'xml:space': 'preserve' });
+      t.appendChild(endnote.ownerDocument.createTextNode(withReference ? ` ${text}` : text));
+      paragraph.appendChild(createElement('w:r', {}, t));
+    }
+    endnote.appendChild(paragraph);
+  }
+
+  /**
+   * 页眉页脚和文档属性中 {title}、{author}、{date} 占位符的取值
+   */
+  private getPlaceholderValues(analysis: DocxAnalysisResult): HeaderFooterValues {
+    return { title: analysis.title?.text, author: analysis.author?.text, date: new Date() };
+  }
+
   /**
    * 创建最终文档
    */
   private createDocument(
-    paragraphs: Paragraph[],
+    body: DocumentBody,
     analysis: DocxAnalysisResult,
+    notes: NoteReference[],
     titleOptions?: FontModificationOptions,
     bodyOptions?: FontModificationOptions,
-    authorOptions?: FontModificationOptions
+    authorOptions?: FontModificationOptions,
+    processingOptions?: DocumentProcessingOptions
   ): Document {
+    const footnotes = notes.filter(ref => ref.note.type === 'footnote');
+    const hasEndnotes = notes.length > footnotes.length;
+    const noteStyle = notes.length > 0 ? this.createNoteStyle(processingOptions?.footnote, bodyOptions) : undefined;
+    const headerFooter = processingOptions?.headerFooter && !processingOptions.headerFooter.keepOriginal
+      ? resolveHeaderFooter(processingOptions.headerFooter, this.getPlaceholderValues(analysis))
+      : undefined;
+    const officialLayouts = this.resolveOfficialLayouts(analysis, titleOptions, bodyOptions, processingOptions);
+    // 设置了文档网格时 Normal 样式使用正文字号和单倍行距，Word 以它为基准计算每行字数，行距由行网格决定
+    const gridType = processingOptions?.page?.grid?.type;
+    const hasGrid = !!gridType && gridType !== 'default';
+    const normalFontSize = hasGrid ? bodyOptions?.targetFontSize || 12 : 12;
+    const abstractStyles = processingOptions?.abstract ? resolveAbstractStyles(processingOptions.abstract, bodyOptions) : undefined;
+    const captionStyle = processingOptions?.caption ? resolveCaptionStyle(processingOptions.caption, bodyOptions) : undefined;
+    const referenceStyle = processingOptions?.references ? resolveReferenceStyle(processingOptions.references, bodyOptions) : undefined;
+    const numberingConfig = [
+      ...this.createNumberingConfig(analysis.lists || [], processingOptions?.list, bodyOptions?.targetFontSize),
+      ...(processingOptions?.headingNumbering?.mode === 'word' ? [this.createHeadingNumberingConfig(processingOptions.headingNumbering)] : [])
+    ];
+
     return new Document({
-      title: analysis.title?.text || '文档',
-      description: '由 C-Doc Next.js 处理',
       styles: {
+        default: {
+          ...this.createHeadingStyles(processingOptions?.headings),
+          ...(footnotes.length > 0 && noteStyle ? {
+            footnoteText: noteStyle,
+            footnoteTextChar: { run: noteStyle.run },
+          } : {}),
+          ...(processingOptions?.hyperlink ? {
+            hyperlink: {
+              run: {
+                color: (processingOptions.hyperlink.color || '#0563C1').replace(/^#/, ''),
+                underline: processingOptions.hyperlink.isUnderline ? { type: UnderlineType.SINGLE } : undefined,
+              }
+            }
+          } : {})
+        },
+        characterStyles: [
+          ...(hasEndnotes ? [{
+            id: 'EndnoteReference',
+            name: 'endnote reference',
+            basedOn: 'DefaultParagraphFont',
+            run: { superScript: true }
+          }] : []),
+          ...(abstractStyles ? [{
+            id: 'AbstractLabel',
+            name: 'Abstract Label',
+            basedOn: 'DefaultParagraphFont',
+            run: this.createRunStyle(abstractStyles.label, 12)
+          }] : [])
+        ],
         paragraphStyles: [
+          ...(hasEndnotes && noteStyle ? [{ id: 'EndnoteText', name: 'endnote text', basedOn: 'Normal', ...noteStyle }] : []),
           {
             id: 'Title',
             name: 'Title',
             basedOn: 'Normal',
             next: 'Normal',
             run: {
-              font: titleOptions?.targetFontName || '黑体',
+              font: this.createRunFont(titleOptions, '黑体'),
               size: (titleOptions?.targetFontSize || 16) * 2,
               bold: titleOptions?.targetIsBold !== undefined ? titleOptions.targetIsBold : true,
               italics: titleOptions?.targetIsItalic || false,
@@ -404,7 +1662,7 @@ export class DocumentModifier {
             },
             paragraph: {
               alignment: this.getAlignmentType(titleOptions?.targetAlignment || 'center'),
-              spacing: { before: 240, after: 120 }
+              ...this.createParagraphFormat(titleOptions, 16, { spacing: { before: 240, after: 120 } })
             }
           },
           {
@@ -413,7 +1671,7 @@ export class DocumentModifier {
             basedOn: 'Normal',
             next: 'Normal',
             run: {
-              font: authorOptions?.targetFontName || '宋体',
+              font: this.createRunFont(authorOptions, '宋体'),
               size: (authorOptions?.targetFontSize || 12) * 2,
               bold: authorOptions?.targetIsBold || false,
               italics: authorOptions?.targetIsItalic || false,
@@ -422,7 +1680,7 @@ export class DocumentModifier {
             },
             paragraph: {
               alignment: this.getAlignmentType(authorOptions?.targetAlignment || 'center'),
-              spacing: { before: 120, after: 240 }
+              ...this.createParagraphFormat(authorOptions, 12, { spacing: { before: 120, after: 240 } })
             }
           },
           {
@@ -431,7 +1689,7 @@ export class DocumentModifier {
             basedOn: 'Normal',
             next: 'Body',
             run: {
-              font: bodyOptions?.targetFontName || '宋体',
+              font: this.createRunFont(bodyOptions, '宋体'),
               size: (bodyOptions?.targetFontSize || 12) * 2,
               bold: bodyOptions?.targetIsBold || false,
               italics: bodyOptions?.targetIsItalic || false,
@@ -440,8 +1698,10 @@ export class DocumentModifier {
             },
             paragraph: {
               alignment: this.getAlignmentType(bodyOptions?.targetAlignment || 'left'),
-              spacing: { before: 120, after: 120 },
-              indent: { firstLine: 480 }
+              ...this.createParagraphFormat(bodyOptions, 12, {
+                spacing: { before: 120, after: 120 },
+                indent: { firstLine: 480 }
+              })
             }
           },
           {
@@ -450,30 +1710,320 @@ export class DocumentModifier {
             basedOn: 'Normal',
             run: {
               font: '宋体',
-              size: 24,
+              size: normalFontSize * 2,
             },
             paragraph: {
-              spacing: { line: 360 }
+              spacing: { line: hasGrid ? 240 : 360 }
             }
-          }
+          },
+          ...(abstractStyles ? [{
+            id: 'Abstract',
+            name: 'Abstract',
+            basedOn: 'Normal',
+            next: 'Body',
+            run: this.createRunStyle(abstractStyles.content, 12),
+            paragraph: {
+              alignment: this.getAlignmentType(abstractStyles.content.targetAlignment || 'justify'),
+              ...this.createParagraphFormat(abstractStyles.content, 12, {
+                spacing: { before: 120, after: 120 },
+                indent: { firstLine: 480 }
+              })
+            }
+          }] : []),
+          ...(captionStyle ? [{
+            id: 'Caption',
+            name: 'caption',
+            basedOn: 'Normal',
+            next: 'Body',
+            run: this.createRunStyle(captionStyle, 10.5),
+            paragraph: {
+              alignment: this.getAlignmentType(captionStyle.targetAlignment),
+              ...this.createParagraphFormat(captionStyle, 10.5, { spacing: { before: 60, after: 120 } })
+            }
+          }] : []),
+          ...(referenceStyle ? [{
+            id: 'Reference',
+            name: 'Bibliography',
+            basedOn: 'Normal',
+            next: 'Body',
+            run: this.createRunStyle(referenceStyle, 10.5),
+            paragraph: {
+              alignment: this.getAlignmentType(referenceStyle.targetAlignment),
+              ...this.createParagraphFormat(referenceStyle, 10.5, { spacing: { before: 0, after: 60 } })
+            }
+          }] : []),
+          ...(officialLayouts ? this.createOfficialStyles(officialLayouts) : [])
         ]
       },
-      sections: [
-        {
-          properties: {
-            page: {
-              margin: {
-                top: 1134,
-                right: 1134,
-                bottom: 1134,
-                left: 1134,
-              },
-            },
+      evenAndOddHeaderAndFooters: headerFooter?.evenAndOdd,
+      footnotes: Object.fromEntries(footnotes.map(ref => [ref.id, { children: this.createNoteParagraphs(ref.note, 'FootnoteText') }])),
+      numbering: numberingConfig.length > 0 ? { config: numberingConfig } : undefined,
+      sections: this.createSections(body, headerFooter, processingOptions, normalFontSize)
+    });
+  }
+
+  /**
+   * 创建文档各节；设置了前置部分页码格式时，在第一个一级标题前分节，正文页码从 1 开始
+   * @param normalFontSize Normal 样式的字号（磅），按它计算文档网格的字符间距
+   */
+  private createSections(
+    body: DocumentBody,
+    headerFooter?: ResolvedHeaderFooter,
+    processingOptions?: DocumentProcessingOptions,
+    normalFontSize?: number
+  ): ISectionOptions[] {
+    const page = this.createPageProperties(processingOptions?.page);
+    const grid = processingOptions?.page?.grid ? this.createDocumentGrid(processingOptions.page, normalFontSize) : undefined;
+    if (!headerFooter) {
+      return [{ properties: { page, grid }, children: body.children }];
+    }
+
+    const font = processingOptions?.headerFooter;
+    const createSection = (children: DocumentChild[], titlePage: boolean, pageNumbers?: IPageNumberTypeAttributes) => ({
+      properties: { page: { ...page, pageNumbers }, titlePage, grid },
+      headers: this.createHeaderFooterParts(headerFooter.headers, paragraphs => new Header({ children: paragraphs }), font),
+      footers: this.createHeaderFooterParts(headerFooter.footers, paragraphs => new Footer({ children: paragraphs }), font),
+      children
+    });
+
+    const splitIndex = body.mainMatterIndex;
+    if (!headerFooter.frontMatterFormat || !splitIndex) {
+      return [createSection(body.children, headerFooter.titlePage)];
+    }
+    return [
+      createSection(body.children.slice(0, splitIndex), headerFooter.titlePage, {
+        start: 1,
+        formatType: headerFooter.frontMatterFormat
+      }),
+      createSection(body.children.slice(splitIndex), false, { start: 1, formatType: NumberFormat.DECIMAL })
+    ];
+  }
+
+  /**
+   * 按页面设置中的每页行数和每行字数创建节的文档网格
+   */
+  private createDocumentGrid(pageOptions: PageSetupOptions, fontSize?: number) {
+    const area = this.getTextArea(pageOptions);
+    const grid = resolveDocumentGrid(pageOptions.grid!, area.width, area.height, fontSize);
+    return { type: DOCUMENT_GRID_TYPES[grid.type], linePitch: grid.linePitch, charSpace: grid.charSpace };
+  }
+
+  /**
+   * 创建一组页眉或页脚，页码占位符输出为 PAGE 域
+   */
+  private createHeaderFooterParts<T extends Header | Footer>(
+    parts: ResolvedHeaderFooter['headers'],
+    create: (paragraphs: Paragraph[]) => T,
+    font?: HeaderFooterOptions
+  ): { default?: T; first?: T; even?: T } {
+    const createParagraph = (item: HeaderFooterParagraph) => new Paragraph({
+      alignment: this.getAlignmentType(item.alignment),
+      children: [new TextRun({
+        children: splitPageNumber(item.text).flatMap((text, index) => index > 0 ? [PageNumber.CURRENT, text] : [text]),
+        font: font?.fontName,
+        size: font?.fontSize ? font.fontSize * 2 : undefined
+      })]
+    });
+
+    return Object.fromEntries(Object.entries(parts).map(([type, paragraphs]) => [
+      type,
+      create(paragraphs!.length > 0 ? paragraphs!.map(createParagraph) : [new Paragraph({})])
+    ]));
+  }
+
+  /**
+   * 按原文档的编号定义创建列表编号，模板设置了列表格式的级别覆盖编号格式和缩进
+   */
+  private createNumberingConfig(lists: ListInfo[], listOptions?: ListModificationOptions, fontSize?: number) {
+    return lists.map(list => ({
+      reference: this.getListReference(list.numId),
+      levels: list.levels.map((level): ILevelsOptions => {
+        const options = listOptions?.levels[level.level];
+        const resolved = options ? resolveListLevel(options, level.level, level.format === 'bullet', fontSize) : {};
+        const indent = resolved.indent
+          ? { ...level.indent, ...resolved.indent, firstLine: undefined }
+          : level.indent;
+        return {
+          level: level.level,
+          format: (resolved.format || level.format) as ILevelsOptions['format'],
+          text: resolved.levelText ?? level.levelText,
+          start: level.start,
+          alignment: this.getAlignmentType(level.alignment || 'left'),
+          style: {
+            paragraph: indent ? { indent } : undefined,
+            run: level.font ? { font: level.font } : undefined,
           },
-          children: paragraphs
+        };
+      }),
+    }));
+  }
+
+  /**
+   * 创建标题自动编号使用的多级列表，编号不带缩进，缩进由标题样式决定
+   */
+  private createHeadingNumberingConfig(options: HeadingNumberingOptions) {
+    return {
+      reference: this.getListReference(HEADING_NUMBERING_ID),
+      levels: getHeadingNumberingLevels(options).map((level, index): ILevelsOptions => ({
+        level: index,
+        format: level.format as ILevelsOptions['format'],
+        text: level.text,
+        start: 1,
+        alignment: AlignmentType.LEFT,
+        suffix: level.suffix === 'space' ? LevelSuffix.SPACE : LevelSuffix.NOTHING,
+        isLegalNumberingStyle: level.isLegal || undefined
+      }))
+    };
+  }
+
+  /**
+   * 获取列表段落的编号引用
+   */
+  private getListNumbering(list?: ParagraphListInfo) {
+    return list ? { reference: this.getListReference(list.numId), level: list.level } : undefined;
+  }
+
+  private getListReference(numId: string): string {
+    return `list-${numId}`;
+  }
+
+  /**
+   * 创建模板中设置了样式的各级标题样式（覆盖 Heading 1-4 默认样式）
+   */
+  private createHeadingStyles(headingOptions?: (FontModificationOptions | undefined)[]) {
+    const styles: Partial<Record<typeof HEADING_STYLE_KEYS[number], IBaseParagraphStyleOptions>> = {};
+
+    HEADING_STYLE_KEYS.forEach((key, index) => {
+      const options = headingOptions?.[index];
+      if (!options) return;
+
+      const defaultFontSize = DEFAULT_HEADING_FONT_SIZES[index];
+      styles[key] = {
+        run: {
+          font: this.createRunFont(options, '黑体'),
+          size: (options.targetFontSize || defaultFontSize) * 2,
+          bold: options.targetIsBold !== undefined ? options.targetIsBold : true,
+          italics: options.targetIsItalic || false,
+          underline: options.targetIsUnderline ? { type: UnderlineType.SINGLE } : undefined,
+          color: options.targetColor || '000000',
+        },
+        paragraph: {
+          alignment: this.getAlignmentType(options.targetAlignment || 'left'),
+          outlineLevel: index,
+          keepNext: true,
+          ...this.createParagraphFormat(options, defaultFontSize, { spacing: { before: 240, after: 120 } })
         }
-      ]
+      };
     });
+
+    return styles;
+  }
+
+  /**
+   * 创建样式的字符格式
+   */
+  private createRunStyle(options: FontModificationOptions, defaultFontSize: number) {
+    return {
+      font: this.createRunFont(options, '宋体'),
+      size: (options.targetFontSize || defaultFontSize) * 2,
+      bold: options.targetIsBold || false,
+      italics: options.targetIsItalic || false,
+      underline: options.targetIsUnderline ? { type: UnderlineType.SINGLE } : undefined,
+      color: options.targetColor?.replace(/^#/, '') || '000000',
+    };
+  }
+
+  /**
+   * 创建字体设置，单独设置了中文、西文字体时分别写入 w:rFonts 的各槽位
+   */
+  private createRunFont(options?: FontModificationOptions, defaultFont?: string): string | IFontAttributesProperties | undefined {
+    if (!options?.targetFonts) {
+      return options?.targetFontName || defaultFont;
+    }
+    return resolveRunFonts(options.targetFontName || defaultFont, options.targetFonts);
+  }
+
+  /**
+   * 创建脚注和尾注的文字样式，未设置脚注样式时使用正文字体和较小的字号
+   */
+  private createNoteStyle(options?: FontModificationOptions, bodyOptions?: FontModificationOptions): IBaseParagraphStyleOptions {
+    const defaultFontSize = Math.round((bodyOptions?.targetFontSize || 12) * NOTE_FONT_SIZE_RATIO * 2) / 2;
+    return {
+      run: {
+        font: this.createRunFont(options?.targetFontName || options?.targetFonts ? options : bodyOptions, '宋体'),
+        size: (options?.targetFontSize || defaultFontSize) * 2,
+        bold: options?.targetIsBold || false,
+        italics: options?.targetIsItalic || false,
+        underline: options?.targetIsUnderline ? { type: UnderlineType.SINGLE } : undefined,
+        color: options?.targetColor || '000000',
+      },
+      paragraph: {
+        alignment: this.getAlignmentType(options?.targetAlignment || 'justify'),
+        ...this.createParagraphFormat(options, defaultFontSize, { spacing: { before: 0, after: 0, line: 240 } })
+      }
+    };
+  }
+
+  /**
+   * 创建样式的段间距、行距和缩进，模板未设置的项沿用默认值
+   */
+  private createParagraphFormat(
+    options: FontModificationOptions | undefined,
+    defaultFontSize: number,
+    defaults: {
+      spacing: { before?: number; after?: number; line?: number };
+      indent?: { firstLine?: number };
+    }
+  ) {
+    if (!options?.paragraphFormat) {
+      return defaults;
+    }
+
+    const format = resolveParagraphFormat(options.paragraphFormat, options.targetFontSize || defaultFontSize);
+    return {
+      spacing: { ...defaults.spacing, ...format.spacing },
+      indent: format.indent ? {
+        firstLine: format.indent.firstLine,
+        hanging: format.indent.hanging,
+        left: format.indent.left,
+        right: format.indent.right,
+      } : defaults.indent
+    };
+  }
+
+  /**
+   * 创建节的页面属性，未设置页面选项时使用默认的 2cm 页边距
+   */
+  private createPageProperties(pageOptions?: PageSetupOptions) {
+    const defaultMargin = 1134;
+    if (!pageOptions) {
+      return {
+        margin: {
+          top: defaultMargin,
+          right: defaultMargin,
+          bottom: defaultMargin,
+          left: defaultMargin,
+        },
+      };
+    }
+
+    const page = resolvePageSetup(pageOptions);
+    return {
+      size: page.width && page.height ? {
+        width: page.width,
+        height: page.height,
+        orientation: page.orientation === 'landscape' ? PageOrientation.LANDSCAPE : PageOrientation.PORTRAIT,
+      } : page.orientation === 'landscape' ? { orientation: PageOrientation.LANDSCAPE } : undefined,
+      margin: {
+        top: page.margin.top ?? defaultMargin,
+        right: page.margin.right ?? defaultMargin,
+        bottom: page.margin.bottom ?? defaultMargin,
+        left: page.margin.left ?? defaultMargin,
+        gutter: page.margin.gutter,
+        header: page.margin.header,
+        footer: page.margin.footer,
+      },
+    };
   }
 
   /**
@@ -0,0 +1,366 @@
+/**
+ * 文档清理器 - 对外发送前删除批注、隐藏文字、自定义 XML、附加模板和 rsid，匿名化修订作者并清除文档属性中的个人信息
+ * 只删除元数据和不可见内容，可见的正文、修订内容和格式保持不变
+ */
+import JSZip from 'jszip';
+import * as path from 'path';
+import { SanitizeOptions, SanitizeReport } from '@/types/document-processing';
+import { loadXmlPart, saveXmlPart, getChildElements, getFirstChild } from './ooxml-utils';
+
+// 正文、页眉、页脚、脚注和尾注
+const STORY_PART_PATTERN = /^word\/(document|header\d*|footer\d*|footnotes|endnotes)\.xml$/;
+// 可能包含修订标记和 rsid 的部件（样式、编号等的格式修订同样记录作者）
+const WORD_PART_PATTERN = /^word\/[^/]+\.xml$/;
+const COMMENT_PART_PATTERN = /^word\/comments(Extended|Ids|Extensible)?\.xml$/;
+const CUSTOM_XML_PART_PATTERN = /^customXml\//;
+const PEOPLE_PART = 'word/people.xml';
+const SETTINGS_PART = 'word/settings.xml';
+// Word 删除个人信息时使用的匿名作者
+const ANONYMOUS_AUTHOR = 'Author';
+
+// 各项个人信息在 docProps 中的元素
+const PERSONAL_INFO_ELEMENTS: { name: string; part: string; tagName: string }[] = [
+  { name: 'creator', part: 'docProps/core.xml', tagName: 'dc:creator' },
+  { name: 'lastModifiedBy', part: 'docProps/core.xml', tagName: 'cp:lastModifiedBy' },
+  { name: 'company', part: 'docProps/app.xml', tagName: 'Company' },
+  { name: 'manager', part: 'docProps/app.xml', tagName: 'Manager' }
+];
+
+/**
+ * styles.xml 中与隐藏文字有关的设置
+ */
+interface HiddenTextStyles {
+  // 样式 ID 对应样式自身的隐藏设置（未设置时为 undefined）和基础样式
+  styles: Map<string, { hidden?: boolean; basedOn?: string }>;
+  defaultParagraphStyle?: string;
+  // 文档默认文字格式中的隐藏设置
+  defaultHidden?: boolean;
+}
+
+export class DocumentSanitizer {
+  /**
+   * 清理文档
+   * @returns 清理后的文档和清理掉的内容
+   */
+  async sanitize(inputBuffer: Buffer, options: SanitizeOptions = {}): Promise<{ buffer: Buffer; report: SanitizeReport }> {
+    const enabled = (key: keyof SanitizeOptions) => options[key] !== false;
+    const report: SanitizeReport = {
+      comments: 0,
+      revisionAuthors: [],
+      revisionMarks: 0,
+      rsids: 0,
+      hiddenTextRuns: 0,
+      hiddenTextLength: 0,
+      personalInfo: [],
+      customXmlParts: [],
+      customXmlTags: 0
+    };
+    const zip = await JSZip.loadAsync(inputBuffer);
+    const removedParts: string[] = [];
+    const revisionAuthors = new Set<string>();
+    const hiddenTextStyles = this.parseHiddenTextStyles(await loadXmlPart(zip, 'word/styles.xml'));
+
+    if (enabled('comments')) {
+      const commentsXml = await loadXmlPart(zip, 'word/comments.xml');
+      report.comments = commentsXml ? commentsXml.getElementsByTagName('w:comment').length : 0;
+      removedParts.push(...Object.keys(zip.files).filter(name => COMMENT_PART_PATTERN.test(name)));
+    }
+
+    const partPaths = Object.keys(zip.files)
+      .filter(name => WORD_PART_PATTERN.test(name) && !removedParts.includes(name))
+      .sort();
+    for (const partPath of partPaths) {
+      const doc = await loadXmlPart(zip, partPath);
+      if (!doc) continue;
+      const isStory = STORY_PART_PATTERN.test(partPath);
+
+      if (isStory && enabled('comments')) this.removeCommentMarks(doc);
+      if (isStory && enabled('hiddenText')) this.removeHiddenText(doc, report, hiddenTextStyles);
+      if (isStory && enabled('customXml')) this.removeCustomXmlTags(doc, report);
+      if (enabled('revisionAuthors')) this.anonymizeRevisions(doc, report, revisionAuthors);
+      if (enabled('rsid')) this.removeRsids(doc, report);
+      if (partPath === SETTINGS_PART && enabled('attachedTemplate')) {
+        report.attachedTemplate = await this.removeAttachedTemplate(zip, doc);
+      }
+      saveXmlPart(zip, partPath, doc);
+    }
+    report.revisionAuthors = Array.from(revisionAuthors);
+
+    // people.xml 登记了修订和批注作者的姓名及账户
+    if (enabled('revisionAuthors') && zip.file(PEOPLE_PART)) {
+      removedParts.push(PEOPLE_PART);
+    }
+    if (enabled('customXml')) {
+      const customXmlParts = Object.keys(zip.files).filter(name => CUSTOM_XML_PART_PATTERN.test(name) && !zip.files[name].dir);
+      report.customXmlParts = customXmlParts.filter(name => !name.endsWith('.rels'));
+      removedParts.push(...customXmlParts);
+    }
+    if (enabled('personalInfo')) {
+      report.personalInfo = await this.removePersonalInfo(zip);
+    }
+    if (enabled('attachedTemplate')) {
+      const template = await this.removeAppTemplate(zip);
+      report.attachedTemplate = report.attachedTemplate || template;
+    }
+    await this.removeParts(zip, removedParts);
+
+    console.log(`文档清理: 批注${report.comments}条，修订作者${report.revisionAuthors.length}人，rsid ${report.rsids}个，`
+      + `隐藏文字${report.hiddenTextRuns}处，个人信息${report.personalInfo.length}项，自定义XML部件${report.customXmlParts.length}个`);
+    return { buffer: await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }), report };
+  }
+
+  /**
+   * 删除批注范围标记和批注引用，引用所在的文本运行没有其他内容时一并删除
+   */
+  private removeCommentMarks(doc: Document) {
+    for (const tagName of ['w:commentRangeStart', 'w:commentRangeEnd', 'w:commentReference']) {
+      for (const element of this.getElements(doc, tagName)) {
+        const parent = element.parentNode as Element | null;
+        parent?.removeChild(element);
+        if (parent?.tagName === 'w:r' && getChildElements(parent).every(child => child.tagName === 'w:rPr')) {
+          parent.parentNode?.removeChild(parent);
+        }
+      }
+    }
+  }
+
+  /**
+   * 删除隐藏文字的文本运行；段落标记也隐藏且已没有文本运行的段落一并删除
+   * 隐藏设置依次取直接格式、字符样式、段落样式和文档默认格式中最先设置的，样式按 basedOn 沿用基础样式的设置
+   */
+  private removeHiddenText(doc: Document, report: SanitizeReport, styles: HiddenTextStyles) {
+    for (const run of this.getElements(doc, 'w:r')) {
+      if (!this.isHidden(getFirstChild(run, 'w:rPr'), this.getParagraphStyle(run, styles), styles)) continue;
+      report.hiddenTextRuns++;
+      report.hiddenTextLength += this.getElements(run, 'w:t').concat(this.getElements(run, 'w:delText'))
+        .reduce((sum, t) => sum + Array.from(t.textContent || '').length, 0);
+      run.parentNode?.removeChild(run);
+    }
+
+    for (const paragraph of this.getElements(doc, 'w:p')) {
+      const pPr = getFirstChild(paragraph, 'w:pPr');
+      if (pPr && getFirstChild(pPr, 'w:sectPr')) continue;
+      if (!this.isHidden(pPr && getFirstChild(pPr, 'w:rPr'), this.getParagraphStyle(paragraph, styles), styles)) continue;
+      if (paragraph.getElementsByTagName('w:r').length > 0) continue;
+      // 表格单元格和正文至少保留一个段落
+      const parent = paragraph.parentNode as Element;
+      if (getChildElements(parent, 'w:p').length > 1) parent.removeChild(paragraph);
+    }
+  }
+
+  private isHidden(rPr: Element | null, paragraphStyle: string | undefined, styles: HiddenTextStyles): boolean {
+    const characterStyle = rPr ? getFirstChild(rPr, 'w:rStyle')?.getAttribute('w:val') || undefined : undefined;
+    return this.getVanish(rPr)
+      ?? this.getStyleHidden(characterStyle, styles)
+      ?? this.getStyleHidden(paragraphStyle, styles)
+      ?? styles.defaultHidden
+      ?? false;
+  }
+
+  /**
+   * 读取文字格式中的隐藏设置，未设置时返回 undefined
+   */
+  private getVanish(rPr: Element | null): boolean | undefined {
+    const vanish = rPr && getFirstChild(rPr, 'w:vanish');
+    if (!vanish) return undefined;
+    return !['false', '0', 'off'].includes(vanish.getAttribute('w:val') || '');
+  }
+
+  /**
+   * 沿 basedOn 查找样式的隐藏设置
+   */
+  private getStyleHidden(styleId: string | undefined, styles: HiddenTextStyles): boolean | undefined {
+    const visited = new Set<string>();
+    for (let id = styleId; id && !visited.has(id); id = styles.styles.get(id)?.basedOn) {
+      visited.add(id);
+      const hidden = styles.styles.get(id)?.hidden;
+      if (hidden !== undefined) return hidden;
+    }
+    return undefined;
+  }
+
+  /**
+   * 获取元素所在段落的段落样式，未设置时为默认段落样式
+   */
+  private getParagraphStyle(element: Element, styles: HiddenTextStyles): string | undefined {
+    let paragraph: Node | null = element;
+    while (paragraph && (paragraph as Element).tagName !== 'w:p') {
+      paragraph = paragraph.parentNode;
+    }
+    const pPr = paragraph && getFirstChild(paragraph as Element, 'w:pPr');
+    const pStyle = pPr && getFirstChild(pPr, 'w:pStyle');
+    return pStyle?.getAttribute('w:val') || styles.defaultParagraphStyle;
+  }
+
+  /**
+   * 读取各样式和文档默认格式中的隐藏设置
+   */
+  private parseHiddenTextStyles(stylesXml: Document | null): HiddenTextStyles {
+    const result: HiddenTextStyles = { styles: new Map() };
+    if (!stylesXml) return result;
+
+    const rPrDefault = stylesXml.getElementsByTagName('w:rPrDefault')[0];
+    result.defaultHidden = this.getVanish(rPrDefault ? getFirstChild(rPrDefault, 'w:rPr') : null);
+
+    for (const style of getChildElements(stylesXml.documentElement, 'w:style')) {
+      const styleId = style.getAttribute('w:styleId');
+      if (!styleId) continue;
+      const type = style.getAttribute('w:type');
+      if (type !== 'paragraph' && type !== 'character') continue;
+      if (type === 'paragraph' && ['1', 'true', 'on'].includes(style.getAttribute('w:default') || '')) {
+        result.defaultParagraphStyle = styleId;
+      }
+      result.styles.set(styleId, {
+        hidden: this.getVanish(getFirstChild(style, 'w:rPr')),
+        basedOn: getFirstChild(style, 'w:basedOn')?.getAttribute('w:val') || undefined
+      });
+    }
+    return result;
+  }
+
+  /**
+   * 去掉正文中的自定义 XML 标记（保留其中的内容）和内容控件的数据绑定
+   */
+  private removeCustomXmlTags(doc: Document, report: SanitizeReport) {
+    for (const element of this.getElements(doc, 'w:customXml')) {
+      const parent = element.parentNode!;
+      for (const child of getChildElements(element)) {
+        if (child.tagName !== 'w:customXmlPr') parent.insertBefore(child, element);
+      }
+      parent.removeChild(element);
+      report.customXmlTags++;
+    }
+    for (const dataBinding of this.getElements(doc, 'w:dataBinding')) {
+      dataBinding.parentNode?.removeChild(dataBinding);
+      report.customXmlTags++;
+    }
+  }
+
+  /**
+   * 把修订标记（插入、删除、移动和格式修订）的作者替换为匿名作者
+   */
+  private anonymizeRevisions(doc: Document, report: SanitizeReport, authors: Set<string>) {
+    for (const element of this.getElements(doc, '*')) {
+      // 批注的作者随批注一起删除，保留批注时不作为修订处理
+      if (element.tagName === 'w:comment' || !element.hasAttribute('w:author')) continue;
+      const author = element.getAttribute('w:author') || '';
+      if (author === ANONYMOUS_AUTHOR) continue;
+      if (author) authors.add(author);
+      element.setAttribute('w:author', ANONYMOUS_AUTHOR);
+      report.revisionMarks++;
+    }
+  }
+
+  /**
+   * 删除 w:rsid* 属性和 settings.xml 中登记的编辑会话
+   */
+  private removeRsids(doc: Document, report: SanitizeReport) {
+    for (const element of this.getElements(doc, '*')) {
+      for (let i = element.attributes.length - 1; i >= 0; i--) {
+        const name = element.attributes[i].name;
+        if (name.startsWith('w:rsid')) {
+          element.removeAttribute(name);
+          report.rsids++;
+        }
+      }
+    }
+    for (const rsids of this.getElements(doc, 'w:rsids')) {
+      report.rsids += getChildElements(rsids, 'w:rsid').length;
+      rsids.parentNode?.removeChild(rsids);
+    }
+  }
+
+  /**
+   * 删除 settings.xml 中的附加模板及其外部关系
+   * @returns 附加模板的路径
+   */
+  private async removeAttachedTemplate(zip: JSZip, settingsXml: Document): Promise<string | undefined> {
+    const attachedTemplate = getFirstChild(settingsXml.documentElement, 'w:attachedTemplate');
+    if (!attachedTemplate) return undefined;
+    settingsXml.documentElement.removeChild(attachedTemplate);
+
+    const relsPath = 'word/_rels/settings.xml.rels';
+    const relsXml = await loadXmlPart(zip, relsPath);
+    const relationship = relsXml && getChildElements(relsXml.documentElement, 'Relationship')
+      .find(rel => rel.getAttribute('Id') === attachedTemplate.getAttribute('r:id'));
+    if (!relsXml || !relationship) return '';
+    relsXml.documentElement.removeChild(relationship);
+    saveXmlPart(zip, relsPath, relsXml);
+    return relationship.getAttribute('Target') || '';
+  }
+
+  /**
+   * 删除 app.xml 中记录的模板名称
+   */
+  private async removeAppTemplate(zip: JSZip): Promise<string | undefined> {
+    const appXml = await loadXmlPart(zip, 'docProps/app.xml');
+    const template = appXml && getFirstChild(appXml.documentElement, 'Template');
+    if (!appXml || !template) return undefined;
+    appXml.documentElement.removeChild(template);
+    saveXmlPart(zip, 'docProps/app.xml', appXml);
+    return template.textContent || undefined;
+  }
+
+  /**
+   * 删除 docProps 中的作者、最后修改者、单位和经理
+   * @returns 删除的属性名
+   */
+  private async removePersonalInfo(zip: JSZip): Promise<string[]> {
+    const removed: string[] = [];
+    for (const part of Array.from(new Set(PERSONAL_INFO_ELEMENTS.map(item => item.part)))) {
+      const xml = await loadXmlPart(zip, part);
+      if (!xml) continue;
+      for (const { name, tagName } of PERSONAL_INFO_ELEMENTS.filter(item => item.part === part)) {
+        const element = getFirstChild(xml.documentElement, tagName);
+        if (!element) continue;
+        xml.documentElement.removeChild(element);
+        if (element.textContent?.trim()) removed.push(name);
+      }
+      saveXmlPart(zip, part, xml);
+    }
+    return removed;
+  }
+
+  /**
+   * 删除部件及其自身的关系，并移除指向它们的关系和内容类型
+   */
+  private async removeParts(zip: JSZip, partPaths: string[]) {
+    if (partPaths.length === 0) return;
+    const removed = new Set(partPaths);
+    partPaths.forEach(partPath => {
+      zip.remove(partPath);
+      zip.remove(path.posix.join(path.posix.dirname(partPath), '_rels', `${path.posix.basename(partPath)}.rels`));
+    });
+
+    for (const relsPath of Object.keys(zip.files).filter(name => name.endsWith('.rels'))) {
+      const relsXml = await loadXmlPart(zip, relsPath);
+      if (!relsXml) continue;
+      // 关系目标相对于所属部件的目录，包级关系（_rels/.rels）相对于包根目录
+      const baseDir = path.posix.dirname(path.posix.dirname(relsPath));
+      const stale = getChildElements(relsXml.documentElement, 'Relationship').filter(rel => {
+        if (rel.getAttribute('TargetMode') === 'External') return false;
+        const target = rel.getAttribute('Target') || '';
+        const resolved = target.startsWith('/') ? target.slice(1) : path.posix.normalize(path.posix.join(baseDir, target));
+        return removed.has(resolved);
+      });
+      if (stale.length === 0) continue;
+      stale.forEach(rel => relsXml.documentElement.removeChild(rel));
+      saveXmlPart(zip, relsPath, relsXml);
+    }
+
+    const contentTypesXml = await loadXmlPart(zip, '[Content_Types].xml');
+    if (contentTypesXml) {
+      getChildElements(contentTypesXml.documentElement, 'Override')
+        .filter(override => removed.has((override.getAttribute('PartName') || '').replace(/^\//, '')))
+        .forEach(override => contentTypesXml.documentElement.removeChild(override));
+      saveXmlPart(zip, '[Content_Types].xml', contentTypesXml);
+    }
+  }
+
+  /**
+   * 复制出元素列表，删除节点不影响遍历
+   */
+  private getElements(parent: Document | Element, tagName: string): Element[] {
+    return Array.from(parent.getElementsByTagName(tagName));
+  }
+}
@@ -0,0 +1,450 @@
+/**
+ * 页眉页脚写入器 - 原位修改模式下写入模板定义的页眉页脚，重新生成模式下复制原文档的页眉页脚
+ */
+import JSZip from 'jszip';
+import { DOMParser } from 'xmldom';
+import {
+  HeaderFooterParagraph,
+  HeaderFooterType,
+  ResolvedHeaderFooter,
+  splitPageNumber
+} from '../header-footer';
+import {
+  SECTION_PROPERTY_ORDER,
+  PARAGRAPH_PROPERTY_ORDER,
+  SETTINGS_ORDER,
+  loadXmlPart,
+  saveXmlPart,
+  getChildElements,
+  getFirstChild,
+  ensureChild,
+  insertChild,
+  removeChildren,
+  ensureParagraphProperties,
+  getSectionProperties,
+  W_NS
+} from './ooxml-utils';
+
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const CONTENT_TYPES_NS = 'http://schemas.openxmlformats.org/package/2006/content-types';
+
+type PartKind = 'header' | 'footer';
+
+const PART_INFO: Record<PartKind, { rootTag: string; referenceTag: string; relationshipType: string; contentType: string }> = {
+  header: {
+    rootTag: 'w:hdr',
+    referenceTag: 'w:headerReference',
+    relationshipType: `${R_NS}/header`,
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml'
+  },
+  footer: {
+    rootTag: 'w:ftr',
+    referenceTag: 'w:footerReference',
+    relationshipType: `${R_NS}/footer`,
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml'
+  }
+};
+
+// 复制的页眉页脚图片等资源的文件名前缀，避免与正文资源重名
+const COPIED_RESOURCE_PREFIX = 'hf_';
+
+export interface HeaderFooterFont {
+  fontName?: string;
+  fontSize?: number;  // 磅
+}
+
+/**
+ * 修改页眉页脚时需要一并更新的包级部件
+ */
+interface PackageParts {
+  relsXml: Document;
+  contentTypesXml: Document;
+}
+
+export class HeaderFooterWriter {
+  /**
+   * 写入模板定义的页眉页脚，替换各节中原有的页眉或页脚
+   * @param mainMatterStart 正文起始段落（第一个一级标题），设置了前置部分页码格式时在其之前分节
+   */
+  async writeHeaderFooters(
+    zip: JSZip,
+    documentXml: Document,
+    resolved: ResolvedHeaderFooter,
+    font: HeaderFooterFont,
+    mainMatterStart?: Element
+  ): Promise<void> {
+    const parts = await this.loadPackageParts(zip);
+    if (!parts) return;
+
+    const mainSection = resolved.frontMatterFormat && mainMatterStart
+      ? this.insertFrontMatterSection(documentXml, mainMatterStart, resolved.frontMatterFormat)
+      : null;
+
+    const sections = getSectionProperties(documentXml);
+    for (const kind of ['header', 'footer'] as PartKind[]) {
+      const contents = kind === 'header' ? resolved.headers : resolved.footers;
+      const types = Object.keys(contents) as HeaderFooterType[];
+      if (types.length === 0) continue;
+
+      const references = types.map(type => {
+        const partName = this.getUnusedPartName(zip, kind);
+        zip.file(`word/${partName}`, this.createPartXml(kind, contents[type]!, font));
+        return { type, id: this.addPartRelationship(parts, kind, partName) };
+      });
+      for (const sectPr of sections) {
+        removeChildren(sectPr, PART_INFO[kind].referenceTag);
+        references.forEach(reference => this.addReference(sectPr, kind, reference.type, reference.id));
+      }
+    }
+
+    for (const sectPr of sections) {
+      // 首页不同只作用于前置部分的首页，正文首页正常显示页码
+      if (resolved.titlePage && sectPr !== mainSection) {
+        ensureChild(sectPr, 'w:titlePg', SECTION_PROPERTY_ORDER);
+      } else {
+        removeChildren(sectPr, 'w:titlePg');
+      }
+    }
+    await this.setEvenAndOddHeaders(zip, resolved.evenAndOdd);
+    this.savePackageParts(zip, parts);
+  }
+
+  /**
+   * 将原文档最后一节的页眉页脚复制到重新生成的文档中
+   * @returns {Promise<Buffer>} 原文档没有页眉页脚时原样返回
+   */
+  async copyHeaderFooters(sourceBuffer: Buffer, buffer: Buffer): Promise<Buffer> {
+    const source = await JSZip.loadAsync(sourceBuffer);
+    const sourceDocumentXml = await loadXmlPart(source, 'word/document.xml');
+    const sourceRelsXml = await loadXmlPart(source, 'word/_rels/document.xml.rels');
+    if (!sourceDocumentXml || !sourceRelsXml) return buffer;
+
+    const sourceSection = getSectionProperties(sourceDocumentXml).pop();
+    if (!sourceSection) return buffer;
+    const sourceReferences = [
+      ...getChildElements(sourceSection, PART_INFO.header.referenceTag),
+      ...getChildElements(sourceSection, PART_INFO.footer.referenceTag)
+    ];
+    if (sourceReferences.length === 0) return buffer;
+
+    const zip = await JSZip.loadAsync(buffer);
+    const documentXml = await loadXmlPart(zip, 'word/document.xml');
+    const parts = await this.loadPackageParts(zip);
+    if (!documentXml || !parts) return buffer;
+
+    const sourceTargets = this.getRelationshipTargets(sourceRelsXml);
+    const sourceContentTypesXml = await loadXmlPart(source, '[Content_Types].xml');
+    const sections = getSectionProperties(documentXml);
+    let copied = 0;
+
+    for (const sourceReference of sourceReferences) {
+      const kind: PartKind = sourceReference.tagName === PART_INFO.header.referenceTag ? 'header' : 'footer';
+      const target = sourceTargets.get(sourceReference.getAttribute('r:id') || '');
+      const file = target ? source.file(`word/${target}`) : null;
+      if (!target || !file) continue;
+
+      const partName = this.getUnusedPartName(zip, kind);
+      zip.file(`word/${partName}`, await file.async('nodebuffer'));
+      await this.copyPartResources(source, zip, target, partName, parts, sourceContentTypesXml);
+
+      const id = this.addPartRelationship(parts, kind, partName);
+      const type = (sourceReference.getAttribute('w:type') || 'default') as HeaderFooterType;
+      for (const sectPr of sections) {
+        getChildElements(sectPr, PART_INFO[kind].referenceTag)
+          .filter(reference => (reference.getAttribute('w:type') || 'default') === type)
+          .forEach(reference => sectPr.removeChild(reference));
+        this.addReference(sectPr, kind, type, id);
+      }
+      copied++;
+    }
+
+    // 首页不同和页码格式随页眉页脚一并保留
+    const sourcePageNumber = getFirstChild(sourceSection, 'w:pgNumType');
+    for (const sectPr of sections) {
+      if (getFirstChild(sourceSection, 'w:titlePg')) {
+        ensureChild(sectPr, 'w:titlePg', SECTION_PROPERTY_ORDER);
+      }
+      if (sourcePageNumber) {
+        removeChildren(sectPr, 'w:pgNumType');
+        insertChild(sectPr, sourcePageNumber.cloneNode(true) as Element, SECTION_PROPERTY_ORDER);
+      }
+    }
+    const sourceSettingsXml = await loadXmlPart(source, 'word/settings.xml');
+    if (sourceSettingsXml && sourceSettingsXml.getElementsByTagName('w:evenAndOddHeaders').length > 0) {
+      await this.setEvenAndOddHeaders(zip, true);
+    }
+
+    console.log(`保留原文档页眉页脚: ${copied}个`);
+    saveXmlPart(zip, 'word/document.xml', documentXml);
+    this.savePackageParts(zip, parts);
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  }
+
+  /**
+   * 获取各页显示的页眉部件路径，没有页眉的页面补上空页眉
+   * 未引用某类页眉的节沿用前一节的页眉；设置了首页不同或奇偶页不同时，首页和偶数页页眉同样需要存在
+   */
+  async ensurePageHeaders(zip: JSZip, documentXml: Document): Promise<string[]> {
+    const parts = await this.loadPackageParts(zip);
+    if (!parts) return [];
+    const settingsXml = await loadXmlPart(zip, 'word/settings.xml');
+    const evenAndOddElement = settingsXml?.getElementsByTagName('w:evenAndOddHeaders')[0];
+    const evenAndOdd = !!evenAndOddElement && !['false', '0', 'off'].includes(evenAndOddElement.getAttribute('w:val') || '');
+    const targets = this.getRelationshipTargets(parts.relsXml);
+    const inherited = new Set<HeaderFooterType>();
+    const paths = new Set<string>();
+    let created = 0;
+
+    for (const sectPr of getSectionProperties(documentXml)) {
+      const types: HeaderFooterType[] = ['default'];
+      if (getFirstChild(sectPr, 'w:titlePg')) types.push('first');
+      if (evenAndOdd) types.push('even');
+
+      for (const type of types) {
+        const reference = getChildElements(sectPr, PART_INFO.header.referenceTag)
+          .find(element => (element.getAttribute('w:type') || 'default') === type);
+        const target = reference ? targets.get(reference.getAttribute('r:id') || '') : undefined;
+        if (target) {
+          paths.add(`word/${target}`);
+        } else if (!inherited.has(type)) {
+          const partName = this.getUnusedPartName(zip, 'header');
+          zip.file(`word/${partName}`, this.createPartXml('header', [], {}));
+          // 关系丢失的引用改为指向新页眉
+          if (reference) sectPr.removeChild(reference);
+          this.addReference(sectPr, 'header', type, this.addPartRelationship(parts, 'header', partName));
+          paths.add(`word/${partName}`);
+          created++;
+        }
+        inherited.add(type);
+      }
+    }
+
+    if (created > 0) {
+      this.savePackageParts(zip, parts);
+    }
+    return Array.from(paths);
+  }
+
+  /**
+   * 在正文起始段落前插入分节符：前置部分使用罗马数字页码，正文从 1 开始使用阿拉伯数字
+   * @returns 正文所在的节，无法分节时返回 null
+   */
+  private insertFrontMatterSection(documentXml: Document, mainMatterStart: Element, format: 'upperRoman' | 'lowerRoman'): Element | null {
+    const body = documentXml.getElementsByTagName('w:body')[0];
+    if (!body || mainMatterStart.parentNode !== body) return null;
+
+    let previous = mainMatterStart.previousSibling;
+    while (previous && previous.nodeType !== 1) previous = previous.previousSibling;
+    const previousParagraph = previous as Element | null;
+    // 正文之前没有内容，或前一个元素是表格时不分节
+    if (!previousParagraph || previousParagraph.tagName !== 'w:p') return null;
+
+    // 正文所在节：正文起始段落之后第一个段落分节符，没有时为文档最后一节
+    let mainSection: Element | null = null;
+    for (let node: Node | null = mainMatterStart; node && !mainSection; node = node.nextSibling) {
+      const element = node as Element;
+      if (node.nodeType !== 1) continue;
+      if (element.tagName === 'w:sectPr') {
+        mainSection = element;
+      } else if (element.tagName === 'w:p') {
+        const pPr = getFirstChild(element, 'w:pPr');
+        mainSection = pPr && getFirstChild(pPr, 'w:sectPr');
+      }
+    }
+    if (!mainSection) return null;
+
+    const pPr = ensureParagraphProperties(previousParagraph);
+    let frontSection = getFirstChild(pPr, 'w:sectPr');
+    if (!frontSection) {
+      frontSection = insertChild(pPr, mainSection.cloneNode(true) as Element, PARAGRAPH_PROPERTY_ORDER);
+      removeChildren(frontSection, 'w:type');
+    }
+    this.setPageNumberFormat(frontSection, format, true);
+    this.setPageNumberFormat(mainSection, 'decimal', true);
+    return mainSection;
+  }
+
+  private setPageNumberFormat(sectPr: Element, format: string, restart: boolean) {
+    const pageNumber = ensureChild(sectPr, 'w:pgNumType', SECTION_PROPERTY_ORDER);
+    pageNumber.setAttribute('w:fmt', format);
+    if (restart) pageNumber.setAttribute('w:start', '1');
+  }
+
+  /**
+   * 生成页眉或页脚部件，页码占位符输出为 PAGE 域
+   */
+  private createPartXml(kind: PartKind, paragraphs: HeaderFooterParagraph[], font: HeaderFooterFont): string {
+    const xml = new DOMParser().parseFromString(
+      `<${PART_INFO[kind].rootTag} xmlns:w="${W_NS}" xmlns:r="${R_NS}"/>`,
+      'text/xml'
+    );
+    const root = xml.documentElement;
+    const createElement = (tagName: string, attributes: Record<string, string> = {}, ...children: Element[]) => {
+      const element = xml.createElementNS(W_NS, tagName);
+      Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, value));
+      children.forEach(child => element.appendChild(child));
+      return element;
+    };
+    const createRunProperties = () => {
+      const rPr = createElement('w:rPr');
+      if (font.fontName) {
+        rPr.appendChild(createElement('w:rFonts', {
+          'w:ascii': font.fontName,
+          'w:hAnsi': font.fontName,
+          'w:eastAsia': font.fontName,
+          'w:cs': font.fontName
+        }));
+      }
+      if (font.fontSize) {
+        const size = String(Math.round(font.fontSize * 2));
+        rPr.appendChild(createElement('w:sz', { 'w:val': size }));
+        rPr.appendChild(createElement('w:szCs', { 'w:val': size }));
+      }
+      return rPr;
+    };
+    const createRun = (...children: Element[]) => createElement('w:r', {}, createRunProperties(), ...children);
+
+    // 页眉页脚至少需要一个段落
+    const items = paragraphs.length > 0 ? paragraphs : [{ text: '', alignment: 'center' as const }];
+    for (const item of items) {
+      const paragraph = createElement('w:p', {}, createElement('w:pPr', {}, createElement('w:jc', { 'w:val': item.alignment })));
+      splitPageNumber(item.text).forEach((text, index) => {
+        if (index > 0) {
+          paragraph.appendChild(createRun(createElement('w:fldChar', { 'w:fldCharType': 'begin' })));
+          const instruction = createElement('w:instrText', { 'xml:space': 'preserve' });
+          instruction.appendChild(xml.createTextNode(' PAGE '));
+          paragraph.appendChild(createRun(instruction));
+          paragraph.appendChild(createRun(createElement('w:fldChar', { 'w:fldCharType': 'separate' })));
+          const result = createElement('w:t');
+          result.appendChild(xml.createTextNode('1'));
+          paragraph.appendChild(createRun(result));
+          paragraph.appendChild(createRun(createElement('w:fldChar', { 'w:fldCharType': 'end' })));
+        }
+        if (text) {
+          const t = createElement('w:t', { 'xml:space': 'preserve' });
+          t.appendChild(xml.createTextNode(text));
+          paragraph.appendChild(createRun(t));
+        }
+      });
+      root.appendChild(paragraph);
+    }
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${root.toString()}`;
+  }
+
+  /**
+   * 复制页眉页脚部件自身的关系（图片等），资源文件重命名后写入
+   */
+  private async copyPartResources(
+    source: JSZip,
+    zip: JSZip,
+    sourceTarget: string,
+    partName: string,
+    parts: PackageParts,
+    sourceContentTypesXml: Document | null
+  ) {
+    const sourceRelsXml = await loadXmlPart(source, `word/_rels/${sourceTarget}.rels`);
+    if (!sourceRelsXml) return;
+
+    for (const relationship of getChildElements(sourceRelsXml.documentElement, 'Relationship')) {
+      if (relationship.getAttribute('TargetMode') === 'External') continue;
+      const target = relationship.getAttribute('Target') || '';
+      const file = source.file(`word/${target}`);
+      if (!file) continue;
+
+      const slash = target.lastIndexOf('/');
+      const copiedTarget = `${target.substring(0, slash + 1)}${COPIED_RESOURCE_PREFIX}${target.substring(slash + 1)}`;
+      if (!zip.file(`word/${copiedTarget}`)) {
+        zip.file(`word/${copiedTarget}`, await file.async('nodebuffer'));
+      }
+      relationship.setAttribute('Target', copiedTarget);
+      this.ensureDefaultContentType(parts, sourceContentTypesXml, target.substring(target.lastIndexOf('.') + 1));
+    }
+
+    saveXmlPart(zip, `word/_rels/${partName}.rels`, sourceRelsXml);
+  }
+
+  /**
+   * 复制的资源扩展名在目标文档中没有默认内容类型时，从原文档补充
+   */
+  private ensureDefaultContentType(parts: PackageParts, sourceContentTypesXml: Document | null, extension: string) {
+    const lowerExtension = extension.toLowerCase();
+    const findDefault = (xml: Document) => getChildElements(xml.documentElement, 'Default')
+      .find(element => (element.getAttribute('Extension') || '').toLowerCase() === lowerExtension);
+    if (findDefault(parts.contentTypesXml) || !sourceContentTypesXml) return;
+
+    const sourceDefault = findDefault(sourceContentTypesXml);
+    if (!sourceDefault) return;
+    const element = parts.contentTypesXml.createElementNS(CONTENT_TYPES_NS, 'Default');
+    element.setAttribute('Extension', sourceDefault.getAttribute('Extension') || extension);
+    element.setAttribute('ContentType', sourceDefault.getAttribute('ContentType') || '');
+    parts.contentTypesXml.documentElement.insertBefore(element, parts.contentTypesXml.documentElement.firstChild);
+  }
+
+  private async loadPackageParts(zip: JSZip): Promise<PackageParts | null> {
+    const relsXml = await loadXmlPart(zip, 'word/_rels/document.xml.rels');
+    const contentTypesXml = await loadXmlPart(zip, '[Content_Types].xml');
+    return relsXml && contentTypesXml ? { relsXml, contentTypesXml } : null;
+  }
+
+  private savePackageParts(zip: JSZip, parts: PackageParts) {
+    saveXmlPart(zip, 'word/_rels/document.xml.rels', parts.relsXml);
+    saveXmlPart(zip, '[Content_Types].xml', parts.contentTypesXml);
+  }
+
+  private getRelationshipTargets(relsXml: Document): Map<string, string> {
+    return new Map(getChildElements(relsXml.documentElement, 'Relationship')
+      .map(rel => [rel.getAttribute('Id') || '', rel.getAttribute('Target') || '']));
+  }
+
+  /**
+   * 获取未被占用的部件文件名，如 header3.xml
+   */
+  private getUnusedPartName(zip: JSZip, kind: PartKind): string {
+    let index = 1;
+    while (zip.file(`word/${kind}${index}.xml`)) index++;
+    return `${kind}${index}.xml`;
+  }
+
+  /**
+   * 添加部件关系和内容类型，返回关系 ID
+   */
+  private addPartRelationship(parts: PackageParts, kind: PartKind, partName: string): string {
+    const relationships = getChildElements(parts.relsXml.documentElement, 'Relationship');
+    const maxId = Math.max(0, ...relationships.map(rel => parseInt((rel.getAttribute('Id') || '').replace(/^rId/, ''), 10) || 0));
+    const id = `rId${maxId + 1}`;
+    const relationship = parts.relsXml.createElementNS(RELATIONSHIPS_NS, 'Relationship');
+    relationship.setAttribute('Id', id);
+    relationship.setAttribute('Type', PART_INFO[kind].relationshipType);
+    relationship.setAttribute('Target', partName);
+    parts.relsXml.documentElement.appendChild(relationship);
+
+    const override = parts.contentTypesXml.createElementNS(CONTENT_TYPES_NS, 'Override');
+    override.setAttribute('PartName', `/word/${partName}`);
+    override.setAttribute('ContentType', PART_INFO[kind].contentType);
+    parts.contentTypesXml.documentElement.appendChild(override);
+    return id;
+  }
+
+  private addReference(sectPr: Element, kind: PartKind, type: HeaderFooterType, id: string) {
+    const reference = sectPr.ownerDocument.createElementNS(W_NS, PART_INFO[kind].referenceTag);
+    reference.setAttribute('w:type', type);
+    reference.setAttribute('r:id', id);
+    insertChild(sectPr, reference, SECTION_PROPERTY_ORDER);
+  }
+
+  /**
+   * 设置或取消 settings.xml 中的奇偶页不同
+   */
+  private async setEvenAndOddHeaders(zip: JSZip, enabled: boolean) {
+    const settingsXml = await loadXmlPart(zip, 'word/settings.xml');
+    if (!settingsXml) return;
+    if (enabled) {
+      ensureChild(settingsXml.documentElement, 'w:evenAndOddHeaders', SETTINGS_ORDER);
+    } else {
+      removeChildren(settingsXml.documentElement, 'w:evenAndOddHeaders');
+    }
+    saveXmlPart(zip, 'word/settings.xml', settingsXml);
+  }
+}
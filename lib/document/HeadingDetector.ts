@@ -0,0 +1,193 @@
+/**
+ * 标题识别器 - 综合 Word 标题样式、大纲级别和中文编号识别一至四级标题
+ */
+import JSZip from 'jszip';
+import { HeadingSource } from '@/types/document-processing';
+import {
+  loadXmlPart,
+  getFirstChild,
+  getParagraphTextLines,
+  getBodyParagraphs
+} from './ooxml-utils';
+
+export const MAX_HEADING_LEVEL = 4;
+
+/**
+ * 中文公文常用的各级标题编号，依次为一至四级
+ */
+const NUMBERING_PATTERNS: RegExp[] = [
+  /^[一二三四五六七八九十百]+、/,
+  /^[（(][一二三四五六七八九十百]+[）)]/,
+  /^\d+[.．](?!\d)/,
+  /^[（(]\d+[）)]/
+];
+
+// 按编号识别时，标题段落的最大长度
+const MAX_NUMBERED_HEADING_LENGTH = 40;
+
+interface StyleHeadingInfo {
+  name: string;
+  basedOn?: string;
+  outlineLevel?: number;
+}
+
+export interface DetectedHeading {
+  level: number;
+  source: HeadingSource;
+}
+
+export class HeadingDetector {
+  /**
+   * 识别文档中的标题段落
+   * @param paragraphs mammoth 提取的非空文本段落，返回值以其索引为键
+   */
+  async detectHeadings(inputBuffer: Buffer, paragraphs: string[]): Promise<Map<number, DetectedHeading>> {
+    const headings = new Map<number, DetectedHeading>();
+
+    const zip = await JSZip.loadAsync(inputBuffer);
+    const documentXml = await loadXmlPart(zip, 'word/document.xml');
+    const body = documentXml?.getElementsByTagName('w:body')[0];
+    if (!body) {
+      return this.detectByNumbering(paragraphs);
+    }
+
+    const stylesXml = await loadXmlPart(zip, 'word/styles.xml');
+    const styles = stylesXml ? this.parseStyles(stylesXml) : new Map<string, StyleHeadingInfo>();
+
+    let paragraphIndex = 0;
+    for (const paragraph of getBodyParagraphs(documentXml!)) {
+      const lines = getParagraphTextLines(paragraph);
+      if (lines.length === 0) continue;
+
+      // 表格、文本框等块级内容中的段落不作为标题
+      if (paragraph.parentNode !== body) {
+        paragraphIndex += lines.length;
+        continue;
+      }
+
+      // 段落索引与 mammoth 的分段不一致时放弃 XML 信息，仅按编号识别
+      if (paragraphs[paragraphIndex]?.trim() !== lines[0].trim()) {
+        console.warn(`标题识别: 段落${paragraphIndex}与XML内容不一致，改为仅按编号识别`);
+        return this.detectByNumbering(paragraphs);
+      }
+
+      const heading = this.detectFromProperties(paragraph, styles) || this.detectFromNumbering(lines[0]);
+      if (heading) {
+        headings.set(paragraphIndex, heading);
+      }
+      paragraphIndex += lines.length;
+    }
+
+    return headings;
+  }
+
+  /**
+   * 仅根据中文编号识别标题
+   */
+  detectByNumbering(paragraphs: string[]): Map<number, DetectedHeading> {
+    const headings = new Map<number, DetectedHeading>();
+    paragraphs.forEach((text, index) => {
+      const heading = this.detectFromNumbering(text);
+      if (heading) {
+        headings.set(index, heading);
+      }
+    });
+    return headings;
+  }
+
+  /**
+   * 根据段落的大纲级别和段落样式判断标题级别
+   */
+  private detectFromProperties(paragraph: Element, styles: Map<string, StyleHeadingInfo>): DetectedHeading | null {
+    const pPr = getFirstChild(paragraph, 'w:pPr');
+    if (!pPr) return null;
+
+    // 段落直接设置的大纲级别优先于样式
+    const outlineLevel = this.getOutlineLevel(pPr);
+    if (outlineLevel !== undefined) {
+      return this.toHeading(outlineLevel + 1, 'outline');
+    }
+
+    const styleId = getFirstChild(pPr, 'w:pStyle')?.getAttribute('w:val');
+    if (!styleId) return null;
+
+    const visited = new Set<string>();
+    let currentId: string | undefined = styleId;
+    while (currentId && !visited.has(currentId)) {
+      visited.add(currentId);
+      const style = styles.get(currentId);
+      if (!style) break;
+
+      const levelFromName = this.getHeadingLevelFromName(style.name) ?? this.getHeadingLevelFromName(currentId);
+      if (levelFromName !== undefined) {
+        return this.toHeading(levelFromName, 'style');
+      }
+      if (style.outlineLevel !== undefined) {
+        return this.toHeading(style.outlineLevel + 1, 'outline');
+      }
+      currentId = style.basedOn;
+    }
+
+    return null;
+  }
+
+  /**
+   * 根据段首编号判断标题级别，过长或以句号结尾的段落视为正文
+   */
+  private detectFromNumbering(text: string): DetectedHeading | null {
+    const trimmed = text.trim();
+    if (trimmed.length > MAX_NUMBERED_HEADING_LENGTH || /[。；;]$/.test(trimmed)) {
+      return null;
+    }
+
+    const index = NUMBERING_PATTERNS.findIndex(pattern => pattern.test(trimmed));
+    return index === -1 ? null : { level: index + 1, source: 'numbering' };
+  }
+
+  /**
+   * 读取样式表中与标题识别相关的信息
+   */
+  private parseStyles(stylesXml: Document): Map<string, StyleHeadingInfo> {
+    const result = new Map<string, StyleHeadingInfo>();
+    const styles = stylesXml.getElementsByTagName('w:style');
+
+    for (let i = 0; i < styles.length; i++) {
+      const style = styles[i];
+      if (style.getAttribute('w:type') !== 'paragraph') continue;
+
+      const styleId = style.getAttribute('w:styleId');
+      if (!styleId) continue;
+
+      const pPr = getFirstChild(style, 'w:pPr');
+      result.set(styleId, {
+        name: getFirstChild(style, 'w:name')?.getAttribute('w:val') || '',
+        basedOn: getFirstChild(style, 'w:basedOn')?.getAttribute('w:val') || undefined,
+        outlineLevel: pPr ? this.getOutlineLevel(pPr) : undefined
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * 读取 w:outlineLvl，取值 9 表示正文级别
+   */
+  private getOutlineLevel(pPr: Element): number | undefined {
+    const value = getFirstChild(pPr, 'w:outlineLvl')?.getAttribute('w:val');
+    if (!value) return undefined;
+    const level = parseInt(value, 10);
+    return isNaN(level) || level >= 9 ? undefined : level;
+  }
+
+  /**
+   * 从样式名称（heading 1、标题 1）或样式 ID（Heading1）中解析标题级别
+   */
+  private getHeadingLevelFromName(name: string): number | undefined {
+    const match = name.match(/^(?:heading|标题)\s*(\d)$/i);
+    return match ? parseInt(match[1], 10) : undefined;
+  }
+
+  private toHeading(level: number, source: HeadingSource): DetectedHeading | null {
+    return level >= 1 && level <= MAX_HEADING_LEVEL ? { level, source } : null;
+  }
+}
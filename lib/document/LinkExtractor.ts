@@ -0,0 +1,201 @@
+/**
+ * 链接提取器 - 定位正文中的超链接、书签和 REF / PAGEREF 交叉引用域
+ * mammoth 纯文本只保留链接文字，链接目标只能从 OOXML 中获取
+ */
+import JSZip from 'jszip';
+import { LinkInfo } from '@/types/document-processing';
+import { loadXmlPart, getBodyParagraphs, getChildElements } from './ooxml-utils';
+
+// 保留的交叉引用域
+const REFERENCE_FIELDS = ['REF', 'PAGEREF'];
+
+/**
+ * 段落内的文本位置：行号（按 w:br 分行）和行内字符位置
+ */
+interface TextPosition {
+  line: number;
+  offset: number;
+}
+
+interface PendingLink {
+  link: Omit<LinkInfo, 'paragraphIndex' | 'textOffset' | 'length'>;
+  start: TextPosition;
+  end?: TextPosition;
+}
+
+interface ComplexField {
+  instruction: string;
+  start?: TextPosition;  // 域结果的起始位置，遇到 separate 后设置
+}
+
+/**
+ * 单个段落的遍历状态
+ */
+interface ParagraphState {
+  lines: string[];
+  links: PendingLink[];
+  bookmarks: Map<string, PendingLink>;
+  fields: ComplexField[];
+}
+
+export class LinkExtractor {
+  /**
+   * 提取正文中的链接，位置按分析结果的方式（非空文本行）计数
+   */
+  async extractLinks(inputBuffer: Buffer): Promise<LinkInfo[]> {
+    const zip = await JSZip.loadAsync(inputBuffer);
+    const documentXml = await loadXmlPart(zip, 'word/document.xml');
+    if (!documentXml) return [];
+
+    const relsXml = await loadXmlPart(zip, 'word/_rels/document.xml.rels');
+    const targets = new Map<string, string>();
+    if (relsXml) {
+      for (const rel of getChildElements(relsXml.documentElement, 'Relationship')) {
+        if (rel.getAttribute('TargetMode') === 'External') {
+          targets.set(rel.getAttribute('Id') || '', rel.getAttribute('Target') || '');
+        }
+      }
+    }
+
+    const result: LinkInfo[] = [];
+    let lineIndex = 0;
+    for (const paragraph of getBodyParagraphs(documentXml)) {
+      const state: ParagraphState = { lines: [''], links: [], bookmarks: new Map(), fields: [] };
+      this.walk(paragraph, state, targets);
+
+      for (const pending of state.links) {
+        const link = this.resolvePosition(pending, state.lines, lineIndex);
+        if (link) result.push(link);
+      }
+      lineIndex += state.lines.filter(text => text.trim().length > 0).length;
+    }
+
+    return result;
+  }
+
+  /**
+   * 按文档顺序遍历段落内容，记录各链接覆盖的文本范围
+   */
+  private walk(parent: Element, state: ParagraphState, targets: Map<string, string>) {
+    const position = (): TextPosition => ({
+      line: state.lines.length - 1,
+      offset: state.lines[state.lines.length - 1].length
+    });
+
+    for (const child of getChildElements(parent)) {
+      switch (child.tagName) {
+        case 'w:pPr':
+        case 'w:del':
+          break;
+        case 'w:hyperlink': {
+          const url = targets.get(child.getAttribute('r:id') || '');
+          const anchor = child.getAttribute('w:anchor') || undefined;
+          const start = position();
+          this.walk(child, state, targets);
+          if (url || anchor) {
+            state.links.push({
+              link: url
+                ? { type: 'hyperlink', url: anchor ? `${url}#${anchor}` : url }
+                : { type: 'hyperlink', anchor },
+              start,
+              end: position()
+            });
+          }
+          break;
+        }
+        case 'w:bookmarkStart': {
+          const name = child.getAttribute('w:name') || '';
+          // _GoBack 是 Word 记录上次编辑位置的隐藏书签
+          if (name && name !== '_GoBack') {
+            const pending: PendingLink = { link: { type: 'bookmark', name }, start: position() };
+            state.bookmarks.set(child.getAttribute('w:id') || '', pending);
+            state.links.push(pending);
+          }
+          break;
+        }
+        case 'w:bookmarkEnd': {
+          const pending = state.bookmarks.get(child.getAttribute('w:id') || '');
+          if (pending) pending.end = position();
+          break;
+        }
+        case 'w:fldSimple': {
+          // mammoth 不输出简单域的结果文字，计算位置时不计入，结果文字单独记录
+          const instruction = (child.getAttribute('w:instr') || '').trim();
+          const start = position();
+          const lines = [...state.lines];
+          this.walk(child, state, targets);
+          const text = state.lines.slice(start.line).join('').substring(start.offset);
+          state.lines = lines;
+          if (this.isReferenceField(instruction)) {
+            state.links.push({ link: { type: 'field', instruction, text }, start, end: start });
+          }
+          break;
+        }
+        case 'w:r':
+          this.walkRun(child, state, position);
+          break;
+        default:
+          // w:ins、w:smartTag、w:sdt 等容器
+          this.walk(child, state, targets);
+      }
+    }
+  }
+
+  /**
+   * 遍历文本运行，累计文本并处理复杂域的 begin / separate / end
+   */
+  private walkRun(run: Element, state: ParagraphState, position: () => TextPosition) {
+    for (const child of getChildElements(run)) {
+      if (child.tagName === 'w:t') {
+        state.lines[state.lines.length - 1] += child.textContent || '';
+      } else if (child.tagName === 'w:tab') {
+        state.lines[state.lines.length - 1] += '\t';
+      } else if (child.tagName === 'w:br' || child.tagName === 'w:cr') {
+        state.lines.push('');
+      } else if (child.tagName === 'w:instrText') {
+        const field = state.fields[state.fields.length - 1];
+        if (field) field.instruction += child.textContent || '';
+      } else if (child.tagName === 'w:fldChar') {
+        const type = child.getAttribute('w:fldCharType');
+        if (type === 'begin') {
+          state.fields.push({ instruction: '' });
+        } else if (type === 'separate') {
+          const field = state.fields[state.fields.length - 1];
+          if (field) field.start = position();
+        } else if (type === 'end') {
+          // 跨段落的域（如目录）在本段落内没有 begin，直接忽略
+          const field = state.fields.pop();
+          const instruction = field?.instruction.trim() || '';
+          if (field?.start && this.isReferenceField(instruction)) {
+            const end = position();
+            const text = end.line === field.start.line
+              ? state.lines[end.line].substring(field.start.offset, end.offset)
+              : state.lines[field.start.line].substring(field.start.offset);
+            state.links.push({ link: { type: 'field', instruction, text }, start: field.start, end });
+          }
+        }
+      }
+    }
+  }
+
+  private isReferenceField(instruction: string): boolean {
+    return REFERENCE_FIELDS.includes(instruction.split(/\s+/)[0]?.toUpperCase());
+  }
+
+  /**
+   * 换算为分析结果中的段落索引和字符位置；跨行的范围截断到起始行末尾，位于空行的链接无法定位
+   */
+  private resolvePosition(pending: PendingLink, lines: string[], lineIndex: number): LinkInfo | null {
+    const { start, end } = pending;
+    const line = lines[start.line];
+    if (line.trim().length === 0) return null;
+
+    const endOffset = end && end.line === start.line ? end.offset : line.length;
+    return {
+      ...pending.link,
+      paragraphIndex: lineIndex + lines.slice(0, start.line).filter(text => text.trim().length > 0).length,
+      textOffset: start.offset,
+      length: Math.max(0, endOffset - start.offset)
+    };
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * 列表识别器 - 读取 numbering.xml 中的编号定义，识别段落所属的列表和级别
+ * mammoth 纯文本不包含自动编号，列表信息只能从 OOXML 中获取
+ */
+import JSZip from 'jszip';
+import { ListInfo, ListLevelInfo, ParagraphListInfo } from '@/types/document-processing';
+import {
+  loadXmlPart,
+  getChildElements,
+  getFirstChild,
+  getBodyParagraphs,
+  getParagraphTextLines
+} from './ooxml-utils';
+
+interface NumberingReference {
+  numId?: string;
+  level?: number;
+}
+
+interface StyleNumberingInfo extends NumberingReference {
+  basedOn?: string;
+}
+
+export interface DetectedLists {
+  lists: ListInfo[];
+  paragraphLists: Map<number, ParagraphListInfo>;  // 以 mammoth 段落索引为键
+}
+
+export class ListDetector {
+  /**
+   * 识别文档中的列表段落
+   * @param paragraphs mammoth 提取的非空文本段落
+   */
+  async detectLists(inputBuffer: Buffer, paragraphs: string[]): Promise<DetectedLists> {
+    const result: DetectedLists = { lists: [], paragraphLists: new Map() };
+
+    const zip = await JSZip.loadAsync(inputBuffer);
+    const numberingXml = await loadXmlPart(zip, 'word/numbering.xml');
+    const documentXml = await loadXmlPart(zip, 'word/document.xml');
+    if (!numberingXml || !documentXml) return result;
+
+    const definitions = this.parseNumbering(numberingXml);
+    const stylesXml = await loadXmlPart(zip, 'word/styles.xml');
+    const styles = stylesXml ? this.parseStyles(stylesXml) : new Map<string, StyleNumberingInfo>();
+
+    const usedLists = new Set<string>();
+    let lineIndex = 0;
+    for (const paragraph of getBodyParagraphs(documentXml)) {
+      const lines = getParagraphTextLines(paragraph);
+      if (lines.length === 0) continue;
+
+      // 段落索引与 mammoth 的分段不一致时放弃识别，避免把列表标记到错误的段落
+      if (paragraphs[lineIndex]?.trim() !== lines[0].trim()) {
+        console.warn(`列表识别: 段落${lineIndex}与XML内容不一致，已停止识别`);
+        return { lists: [], paragraphLists: new Map() };
+      }
+
+      const reference = this.resolveNumbering(paragraph, styles);
+      const levels = reference?.numId ? definitions.get(reference.numId) : undefined;
+      if (reference?.numId && levels) {
+        const level = reference.level ?? 0;
+        result.paragraphLists.set(lineIndex, {
+          numId: reference.numId,
+          level,
+          isBullet: levels.find(l => l.level === level)?.format === 'bullet'
+        });
+        usedLists.add(reference.numId);
+      }
+      lineIndex += lines.length;
+    }
+
+    result.lists = Array.from(usedLists).map(numId => ({ numId, levels: definitions.get(numId)! }));
+    return result;
+  }
+
+  /**
+   * 解析编号定义，返回 numId 到各级编号的映射（已合并 w:lvlOverride）
+   */
+  private parseNumbering(numberingXml: Document): Map<string, ListLevelInfo[]> {
+    const abstractNums = new Map<string, ListLevelInfo[]>();
+    const abstractElements = numberingXml.getElementsByTagName('w:abstractNum');
+    for (let i = 0; i < abstractElements.length; i++) {
+      const abstractNum = abstractElements[i];
+      const levels = getChildElements(abstractNum, 'w:lvl').map(lvl => this.parseLevel(lvl));
+      abstractNums.set(abstractNum.getAttribute('w:abstractNumId') || '', levels);
+    }
+
+    const result = new Map<string, ListLevelInfo[]>();
+    const nums = numberingXml.getElementsByTagName('w:num');
+    for (let i = 0; i < nums.length; i++) {
+      const num = nums[i];
+      const abstractNumId = getFirstChild(num, 'w:abstractNumId')?.getAttribute('w:val') || '';
+      const levels = (abstractNums.get(abstractNumId) || []).map(level => ({ ...level }));
+
+      for (const override of getChildElements(num, 'w:lvlOverride')) {
+        const ilvl = parseInt(override.getAttribute('w:ilvl') || '0', 10);
+        const lvl = getFirstChild(override, 'w:lvl');
+        const startOverride = getFirstChild(override, 'w:startOverride')?.getAttribute('w:val');
+        const index = levels.findIndex(level => level.level === ilvl);
+        if (lvl) {
+          const parsed = this.parseLevel(lvl);
+          if (index === -1) levels.push(parsed); else levels[index] = parsed;
+        } else if (startOverride && index !== -1) {
+          levels[index].start = parseInt(startOverride, 10);
+        }
+      }
+
+      if (levels.length > 0) {
+        result.set(num.getAttribute('w:numId') || '', levels);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 解析单个 w:lvl 编号级别
+   */
+  private parseLevel(lvl: Element): ListLevelInfo {
+    const getVal = (parent: Element | null, tagName: string) =>
+      parent ? getFirstChild(parent, tagName)?.getAttribute('w:val') ?? undefined : undefined;
+
+    const level: ListLevelInfo = {
+      level: parseInt(lvl.getAttribute('w:ilvl') || '0', 10),
+      format: getVal(lvl, 'w:numFmt') || 'decimal',
+      levelText: getVal(lvl, 'w:lvlText') ?? '',
+      start: parseInt(getVal(lvl, 'w:start') || '1', 10)
+    };
+
+    const jc = getVal(lvl, 'w:lvlJc');
+    if (jc === 'center') level.alignment = 'center';
+    else if (jc === 'right' || jc === 'end') level.alignment = 'right';
+    else if (jc) level.alignment = 'left';
+
+    const pPr = getFirstChild(lvl, 'w:pPr');
+    const ind = pPr && getFirstChild(pPr, 'w:ind');
+    if (ind) {
+      const toNumber = (value: string | null) => (value ? parseInt(value, 10) : undefined);
+      level.indent = {
+        left: toNumber(ind.getAttribute('w:left') || ind.getAttribute('w:start')),
+        hanging: toNumber(ind.getAttribute('w:hanging')),
+        firstLine: toNumber(ind.getAttribute('w:firstLine'))
+      };
+    }
+
+    const rPr = getFirstChild(lvl, 'w:rPr');
+    const rFonts = rPr && getFirstChild(rPr, 'w:rFonts');
+    const font = rFonts && (rFonts.getAttribute('w:ascii') || rFonts.getAttribute('w:hAnsi') || rFonts.getAttribute('w:eastAsia'));
+    if (font) level.font = font;
+
+    return level;
+  }
+
+  /**
+   * 读取段落样式中的编号设置
+   */
+  private parseStyles(stylesXml: Document): Map<string, StyleNumberingInfo> {
+    const result = new Map<string, StyleNumberingInfo>();
+    const styles = stylesXml.getElementsByTagName('w:style');
+
+    for (let i = 0; i < styles.length; i++) {
+      const style = styles[i];
+      if (style.getAttribute('w:type') !== 'paragraph') continue;
+
+      const styleId = style.getAttribute('w:styleId');
+      if (!styleId) continue;
+
+      const pPr = getFirstChild(style, 'w:pPr');
+      result.set(styleId, {
+        ...(pPr ? this.getNumberingReference(pPr) : {}),
+        basedOn: getFirstChild(style, 'w:basedOn')?.getAttribute('w:val') || undefined
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * 获取段落实际使用的编号，段落直接设置的编号优先于样式；numId 为 0 表示取消编号
+   */
+  private resolveNumbering(paragraph: Element, styles: Map<string, StyleNumberingInfo>): NumberingReference | null {
+    const pPr = getFirstChild(paragraph, 'w:pPr');
+    if (!pPr) return null;
+
+    const direct = this.getNumberingReference(pPr);
+    let numId = direct.numId;
+    let level = direct.level;
+
+    const visited = new Set<string>();
+    let styleId = getFirstChild(pPr, 'w:pStyle')?.getAttribute('w:val') || undefined;
+    while (styleId && !visited.has(styleId) && (numId === undefined || level === undefined)) {
+      visited.add(styleId);
+      const style = styles.get(styleId);
+      if (!style) break;
+      numId = numId ?? style.numId;
+      level = level ?? style.level;
+      styleId = style.basedOn;
+    }
+
+    return numId && numId !== '0' ? { numId, level } : null;
+  }
+
+  private getNumberingReference(pPr: Element): NumberingReference {
+    const numPr = getFirstChild(pPr, 'w:numPr');
+    if (!numPr) return {};
+    const numId = getFirstChild(numPr, 'w:numId')?.getAttribute('w:val') || undefined;
+    const ilvl = getFirstChild(numPr, 'w:ilvl')?.getAttribute('w:val');
+    return { numId, level: ilvl ? parseInt(ilvl, 10) : undefined };
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * 脚注尾注提取器 - 读取 footnotes.xml / endnotes.xml 中的注释正文，并定位正文中的注释引用
+ */
+import JSZip from 'jszip';
+import { NoteInfo } from '@/types/document-processing';
+import {
+  loadXmlPart,
+  getBodyParagraphs,
+  getParagraphRuns,
+  getParagraphText,
+  getChildElements
+} from './ooxml-utils';
+
+type NoteType = NoteInfo['type'];
+
+const NOTE_PARTS: Record<NoteType, { path: string; tagName: string; referenceTag: string }> = {
+  footnote: { path: 'word/footnotes.xml', tagName: 'w:footnote', referenceTag: 'w:footnoteReference' },
+  endnote: { path: 'word/endnotes.xml', tagName: 'w:endnote', referenceTag: 'w:endnoteReference' }
+};
+
+export interface ExtractedNotes {
+  footnotes: NoteInfo[];
+  endnotes: NoteInfo[];
+}
+
+export class NoteExtractor {
+  /**
+   * 提取脚注和尾注，引用位置按分析结果的方式（非空文本行）计数
+   */
+  async extractNotes(inputBuffer: Buffer): Promise<ExtractedNotes> {
+    const zip = await JSZip.loadAsync(inputBuffer);
+    const footnotes = await this.parseNotePart(zip, 'footnote');
+    const endnotes = await this.parseNotePart(zip, 'endnote');
+
+    if (footnotes.size > 0 || endnotes.size > 0) {
+      const documentXml = await loadXmlPart(zip, 'word/document.xml');
+      if (documentXml) {
+        this.locateReferences(documentXml, { footnote: footnotes, endnote: endnotes });
+      }
+    }
+
+    return {
+      footnotes: Array.from(footnotes.values()),
+      endnotes: Array.from(endnotes.values())
+    };
+  }
+
+  /**
+   * 解析注释部件，跳过分隔符等特殊注释
+   */
+  private async parseNotePart(zip: JSZip, type: NoteType): Promise<Map<string, NoteInfo>> {
+    const notes = new Map<string, NoteInfo>();
+    const part = NOTE_PARTS[type];
+    const xml = await loadXmlPart(zip, part.path);
+    if (!xml) return notes;
+
+    const elements = xml.getElementsByTagName(part.tagName);
+    for (let i = 0; i < elements.length; i++) {
+      const note = elements[i];
+      const noteType = note.getAttribute('w:type');
+      if (noteType && noteType !== 'normal') continue;
+
+      const id = note.getAttribute('w:id') || '';
+      notes.set(id, {
+        id,
+        type,
+        paragraphs: getChildElements(note, 'w:p').map(p => getParagraphText(p).trim())
+      });
+    }
+
+    return notes;
+  }
+
+  /**
+   * 记录每个注释引用所在的段落和字符位置
+   */
+  private locateReferences(documentXml: Document, notes: Record<NoteType, Map<string, NoteInfo>>) {
+    const referenceTypes = new Map<string, NoteType>(
+      (Object.keys(NOTE_PARTS) as NoteType[]).map(type => [NOTE_PARTS[type].referenceTag, type])
+    );
+
+    let lineIndex = 0;
+    for (const paragraph of getBodyParagraphs(documentXml)) {
+      const lines: string[] = [''];
+      const references: { note: NoteInfo; line: number; offset: number }[] = [];
+
+      for (const run of getParagraphRuns(paragraph)) {
+        for (const child of getChildElements(run)) {
+          const type = referenceTypes.get(child.tagName);
+          if (child.tagName === 'w:t') {
+            lines[lines.length - 1] += child.textContent || '';
+          } else if (child.tagName === 'w:tab') {
+            lines[lines.length - 1] += '\t';
+          } else if (child.tagName === 'w:br' || child.tagName === 'w:cr') {
+            lines.push('');
+          } else if (type) {
+            const note = notes[type].get(child.getAttribute('w:id') || '');
+            if (note) {
+              references.push({ note, line: lines.length - 1, offset: lines[lines.length - 1].length });
+            }
+          }
+        }
+      }
+
+      for (const { note, line, offset } of references) {
+        // 引用位于空行时归入下一个非空行的开头
+        const nonEmptyBefore = lines.slice(0, line).filter(text => text.trim().length > 0).length;
+        const hasText = lines[line].trim().length > 0;
+        note.paragraphIndex = lineIndex + nonEmptyBefore;
+        note.textOffset = hasText ? offset : 0;
+      }
+
+      lineIndex += lines.filter(text => text.trim().length > 0).length;
+    }
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * 编号定义写入器 - 原位修改模式下在 numbering.xml 中添加标题自动编号使用的多级列表
+ * 原文档没有 numbering.xml 时创建该部件及其关系和内容类型
+ */
+import JSZip from 'jszip';
+import { DOMParser } from 'xmldom';
+import { HeadingNumberingLevel } from '../heading-numbering';
+import { loadXmlPart, saveXmlPart, getChildElements, getFirstChild, W_NS } from './ooxml-utils';
+
+const NUMBERING_PATH = 'word/numbering.xml';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const CONTENT_TYPES_NS = 'http://schemas.openxmlformats.org/package/2006/content-types';
+const NUMBERING_RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering';
+const NUMBERING_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml';
+
+export class NumberingWriter {
+  /**
+   * 添加标题编号的多级列表定义（w:abstractNum 和引用它的 w:num）
+   * @returns 新列表的 numId
+   */
+  async addHeadingNumbering(zip: JSZip, levels: HeadingNumberingLevel[]): Promise<string> {
+    const numberingXml = await loadXmlPart(zip, NUMBERING_PATH) || await this.createNumberingPart(zip);
+    const root = numberingXml.documentElement;
+
+    const abstractNumId = String(this.getMaxId(getChildElements(root, 'w:abstractNum'), 'w:abstractNumId') + 1);
+    const numId = String(this.getMaxId(getChildElements(root, 'w:num'), 'w:numId') + 1);
+
+    const abstractNum = numberingXml.createElementNS(W_NS, 'w:abstractNum');
+    abstractNum.setAttribute('w:abstractNumId', abstractNumId);
+    abstractNum.appendChild(this.createValElement(numberingXml, 'w:multiLevelType', 'multilevel'));
+    levels.forEach((level, index) => abstractNum.appendChild(this.createLevel(numberingXml, level, index)));
+    // w:abstractNum 必须位于所有 w:num 之前
+    root.insertBefore(abstractNum, getFirstChild(root, 'w:num'));
+
+    const num = numberingXml.createElementNS(W_NS, 'w:num');
+    num.setAttribute('w:numId', numId);
+    num.appendChild(this.createValElement(numberingXml, 'w:abstractNumId', abstractNumId));
+    const numIdMacAtCleanup = getFirstChild(root, 'w:numIdMacAtCleanup');
+    root.insertBefore(num, numIdMacAtCleanup);
+
+    saveXmlPart(zip, NUMBERING_PATH, numberingXml);
+    console.log(`原位修改: 已添加标题编号列表 numId=${numId}`);
+    return numId;
+  }
+
+  /**
+   * 获取 styles.xml 中自带编号的段落样式 ID，套用这些样式的标题需要显式取消编号
+   */
+  async getNumberedStyleIds(zip: JSZip): Promise<Set<string>> {
+    const stylesXml = await loadXmlPart(zip, 'word/styles.xml');
+    if (!stylesXml) return new Set();
+    return new Set(getChildElements(stylesXml.documentElement, 'w:style')
+      .filter(style => {
+        const pPr = getFirstChild(style, 'w:pPr');
+        const numPr = pPr && getFirstChild(pPr, 'w:numPr');
+        const numId = numPr && getFirstChild(numPr, 'w:numId');
+        return !!numId && numId.getAttribute('w:val') !== '0';
+      })
+      .map(style => style.getAttribute('w:styleId') || ''));
+  }
+
+  private createLevel(doc: Document, level: HeadingNumberingLevel, index: number): Element {
+    const lvl = doc.createElementNS(W_NS, 'w:lvl');
+    lvl.setAttribute('w:ilvl', String(index));
+    lvl.appendChild(this.createValElement(doc, 'w:start', '1'));
+    lvl.appendChild(this.createValElement(doc, 'w:numFmt', level.format));
+    if (level.isLegal) {
+      lvl.appendChild(doc.createElementNS(W_NS, 'w:isLgl'));
+    }
+    lvl.appendChild(this.createValElement(doc, 'w:suff', level.suffix));
+    lvl.appendChild(this.createValElement(doc, 'w:lvlText', level.text));
+    lvl.appendChild(this.createValElement(doc, 'w:lvlJc', 'left'));
+    return lvl;
+  }
+
+  private createValElement(doc: Document, tagName: string, value: string): Element {
+    const element = doc.createElementNS(W_NS, tagName);
+    element.setAttribute('w:val', value);
+    return element;
+  }
+
+  private getMaxId(elements: Element[], attribute: string): number {
+    return Math.max(0, ...elements.map(element => parseInt(element.getAttribute(attribute) || '0', 10) || 0));
+  }
+
+  /**
+   * 创建空的 numbering.xml，并在文档关系和内容类型中登记
+   */
+  private async createNumberingPart(zip: JSZip): Promise<Document> {
+    const relsXml = await loadXmlPart(zip, 'word/_rels/document.xml.rels');
+    const contentTypesXml = await loadXmlPart(zip, '[Content_Types].xml');
+    if (!relsXml || !contentTypesXml) {
+      throw new Error('创建编号定义失败: 文档缺少关系或内容类型部件');
+    }
+
+    const relationships = getChildElements(relsXml.documentElement, 'Relationship');
+    const maxId = Math.max(0, ...relationships.map(rel => parseInt((rel.getAttribute('Id') || '').replace(/^rId/, ''), 10) || 0));
+    const relationship = relsXml.createElementNS(RELATIONSHIPS_NS, 'Relationship');
+    relationship.setAttribute('Id', `rId${maxId + 1}`);
+    relationship.setAttribute('Type', NUMBERING_RELATIONSHIP_TYPE);
+    relationship.setAttribute('Target', 'numbering.xml');
+    relsXml.documentElement.appendChild(relationship);
+
+    const override = contentTypesXml.createElementNS(CONTENT_TYPES_NS, 'Override');
+    override.setAttribute('PartName', '/word/numbering.xml');
+    override.setAttribute('ContentType', NUMBERING_CONTENT_TYPE);
+    contentTypesXml.documentElement.appendChild(override);
+
+    saveXmlPart(zip, 'word/_rels/document.xml.rels', relsXml);
+    saveXmlPart(zip, '[Content_Types].xml', contentTypesXml);
+    return new DOMParser().parseFromString(`<w:numbering xmlns:w="${W_NS}"/>`, 'text/xml');
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * 公文要素识别器 - 按 GB/T 9704 的版式约定，从段落文字识别版头、主体和版记中的各要素
+ */
+import { OfficialDocumentInfo, OfficialElementInfo, OfficialElementRole } from '@/types/document-processing';
+
+// 发文字号，如"国办发〔2024〕12号"，兼容方括号和圆括号
+const DOCUMENT_NUMBER_PATTERN = /^[\u4e00-\u9fa5A-Za-z]{1,20}[〔\[［(（]\d{4}[〕\]］)）]\d+号$/;
+// 成文日期，阿拉伯数字或汉字数字
+const DATE_PATTERN = /^(\d{4}|[〇○零一二三四五六七八九]{4})年(\d{1,2}|[一二三四五六七八九十]{1,3})月(\d{1,2}|[一二三四五六七八九十]{1,3})日$/;
+// 主送机关，以冒号结尾且不含句末标点
+const RECIPIENT_PATTERN = /^[^。！？；]{2,80}[：:]$/;
+const ATTACHMENT_PATTERN = /^附件[：:]/;
+const ATTACHMENT_ITEM_PATTERN = /^\d+[.．、]/;
+const NOTE_PATTERN = /^[（(](此件|联系人|本件).*[）)]$/;
+const COPY_TO_PATTERN = /^抄送[：:]/;
+// 印发机关和印发日期，如"××市人民政府办公室    2024年5月1日印发"
+const PRINTED_BY_PATTERN = /^\S.*\s+\d{4}年\d{1,2}月\d{1,2}日\s*印发$/;
+
+// 版头在文档开头的最大段落数
+const MAX_HEADER_PARAGRAPHS = 5;
+// 发文机关署名的最大长度
+const MAX_SIGNATURE_LENGTH = 30;
+
+export class OfficialDocumentDetector {
+  /**
+   * 识别公文要素，没有识别到发文字号、落款或版记时返回 undefined
+   * @param paragraphs mammoth 提取的非空文本段落
+   */
+  detect(paragraphs: string[]): OfficialDocumentInfo | undefined {
+    const texts = paragraphs.map(text => text.trim());
+    const elements: OfficialElementInfo[] = [];
+    const add = (role: OfficialElementRole, index: number) => {
+      elements.push({ role, paragraphIndex: index, text: texts[index] });
+    };
+
+    // 版头：发文字号之前的段落为发文机关标志，没有发文字号时以"文件"结尾的首段为发文机关标志
+    const numberIndex = texts.slice(0, MAX_HEADER_PARAGRAPHS)
+      .findIndex(text => DOCUMENT_NUMBER_PATTERN.test(this.compact(text)));
+    let headerEnd = 0;
+    if (numberIndex !== -1) {
+      for (let i = 0; i < numberIndex; i++) add('masthead', i);
+      add('documentNumber', numberIndex);
+      headerEnd = numberIndex + 1;
+    } else if (texts.length > 1 && /文件$/.test(texts[0])) {
+      add('masthead', 0);
+      headerEnd = 1;
+    }
+
+    // 版记：从文档末尾向前识别印发机关和抄送机关
+    let tailStart = texts.length;
+    if (tailStart > headerEnd && PRINTED_BY_PATTERN.test(texts[tailStart - 1])) {
+      tailStart--;
+    }
+    if (tailStart > headerEnd && COPY_TO_PATTERN.test(texts[tailStart - 1])) {
+      tailStart--;
+    }
+    const tailElements = texts.slice(tailStart).map((text, offset): OfficialElementInfo => ({
+      role: COPY_TO_PATTERN.test(text) ? 'copyTo' : 'printedBy',
+      paragraphIndex: tailStart + offset,
+      text
+    }));
+
+    // 落款：附注、成文日期和其前的发文机关署名
+    let bodyEnd = tailStart;
+    const noteIndex = bodyEnd - 1 > headerEnd && NOTE_PATTERN.test(texts[bodyEnd - 1]) ? bodyEnd - 1 : -1;
+    if (noteIndex !== -1) bodyEnd = noteIndex;
+    const dateIndex = bodyEnd - 1 > headerEnd && DATE_PATTERN.test(this.compact(texts[bodyEnd - 1])) ? bodyEnd - 1 : -1;
+    let signatureIndex = -1;
+    if (dateIndex !== -1) {
+      bodyEnd = dateIndex;
+      const previous = texts[dateIndex - 1];
+      if (dateIndex - 1 > headerEnd && previous.length <= MAX_SIGNATURE_LENGTH && !/[。，；：！？:,;]/.test(previous)) {
+        signatureIndex = dateIndex - 1;
+        bodyEnd = signatureIndex;
+      }
+    }
+
+    if (elements.length === 0 && dateIndex === -1 && tailElements.length === 0) {
+      return undefined;
+    }
+
+    // 主体：标题紧随版头，其后以冒号结尾的段落为主送机关
+    let bodyStart = headerEnd;
+    if (elements.length > 0 && bodyStart < bodyEnd) {
+      add('title', bodyStart);
+      bodyStart++;
+    }
+    if (bodyStart < bodyEnd && RECIPIENT_PATTERN.test(texts[bodyStart])) {
+      add('recipient', bodyStart);
+    }
+
+    // 附件说明：正文之后的"附件："段落及其后的附件序号段落
+    const attachmentIndex = texts.findIndex((text, i) => i > bodyStart && i < bodyEnd && ATTACHMENT_PATTERN.test(text));
+    if (attachmentIndex !== -1) {
+      add('attachment', attachmentIndex);
+      for (let i = attachmentIndex + 1; i < bodyEnd && ATTACHMENT_ITEM_PATTERN.test(texts[i]); i++) {
+        add('attachment', i);
+      }
+    }
+
+    if (signatureIndex !== -1) add('signature', signatureIndex);
+    if (dateIndex !== -1) add('date', dateIndex);
+    if (noteIndex !== -1) add('note', noteIndex);
+    elements.push(...tailElements);
+
+    return { elements };
+  }
+
+  /**
+   * 去除空白，版头中的发文字号和日期常用空格对齐
+   */
+  private compact(text: string): string {
+    return text.replace(/\s+/g, '');
+  }
+}
@@ -0,0 +1,1283 @@
+/**
+ * OOXML 原位修改器 - 直接改写原始 document.xml 与 styles.xml 中的格式属性
+ * 表格、列表、脚注、超链接、书签等内容原样保留，页眉页脚在模板设置时替换为模板内容
+ */
+import JSZip from 'jszip';
+import {
+  DocxAnalysisResult,
+  FontModificationOptions,
+  DocumentProcessingOptions,
+  TableModificationOptions,
+  ListModificationOptions,
+  PageSetupOptions,
+  HyperlinkStyleOptions,
+  DocumentGridOptions,
+  RunFontOptions,
+  AbstractBlockInfo,
+  CaptionInfo,
+  ReferenceEntryInfo,
+  TypographyOptions,
+  TypographyReport,
+  HeadingNumberingOptions
+} from '@/types/document-processing';
+import { resolvePageSetup, resolveDocumentGrid } from '../page-utils';
+import { resolveRunFonts } from '../font-utils';
+import { resolveParagraphFormat } from '../paragraph-format';
+import { resolveListLevel } from '../list-format';
+import { resolveHeaderFooter } from '../header-footer';
+import {
+  INSERTED_MASTHEAD_INDEX,
+  OfficialBorder,
+  OfficialElementLayout,
+  resolveOfficialLayout,
+  splitPrintedBy
+} from '../official-document';
+import { joinKeywords, normalizeAbstractLabel, parseAbstractLabel, resolveAbstractStyles, splitKeywords } from '../abstract-keywords';
+import { CaptionRenumbering, getCaptionNumberEdits, resolveCaptionNumbering, resolveCaptionStyle } from '../captions';
+import { formatReferenceEntry, resolveReferenceStyle } from '../references';
+import { addTypographyCounts, getTypographyEdits, hasTypographyRules } from '../typography';
+import { getHeadingNumberEdits, getHeadingNumberingLevels, resolveHeadingNumbering } from '../heading-numbering';
+import { TextEdit, getTextDiffEdits } from '../text-edits';
+import { HeaderFooterWriter } from './HeaderFooterWriter';
+import { NumberingWriter } from './NumberingWriter';
+import {
+  RUN_PROPERTY_ORDER,
+  PARAGRAPH_PROPERTY_ORDER,
+  SECTION_PROPERTY_ORDER,
+  loadXmlPart,
+  saveXmlPart,
+  getChildElements,
+  getFirstChild,
+  ensureChild,
+  removeChildren,
+  ensureParagraphProperties,
+  ensureRunProperties,
+  setValElement,
+  getParagraphRuns,
+  editParagraphText,
+  getParagraphTextLines,
+  hasLineBreaks,
+  getBodyParagraphs,
+  getSectionProperties,
+  isInTable,
+  toWordColor,
+  W_NS
+} from './ooxml-utils';
+
+type StyleRole = 'title' | 'author' | 'heading' | 'body';
+
+const TABLE_ORDER = ['w:tblPr', 'w:tblGrid', 'w:tr'];
+const TABLE_PROPERTY_ORDER = [
+  'w:tblStyle', 'w:tblpPr', 'w:tblOverlap', 'w:bidiVisual', 'w:tblStyleRowBandSize',
+  'w:tblStyleColBandSize', 'w:tblW', 'w:jc', 'w:tblCellSpacing', 'w:tblInd',
+  'w:tblBorders', 'w:shd', 'w:tblLayout', 'w:tblCellMar', 'w:tblLook',
+  'w:tblCaption', 'w:tblDescription'
+];
+const TABLE_BORDER_ORDER = ['w:top', 'w:left', 'w:bottom', 'w:right', 'w:insideH', 'w:insideV'];
+const PARAGRAPH_BORDER_ORDER = ['w:top', 'w:left', 'w:bottom', 'w:right', 'w:between', 'w:bar'];
+const TABLE_ROW_ORDER = ['w:tblPrEx', 'w:trPr', 'w:tc'];
+const TABLE_ROW_PROPERTY_ORDER = [
+  'w:cnfStyle', 'w:divId', 'w:gridBefore', 'w:gridAfter', 'w:wBefore', 'w:wAfter',
+  'w:cantSplit', 'w:trHeight', 'w:tblHeader', 'w:tblCellSpacing', 'w:jc', 'w:hidden'
+];
+const LIST_LEVEL_ORDER = [
+  'w:start', 'w:numFmt', 'w:lvlRestart', 'w:pStyle', 'w:isLgl', 'w:suff', 'w:lvlText',
+  'w:lvlPicBulletId', 'w:legacy', 'w:lvlJc', 'w:pPr', 'w:rPr'
+];
+const NUMBERING_PROPERTY_ORDER = ['w:ilvl', 'w:numId'];
+// w:rFonts 各槽位对应的主题字体属性
+const RUN_FONT_THEME_ATTRIBUTES: Record<keyof RunFontOptions, string> = {
+  ascii: 'w:asciiTheme',
+  hAnsi: 'w:hAnsiTheme',
+  eastAsia: 'w:eastAsiaTheme',
+  cs: 'w:cstheme'
+};
+const TABLE_CELL_PROPERTY_ORDER = [
+  'w:cnfStyle', 'w:tcW', 'w:gridSpan', 'w:hMerge', 'w:vMerge', 'w:tcBorders', 'w:shd',
+  'w:noWrap', 'w:tcMar', 'w:textDirection', 'w:tcFitText', 'w:vAlign', 'w:hideMark'
+];
+
+export class OoxmlRestyler {
+  private headerFooterWriter = new HeaderFooterWriter();
+  private numberingWriter = new NumberingWriter();
+
+  /**
+   * 在原始文档上应用样式修改
+   * @returns 修改后的文档Buffer，设置了排版规范化规则时附带各规则实际的替换次数
+   */
+  async restyle(
+    inputBuffer: Buffer,
+    analysis: DocxAnalysisResult,
+    titleOptions?: FontModificationOptions,
+    bodyOptions?: FontModificationOptions,
+    authorOptions?: FontModificationOptions,
+    processingOptions?: DocumentProcessingOptions
+  ): Promise<{ buffer: Buffer; typography?: TypographyReport }> {
+    const zip = await JSZip.loadAsync(inputBuffer);
+    const tableOptions = processingOptions?.table;
+    // 保留字符格式时不统一正文颜色，加粗、斜体、下划线和上下标本就只增不减
+    const bodyRunOptions = processingOptions?.preserveRunFormatting && bodyOptions
+      ? { ...bodyOptions, targetColor: undefined }
+      : bodyOptions;
+
+    const documentXml = await loadXmlPart(zip, 'word/document.xml');
+    if (!documentXml) {
+      throw new Error('文档中没有找到document.xml');
+    }
+
+    // 页面设置先于公文版式应用，公文要素的制表位和版记宽度以版心宽度计算
+    if (processingOptions?.page) {
+      this.applyPageSetup(documentXml, processingOptions.page);
+      if (processingOptions.page.grid) {
+        this.applyDocumentGrid(documentXml, processingOptions.page.grid, bodyOptions?.targetFontSize);
+      }
+    }
+
+    const paragraphs = getBodyParagraphs(documentXml);
+    const officialOptions = processingOptions?.officialDocument;
+    const textWidth = Math.min(...this.getTextAreas(documentXml).map(area => area.width));
+    const officialLayouts = officialOptions && analysis.officialDocument
+      ? resolveOfficialLayout(analysis.officialDocument, officialOptions, { title: titleOptions, body: bodyOptions }, textWidth)
+      : undefined;
+    const officialParagraphs = officialLayouts ? this.locateOfficialParagraphs(paragraphs, analysis, officialLayouts) : new Map<number, OfficialElementLayout>();
+    // 公文的标题由公文要素确定，不再按文档标题和作者处理
+    const roles = officialLayouts ? new Map<StyleRole, number>() : this.locateRoleParagraphs(paragraphs, analysis);
+    const headingLevels = this.locateHeadingParagraphs(paragraphs, analysis);
+    const listParagraphs = this.locateListParagraphs(paragraphs, analysis);
+    const abstractOptions = processingOptions?.abstract;
+    const abstractStyles = abstractOptions ? resolveAbstractStyles(abstractOptions, bodyRunOptions) : undefined;
+    const abstractParagraphs = abstractOptions ? this.locateAbstractParagraphs(paragraphs, analysis) : new Map<number, { block: AbstractBlockInfo; isLabel: boolean }>();
+    const captionOptions = processingOptions?.caption;
+    const captionStyle = captionOptions ? resolveCaptionStyle(captionOptions, bodyRunOptions) : undefined;
+    const captionParagraphs = captionOptions ? this.locateCaptionParagraphs(paragraphs, analysis) : new Map<number, CaptionInfo>();
+    const referenceStyle = processingOptions?.references ? resolveReferenceStyle(processingOptions.references, bodyRunOptions) : undefined;
+    const referenceParagraphs = referenceStyle ? this.locateReferenceParagraphs(paragraphs, analysis) : new Map<number, number>();
+    console.log(`原位修改: 共${paragraphs.length}个段落, 标题段落: ${roles.get('title') ?? '无'}, 作者段落: ${roles.get('author') ?? '无'}, 各级标题: ${headingLevels.size}个`);
+
+    paragraphs.forEach((paragraph, index) => {
+      const role = this.getRole(roles, index);
+      const headingLevel = headingLevels.get(index);
+      const headingOptions = headingLevel ? processingOptions?.headings?.[headingLevel - 1] : undefined;
+      const officialLayout = officialParagraphs.get(index);
+      const abstractPart = abstractParagraphs.get(index);
+      const caption = captionParagraphs.get(index);
+      const referenceIndex = referenceParagraphs.get(index);
+      if (officialLayout) {
+        this.restyleParagraph(paragraph, officialLayout.options, false);
+        this.applyOfficialLayout(paragraph, officialLayout);
+        // 公文标题的版式沿用模板的标题样式，包括前缀和后缀
+        this.applyPrefixSuffix(paragraph, officialLayout.options);
+      } else if (role === 'title') {
+        this.restyleParagraph(paragraph, titleOptions, false);
+        this.applyPrefixSuffix(paragraph, titleOptions);
+      } else if (role === 'author') {
+        this.restyleParagraph(paragraph, authorOptions, false);
+        this.applyPrefixSuffix(paragraph, authorOptions);
+      } else if (abstractPart && abstractStyles) {
+        this.restyleParagraph(paragraph, abstractStyles.content, true);
+        if (abstractPart.isLabel) {
+          this.applyAbstractLabel(paragraph, abstractPart.block, abstractStyles.label, abstractOptions!.keywordSeparator);
+        }
+      } else if (caption && captionStyle) {
+        this.restyleParagraph(paragraph, captionStyle, true);
+        this.keepCaptionWithTarget(paragraphs, index, caption);
+      } else if (referenceIndex !== undefined && referenceStyle) {
+        this.restyleParagraph(paragraph, referenceStyle, true);
+        this.rewriteReferenceEntry(paragraph, analysis.references!.entries[referenceIndex], referenceIndex);
+      } else if (headingLevel && headingOptions) {
+        this.restyleParagraph(paragraph, headingOptions, false);
+        // 按编号识别的标题没有大纲级别，补上后可在导航窗格和目录中显示
+        setValElement(ensureParagraphProperties(paragraph), 'w:outlineLvl', String(headingLevel - 1), PARAGRAPH_PROPERTY_ORDER);
+      } else if (tableOptions && isInTable(paragraph)) {
+        this.restyleParagraph(paragraph, {
+          targetFontName: tableOptions.fontName || bodyOptions?.targetFontName,
+          targetFonts: tableOptions.fontName ? undefined : bodyOptions?.targetFonts,
+          targetFontSize: tableOptions.fontSize || bodyOptions?.targetFontSize,
+          targetColor: bodyRunOptions?.targetColor,
+          targetAlignment: tableOptions.cellAlignment
+        }, true);
+      } else if (isInTable(paragraph)) {
+        // 单元格内的段落不套用正文的缩进和间距
+        this.restyleParagraph(paragraph, bodyRunOptions && { ...bodyRunOptions, paragraphFormat: undefined }, true);
+      } else if (listParagraphs.has(index)) {
+        // 列表段落的缩进由编号定义决定，只应用段间距和行距
+        const paragraphFormat = bodyRunOptions?.paragraphFormat && {
+          ...bodyRunOptions.paragraphFormat,
+          firstLineIndent: undefined,
+          hangingIndent: undefined,
+          leftIndent: undefined,
+          rightIndent: undefined
+        };
+        this.restyleParagraph(paragraph, bodyRunOptions && { ...bodyRunOptions, paragraphFormat }, true);
+      } else {
+        this.restyleParagraph(paragraph, bodyRunOptions, true);
+      }
+    });
+
+    if (processingOptions?.hyperlink) {
+      this.applyHyperlinkStyle(documentXml, processingOptions.hyperlink);
+    }
+
+    const captionNumbering = captionOptions ? resolveCaptionNumbering(analysis, captionOptions) : undefined;
+    if (captionNumbering) {
+      this.renumberCaptions(paragraphs, captionNumbering);
+    }
+
+    const typographyOptions = processingOptions?.typography;
+    const typography = hasTypographyRules(typographyOptions)
+      ? this.normalizeTypography(paragraphs, analysis, typographyOptions)
+      : undefined;
+
+    if (tableOptions) {
+      const tables = documentXml.getElementsByTagName('w:tbl');
+      for (let i = 0; i < tables.length; i++) {
+        this.restyleTable(tables[i], tableOptions);
+      }
+      console.log(`原位修改: 已应用表格样式到${tables.length}个表格`);
+    }
+
+    const mastheadLayout = officialLayouts?.get(INSERTED_MASTHEAD_INDEX);
+    if (mastheadLayout) {
+      this.insertMasthead(documentXml, officialOptions!.mastheadText!, mastheadLayout);
+    }
+    if (processingOptions?.fitImagesToPage) {
+      this.fitImagesToPage(documentXml);
+    }
+    const headerFooterOptions = processingOptions?.headerFooter;
+    if (headerFooterOptions && !headerFooterOptions.keepOriginal) {
+      const resolved = resolveHeaderFooter(headerFooterOptions, {
+        title: analysis.title?.text,
+        author: analysis.author?.text,
+        date: new Date()
+      });
+      const mainMatterIndex = Array.from(headingLevels.entries()).find(([, level]) => level === 1)?.[0];
+      await this.headerFooterWriter.writeHeaderFooters(zip, documentXml, resolved, headerFooterOptions,
+        mainMatterIndex !== undefined ? paragraphs[mainMatterIndex] : undefined);
+    }
+
+    // 列表格式先于标题编号应用，不改动新添加的标题编号列表
+    if (processingOptions?.list) {
+      const numberingXml = await loadXmlPart(zip, 'word/numbering.xml');
+      if (numberingXml) {
+        this.applyListFormat(numberingXml, processingOptions.list, bodyOptions?.targetFontSize);
+        saveXmlPart(zip, 'word/numbering.xml', numberingXml);
+      }
+    }
+    if (processingOptions?.headingNumbering) {
+      await this.numberHeadings(zip, paragraphs, analysis, processingOptions.headingNumbering);
+    }
+    this.syncTextBoxChoices(documentXml);
+    saveXmlPart(zip, 'word/document.xml', documentXml);
+
+    if (processingOptions?.footnote) {
+      for (const [partPath, tagName] of [['word/footnotes.xml', 'w:footnote'], ['word/endnotes.xml', 'w:endnote']]) {
+        const notesXml = await loadXmlPart(zip, partPath);
+        if (notesXml) {
+          this.restyleNotes(notesXml, tagName, processingOptions.footnote);
+          saveXmlPart(zip, partPath, notesXml);
+        }
+      }
+    }
+
+    // 同步更新 Normal 样式，使表格、脚注等未显式设置格式的文本也使用正文字体
+    const stylesXml = await loadXmlPart(zip, 'word/styles.xml');
+    if (stylesXml && bodyOptions) {
+      this.updateNormalStyle(stylesXml, bodyOptions);
+      saveXmlPart(zip, 'word/styles.xml', stylesXml);
+    }
+
+    return { buffer: await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }), typography };
+  }
+
+  /**
+   * 文本框只在 mc:Fallback 的副本上处理，处理完成后用它替换 mc:Choice 中的文本框内容，
+   * 使新版 Word 显示的文本框同样应用新格式
+   */
+  private syncTextBoxChoices(documentXml: Document): void {
+    const alternates = documentXml.getElementsByTagName('mc:AlternateContent');
+    for (let i = 0; i < alternates.length; i++) {
+      const choice = getFirstChild(alternates[i], 'mc:Choice');
+      const fallback = getFirstChild(alternates[i], 'mc:Fallback');
+      if (!choice || !fallback) continue;
+
+      const choiceContents = choice.getElementsByTagName('w:txbxContent');
+      const fallbackContents = fallback.getElementsByTagName('w:txbxContent');
+      // 两份内容结构不对应时保持原样
+      if (choiceContents.length === 0 || choiceContents.length !== fallbackContents.length) continue;
+
+      for (let j = 0; j < choiceContents.length; j++) {
+        const target = choiceContents[j];
+        while (target.firstChild) {
+          target.removeChild(target.firstChild);
+        }
+        for (const child of getChildElements(fallbackContents[j])) {
+          target.appendChild(child.cloneNode(true));
+        }
+      }
+    }
+  }
+
+  /**
+   * 根据分析结果定位标题和作者所在的段落
+   */
+  private locateRoleParagraphs(
+    paragraphs: Element[],
+    analysis: DocxAnalysisResult
+  ): Map<StyleRole, number> {
+    const roles = new Map<StyleRole, number>();
+    const titleIndex = analysis.title?.exists ? analysis.title.paragraphIndex : undefined;
+    const authorIndex = analysis.author?.exists ? analysis.author.paragraphIndex : undefined;
+
+    let lineIndex = 0;
+    paragraphs.forEach((paragraph, index) => {
+      const lines = getParagraphTextLines(paragraph);
+      if (lines.length === 0) return;
+
+      if (lineIndex === titleIndex) roles.set('title', index);
+      if (lineIndex === authorIndex) roles.set('author', index);
+      lineIndex += lines.length;
+    });
+
+    return roles;
+  }
+
+  /**
+   * 将分析结果中的标题级别映射到 XML 段落
+   * 分析结果的段落索引按非空文本行计数，这里按同样的方式累计每个段落的起始行
+   */
+  private locateHeadingParagraphs(paragraphs: Element[], analysis: DocxAnalysisResult): Map<number, number> {
+    const levels = new Map<number, number>();
+    if (!analysis.headings || analysis.headings.length === 0) return levels;
+
+    let lineIndex = 0;
+    paragraphs.forEach((paragraph, index) => {
+      const lines = getParagraphTextLines(paragraph);
+      if (lines.length === 0) return;
+
+      const level = analysis.paragraphs[lineIndex]?.headingLevel;
+      if (level && !isInTable(paragraph)) {
+        levels.set(index, level);
+      }
+      lineIndex += lines.length;
+    });
+
+    return levels;
+  }
+
+  /**
+   * 将分析结果中的列表段落映射到 XML 段落
+   */
+  private locateListParagraphs(paragraphs: Element[], analysis: DocxAnalysisResult): Set<number> {
+    const result = new Set<number>();
+    if (!analysis.lists || analysis.lists.length === 0) return result;
+
+    let lineIndex = 0;
+    paragraphs.forEach((paragraph, index) => {
+      const lines = getParagraphTextLines(paragraph);
+      if (lines.length === 0) return;
+
+      if (analysis.paragraphs[lineIndex]?.list) {
+        result.add(index);
+      }
+      lineIndex += lines.length;
+    });
+
+    return result;
+  }
+
+  /**
+   * 将分析结果中的摘要和关键词块映射到 XML 段落，isLabel 表示标签所在的段落
+   */
+  private locateAbstractParagraphs(
+    paragraphs: Element[],
+    analysis: DocxAnalysisResult
+  ): Map<number, { block: AbstractBlockInfo; isLabel: boolean }> {
+    const result = new Map<number, { block: AbstractBlockInfo; isLabel: boolean }>();
+    if (!analysis.abstracts || analysis.abstracts.length === 0) return result;
+
+    let lineIndex = 0;
+    paragraphs.forEach((paragraph, index) => {
+      const lines = getParagraphTextLines(paragraph);
+      if (lines.length === 0) return;
+
+      const abstractIndex = analysis.paragraphs[lineIndex]?.abstractIndex;
+      const block = abstractIndex !== undefined ? analysis.abstracts![abstractIndex] : undefined;
+      if (block && !isInTable(paragraph)) {
+        result.set(index, { block, isLabel: lineIndex === block.paragraphIndex });
+      }
+      lineIndex += lines.length;
+    });
+
+    return result;
+  }
+
+  /**
+   * 将分析结果中的图表题注映射到 XML 段落，题注可能位于图片之后的第二行
+   */
+  private locateCaptionParagraphs(paragraphs: Element[], analysis: DocxAnalysisResult): Map<number, CaptionInfo> {
+    const result = new Map<number, CaptionInfo>();
+    if (!analysis.captions || analysis.captions.length === 0) return result;
+
+    let lineIndex = 0;
+    paragraphs.forEach((paragraph, index) => {
+      const lines = getParagraphTextLines(paragraph);
+      if (lines.length === 0) return;
+
+      const caption = analysis.captions!.find(c => c.paragraphIndex >= lineIndex && c.paragraphIndex < lineIndex + lines.length);
+      if (caption && !isInTable(paragraph)) {
+        result.set(index, caption);
+      }
+      lineIndex += lines.length;
+    });
+
+    return result;
+  }
+
+  /**
+   * 将分析结果中的参考文献条目映射到 XML 段落
+   * @returns 以 XML 段落索引为键、条目在参考文献表中的索引为值
+   */
+  private locateReferenceParagraphs(paragraphs: Element[], analysis: DocxAnalysisResult): Map<number, number> {
+    const result = new Map<number, number>();
+    const entries = analysis.references?.entries;
+    if (!entries || entries.length === 0) return result;
+
+    let lineIndex = 0;
+    paragraphs.forEach((paragraph, index) => {
+      const lines = getParagraphTextLines(paragraph);
+      if (lines.length === 0) return;
+
+      const referenceIndex = analysis.paragraphs[lineIndex]?.referenceIndex;
+      if (referenceIndex !== undefined && !isInTable(paragraph)) {
+        result.set(index, referenceIndex);
+      }
+      lineIndex += lines.length;
+    });
+
+    return result;
+  }
+
+  /**
+   * 将公文要素的版式映射到 XML 段落
+   */
+  private locateOfficialParagraphs(
+    paragraphs: Element[],
+    analysis: DocxAnalysisResult,
+    layouts: Map<number, OfficialElementLayout>
+  ): Map<number, OfficialElementLayout> {
+    const result = new Map<number, OfficialElementLayout>();
+
+    let lineIndex = 0;
+    paragraphs.forEach((paragraph, index) => {
+      const lines = getParagraphTextLines(paragraph);
+      if (lines.length === 0) return;
+
+      const layout = analysis.paragraphs[lineIndex]?.officialRole ? layouts.get(lineIndex) : undefined;
+      if (layout && !isInTable(paragraph)) {
+        result.set(index, layout);
+      }
+      lineIndex += lines.length;
+    });
+
+    return result;
+  }
+
+  private getRole(roles: Map<StyleRole, number>, index: number): StyleRole {
+    if (roles.get('title') === index) return 'title';
+    if (roles.get('author') === index) return 'author';
+    return 'body';
+  }
+
+  /**
+   * 改写单个段落的段落属性和所有文本运行的字符属性
+   * @param keepEmphasis 为 true 时只添加而不移除加粗、斜体、下划线，保留正文中的强调格式
+   */
+  private restyleParagraph(
+    paragraph: Element,
+    options: FontModificationOptions | undefined,
+    keepEmphasis: boolean
+  ) {
+    if (!options) return;
+
+    if (options.targetAlignment) {
+      const pPr = ensureParagraphProperties(paragraph);
+      setValElement(pPr, 'w:jc', this.getJustification(options.targetAlignment), PARAGRAPH_PROPERTY_ORDER);
+    }
+
+    if (options.paragraphFormat) {
+      this.applyParagraphFormat(ensureParagraphProperties(paragraph), options);
+    }
+
+    for (const run of getParagraphRuns(paragraph)) {
+      this.restyleRunProperties(ensureRunProperties(run), options, keepEmphasis);
+    }
+  }
+
+  /**
+   * 改写段落的缩进、段间距和行距
+   */
+  private applyParagraphFormat(pPr: Element, options: FontModificationOptions) {
+    const format = resolveParagraphFormat(options.paragraphFormat!, options.targetFontSize || 12);
+
+    if (format.spacing) {
+      const spacing = ensureChild(pPr, 'w:spacing', PARAGRAPH_PROPERTY_ORDER);
+      const { before, after, line, lineRule } = format.spacing;
+      if (before !== undefined) {
+        spacing.setAttribute('w:before', String(before));
+        spacing.removeAttribute('w:beforeLines');
+        spacing.removeAttribute('w:beforeAutospacing');
+      }
+      if (after !== undefined) {
+        spacing.setAttribute('w:after', String(after));
+        spacing.removeAttribute('w:afterLines');
+        spacing.removeAttribute('w:afterAutospacing');
+      }
+      if (line !== undefined && lineRule) {
+        spacing.setAttribute('w:line', String(line));
+        spacing.setAttribute('w:lineRule', lineRule);
+      }
+    }
+
+    if (format.indent) {
+      const ind = ensureChild(pPr, 'w:ind', PARAGRAPH_PROPERTY_ORDER);
+      const indent = format.indent;
+      // 首行缩进与悬挂缩进互斥
+      if (indent.firstLine !== undefined || indent.hanging !== undefined) {
+        ['w:firstLine', 'w:firstLineChars', 'w:hanging', 'w:hangingChars'].forEach(attr => ind.removeAttribute(attr));
+      }
+      (['firstLine', 'hanging', 'left', 'right'] as const).forEach(key => {
+        const value = indent[key];
+        if (value === undefined) return;
+        ind.setAttribute(`w:${key}`, String(value));
+        const chars = indent[`${key}Chars`];
+        // 字符单位优先于 twip，按毫米设置时必须移除旧的字符缩进
+        if (chars !== undefined) {
+          ind.setAttribute(`w:${key}Chars`, String(chars));
+        } else {
+          ind.removeAttribute(`w:${key}Chars`);
+        }
+        if (key === 'left') ind.removeAttribute('w:start');
+        if (key === 'right') ind.removeAttribute('w:end');
+      });
+    }
+  }
+
+  /**
+   * 改写字符属性，只处理模板中设定了值的属性
+   */
+  private restyleRunProperties(
+    rPr: Element,
+    options: FontModificationOptions,
+    keepEmphasis: boolean
+  ) {
+    const fonts = resolveRunFonts(options.targetFontName, options.targetFonts);
+    if (fonts) {
+      const rFonts = ensureChild(rPr, 'w:rFonts', RUN_PROPERTY_ORDER);
+      (Object.keys(RUN_FONT_THEME_ATTRIBUTES) as (keyof RunFontOptions)[]).forEach(slot => {
+        if (!fonts[slot]) return;
+        rFonts.setAttribute(`w:${slot}`, fonts[slot]!);
+        // 主题字体优先级高于显式字体，必须移除
+        rFonts.removeAttribute(RUN_FONT_THEME_ATTRIBUTES[slot]);
+      });
+    }
+
+    if (options.targetFontSize) {
+      const halfPoints = String(Math.round(options.targetFontSize * 2));
+      setValElement(rPr, 'w:sz', halfPoints, RUN_PROPERTY_ORDER);
+      setValElement(rPr, 'w:szCs', halfPoints, RUN_PROPERTY_ORDER);
+    }
+
+    this.applyToggle(rPr, ['w:b', 'w:bCs'], options.targetIsBold, keepEmphasis);
+    this.applyToggle(rPr, ['w:i', 'w:iCs'], options.targetIsItalic, keepEmphasis);
+
+    if (options.targetIsUnderline) {
+      setValElement(rPr, 'w:u', 'single', RUN_PROPERTY_ORDER);
+    } else if (options.targetIsUnderline === false && !keepEmphasis) {
+      removeChildren(rPr, 'w:u');
+    }
+
+    if (options.targetColor) {
+      setValElement(rPr, 'w:color', toWordColor(options.targetColor), RUN_PROPERTY_ORDER);
+    }
+  }
+
+  /**
+   * 设置开关型属性（加粗、斜体）
+   */
+  private applyToggle(rPr: Element, tagNames: string[], value: boolean | undefined, keepEmphasis: boolean) {
+    if (value === undefined) return;
+
+    if (value) {
+      tagNames.forEach(tagName => {
+        const element = ensureChild(rPr, tagName, RUN_PROPERTY_ORDER);
+        element.removeAttribute('w:val');
+      });
+    } else if (!keepEmphasis) {
+      tagNames.forEach(tagName => removeChildren(rPr, tagName));
+    }
+  }
+
+  /**
+   * 改写表格的边框、列宽调整方式、表头行和单元格垂直对齐
+   */
+  private restyleTable(table: Element, options: TableModificationOptions) {
+    const tblPr = ensureChild(table, 'w:tblPr', TABLE_ORDER);
+
+    if (options.borderStyle) {
+      const borders = ensureChild(tblPr, 'w:tblBorders', TABLE_PROPERTY_ORDER);
+      const size = String(Math.round((options.borderSize || 0.5) * 8)); // 以1/8磅为单位
+      const color = options.borderColor ? toWordColor(options.borderColor) : 'auto';
+      TABLE_BORDER_ORDER.forEach(side => {
+        const border = ensureChild(borders, side, TABLE_BORDER_ORDER);
+        border.setAttribute('w:val', options.borderStyle === 'none' ? 'nil' : options.borderStyle!);
+        border.setAttribute('w:sz', size);
+        border.setAttribute('w:space', '0');
+        border.setAttribute('w:color', color);
+      });
+    }
+
+    if (options.autoFit) {
+      const tblW = ensureChild(tblPr, 'w:tblW', TABLE_PROPERTY_ORDER);
+      if (options.autoFit === 'window') {
+        tblW.setAttribute('w:w', '5000');
+        tblW.setAttribute('w:type', 'pct');
+      } else if (options.autoFit === 'contents') {
+        tblW.setAttribute('w:w', '0');
+        tblW.setAttribute('w:type', 'auto');
+      }
+      const layout = ensureChild(tblPr, 'w:tblLayout', TABLE_PROPERTY_ORDER);
+      layout.setAttribute('w:type', options.autoFit === 'fixed' ? 'fixed' : 'autofit');
+    }
+
+    getChildElements(table, 'w:tr').forEach((row, rowIndex) => {
+      if (rowIndex === 0 && options.headerRowBold) {
+        const trPr = ensureChild(row, 'w:trPr', TABLE_ROW_ORDER);
+        ensureChild(trPr, 'w:tblHeader', TABLE_ROW_PROPERTY_ORDER);
+        const paragraphs = row.getElementsByTagName('w:p');
+        for (let i = 0; i < paragraphs.length; i++) {
+          this.restyleParagraph(paragraphs[i], { targetIsBold: true }, true);
+        }
+      }
+
+      for (const cell of getChildElements(row, 'w:tc')) {
+        const tcPr = getFirstChild(cell, 'w:tcPr') ||
+          cell.insertBefore(cell.ownerDocument.createElementNS(W_NS, 'w:tcPr'), cell.firstChild) as Element;
+        // 单元格边框会覆盖表格边框，统一边框时需要移除
+        if (options.borderStyle) {
+          removeChildren(tcPr, 'w:tcBorders');
+        }
+        if (options.autoFit === 'contents' || options.autoFit === 'window') {
+          const tcW = ensureChild(tcPr, 'w:tcW', TABLE_CELL_PROPERTY_ORDER);
+          tcW.setAttribute('w:w', '0');
+          tcW.setAttribute('w:type', 'auto');
+        }
+        if (options.cellVerticalAlignment) {
+          setValElement(tcPr, 'w:vAlign', options.cellVerticalAlignment, TABLE_CELL_PROPERTY_ORDER);
+        }
+      }
+    });
+  }
+
+  /**
+   * 为公文要素段落设置分隔线、版记位置和制表位
+   */
+  private applyOfficialLayout(paragraph: Element, layout: OfficialElementLayout) {
+    const pPr = ensureParagraphProperties(paragraph);
+
+    if (layout.borderTop || layout.borderBottom) {
+      const pBdr = ensureChild(pPr, 'w:pBdr', PARAGRAPH_PROPERTY_ORDER);
+      removeChildren(pBdr, 'w:top');
+      removeChildren(pBdr, 'w:bottom');
+      const setBorder = (tagName: string, border?: OfficialBorder) => {
+        if (!border) return;
+        const element = ensureChild(pBdr, tagName, PARAGRAPH_BORDER_ORDER);
+        element.setAttribute('w:val', 'single');
+        element.setAttribute('w:sz', String(border.size));
+        element.setAttribute('w:space', String(border.space));
+        element.setAttribute('w:color', toWordColor(border.color));
+      };
+      setBorder('w:top', layout.borderTop);
+      setBorder('w:bottom', layout.borderBottom);
+    }
+
+    if (layout.frameWidth) {
+      // 版记的段落使用相同的图文框属性，Word 会把它们合并到同一个图文框中
+      const framePr = ensureChild(pPr, 'w:framePr', PARAGRAPH_PROPERTY_ORDER);
+      framePr.setAttribute('w:w', String(layout.frameWidth));
+      framePr.setAttribute('w:wrap', 'notBeside');
+      framePr.setAttribute('w:hAnchor', 'margin');
+      framePr.setAttribute('w:vAnchor', 'margin');
+      framePr.setAttribute('w:xAlign', 'center');
+      framePr.setAttribute('w:yAlign', 'bottom');
+    }
+
+    if (layout.rightTabStop !== undefined) {
+      const tabs = ensureChild(pPr, 'w:tabs', PARAGRAPH_PROPERTY_ORDER);
+      removeChildren(tabs, 'w:tab');
+      const tab = tabs.appendChild(paragraph.ownerDocument.createElementNS(W_NS, 'w:tab')) as Element;
+      tab.setAttribute('w:val', 'right');
+      tab.setAttribute('w:pos', String(layout.rightTabStop));
+      this.replaceGapWithTab(paragraph);
+    }
+  }
+
+  /**
+   * 把印发机关和印发日期之间用于对齐的空格替换为制表符
+   */
+  private replaceGapWithTab(paragraph: Element) {
+    const texts = getParagraphRuns(paragraph).flatMap(run => getChildElements(run, 'w:t'));
+    const fullText = texts.map(t => t.textContent || '').join('');
+    const parts = splitPrintedBy(fullText);
+    if (!parts) return;
+
+    const gapStart = fullText.indexOf(parts[0]) + parts[0].length;
+    const gapEnd = fullText.lastIndexOf(parts[1]);
+    let offset = 0;
+    let tabInserted = false;
+    for (const t of texts) {
+      const text = t.textContent || '';
+      const start = Math.max(gapStart - offset, 0);
+      const end = Math.min(gapEnd - offset, text.length);
+      offset += text.length;
+      if (start >= end) continue;
+
+      // 空格之后的文字拆到新的 w:t 中，制表符插在两者之间
+      const after = text.substring(end);
+      t.textContent = text.substring(0, start);
+      t.setAttribute('xml:space', 'preserve');
+      const run = t.parentNode as Element;
+      let insertBefore = t.nextSibling;
+      if (!tabInserted) {
+        run.insertBefore(t.ownerDocument.createElementNS(W_NS, 'w:tab'), insertBefore);
+        tabInserted = true;
+      }
+      if (after) {
+        const afterText = t.ownerDocument.createElementNS(W_NS, 'w:t');
+        afterText.setAttribute('xml:space', 'preserve');
+        afterText.textContent = after;
+        run.insertBefore(afterText, insertBefore);
+        insertBefore = afterText;
+      }
+    }
+  }
+
+  /**
+   * 在文档开头插入模板设置的发文机关标志
+   */
+  private insertMasthead(documentXml: Document, text: string, layout: OfficialElementLayout) {
+    const body = documentXml.getElementsByTagName('w:body')[0];
+    if (!body) return;
+
+    const paragraph = documentXml.createElementNS(W_NS, 'w:p');
+    const run = paragraph.appendChild(documentXml.createElementNS(W_NS, 'w:r')) as Element;
+    run.appendChild(documentXml.createElementNS(W_NS, 'w:t')).textContent = text;
+    body.insertBefore(paragraph, getChildElements(body)[0] || null);
+
+    this.restyleParagraph(paragraph, layout.options, false);
+    this.applyOfficialLayout(paragraph, layout);
+    console.log(`原位修改: 已插入发文机关标志"${text}"`);
+  }
+
+  /**
+   * 按每页行数和每行字数为每一节设置文档网格
+   * @param fontSize Normal 样式的字号（磅），Word 以它为基准计算字符网格
+   */
+  private applyDocumentGrid(documentXml: Document, gridOptions: DocumentGridOptions, fontSize?: number) {
+    const sections = getSectionProperties(documentXml);
+    const areas = this.getTextAreas(documentXml);
+    sections.forEach((sectPr, index) => {
+      const grid = resolveDocumentGrid(gridOptions, areas[index].width, areas[index].height, fontSize);
+      const docGrid = ensureChild(sectPr, 'w:docGrid', SECTION_PROPERTY_ORDER);
+      // 无网格时不写 w:type，与 Word 的默认值一致
+      if (grid.type === 'default') {
+        docGrid.removeAttribute('w:type');
+      } else {
+        docGrid.setAttribute('w:type', grid.type);
+      }
+      docGrid.setAttribute('w:linePitch', String(grid.linePitch));
+      if (grid.charSpace !== undefined) {
+        docGrid.setAttribute('w:charSpace', String(grid.charSpace));
+      } else {
+        docGrid.removeAttribute('w:charSpace');
+      }
+    });
+    console.log(`原位修改: 已设置${sections.length}个节的文档网格`);
+  }
+
+  /**
+   * 将页面设置应用到文档的每一节
+   */
+  private applyPageSetup(documentXml: Document, pageOptions: PageSetupOptions) {
+    const page = resolvePageSetup(pageOptions);
+    const sections = getSectionProperties(documentXml);
+
+    if (sections.length === 0) {
+      const body = documentXml.getElementsByTagName('w:body')[0];
+      if (!body) return;
+      sections.push(body.appendChild(documentXml.createElementNS(W_NS, 'w:sectPr')) as Element);
+    }
+
+    for (const sectPr of sections) {
+      if (page.width && page.height || page.orientation) {
+        const pgSz = ensureChild(sectPr, 'w:pgSz', SECTION_PROPERTY_ORDER);
+        const landscape = page.orientation
+          ? page.orientation === 'landscape'
+          : pgSz.getAttribute('w:orient') === 'landscape';
+        let width = page.width ?? parseInt(pgSz.getAttribute('w:w') || '11906', 10);
+        let height = page.height ?? parseInt(pgSz.getAttribute('w:h') || '16838', 10);
+        // 统一为纵向尺寸后再按方向交换宽高
+        if (width > height) [width, height] = [height, width];
+        pgSz.setAttribute('w:w', String(landscape ? height : width));
+        pgSz.setAttribute('w:h', String(landscape ? width : height));
+        if (landscape) {
+          pgSz.setAttribute('w:orient', 'landscape');
+        } else {
+          pgSz.removeAttribute('w:orient');
+        }
+      }
+
+      const pgMar = getFirstChild(sectPr, 'w:pgMar');
+      const margin = ensureChild(sectPr, 'w:pgMar', SECTION_PROPERTY_ORDER);
+      const values: Record<string, number | undefined> = {
+        'w:top': page.margin.top,
+        'w:right': page.margin.right,
+        'w:bottom': page.margin.bottom,
+        'w:left': page.margin.left,
+        'w:header': page.margin.header,
+        'w:footer': page.margin.footer,
+        'w:gutter': page.margin.gutter
+      };
+      // 新建的 pgMar 必须包含全部属性，缺省值取 Word 的默认页边距
+      const defaults: Record<string, number> = {
+        'w:top': 1440, 'w:right': 1800, 'w:bottom': 1440, 'w:left': 1800,
+        'w:header': 851, 'w:footer': 992, 'w:gutter': 0
+      };
+      Object.entries(values).forEach(([attr, value]) => {
+        if (value !== undefined) {
+          margin.setAttribute(attr, String(value));
+        } else if (!pgMar) {
+          margin.setAttribute(attr, String(defaults[attr]));
+        }
+      });
+    }
+
+    console.log(`原位修改: 已应用页面设置到${sections.length}个节`);
+  }
+
+  /**
+   * 获取每一节的版心尺寸（twip），没有节属性时按 Word 的默认页面计算
+   */
+  private getTextAreas(documentXml: Document): { width: number; height: number }[] {
+    const areas = getSectionProperties(documentXml).map(sectPr => {
+      const pgSz = getFirstChild(sectPr, 'w:pgSz');
+      const pgMar = getFirstChild(sectPr, 'w:pgMar');
+      const attr = (element: Element | null, name: string, fallback: number) =>
+        Math.abs(parseInt(element?.getAttribute(name) || String(fallback), 10));
+      return {
+        width: attr(pgSz, 'w:w', 11906) - attr(pgMar, 'w:left', 1800) - attr(pgMar, 'w:right', 1800) - attr(pgMar, 'w:gutter', 0),
+        height: attr(pgSz, 'w:h', 16838) - attr(pgMar, 'w:top', 1440) - attr(pgMar, 'w:bottom', 1440)
+      };
+    });
+    return areas.length > 0 ? areas : [{ width: 11906 - 3600, height: 16838 - 2880 }];
+  }
+
+  /**
+   * 将宽度超出版心的图片等比缩小，多节文档以最窄的版心为准
+   */
+  private fitImagesToPage(documentXml: Document) {
+    // 版心宽度以 twip 计，1 twip = 635 EMU
+    const maxWidth = Math.min(...this.getTextAreas(documentXml).map(area => area.width)) * 635;
+
+    let scaled = 0;
+    const extents = documentXml.getElementsByTagName('wp:extent');
+    for (let i = 0; i < extents.length; i++) {
+      const extent = extents[i];
+      const width = parseInt(extent.getAttribute('cx') || '0', 10);
+      const height = parseInt(extent.getAttribute('cy') || '0', 10);
+      if (width <= maxWidth) continue;
+
+      const newHeight = String(Math.round(height * maxWidth / width));
+      extent.setAttribute('cx', String(maxWidth));
+      extent.setAttribute('cy', newHeight);
+      // 图片本身的 a:ext 需要同步缩放
+      const shapeExtents = (extent.parentNode as Element).getElementsByTagName('a:ext');
+      for (let j = 0; j < shapeExtents.length; j++) {
+        if (shapeExtents[j].hasAttribute('cx')) {
+          shapeExtents[j].setAttribute('cx', String(maxWidth));
+          shapeExtents[j].setAttribute('cy', newHeight);
+        }
+      }
+      scaled++;
+    }
+
+    console.log(`原位修改: 已将${scaled}张超出版心的图片缩小到版心宽度`);
+  }
+
+  /**
+   * 使题注与所属图表保持在同一页：题注在上方时设置题注段落与下段同页，在下方时设置其前的图片段落与下段同页
+   */
+  private keepCaptionWithTarget(paragraphs: Element[], index: number, caption: CaptionInfo) {
+    if (caption.position === 'above') {
+      ensureChild(ensureParagraphProperties(paragraphs[index]), 'w:keepNext', PARAGRAPH_PROPERTY_ORDER);
+    } else if (caption.imageNames && index > 0) {
+      const previous = paragraphs[index - 1];
+      if (previous.getElementsByTagName('w:drawing').length > 0 && getParagraphTextLines(previous).length === 0) {
+        ensureChild(ensureParagraphProperties(previous), 'w:keepNext', PARAGRAPH_PROPERTY_ORDER);
+      }
+    }
+  }
+
+  /**
+   * 改写题注编号和正文、表格中引用的编号，替换跨越多个文本运行时写入第一个运行
+   */
+  private renumberCaptions(paragraphs: Element[], renumbering: CaptionRenumbering) {
+    let replaced = 0;
+    let lineIndex = 0;
+    paragraphs.forEach(paragraph => {
+      const lineCount = getParagraphTextLines(paragraph).length;
+      const ownIndex = Array.from(renumbering.captionNumbers.keys()).find(i => i >= lineIndex && i < lineIndex + lineCount);
+      lineIndex += lineCount;
+
+      replaced += editParagraphText(paragraph, text => getCaptionNumberEdits(text, renumbering,
+        ownIndex !== undefined ? renumbering.captionNumbers.get(ownIndex) : undefined));
+    });
+    console.log(`原位修改: 已重新编号${renumbering.captionNumbers.size}个图表题注，共改写${replaced}处编号`);
+  }
+
+  /**
+   * 按排版规范化规则改写各段落文字，参考文献条目按 GB/T 7714 使用半角著录符号，不参与规范化
+   * @returns 各规则实际的替换次数
+   */
+  private normalizeTypography(paragraphs: Element[], analysis: DocxAnalysisResult, options: TypographyOptions): TypographyReport {
+    const report: TypographyReport = {};
+    let lineIndex = 0;
+    paragraphs.forEach(paragraph => {
+      const lineCount = getParagraphTextLines(paragraph).length;
+      const isReference = lineCount > 0 && analysis.paragraphs[lineIndex]?.referenceIndex !== undefined;
+      lineIndex += lineCount;
+      if (isReference) return;
+
+      editParagraphText(paragraph, text => {
+        const { edits, counts } = getTypographyEdits(text, options);
+        addTypographyCounts(report, counts);
+        return edits;
+      });
+    });
+    console.log('原位修改: 已按排版规范化规则改写文字，各规则替换次数:', report);
+    return report;
+  }
+
+  /**
+   * 删除标题原有的手动编号和自动编号并重新编号：文字编号写入标题开头，
+   * Word 自动编号为标题设置新添加的多级列表；标题样式自带编号时以 numId 0 取消
+   */
+  private async numberHeadings(zip: JSZip, paragraphs: Element[], analysis: DocxAnalysisResult, options: HeadingNumberingOptions) {
+    const numbering = resolveHeadingNumbering(analysis, options);
+    if (numbering.size === 0) return;
+    const numId = options.mode === 'word'
+      ? await this.numberingWriter.addHeadingNumbering(zip, getHeadingNumberingLevels(options))
+      : undefined;
+    const numberedStyles = numId ? new Set<string>() : await this.numberingWriter.getNumberedStyleIds(zip);
+
+    let lineIndex = 0;
+    let numbered = 0;
+    paragraphs.forEach(paragraph => {
+      const lineCount = getParagraphTextLines(paragraph).length;
+      const heading = lineCount > 0 && !isInTable(paragraph) ? numbering.get(lineIndex) : undefined;
+      lineIndex += lineCount;
+      if (!heading) return;
+
+      editParagraphText(paragraph, text => getHeadingNumberEdits(text, heading.number));
+      const pPr = ensureParagraphProperties(paragraph);
+      removeChildren(pPr, 'w:numPr');
+      const styleId = getFirstChild(pPr, 'w:pStyle')?.getAttribute('w:val');
+      if (numId || (styleId && numberedStyles.has(styleId))) {
+        const numPr = ensureChild(pPr, 'w:numPr', PARAGRAPH_PROPERTY_ORDER);
+        if (numId) {
+          setValElement(numPr, 'w:ilvl', String(heading.level - 1), NUMBERING_PROPERTY_ORDER);
+        }
+        setValElement(numPr, 'w:numId', numId || '0', NUMBERING_PROPERTY_ORDER);
+      }
+      numbered++;
+    });
+    console.log(`原位修改: 已重新编号${numbered}个标题，编号方式: ${numId ? 'Word 自动编号' : '文字编号'}`);
+  }
+
+  /**
+   * 把参考文献条目改写为带顺序编号的 GB/T 7714 著录格式
+   * 只替换改变的文字，其余文字保留原有格式；超链接（如 DOI、网址）中的文字保持原样，用换行符在一个段落中写了多条的条目不改写
+   * Word 自动编号改为文字编号，移除段落的编号属性
+   */
+  private rewriteReferenceEntry(paragraph: Element, entry: ReferenceEntryInfo, index: number) {
+    const texts = getParagraphRuns(paragraph).flatMap(run => getChildElements(run, 'w:t'));
+    if (texts.length === 0) return;
+
+    // mammoth 不按换行符分段，这样的段落在分析结果中合成了一个条目
+    if (hasLineBreaks(paragraph)) {
+      console.warn(`原位修改: 参考文献[${index + 1}]所在段落用换行符分隔了多行，可能包含多条参考文献，未改写`);
+      return;
+    }
+
+    // 超链接中文字的范围
+    const hyperlinkRanges: { start: number; end: number }[] = [];
+    let offset = 0;
+    for (const t of texts) {
+      const length = (t.textContent || '').length;
+      if (this.isInHyperlink(t, paragraph)) {
+        hyperlinkRanges.push({ start: offset, end: offset + length });
+      }
+      offset += length;
+    }
+    const touchesHyperlink = (edit: TextEdit) => hyperlinkRanges.some(({ start, end }) => edit.length > 0
+      ? edit.offset < end && edit.offset + edit.length > start
+      : start <= edit.offset && edit.offset <= end);
+
+    const text = texts.map(t => t.textContent || '').join('');
+    const edits = getTextDiffEdits(text, formatReferenceEntry(entry, index));
+    const kept = edits.filter(edit => !touchesHyperlink(edit));
+    if (kept.length < edits.length) {
+      console.warn(`原位修改: 参考文献[${index + 1}]超链接中的${edits.length - kept.length}处文字未改写`);
+    }
+
+    const numPr = getFirstChild(ensureParagraphProperties(paragraph), 'w:numPr');
+    if (numPr) {
+      numPr.parentNode!.removeChild(numPr);
+    }
+    editParagraphText(paragraph, () => kept);
+  }
+
+  /**
+   * 判断 w:t 是否位于段落的超链接内
+   */
+  private isInHyperlink(node: Node, paragraph: Element): boolean {
+    for (let current = node.parentNode; current && current !== paragraph; current = current.parentNode) {
+      if (current.nodeType === 1 && (current as Element).tagName === 'w:hyperlink') return true;
+    }
+    return false;
+  }
+
+  /**
+   * 把段落开头的摘要或关键词标签替换为规范的标签并应用标签样式，关键词改用统一的分隔符
+   */
+  private applyAbstractLabel(
+    paragraph: Element,
+    block: AbstractBlockInfo,
+    labelOptions: FontModificationOptions,
+    keywordSeparator?: string
+  ) {
+    const runs = getParagraphRuns(paragraph);
+    const texts = runs.flatMap(run => getChildElements(run, 'w:t'));
+    const fullText = texts.map(t => t.textContent || '').join('');
+    const parsed = parseAbstractLabel(fullText);
+    if (!parsed) return;
+
+    // 删除原标签文字
+    const labelEnd = fullText.length - fullText.trimStart().length + parsed.label.length;
+    let offset = 0;
+    for (const t of texts) {
+      const text = t.textContent || '';
+      const start = offset;
+      offset += text.length;
+      if (start >= labelEnd) break;
+      t.textContent = text.substring(Math.min(labelEnd - start, text.length));
+      t.setAttribute('xml:space', 'preserve');
+    }
+
+    // 关键词的内容写入第一个仍有文字的 w:t
+    if (block.type === 'keywords') {
+      const contentTexts = texts.filter(t => t.textContent);
+      contentTexts.forEach((t, i) => {
+        t.textContent = i === 0 ? joinKeywords(splitKeywords(parsed.content, parsed.language), parsed.language, keywordSeparator) : '';
+      });
+    }
+
+    // 移除文字已全部删除的文本运行（xmldom 移除节点后不会清空 parentNode，因此单独记录剩余的运行）
+    const remainingRuns = runs.filter(run => {
+      const content = getChildElements(run).filter(child => child.tagName !== 'w:rPr');
+      if (content.length > 0 && content.every(child => child.tagName === 'w:t' && !child.textContent)) {
+        run.parentNode!.removeChild(run);
+        return false;
+      }
+      return true;
+    });
+
+    const firstRun = remainingRuns[0];
+    const labelRun = this.createTextRun(firstRun || runs[0], normalizeAbstractLabel(parsed.word, parsed.language, !parsed.content.trim()));
+    if (firstRun) {
+      firstRun.parentNode!.insertBefore(labelRun, firstRun);
+    } else {
+      paragraph.appendChild(labelRun);
+    }
+    this.restyleRunProperties(ensureRunProperties(labelRun), labelOptions, false);
+  }
+
+  /**
+   * 在段落首尾插入前缀和后缀，沿用相邻文本运行的字符属性
+   */
+  private applyPrefixSuffix(paragraph: Element, options?: FontModificationOptions) {
+    if (!options?.addPrefix && !options?.addSuffix) return;
+
+    const runs = getParagraphRuns(paragraph);
+    if (runs.length === 0) return;
+
+    if (options.addPrefix) {
+      const firstRun = runs[0];
+      firstRun.parentNode!.insertBefore(this.createTextRun(firstRun, options.addPrefix), firstRun);
+    }
+    if (options.addSuffix) {
+      const lastRun = runs[runs.length - 1];
+      lastRun.parentNode!.insertBefore(this.createTextRun(lastRun, options.addSuffix), lastRun.nextSibling);
+    }
+  }
+
+  /**
+   * 创建一个复制了参考运行字符属性的新文本运行
+   */
+  private createTextRun(referenceRun: Element, text: string): Element {
+    const doc = referenceRun.ownerDocument;
+    const run = doc.createElementNS(W_NS, 'w:r');
+
+    const referenceRPr = getFirstChild(referenceRun, 'w:rPr');
+    if (referenceRPr) {
+      run.appendChild(referenceRPr.cloneNode(true));
+    }
+
+    const textNode = doc.createElementNS(W_NS, 'w:t');
+    textNode.setAttribute('xml:space', 'preserve');
+    textNode.appendChild(doc.createTextNode(text));
+    run.appendChild(textNode);
+    return run;
+  }
+
+  /**
+   * 改写 numbering.xml 中各级编号的格式和缩进（包括 w:lvlOverride 中重新定义的级别）
+   */
+  private applyListFormat(numberingXml: Document, listOptions: ListModificationOptions, fontSize?: number) {
+    const levels = numberingXml.getElementsByTagName('w:lvl');
+    let updated = 0;
+
+    for (let i = 0; i < levels.length; i++) {
+      const lvl = levels[i];
+      const level = parseInt(lvl.getAttribute('w:ilvl') || '0', 10);
+      const options = listOptions.levels[level];
+      if (!options) continue;
+
+      const numFmt = getFirstChild(lvl, 'w:numFmt')?.getAttribute('w:val');
+      const resolved = resolveListLevel(options, level, numFmt === 'bullet', fontSize);
+      if (resolved.format) {
+        setValElement(lvl, 'w:numFmt', resolved.format, LIST_LEVEL_ORDER);
+      }
+      if (resolved.levelText !== undefined) {
+        setValElement(lvl, 'w:lvlText', resolved.levelText, LIST_LEVEL_ORDER);
+      }
+      if (resolved.indent) {
+        const pPr = ensureChild(lvl, 'w:pPr', LIST_LEVEL_ORDER);
+        const ind = ensureChild(pPr, 'w:ind', PARAGRAPH_PROPERTY_ORDER);
+        if (resolved.indent.left !== undefined) {
+          ind.setAttribute('w:left', String(resolved.indent.left));
+          ['w:start', 'w:leftChars', 'w:startChars'].forEach(attr => ind.removeAttribute(attr));
+        }
+        if (resolved.indent.hanging !== undefined) {
+          ind.setAttribute('w:hanging', String(resolved.indent.hanging));
+          ['w:hangingChars', 'w:firstLine', 'w:firstLineChars'].forEach(attr => ind.removeAttribute(attr));
+        }
+      }
+      updated++;
+    }
+
+    console.log(`原位修改: 已更新${updated}个列表编号级别`);
+  }
+
+  /**
+   * 改写超链接文字的颜色和下划线，正文样式统一颜色后超链接按模板重新着色
+   */
+  private applyHyperlinkStyle(documentXml: Document, options: HyperlinkStyleOptions) {
+    const hyperlinks = documentXml.getElementsByTagName('w:hyperlink');
+    for (let i = 0; i < hyperlinks.length; i++) {
+      for (const run of getParagraphRuns(hyperlinks[i])) {
+        const rPr = ensureRunProperties(run);
+        if (options.color) {
+          setValElement(rPr, 'w:color', toWordColor(options.color), RUN_PROPERTY_ORDER);
+        }
+        // Hyperlink 字符样式自带下划线，取消时需要显式设置为 none
+        setValElement(rPr, 'w:u', options.isUnderline ? 'single' : 'none', RUN_PROPERTY_ORDER);
+      }
+    }
+    console.log(`原位修改: 已应用超链接样式到${hyperlinks.length}个超链接`);
+  }
+
+  /**
+   * 改写脚注或尾注正文的格式，分隔符等特殊注释保持不变
+   */
+  private restyleNotes(notesXml: Document, tagName: string, options: FontModificationOptions) {
+    const notes = notesXml.getElementsByTagName(tagName);
+    let count = 0;
+    for (let i = 0; i < notes.length; i++) {
+      const type = notes[i].getAttribute('w:type');
+      if (type && type !== 'normal') continue;
+      getChildElements(notes[i], 'w:p').forEach(paragraph => this.restyleParagraph(paragraph, options, true));
+      count++;
+    }
+    console.log(`原位修改: 已应用注释样式到${count}个${tagName === 'w:footnote' ? '脚注' : '尾注'}`);
+  }
+
+  /**
+   * 更新 styles.xml 中的 Normal 样式，没有默认段落样式时改写文档默认格式 docDefaults
+   */
+  private updateNormalStyle(stylesXml: Document, bodyOptions: FontModificationOptions) {
+    const baseOptions: FontModificationOptions = {
+      targetFontName: bodyOptions.targetFontName,
+      targetFonts: bodyOptions.targetFonts,
+      targetFontSize: bodyOptions.targetFontSize,
+      targetColor: bodyOptions.targetColor
+    };
+
+    const styles = stylesXml.getElementsByTagName('w:style');
+    for (let i = 0; i < styles.length; i++) {
+      const style = styles[i];
+      if (style.getAttribute('w:type') === 'paragraph' && style.getAttribute('w:default') === '1') {
+        const rPr = getFirstChild(style, 'w:rPr') || this.appendStyleRunProperties(style);
+        this.restyleRunProperties(rPr, baseOptions, true);
+        console.log(`原位修改: 已更新默认段落样式 ${style.getAttribute('w:styleId')}`);
+        return;
+      }
+    }
+
+    const root = stylesXml.documentElement;
+    const docDefaults = getFirstChild(root, 'w:docDefaults') ||
+      root.insertBefore(stylesXml.createElementNS(W_NS, 'w:docDefaults'), root.firstChild) as Element;
+    const rPrDefault = ensureChild(docDefaults, 'w:rPrDefault', ['w:rPrDefault', 'w:pPrDefault']);
+    const rPr = ensureChild(rPrDefault, 'w:rPr', ['w:rPr']);
+    this.restyleRunProperties(rPr, baseOptions, true);
+    console.log('原位修改: 文档没有默认段落样式，已更新docDefaults');
+  }
+
+  /**
+   * 为样式追加 w:rPr（样式中 rPr 位于 pPr 之后，tblPr 之前）
+   */
+  private appendStyleRunProperties(style: Element): Element {
+    const rPr = style.ownerDocument.createElementNS(W_NS, 'w:rPr');
+    const successor = getChildElements(style).find(el =>
+      ['w:tblPr', 'w:trPr', 'w:tcPr', 'w:tblStylePr'].includes(el.tagName)
+    );
+    style.insertBefore(rPr, successor || null);
+    return rPr;
+  }
+
+  /**
+   * 将对齐方式转换为 w:jc 的取值
+   */
+  private getJustification(alignment: string): string {
+    switch (alignment) {
+      case 'center':
+        return 'center';
+      case 'right':
+        return 'right';
+      case 'justify':
+        return 'both';
+      case 'left':
+      default:
+        return 'left';
+    }
+  }
+}
@@ -0,0 +1,334 @@
+/**
+ * 段落角色分类器 - 按规则为每个段落的各个角色打分，取得分最高的角色
+ * 规则根据段落的位置、字号、对齐、加粗和文字特征给出 0-1 的得分，可通过构造参数或 addRule 扩展
+ */
+import { OfficialElementRole, ParagraphRole, ParagraphRoleInfo } from '@/types/document-processing';
+
+/**
+ * 参与分类的段落特征
+ */
+export interface ParagraphFeatures {
+  text: string;
+  fontSize?: number;       // 首个文本运行的字号（磅），没有样式信息时为空
+  isBold: boolean;
+  alignment?: string;
+  inTable: boolean;
+  officialRole?: OfficialElementRole;
+}
+
+/**
+ * 分类上下文，规则可据此参考全文和之前段落的分类结果
+ */
+export interface RoleContext {
+  paragraphs: ParagraphFeatures[];
+  index: number;                                 // 当前段落的索引
+  contentStart: number;                          // 第一个不是密级、紧急程度等标记的段落索引
+  bodyFontSize?: number;                         // 正文字号，取文字最多的字号
+  previous: (ParagraphRoleInfo | undefined)[];   // 之前各段落的分类结果
+}
+
+/**
+ * 角色规则，score 返回 0-1 的得分，0 表示不匹配
+ */
+export interface RoleRule {
+  name: string;
+  role: ParagraphRole;
+  score(paragraph: ParagraphFeatures, context: RoleContext): number;
+}
+
+// 得分低于此值的段落归为正文
+const MIN_CONFIDENCE = 0.5;
+// 文档标题所在的最大段落偏移（从第一个非标记段落算起）
+const MAX_TITLE_OFFSET = 4;
+// 落款所在的文档末尾段落数
+const SIGNATURE_TAIL_PARAGRAPHS = 4;
+
+// 密级、保密期限和紧急程度等位于标题之前的标记
+const MARKER_PATTERN = /^((绝密|机密|秘密|内部)(★.*)?|密级[：:].*|(特急|加急|平急)|紧急程度[：:].*)$/;
+const SENTENCE_END_PATTERN = /[。！？；，：:.!?;,]$/;
+const HEADING_NUMBERING_PATTERN = /^([一二三四五六七八九十百]+、|[（(][一二三四五六七八九十百]+[）)]|第[一二三四五六七八九十百\d]+[章节篇部分]|\d{1,2}(\.\d{1,2})*([\s、]|[.．](?!\d)))/;
+const SECTION_HEADING_PATTERN = /^(引\s*言|前\s*言|绪\s*论|结\s*论|结\s*语|致\s*谢|附\s*录|目\s*录|参考文献|references|bibliography|acknowledge?ments?)$/i;
+const REFERENCES_HEADING_PATTERN = /^(参考文献|references|bibliography)$/i;
+const AUTHOR_LABEL_PATTERN = /^作\s*者[：:]/;
+const PARENTHESIZED_PATTERN = /^[（(].+[）)]$/;
+// 以空格、顿号或逗号分隔的 2-4 字姓名，可带单位序号或通讯作者星号
+const NAME_LIST_PATTERN = /^[\u4e00-\u9fa5·]{2,4}[\d,*]*([\s、，,]+[\u4e00-\u9fa5·]{2,4}[\d,*]*)*$/;
+const AFFILIATION_PATTERN = /(大学|学院|学校|研究所|研究院|研究中心|实验室|科学院|公司|集团|医院|中心|委员会|局|厅|系)/;
+const POSTCODE_PATTERN = /\d{6}/;
+const ABSTRACT_PATTERN = /^(摘\s*要|内容摘要|内容提要|abstract)(\s*[：:]|\s|$)/i;
+const ABSTRACT_LABEL_PATTERN = /^(摘\s*要|内容摘要|内容提要|abstract)[：:]?$/i;
+const KEYWORDS_PATTERN = /^(关\s*键\s*词|关键字|key\s*words?|index\s+terms)(\s*[：:]|\s+)/i;
+const CAPTION_PATTERN = /^(续?图|续?表|figure|fig\.|table)\s*\d+([.\-－—]\d+)*(\s|[：:.．、]|$)/i;
+const REFERENCE_NUMBER_PATTERN = /^[[［]\d+[\]］]/;
+// GB/T 7714 文献类型标识，如 [J]、[M]、[EB/OL]
+const REFERENCE_TYPE_PATTERN = /[[［][A-Z]{1,2}(\/OL)?[\]］]/;
+const DATE_PATTERN = /^(\d{4}|[〇○零一二三四五六七八九]{4})\s*年\s*(\d{1,2}|[一二三四五六七八九十]{1,3})\s*月\s*(\d{1,2}|[一二三四五六七八九十]{1,3})\s*日$/;
+// 公文要素与段落角色的对应关系，其余公文要素不参与分类
+const OFFICIAL_ROLES: Partial<Record<OfficialElementRole, ParagraphRole>> = {
+  title: 'title',
+  signature: 'signature',
+  date: 'signature'
+};
+
+function isCentered(paragraph: ParagraphFeatures): boolean {
+  return paragraph.alignment === 'center';
+}
+
+function isLargerThanBody(paragraph: ParagraphFeatures, context: RoleContext): boolean {
+  return !!paragraph.fontSize && !!context.bodyFontSize && paragraph.fontSize > context.bodyFontSize;
+}
+
+function previousRole(context: RoleContext): ParagraphRole | undefined {
+  return context.previous[context.index - 1]?.role;
+}
+
+function hasRole(context: RoleContext, role: ParagraphRole): boolean {
+  return context.previous.some(info => info?.role === role);
+}
+
+/**
+ * 默认规则，覆盖学术论文和公文中常见的段落角色
+ */
+export const DEFAULT_ROLE_RULES: RoleRule[] = [
+  {
+    name: 'title',
+    role: 'title',
+    score(paragraph, context) {
+      const offset = context.index - context.contentStart;
+      const text = paragraph.text.trim();
+      if (offset < 0 || offset > MAX_TITLE_OFFSET || hasRole(context, 'title')) return 0;
+      if (context.paragraphs.length < 2 || text.length > 60 || SENTENCE_END_PATTERN.test(text)) return 0;
+
+      // 其后几段中有字号更大的段落时，当前段落是封面或刊名等标题前的文字
+      const following = context.paragraphs.slice(context.index + 1, context.contentStart + MAX_TITLE_OFFSET + 1);
+      if (paragraph.fontSize && following.some(other => !other.inTable && (other.fontSize || 0) > paragraph.fontSize!)) {
+        return 0;
+      }
+
+      let score = 0.3;
+      if (offset === 0) score += 0.2;
+      if (isCentered(paragraph)) score += 0.2;
+      if (isLargerThanBody(paragraph, context)) score += 0.2;
+      if (paragraph.isBold) score += 0.1;
+      if (HEADING_NUMBERING_PATTERN.test(text) || AUTHOR_LABEL_PATTERN.test(text) || ABSTRACT_PATTERN.test(text)) {
+        score -= 0.3;
+      }
+      return score;
+    }
+  },
+  {
+    name: 'subtitle',
+    role: 'subtitle',
+    score(paragraph, context) {
+      if (previousRole(context) !== 'title') return 0;
+      const text = paragraph.text.trim();
+      if (/^[—－-]{1,2}/.test(text)) return 0.9;
+      // 不带破折号的副标题通常居中且字号大于正文，作者行一般与正文字号相同
+      if (isCentered(paragraph) && isLargerThanBody(paragraph, context) && text.length <= 40 &&
+          !SENTENCE_END_PATTERN.test(text) && !NAME_LIST_PATTERN.test(text)) {
+        return 0.6;
+      }
+      return 0;
+    }
+  },
+  {
+    name: 'author',
+    role: 'author',
+    score(paragraph, context) {
+      const text = paragraph.text.trim();
+      const afterTitle = previousRole(context) === 'title' || previousRole(context) === 'subtitle';
+      if (text.length >= 30 || hasRole(context, 'author')) return 0;
+      if (AUTHOR_LABEL_PATTERN.test(text)) return afterTitle ? 0.95 : 0.8;
+      if (!afterTitle) return 0;
+      if (PARENTHESIZED_PATTERN.test(text) && !AFFILIATION_PATTERN.test(text)) return 0.85;
+      if (NAME_LIST_PATTERN.test(text)) return isCentered(paragraph) ? 0.8 : 0.7;
+      return 0;
+    }
+  },
+  {
+    name: 'affiliation',
+    role: 'affiliation',
+    score(paragraph, context) {
+      const text = paragraph.text.trim();
+      if (text.length > 80 || SENTENCE_END_PATTERN.test(text) || !AFFILIATION_PATTERN.test(text)) return 0;
+      const previous = previousRole(context);
+      if (previous !== 'author' && previous !== 'affiliation') {
+        return context.index - context.contentStart <= MAX_TITLE_OFFSET + 2 && PARENTHESIZED_PATTERN.test(text) ? 0.55 : 0;
+      }
+      let score = 0.75;
+      if (PARENTHESIZED_PATTERN.test(text) || POSTCODE_PATTERN.test(text)) score += 0.15;
+      return score;
+    }
+  },
+  {
+    name: 'abstract',
+    role: 'abstract',
+    score(paragraph, context) {
+      const text = paragraph.text.trim();
+      if (ABSTRACT_PATTERN.test(text)) return 0.95;
+      // 单独成段的"摘要"标签之后的段落为摘要正文
+      const previous = context.paragraphs[context.index - 1];
+      if (previousRole(context) === 'abstract' && previous && ABSTRACT_LABEL_PATTERN.test(previous.text.trim())) {
+        return 0.8;
+      }
+      return 0;
+    }
+  },
+  {
+    name: 'keywords',
+    role: 'keywords',
+    score(paragraph) {
+      return KEYWORDS_PATTERN.test(paragraph.text.trim()) ? 0.95 : 0;
+    }
+  },
+  {
+    name: 'heading',
+    role: 'heading',
+    score(paragraph, context) {
+      const text = paragraph.text.trim();
+      if (SECTION_HEADING_PATTERN.test(text.replace(/[：:]$/, ''))) return 0.9;
+      if (text.length > 40 || /[。！？；]$/.test(text)) return 0;
+
+      let score = 0;
+      if (HEADING_NUMBERING_PATTERN.test(text)) {
+        score = 0.6;
+      } else if (text.length <= 30 && paragraph.isBold && isLargerThanBody(paragraph, context)) {
+        score = 0.45;
+      } else {
+        return 0;
+      }
+      if (paragraph.isBold) score += 0.15;
+      if (isLargerThanBody(paragraph, context)) score += 0.1;
+      return score;
+    }
+  },
+  {
+    name: 'caption',
+    role: 'caption',
+    score(paragraph) {
+      const text = paragraph.text.trim();
+      if (text.length > 80 || !CAPTION_PATTERN.test(text)) return 0;
+      return isCentered(paragraph) ? 0.9 : 0.8;
+    }
+  },
+  {
+    name: 'reference',
+    role: 'reference',
+    score(paragraph, context) {
+      const text = paragraph.text.trim();
+      const afterHeading = context.paragraphs
+        .slice(0, context.index)
+        .some(other => REFERENCES_HEADING_PATTERN.test(other.text.trim().replace(/[：:]$/, '')));
+      let score = 0;
+      // 参考文献标题之后的条目也可能以"1."编号
+      if (REFERENCE_NUMBER_PATTERN.test(text) || (afterHeading && /^\d+[.．]\s*\S/.test(text))) score += 0.5;
+      if (REFERENCE_TYPE_PATTERN.test(text)) score += 0.3;
+      if (afterHeading && score > 0) score += 0.25;
+      return score;
+    }
+  },
+  {
+    name: 'signature',
+    role: 'signature',
+    score(paragraph, context) {
+      const total = context.paragraphs.length;
+      if (context.index < total - SIGNATURE_TAIL_PARAGRAPHS || context.index === context.contentStart) return 0;
+      const text = paragraph.text.trim();
+      const rightAligned = paragraph.alignment === 'right';
+      if (DATE_PATTERN.test(text)) return rightAligned ? 0.9 : 0.75;
+
+      // 成文日期之前不含标点的短段落为署名
+      const next = context.paragraphs[context.index + 1];
+      if (next && DATE_PATTERN.test(next.text.trim()) && text.length <= 30 && !/[。，；：！？:,;]/.test(text)) {
+        return rightAligned ? 0.9 : 0.75;
+      }
+      return 0;
+    }
+  }
+];
+
+export class ParagraphRoleClassifier {
+  private rules: RoleRule[];
+
+  constructor(rules: RoleRule[] = DEFAULT_ROLE_RULES) {
+    this.rules = [...rules];
+  }
+
+  /**
+   * 添加自定义规则，与已有规则一同参与打分
+   */
+  addRule(rule: RoleRule): void {
+    this.rules.push(rule);
+  }
+
+  /**
+   * 按段落顺序分类，返回值与 paragraphs 一一对应
+   * 表格中的段落和没有对应角色的公文要素不参与分类，结果为 undefined
+   */
+  classify(paragraphs: ParagraphFeatures[]): (ParagraphRoleInfo | undefined)[] {
+    const results: (ParagraphRoleInfo | undefined)[] = [];
+    const contentStart = paragraphs.findIndex(paragraph =>
+      !paragraph.inTable && !paragraph.officialRole && !MARKER_PATTERN.test(paragraph.text.trim())
+    );
+    const bodyFontSize = this.getBodyFontSize(paragraphs);
+
+    paragraphs.forEach((paragraph, index) => {
+      if (paragraph.inTable) {
+        results.push(undefined);
+        return;
+      }
+      if (paragraph.officialRole) {
+        const role = OFFICIAL_ROLES[paragraph.officialRole];
+        results.push(role ? { role, confidence: 0.95, rule: 'official' } : undefined);
+        return;
+      }
+
+      const context: RoleContext = {
+        paragraphs,
+        index,
+        contentStart: contentStart === -1 ? paragraphs.length : contentStart,
+        bodyFontSize,
+        previous: results
+      };
+      let best: { rule: RoleRule; score: number } | undefined;
+      for (const rule of this.rules) {
+        const score = rule.score(paragraph, context);
+        if (score > 0 && (!best || score > best.score)) {
+          best = { rule, score };
+        }
+      }
+
+      if (best && best.score >= MIN_CONFIDENCE) {
+        results.push({ role: best.rule.role, confidence: this.round(best.score), rule: best.rule.name });
+      } else {
+        results.push({ role: 'body', confidence: this.round(1 - (best?.score || 0)) });
+      }
+    });
+
+    return results;
+  }
+
+  /**
+   * 正文字号取所占文字最多的字号
+   */
+  private getBodyFontSize(paragraphs: ParagraphFeatures[]): number | undefined {
+    const lengths = new Map<number, number>();
+    paragraphs.forEach(paragraph => {
+      if (paragraph.fontSize && !paragraph.inTable) {
+        lengths.set(paragraph.fontSize, (lengths.get(paragraph.fontSize) || 0) + paragraph.text.length);
+      }
+    });
+
+    let bodyFontSize: number | undefined;
+    lengths.forEach((length, size) => {
+      if (bodyFontSize === undefined || length > lengths.get(bodyFontSize)!) {
+        bodyFontSize = size;
+      }
+    });
+    return bodyFontSize;
+  }
+
+  private round(score: number): number {
+    return Math.round(Math.min(Math.max(score, 0), 1) * 100) / 100;
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * 文档属性写入器 - 写入 docProps 中的核心属性（core.xml）、单位（app.xml）和自定义属性（custom.xml）
+ * 重新生成的文档以原文档的核心属性和自定义属性为基础，保留原作者、关键词和未设置的其他属性
+ */
+import JSZip from 'jszip';
+import { DOMParser } from 'xmldom';
+import { DocumentPropertiesOptions } from '@/types/document-processing';
+import { CORE_TEXT_PROPERTIES, DocumentPropertyValues, ResolvedCustomProperty, resolveCustomProperty, resolveDocumentProperties } from '../document-properties';
+import { HeaderFooterValues } from '../header-footer';
+import { loadXmlPart, saveXmlPart, getChildElements, getFirstChild } from './ooxml-utils';
+
+const CP_NS = 'http://schemas.openxmlformats.org/package/2006/metadata/core-properties';
+const DC_NS = 'http://purl.org/dc/elements/1.1/';
+const DCTERMS_NS = 'http://purl.org/dc/terms/';
+const XSI_NS = 'http://www.w3.org/2001/XMLSchema-instance';
+const EXTENDED_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/extended-properties';
+const CUSTOM_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/custom-properties';
+const VT_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const CONTENT_TYPES_NS = 'http://schemas.openxmlformats.org/package/2006/content-types';
+// 自定义属性固定使用的属性集 ID
+const CUSTOM_PROPERTY_FMTID = '{D5CDD505-2E9C-101B-9397-08002B2CF9AE}';
+
+// 各属性在 core.xml 中的元素
+const CORE_ELEMENTS: Record<Exclude<keyof DocumentPropertyValues, 'company'>, { tagName: string; namespace: string }> = {
+  title: { tagName: 'dc:title', namespace: DC_NS },
+  subject: { tagName: 'dc:subject', namespace: DC_NS },
+  creator: { tagName: 'dc:creator', namespace: DC_NS },
+  keywords: { tagName: 'cp:keywords', namespace: CP_NS },
+  description: { tagName: 'dc:description', namespace: DC_NS },
+  lastModifiedBy: { tagName: 'cp:lastModifiedBy', namespace: CP_NS },
+  created: { tagName: 'dcterms:created', namespace: DCTERMS_NS },
+  modified: { tagName: 'dcterms:modified', namespace: DCTERMS_NS }
+};
+
+// 自定义属性类型对应的值元素
+const VALUE_TYPES: Record<ResolvedCustomProperty['type'], string> = {
+  text: 'vt:lpwstr',
+  number: 'vt:r8',
+  boolean: 'vt:bool',
+  date: 'vt:filetime'
+};
+
+type PropertyPart = 'core' | 'app' | 'custom';
+
+const PROPERTY_PARTS: Record<PropertyPart, { path: string; relationshipType: string; contentType: string; xml: string }> = {
+  core: {
+    path: 'docProps/core.xml',
+    relationshipType: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties',
+    contentType: 'application/vnd.openxmlformats-package.core-properties+xml',
+    xml: `<cp:coreProperties xmlns:cp="${CP_NS}" xmlns:dc="${DC_NS}" xmlns:dcterms="${DCTERMS_NS}" xmlns:xsi="${XSI_NS}"/>`
+  },
+  app: {
+    path: 'docProps/app.xml',
+    relationshipType: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/extended-properties',
+    contentType: 'application/vnd.openxmlformats-officedocument.extended-properties+xml',
+    xml: `<Properties xmlns="${EXTENDED_NS}" xmlns:vt="${VT_NS}"/>`
+  },
+  custom: {
+    path: 'docProps/custom.xml',
+    relationshipType: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/custom-properties',
+    contentType: 'application/vnd.openxmlformats-officedocument.custom-properties+xml',
+    xml: `<Properties xmlns="${CUSTOM_NS}" xmlns:vt="${VT_NS}"/>`
+  }
+};
+
+export class PropertiesWriter {
+  /**
+   * 写入文档属性，取值无效的日期和自定义属性不写入
+   * @param options 文档属性设置，未设置时只沿用原文档的属性
+   * @param originalBuffer 重新生成模式下的原文档，从中读取原有属性；原位修改时省略，直接读取 inputBuffer 中的属性
+   * @returns 写入属性后的文档和未写入的自定义属性说明
+   */
+  async writeProperties(
+    inputBuffer: Buffer,
+    options: DocumentPropertiesOptions | undefined,
+    values: HeaderFooterValues,
+    originalBuffer?: Buffer
+  ): Promise<{ buffer: Buffer; warnings: string[] }> {
+    const zip = await JSZip.loadAsync(inputBuffer);
+    const originalZip = originalBuffer ? await JSZip.loadAsync(originalBuffer) : zip;
+    const originalCore = await loadXmlPart(originalZip, PROPERTY_PARTS.core.path);
+    const originalApp = await loadXmlPart(originalZip, PROPERTY_PARTS.app.path);
+    const { properties, warnings } = resolveDocumentProperties(options, this.readProperties(originalCore, originalApp), values);
+
+    const coreXml = originalCore || await loadXmlPart(zip, PROPERTY_PARTS.core.path) || await this.createPart(zip, 'core');
+    this.writeCoreProperties(coreXml, properties);
+    saveXmlPart(zip, PROPERTY_PARTS.core.path, coreXml);
+
+    // 单位写入生成的 app.xml，原文档的页数、字数等统计信息已不准确
+    const appXml = await loadXmlPart(zip, PROPERTY_PARTS.app.path) || (properties.company ? await this.createPart(zip, 'app') : null);
+    if (appXml) {
+      this.setText(appXml, getFirstChild(appXml.documentElement, 'Company'), EXTENDED_NS, 'Company', properties.company);
+      saveXmlPart(zip, PROPERTY_PARTS.app.path, appXml);
+    }
+
+    // 替换占位符后取值无效的属性跳过，不影响其余属性和文档处理
+    const customProperties: ResolvedCustomProperty[] = [];
+    for (const property of (options?.custom || []).filter(item => item.name.trim())) {
+      try {
+        customProperties.push(resolveCustomProperty({ ...property, name: property.name.trim() }, values));
+      } catch (error) {
+        warnings.push(`${error instanceof Error ? error.message : String(error)}，已跳过`);
+      }
+    }
+    const customXml = await loadXmlPart(originalZip, PROPERTY_PARTS.custom.path)
+      || await loadXmlPart(zip, PROPERTY_PARTS.custom.path)
+      || (customProperties.length > 0 ? await this.createPart(zip, 'custom') : null);
+    if (customXml) {
+      this.writeCustomProperties(customXml, customProperties, !!options?.keepOriginal);
+      saveXmlPart(zip, PROPERTY_PARTS.custom.path, customXml);
+    }
+
+    console.log(`已写入文档属性: 标题“${properties.title || ''}”，作者“${properties.creator || ''}”，自定义属性${customProperties.length}项`);
+    warnings.forEach(warning => console.warn(`文档属性: ${warning}`));
+    return { buffer: await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }), warnings };
+  }
+
+  /**
+   * 读取原文档的核心属性和单位
+   */
+  private readProperties(coreXml: Document | null, appXml: Document | null): DocumentPropertyValues {
+    const result: DocumentPropertyValues = {};
+    if (coreXml) {
+      for (const key of [...CORE_TEXT_PROPERTIES, 'created', 'modified'] as const) {
+        const element = getFirstChild(coreXml.documentElement, CORE_ELEMENTS[key].tagName);
+        result[key] = element?.textContent?.trim() || undefined;
+      }
+    }
+    const company = appXml && getFirstChild(appXml.documentElement, 'Company');
+    result.company = company?.textContent?.trim() || undefined;
+    return result;
+  }
+
+  /**
+   * 写入核心属性，没有取值的属性被删除
+   */
+  private writeCoreProperties(coreXml: Document, properties: DocumentPropertyValues) {
+    const root = coreXml.documentElement;
+    // 日期元素的 xsi:type 属性需要在根元素上声明命名空间
+    if (!root.getAttribute('xmlns:xsi')) root.setAttribute('xmlns:xsi', XSI_NS);
+    if (!root.getAttribute('xmlns:dcterms')) root.setAttribute('xmlns:dcterms', DCTERMS_NS);
+
+    for (const key of Object.keys(CORE_ELEMENTS) as (keyof typeof CORE_ELEMENTS)[]) {
+      const { tagName, namespace } = CORE_ELEMENTS[key];
+      const element = this.setText(coreXml, getFirstChild(root, tagName), namespace, tagName, properties[key]);
+      if (element && namespace === DCTERMS_NS) {
+        element.setAttribute('xsi:type', 'dcterms:W3CDTF');
+      }
+    }
+  }
+
+  /**
+   * 按名称合并自定义属性，keepOriginal 时原文档已有的同名属性保持不变
+   */
+  private writeCustomProperties(customXml: Document, properties: ResolvedCustomProperty[], keepOriginal: boolean) {
+    const root = customXml.documentElement;
+    if (!root.getAttribute('xmlns:vt')) root.setAttribute('xmlns:vt', VT_NS);
+    const existing = getChildElements(root, 'property');
+    // pid 从 2 开始编号
+    let maxPid = Math.max(1, ...existing.map(element => parseInt(element.getAttribute('pid') || '0', 10) || 0));
+
+    for (const property of properties) {
+      let element = existing.find(item => item.getAttribute('name') === property.name);
+      if (element && keepOriginal) continue;
+      if (element) {
+        while (element.firstChild) element.removeChild(element.firstChild);
+      } else {
+        element = customXml.createElementNS(CUSTOM_NS, 'property');
+        element.setAttribute('fmtid', CUSTOM_PROPERTY_FMTID);
+        element.setAttribute('pid', String(++maxPid));
+        element.setAttribute('name', property.name);
+        root.appendChild(element);
+        existing.push(element);
+      }
+      const value = customXml.createElementNS(VT_NS, VALUE_TYPES[property.type]);
+      value.appendChild(customXml.createTextNode(property.value));
+      element.appendChild(value);
+    }
+  }
+
+  /**
+   * 设置元素的文字，元素不存在时创建，取值为空时删除元素
+   * @returns 设置后的元素，删除时返回 null
+   */
+  private setText(doc: Document, element: Element | null, namespace: string, tagName: string, value?: string): Element | null {
+    if (!value) {
+      element?.parentNode?.removeChild(element);
+      return null;
+    }
+    if (!element) {
+      element = doc.documentElement.appendChild(doc.createElementNS(namespace, tagName)) as Element;
+    }
+    while (element.firstChild) element.removeChild(element.firstChild);
+    element.appendChild(doc.createTextNode(value));
+    return element;
+  }
+
+  /**
+   * 创建空的属性部件，并在包关系和内容类型中登记
+   */
+  private async createPart(zip: JSZip, part: PropertyPart): Promise<Document> {
+    const { path, relationshipType, contentType, xml } = PROPERTY_PARTS[part];
+    const relsXml = await loadXmlPart(zip, '_rels/.rels');
+    const contentTypesXml = await loadXmlPart(zip, '[Content_Types].xml');
+    if (!relsXml || !contentTypesXml) {
+      throw new Error('写入文档属性失败: 文档缺少关系或内容类型部件');
+    }
+
+    const relationships = getChildElements(relsXml.documentElement, 'Relationship');
+    const maxId = Math.max(0, ...relationships.map(rel => parseInt((rel.getAttribute('Id') || '').replace(/^rId/, ''), 10) || 0));
+    const relationship = relsXml.createElementNS(RELATIONSHIPS_NS, 'Relationship');
+    relationship.setAttribute('Id', `rId${maxId + 1}`);
+    relationship.setAttribute('Type', relationshipType);
+    relationship.setAttribute('Target', path);
+    relsXml.documentElement.appendChild(relationship);
+
+    const override = contentTypesXml.createElementNS(CONTENT_TYPES_NS, 'Override');
+    override.setAttribute('PartName', `/${path}`);
+    override.setAttribute('ContentType', contentType);
+    contentTypesXml.documentElement.appendChild(override);
+
+    saveXmlPart(zip, '_rels/.rels', relsXml);
+    saveXmlPart(zip, '[Content_Types].xml', contentTypesXml);
+    return new DOMParser().parseFromString(xml, 'text/xml');
+  }
+}
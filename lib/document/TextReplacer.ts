@@ -0,0 +1,65 @@
+/**
+ * 文字替换器 - 在处理后的 docx 中按模板的查找替换规则改写正文、表格、页眉页脚和脚注尾注的文字
+ * 规则在段落纯文本上匹配，可以匹配跨越多个文本运行的文字
+ */
+import JSZip from 'jszip';
+import { ReplacementRule } from '@/types/document-processing';
+import { compileReplacementRule, getReplacementEdits } from '../text-replace';
+import { loadXmlPart, saveXmlPart, editParagraphText } from './ooxml-utils';
+
+// 参与替换的部件：正文（含表格）、页眉、页脚、脚注和尾注
+const TEXT_PART_PATTERN = /^word\/(document|header\d*|footer\d*|footnotes|endnotes)\.xml$/;
+
+export class TextReplacer {
+  /**
+   * 按顺序应用替换规则
+   * @returns 替换后的文档和替换总数
+   */
+  async replace(inputBuffer: Buffer, rules: ReplacementRule[]): Promise<{ buffer: Buffer; count: number }> {
+    const activeRules = rules.filter(rule => rule.find.length > 0);
+    if (activeRules.length === 0) return { buffer: inputBuffer, count: 0 };
+    const patterns = activeRules.map(rule => compileReplacementRule(rule));
+
+    const zip = await JSZip.loadAsync(inputBuffer);
+    const partPaths = Object.keys(zip.files).filter(path => TEXT_PART_PATTERN.test(path)).sort();
+    let count = 0;
+    let changed = false;
+
+    for (const partPath of partPaths) {
+      const doc = await loadXmlPart(zip, partPath);
+      if (!doc) continue;
+
+      let partCount = 0;
+      let partChanged = false;
+      const paragraphs = doc.getElementsByTagName('w:p');
+      for (let i = 0; i < paragraphs.length; i++) {
+        const paragraph = paragraphs[i];
+        // 文本框在 mc:Fallback 中有一份兼容旧版本的副本，同样替换但不重复计数
+        const isFallback = this.isInFallback(paragraph);
+        activeRules.forEach((rule, ruleIndex) => {
+          const replaced = editParagraphText(paragraph, text => getReplacementEdits(text, rule, patterns[ruleIndex]));
+          partChanged = partChanged || replaced > 0;
+          if (!isFallback) partCount += replaced;
+        });
+      }
+
+      if (partChanged) {
+        saveXmlPart(zip, partPath, doc);
+        changed = true;
+        count += partCount;
+        console.log(`查找替换: ${partPath} 替换${partCount}处`);
+      }
+    }
+
+    console.log(`查找替换: 共${activeRules.length}条规则，替换${count}处`);
+    if (!changed) return { buffer: inputBuffer, count };
+    return { buffer: await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }), count };
+  }
+
+  private isInFallback(paragraph: Element): boolean {
+    for (let node = paragraph.parentNode; node; node = node.parentNode) {
+      if (node.nodeType === 1 && (node as Element).tagName === 'mc:Fallback') return true;
+    }
+    return false;
+  }
+}
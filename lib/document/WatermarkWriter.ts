@@ -0,0 +1,323 @@
+/**
+ * 水印写入器 - 把文字或图片水印写入各节的页眉，使水印衬于每一页的正文之下
+ * 文字水印使用 Word 自带水印相同的 VML 艺术字形状，可在 Word 的"水印"菜单中删除；
+ * 图片水印使用浮于页眉之后的 DrawingML 图片，以支持透明度和旋转
+ */
+import JSZip from 'jszip';
+import { DOMParser } from 'xmldom';
+import { WatermarkOptions } from '@/types/document-processing';
+import { ResolvedImageWatermark, ResolvedTextWatermark, resolveWatermark } from '../watermark';
+import { IMAGE_FORMATS } from '../image-extractor';
+import { HeaderFooterWriter } from './HeaderFooterWriter';
+import { loadXmlPart, saveXmlPart, getChildElements, getSectionProperties, getFirstChild, toWordColor, W_NS } from './ooxml-utils';
+
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const CONTENT_TYPES_NS = 'http://schemas.openxmlformats.org/package/2006/content-types';
+const V_NS = 'urn:schemas-microsoft-com:vml';
+const O_NS = 'urn:schemas-microsoft-com:office:office';
+const WP_NS = 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing';
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const PIC_NS = 'http://schemas.openxmlformats.org/drawingml/2006/picture';
+const IMAGE_RELATIONSHIP_TYPE = `${R_NS}/image`;
+
+// Word 识别为水印的形状 ID 前缀，分别为文字水印和图片水印
+const TEXT_WATERMARK_ID = 'PowerPlusWaterMarkObject';
+const PICTURE_WATERMARK_ID = 'WordPictureWatermark';
+// 本工具写入的图片水印的名称，再次处理时据此替换
+const WATERMARK_NAME = 'Watermark';
+const EMU_PER_MM = 36000;
+const EMU_PER_TWIP = 635;
+const EMU_PER_PIXEL = 9525;
+
+// 艺术字形状类型（与 Word 插入的文字水印相同）
+const TEXT_SHAPE_TYPE = '<v:shapetype id="_x0000_t136" coordsize="21600,21600" o:spt="136" adj="10800" path="m@7,l@8,m@5,21600l@6,21600e">'
+  + '<v:formulas><v:f eqn="sum #0 0 10800"/><v:f eqn="prod #0 2 1"/><v:f eqn="sum 21600 0 @1"/><v:f eqn="sum 0 0 @2"/>'
+  + '<v:f eqn="sum 21600 0 @3"/><v:f eqn="if @0 @3 0"/><v:f eqn="if @0 21600 @1"/><v:f eqn="if @0 0 @2"/><v:f eqn="if @0 @4 21600"/>'
+  + '<v:f eqn="mid @5 @6"/><v:f eqn="mid @8 @5"/><v:f eqn="mid @7 @8"/><v:f eqn="mid @6 @7"/><v:f eqn="sum @6 0 @5"/></v:formulas>'
+  + '<v:path textpathok="t" o:connecttype="custom" o:connectlocs="@9,0;@10,10800;@11,21600;@12,10800" o:connectangles="270,180,90,0"/>'
+  + '<v:textpath on="t" fitshape="t"/><v:handles><v:h position="#0,bottomRight" xrange="6629,14971"/></v:handles>'
+  + '<o:lock v:ext="edit" text="t" shapetype="t"/></v:shapetype>';
+
+export class WatermarkWriter {
+  private headerFooterWriter = new HeaderFooterWriter();
+
+  /**
+   * 在各页的页眉中写入水印，页眉中原有的水印及其不再使用的图片被替换
+   * @returns 写入水印后的文档和未写入水印的原因
+   */
+  async addWatermark(inputBuffer: Buffer, options: WatermarkOptions): Promise<{ buffer: Buffer; warnings: string[] }> {
+    const watermark = resolveWatermark(options);
+    // 宽或高为 0 的图片无法按比例计算尺寸
+    if (watermark.type === 'image' && (watermark.pixelWidth === 0 || watermark.pixelHeight === 0)) {
+      const warning = '水印图片的宽度或高度为 0，已跳过水印';
+      console.warn(warning);
+      return { buffer: inputBuffer, warnings: [warning] };
+    }
+    const zip = await JSZip.loadAsync(inputBuffer);
+    const documentXml = await loadXmlPart(zip, 'word/document.xml');
+    if (!documentXml) {
+      throw new Error('添加水印失败: 文档中没有找到document.xml');
+    }
+
+    const headerPaths = await this.headerFooterWriter.ensurePageHeaders(zip, documentXml);
+    saveXmlPart(zip, 'word/document.xml', documentXml);
+
+    const imageTarget = watermark.type === 'image' ? await this.addImagePart(zip, watermark) : undefined;
+    const textWidth = this.getTextWidth(documentXml);
+    let drawingId = await this.getMaxDrawingId(zip);
+    const removedImages: string[] = [];
+    for (const [index, headerPath] of headerPaths.entries()) {
+      const headerXml = await loadXmlPart(zip, headerPath);
+      if (!headerXml) continue;
+
+      const removedIds = this.removeWatermarks(headerXml);
+      removedImages.push(...await this.removeUnusedRelationships(zip, headerPath, headerXml, removedIds));
+      this.declareNamespaces(headerXml.documentElement);
+      let run: Element;
+      if (watermark.type === 'text') {
+        run = this.createTextWatermark(headerXml, watermark, index + 1);
+      } else {
+        const relationshipId = await this.addImageRelationship(zip, headerPath, imageTarget!);
+        run = this.createImageWatermark(headerXml, watermark, ++drawingId, relationshipId, textWidth);
+      }
+      this.getFirstParagraph(headerXml).appendChild(run);
+      saveXmlPart(zip, headerPath, headerXml);
+    }
+    await this.removeUnusedImages(zip, removedImages);
+
+    console.log(`已在${headerPaths.length}个页眉中添加${watermark.type === 'text' ? `文字水印“${watermark.text}”` : '图片水印'}`);
+    return { buffer: await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }), warnings: [] };
+  }
+
+  /**
+   * 生成文字水印：居中于版心的 VML 艺术字，文字按形状大小缩放
+   */
+  private createTextWatermark(doc: Document, watermark: ResolvedTextWatermark, index: number): Element {
+    const style = [
+      'position:absolute', 'margin-left:0', 'margin-top:0',
+      `width:${watermark.width}pt`, `height:${watermark.height}pt`,
+      // VML 按顺时针旋转
+      `rotation:${(360 - watermark.rotation) % 360}`, 'z-index:-251654144',
+      'mso-position-horizontal:center', 'mso-position-horizontal-relative:margin',
+      'mso-position-vertical:center', 'mso-position-vertical-relative:margin'
+    ].join(';');
+    const fontFamily = watermark.fontName.replace(/&/g, '&amp;').replace(/"/g, '');
+    const text = watermark.text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
+    const xml = `<w:r xmlns:w="${W_NS}" xmlns:v="${V_NS}" xmlns:o="${O_NS}"><w:rPr><w:noProof/></w:rPr><w:pict>${TEXT_SHAPE_TYPE}`
+      + `<v:shape id="${TEXT_WATERMARK_ID}${index}" o:allowincell="f" type="#_x0000_t136" style="${style}" fillcolor="#${toWordColor(watermark.color)}" stroked="f">`
+      + `<v:fill opacity="${watermark.opacity}"/>`
+      + `<v:textpath style="font-family:&quot;${fontFamily}&quot;;font-size:1pt" string="${text}"/>`
+      + '</v:shape></w:pict></w:r>';
+    return this.importElement(doc, xml);
+  }
+
+  /**
+   * 生成图片水印：衬于文字下方、居中于版心的浮动图片
+   * @param textWidth 版心宽度（EMU），未设置宽度的图片按原始尺寸且不超过版心宽度
+   */
+  private createImageWatermark(
+    doc: Document,
+    watermark: ResolvedImageWatermark,
+    drawingId: number,
+    relationshipId: string,
+    textWidth: number
+  ): Element {
+    const width = watermark.width
+      ? Math.round(watermark.width * EMU_PER_MM)
+      : Math.min(watermark.pixelWidth * EMU_PER_PIXEL, textWidth);
+    const height = Math.round(width * watermark.pixelHeight / watermark.pixelWidth);
+    // DrawingML 的角度以 1/60000 度为单位，按顺时针旋转
+    const rotation = (360 - watermark.rotation) % 360 * 60000;
+    const alpha = watermark.opacity < 1 ? `<a:alphaModFix amt="${Math.round(watermark.opacity * 100000)}"/>` : '';
+    const name = `${WATERMARK_NAME}.${IMAGE_FORMATS[watermark.format].extension}`;
+    const xml = `<w:r xmlns:w="${W_NS}" xmlns:wp="${WP_NS}" xmlns:r="${R_NS}"><w:rPr><w:noProof/></w:rPr><w:drawing>`
+      + '<wp:anchor distT="0" distB="0" distL="0" distR="0" simplePos="0" relativeHeight="251659264" behindDoc="1" locked="0" layoutInCell="1" allowOverlap="1">'
+      + '<wp:simplePos x="0" y="0"/>'
+      + '<wp:positionH relativeFrom="margin"><wp:align>center</wp:align></wp:positionH>'
+      + '<wp:positionV relativeFrom="margin"><wp:align>center</wp:align></wp:positionV>'
+      + `<wp:extent cx="${width}" cy="${height}"/><wp:effectExtent l="0" t="0" r="0" b="0"/><wp:wrapNone/>`
+      + `<wp:docPr id="${drawingId}" name="${WATERMARK_NAME}"/>`
+      + `<wp:cNvGraphicFramePr><a:graphicFrameLocks xmlns:a="${A_NS}" noChangeAspect="1"/></wp:cNvGraphicFramePr>`
+      + `<a:graphic xmlns:a="${A_NS}"><a:graphicData uri="${PIC_NS}"><pic:pic xmlns:pic="${PIC_NS}">`
+      + `<pic:nvPicPr><pic:cNvPr id="0" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr>`
+      + `<pic:blipFill><a:blip r:embed="${relationshipId}">${alpha}</a:blip><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`
+      + `<pic:spPr><a:xfrm${rotation ? ` rot="${rotation}"` : ''}><a:off x="0" y="0"/><a:ext cx="${width}" cy="${height}"/></a:xfrm>`
+      + '<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>'
+      + '</pic:pic></a:graphicData></a:graphic></wp:anchor></w:drawing></w:r>';
+    return this.importElement(doc, xml);
+  }
+
+  /**
+   * 删除页眉中已有的水印（Word 插入的水印和本工具写入的图片水印）所在的文本运行
+   * @returns 删除的水印引用图片的关系 ID
+   */
+  private removeWatermarks(headerXml: Document): string[] {
+    // 删除节点会改变动态节点列表，先复制出水印元素
+    const watermarks: Element[] = [];
+    const shapes = headerXml.getElementsByTagName('v:shape');
+    for (let i = 0; i < shapes.length; i++) {
+      const id = shapes[i].getAttribute('id') || '';
+      if (id.startsWith(TEXT_WATERMARK_ID) || id.startsWith(PICTURE_WATERMARK_ID)) watermarks.push(shapes[i]);
+    }
+    const drawings = headerXml.getElementsByTagName('wp:docPr');
+    for (let i = 0; i < drawings.length; i++) {
+      if (drawings[i].getAttribute('name') === WATERMARK_NAME) watermarks.push(drawings[i]);
+    }
+
+    const relationshipIds: string[] = [];
+    for (const element of watermarks) {
+      let run: Node | null = element;
+      while (run && (run as Element).tagName !== 'w:r') run = run.parentNode;
+      if (!run) continue;
+      relationshipIds.push(...this.getRelationshipIds(run as Element));
+      run.parentNode?.removeChild(run);
+    }
+    return relationshipIds;
+  }
+
+  /**
+   * 获取元素及其子元素中引用的关系 ID（如 a:blip 的 r:embed、v:imagedata 的 r:id）
+   */
+  private getRelationshipIds(element: Element): string[] {
+    const ids: string[] = [];
+    const elements = [element, ...Array.from(element.getElementsByTagName('*'))];
+    for (const item of elements) {
+      for (let i = 0; i < item.attributes.length; i++) {
+        if (item.attributes[i].name.startsWith('r:')) ids.push(item.attributes[i].value);
+      }
+    }
+    return ids;
+  }
+
+  /**
+   * 删除页眉中已不再引用的关系
+   * @returns 删除的关系指向的图片在 word 目录中的相对路径
+   */
+  private async removeUnusedRelationships(zip: JSZip, headerPath: string, headerXml: Document, ids: string[]): Promise<string[]> {
+    const relsPath = headerPath.replace(/^word\//, 'word/_rels/') + '.rels';
+    const relsXml = ids.length > 0 ? await loadXmlPart(zip, relsPath) : null;
+    if (!relsXml) return [];
+
+    const usedIds = new Set(this.getRelationshipIds(headerXml.documentElement));
+    const unused = getChildElements(relsXml.documentElement, 'Relationship')
+      .filter(rel => ids.includes(rel.getAttribute('Id') || '') && !usedIds.has(rel.getAttribute('Id') || ''));
+    unused.forEach(rel => relsXml.documentElement.removeChild(rel));
+    saveXmlPart(zip, relsPath, relsXml);
+    return unused
+      .filter(rel => rel.getAttribute('Type') === IMAGE_RELATIONSHIP_TYPE && rel.getAttribute('TargetMode') !== 'External')
+      .map(rel => rel.getAttribute('Target') || '');
+  }
+
+  /**
+   * 删除已没有任何部件引用的图片文件
+   * @param targets 图片在 word 目录中的相对路径
+   */
+  private async removeUnusedImages(zip: JSZip, targets: string[]) {
+    if (targets.length === 0) return;
+    const usedTargets = new Set<string>();
+    for (const relsPath of Object.keys(zip.files).filter(name => /^word\/_rels\/[^/]+\.rels$/.test(name))) {
+      const relsXml = await loadXmlPart(zip, relsPath);
+      if (!relsXml) continue;
+      getChildElements(relsXml.documentElement, 'Relationship')
+        .forEach(rel => usedTargets.add((rel.getAttribute('Target') || '').replace(/^\/word\//, '')));
+    }
+    for (const target of Array.from(new Set(targets))) {
+      if (target && !usedTargets.has(target)) zip.remove(`word/${target}`);
+    }
+  }
+
+  /**
+   * 水印属性中使用的命名空间前缀需要在页眉根元素上声明
+   */
+  private declareNamespaces(root: Element) {
+    const namespaces: Record<string, string> = { 'xmlns:r': R_NS, 'xmlns:v': V_NS, 'xmlns:o': O_NS, 'xmlns:wp': WP_NS };
+    Object.entries(namespaces).forEach(([name, uri]) => {
+      if (!root.getAttribute(name)) root.setAttribute(name, uri);
+    });
+  }
+
+  private getFirstParagraph(headerXml: Document): Element {
+    const root = headerXml.documentElement;
+    const paragraph = getFirstChild(root, 'w:p');
+    if (paragraph) return paragraph;
+    return root.appendChild(headerXml.createElementNS(W_NS, 'w:p')) as Element;
+  }
+
+  private importElement(doc: Document, xml: string): Element {
+    const parsed = new DOMParser().parseFromString(xml, 'text/xml');
+    return doc.importNode(parsed.documentElement, true) as Element;
+  }
+
+  /**
+   * 写入图片文件并补充扩展名的默认内容类型
+   * @returns 图片在 word 目录中的相对路径
+   */
+  private async addImagePart(zip: JSZip, watermark: ResolvedImageWatermark): Promise<string> {
+    const { extension, mimeType } = IMAGE_FORMATS[watermark.format];
+    let index = 1;
+    while (zip.file(`word/media/watermark${index}.${extension}`)) index++;
+    const target = `media/watermark${index}.${extension}`;
+    zip.file(`word/${target}`, watermark.data);
+
+    const contentTypesXml = await loadXmlPart(zip, '[Content_Types].xml');
+    if (contentTypesXml && !getChildElements(contentTypesXml.documentElement, 'Default')
+      .some(element => (element.getAttribute('Extension') || '').toLowerCase() === extension)) {
+      const element = contentTypesXml.createElementNS(CONTENT_TYPES_NS, 'Default');
+      element.setAttribute('Extension', extension);
+      element.setAttribute('ContentType', mimeType);
+      contentTypesXml.documentElement.insertBefore(element, contentTypesXml.documentElement.firstChild);
+      saveXmlPart(zip, '[Content_Types].xml', contentTypesXml);
+    }
+    return target;
+  }
+
+  /**
+   * 在页眉部件的关系中引用水印图片
+   * @returns 关系 ID
+   */
+  private async addImageRelationship(zip: JSZip, headerPath: string, imageTarget: string): Promise<string> {
+    const relsPath = headerPath.replace(/^word\//, 'word/_rels/') + '.rels';
+    const relsXml = await loadXmlPart(zip, relsPath)
+      || new DOMParser().parseFromString(`<Relationships xmlns="${RELATIONSHIPS_NS}"/>`, 'text/xml');
+    const relationships = getChildElements(relsXml.documentElement, 'Relationship');
+    const existing = relationships.find(rel => rel.getAttribute('Target') === imageTarget);
+    if (existing) return existing.getAttribute('Id') || '';
+
+    const maxId = Math.max(0, ...relationships.map(rel => parseInt((rel.getAttribute('Id') || '').replace(/^rId/, ''), 10) || 0));
+    const relationship = relsXml.createElementNS(RELATIONSHIPS_NS, 'Relationship');
+    relationship.setAttribute('Id', `rId${maxId + 1}`);
+    relationship.setAttribute('Type', IMAGE_RELATIONSHIP_TYPE);
+    relationship.setAttribute('Target', imageTarget);
+    relsXml.documentElement.appendChild(relationship);
+    saveXmlPart(zip, relsPath, relsXml);
+    return `rId${maxId + 1}`;
+  }
+
+  /**
+   * 获取文档中已使用的最大绘图对象 ID（wp:docPr），新图片的 ID 在其后递增以保持唯一
+   */
+  private async getMaxDrawingId(zip: JSZip): Promise<number> {
+    let maxId = 0;
+    for (const path of Object.keys(zip.files).filter(name => /^word\/[^/]+\.xml$/.test(name))) {
+      const xml = await zip.file(path)!.async('text');
+      for (const match of xml.matchAll(/<wp:docPr\b[^>]*\sid="(\d+)"/g)) {
+        maxId = Math.max(maxId, parseInt(match[1], 10));
+      }
+    }
+    return maxId;
+  }
+
+  /**
+   * 按第一节的页面设置计算版心宽度（EMU）
+   */
+  private getTextWidth(documentXml: Document): number {
+    const sectPr = getSectionProperties(documentXml)[0];
+    const pgSz = sectPr && getFirstChild(sectPr, 'w:pgSz');
+    const pgMar = sectPr && getFirstChild(sectPr, 'w:pgMar');
+    const twips = (element: Element | null | undefined, name: string, fallback: number) =>
+      parseInt(element?.getAttribute(name) || '', 10) || fallback;
+    // 未设置页面时按 A4 纸和默认页边距计算
+    return (twips(pgSz, 'w:w', 11906) - twips(pgMar, 'w:left', 1800) - twips(pgMar, 'w:right', 1800)) * EMU_PER_TWIP;
+  }
+}
@@ -0,0 +1,326 @@
+/**
+ * OOXML 工具函数 - 供原位修改模式直接读写 docx 内部的 XML 部件
+ */
+import JSZip from 'jszip';
+import { DOMParser, XMLSerializer } from 'xmldom';
+import { TextEdit, applyTextEdits } from '../text-edits';
+
+export const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/**
+ * w:rPr 子元素的规范顺序（Word 对顺序敏感，乱序会导致文件无法打开）
+ */
+export const RUN_PROPERTY_ORDER = [
+  'w:rStyle', 'w:rFonts', 'w:b', 'w:bCs', 'w:i', 'w:iCs', 'w:caps', 'w:smallCaps',
+  'w:strike', 'w:dstrike', 'w:outline', 'w:shadow', 'w:emboss', 'w:imprint',
+  'w:noProof', 'w:snapToGrid', 'w:vanish', 'w:webHidden', 'w:color', 'w:spacing',
+  'w:w', 'w:kern', 'w:position', 'w:sz', 'w:szCs', 'w:highlight', 'w:u', 'w:effect',
+  'w:bdr', 'w:shd', 'w:fitText', 'w:vertAlign', 'w:rtl', 'w:cs', 'w:em', 'w:lang',
+  'w:eastAsianLayout', 'w:specVanish', 'w:oMath', 'w:rPrChange'
+];
+
+/**
+ * w:pPr 子元素的规范顺序
+ */
+export const PARAGRAPH_PROPERTY_ORDER = [
+  'w:pStyle', 'w:keepNext', 'w:keepLines', 'w:pageBreakBefore', 'w:framePr',
+  'w:widowControl', 'w:numPr', 'w:suppressLineNumbers', 'w:pBdr', 'w:shd', 'w:tabs',
+  'w:suppressAutoHyphens', 'w:kinsoku', 'w:wordWrap', 'w:overflowPunct',
+  'w:topLinePunct', 'w:autoSpaceDE', 'w:autoSpaceDN', 'w:bidi', 'w:adjustRightInd',
+  'w:snapToGrid', 'w:spacing', 'w:ind', 'w:contextualSpacing', 'w:mirrorIndents',
+  'w:suppressOverlap', 'w:jc', 'w:textDirection', 'w:textAlignment',
+  'w:textboxTightWrap', 'w:outlineLvl', 'w:divId', 'w:cnfStyle', 'w:rPr',
+  'w:sectPr', 'w:pPrChange'
+];
+
+/**
+ * w:sectPr 子元素的规范顺序
+ */
+export const SECTION_PROPERTY_ORDER = [
+  'w:headerReference', 'w:footerReference', 'w:footnotePr', 'w:endnotePr', 'w:type',
+  'w:pgSz', 'w:pgMar', 'w:paperSrc', 'w:pgBorders', 'w:lnNumType', 'w:pgNumType',
+  'w:cols', 'w:formProt', 'w:vAlign', 'w:noEndnote', 'w:titlePg', 'w:textDirection',
+  'w:bidi', 'w:rtlGutter', 'w:docGrid', 'w:printerSettings', 'w:sectPrChange'
+];
+
+/**
+ * settings.xml 中 w:settings 子元素的规范顺序
+ */
+export const SETTINGS_ORDER = [
+  'w:writeProtection', 'w:view', 'w:zoom', 'w:removePersonalInformation', 'w:removeDateAndTime',
+  'w:doNotDisplayPageBoundaries', 'w:displayBackgroundShape', 'w:printPostScriptOverText',
+  'w:printFractionalCharacterWidth', 'w:printFormsData', 'w:embedTrueTypeFonts', 'w:embedSystemFonts',
+  'w:saveSubsetFonts', 'w:saveFormsData', 'w:mirrorMargins', 'w:alignBordersAndEdges',
+  'w:bordersDoNotSurroundHeader', 'w:bordersDoNotSurroundFooter', 'w:gutterAtTop',
+  'w:hideSpellingErrors', 'w:hideGrammaticalErrors', 'w:activeWritingStyle', 'w:proofState',
+  'w:formsDesign', 'w:attachedTemplate', 'w:linkStyles', 'w:stylePaneFormatFilter',
+  'w:stylePaneSortMethod', 'w:documentType', 'w:mailMerge', 'w:revisionView', 'w:trackRevisions',
+  'w:doNotTrackMoves', 'w:doNotTrackFormatting', 'w:documentProtection', 'w:autoFormatOverride',
+  'w:styleLockTheme', 'w:styleLockQFSet', 'w:defaultTabStop', 'w:autoHyphenation',
+  'w:consecutiveHyphenLimit', 'w:hyphenationZone', 'w:doNotHyphenateCaps', 'w:showEnvelope',
+  'w:summaryLength', 'w:clickAndTypeStyle', 'w:defaultTableStyle', 'w:evenAndOddHeaders',
+  'w:bookFoldRevPrinting', 'w:bookFoldPrinting', 'w:bookFoldPrintingSheets',
+  'w:drawingGridHorizontalSpacing', 'w:drawingGridVerticalSpacing',
+  'w:displayHorizontalDrawingGridEvery', 'w:displayVerticalDrawingGridEvery',
+  'w:doNotUseMarginsForDrawingGridOrigin', 'w:drawingGridHorizontalOrigin',
+  'w:drawingGridVerticalOrigin', 'w:doNotShadeFormData', 'w:noPunctuationKerning',
+  'w:characterSpacingControl', 'w:printTwoOnOne', 'w:strictFirstAndLastChars',
+  'w:noLineBreaksAfter', 'w:noLineBreaksBefore', 'w:savePreviewPicture',
+  'w:doNotValidateAgainstSchema', 'w:saveInvalidXml', 'w:ignoreMixedContent',
+  'w:alwaysShowPlaceholderText', 'w:doNotDemarcateInvalidXml', 'w:saveXmlDataOnly',
+  'w:useXSLTWhenSaving', 'w:saveThroughXslt', 'w:showXMLTags', 'w:alwaysMergeEmptyNamespace',
+  'w:updateFields', 'w:hdrShapeDefaults', 'w:footnotePr', 'w:endnotePr', 'w:compat', 'w:docVars',
+  'w:rsids', 'm:mathPr', 'w:attachedSchema', 'w:themeFontLang', 'w:clrSchemeMapping',
+  'w:doNotIncludeSubdocsInStats', 'w:doNotAutoCompressPictures', 'w:forceUpgrade', 'w:captions',
+  'w:readModeInkLockDown', 'w:smartTagType', 'sl:schemaLibrary', 'w:shapeDefaults',
+  'w:doNotEmbedSmartTags', 'w:decimalSymbol', 'w:listSeparator'
+];
+
+/**
+ * 读取 zip 中的 XML 部件，不存在时返回 null
+ */
+export async function loadXmlPart(zip: JSZip, partPath: string): Promise<Document | null> {
+  const file = zip.file(partPath);
+  if (!file) return null;
+  const xml = await file.async('text');
+  return new DOMParser().parseFromString(xml, 'text/xml');
+}
+
+/**
+ * 将修改后的 XML 部件写回 zip
+ */
+export function saveXmlPart(zip: JSZip, partPath: string, doc: Document): void {
+  zip.file(partPath, new XMLSerializer().serializeToString(doc));
+}
+
+/**
+ * 获取元素的直接子元素，可按标签名过滤
+ */
+export function getChildElements(parent: Element, tagName?: string): Element[] {
+  const result: Element[] = [];
+  for (let node = parent.firstChild; node; node = node.nextSibling) {
+    if (node.nodeType === 1 && (!tagName || (node as Element).tagName === tagName)) {
+      result.push(node as Element);
+    }
+  }
+  return result;
+}
+
+/**
+ * 获取第一个指定标签名的直接子元素
+ */
+export function getFirstChild(parent: Element, tagName: string): Element | null {
+  return getChildElements(parent, tagName)[0] || null;
+}
+
+/**
+ * 获取或按规范顺序创建子元素
+ */
+export function ensureChild(parent: Element, tagName: string, order: string[]): Element {
+  const existing = getFirstChild(parent, tagName);
+  if (existing) return existing;
+
+  return insertChild(parent, parent.ownerDocument.createElementNS(W_NS, tagName), order);
+}
+
+/**
+ * 按规范顺序插入子元素，同名元素插在已有元素之后
+ */
+export function insertChild(parent: Element, child: Element, order: string[]): Element {
+  const rank = order.indexOf(child.tagName);
+  const successor = rank === -1 ? null : getChildElements(parent).find(el => {
+    const elRank = order.indexOf(el.tagName);
+    return elRank > rank;
+  });
+
+  if (successor) {
+    parent.insertBefore(child, successor);
+  } else {
+    parent.appendChild(child);
+  }
+  return child;
+}
+
+/**
+ * 删除所有指定标签名的直接子元素
+ */
+export function removeChildren(parent: Element, tagName: string): void {
+  getChildElements(parent, tagName).forEach(child => parent.removeChild(child));
+}
+
+/**
+ * 获取或创建段落属性 w:pPr（必须是段落的第一个子元素）
+ */
+export function ensureParagraphProperties(paragraph: Element): Element {
+  const existing = getFirstChild(paragraph, 'w:pPr');
+  if (existing) return existing;
+
+  const pPr = paragraph.ownerDocument.createElementNS(W_NS, 'w:pPr');
+  paragraph.insertBefore(pPr, paragraph.firstChild);
+  return pPr;
+}
+
+/**
+ * 获取或创建文本运行属性 w:rPr（必须是运行的第一个子元素）
+ */
+export function ensureRunProperties(run: Element): Element {
+  const existing = getFirstChild(run, 'w:rPr');
+  if (existing) return existing;
+
+  const rPr = run.ownerDocument.createElementNS(W_NS, 'w:rPr');
+  run.insertBefore(rPr, run.firstChild);
+  return rPr;
+}
+
+/**
+ * 设置带 w:val 的属性元素，如 <w:sz w:val="24"/>
+ */
+export function setValElement(parent: Element, tagName: string, value: string, order: string[]): Element {
+  const element = ensureChild(parent, tagName, order);
+  element.setAttribute('w:val', value);
+  return element;
+}
+
+/**
+ * 获取段落中所有文本运行（包括超链接、域等容器内的运行）
+ * 文本框中的段落单独处理，其中的运行不算作所在段落的运行
+ */
+export function getParagraphRuns(paragraph: Element): Element[] {
+  const runs: Element[] = [];
+  const collect = (parent: Element) => {
+    for (const child of getChildElements(parent)) {
+      if (child.tagName === 'w:r') {
+        runs.push(child);
+      } else if (child.tagName !== 'w:pPr' && child.tagName !== 'w:del' && child.tagName !== 'w:txbxContent') {
+        collect(child);
+      }
+    }
+  };
+  collect(paragraph);
+  return runs;
+}
+
+/**
+ * 获取段落的纯文本内容
+ */
+export function getParagraphText(paragraph: Element): string {
+  return getParagraphRuns(paragraph)
+    .map(run => getChildElements(run, 'w:t').map(t => t.textContent || '').join(''))
+    .join('');
+}
+
+/**
+ * 把在段落纯文本上计算的替换应用到段落的各个 w:t，替换跨越多个文本运行时写入第一个运行
+ * @returns 替换数
+ */
+export function editParagraphText(paragraph: Element, getEdits: (text: string) => TextEdit[]): number {
+  const texts = getParagraphRuns(paragraph).flatMap(run => getChildElements(run, 'w:t'));
+  const segments = texts.map(t => t.textContent || '');
+  const edits = getEdits(segments.join(''));
+  if (edits.length === 0) return 0;
+
+  applyTextEdits(segments, edits).forEach((text, i) => {
+    if (text !== segments[i]) {
+      texts[i].textContent = text;
+      texts[i].setAttribute('xml:space', 'preserve');
+    }
+  });
+  return edits.length;
+}
+
+/**
+ * 按 mammoth 纯文本的分行方式获取段落中的非空文本行
+ * （mammoth 的纯文本不输出换行符 w:br，一个非空段落只对应一行，空段落没有对应的行）
+ */
+export function getParagraphTextLines(paragraph: Element): string[] {
+  let text = '';
+  for (const run of getParagraphRuns(paragraph)) {
+    for (const child of getChildElements(run)) {
+      if (child.tagName === 'w:t') {
+        text += child.textContent || '';
+      } else if (child.tagName === 'w:tab') {
+        text += '\t';
+      }
+    }
+  }
+  return text.trim().length > 0 ? [text] : [];
+}
+
+/**
+ * 判断段落是否用换行符 w:br 分成了多个非空的行
+ */
+export function hasLineBreaks(paragraph: Element): boolean {
+  const lines = [''];
+  for (const run of getParagraphRuns(paragraph)) {
+    for (const child of getChildElements(run)) {
+      if (child.tagName === 'w:t') {
+        lines[lines.length - 1] += child.textContent || '';
+      } else if (child.tagName === 'w:br' || child.tagName === 'w:cr') {
+        lines.push('');
+      }
+    }
+  }
+  return lines.filter(line => line.trim().length > 0).length > 1;
+}
+
+/**
+ * 判断段落是否位于表格单元格内
+ */
+export function isInTable(paragraph: Element): boolean {
+  for (let node = paragraph.parentNode; node; node = node.parentNode) {
+    if (node.nodeType === 1 && (node as Element).tagName === 'w:tc') return true;
+  }
+  return false;
+}
+
+/**
+ * 获取 w:body 下按文档顺序排列的所有段落（包括表格和文本框内的段落）
+ * 文本框在 mc:Choice 和 mc:Fallback 中各有一份，与 mammoth 一致只取 mc:Fallback 中的段落，
+ * 各段落与分析结果按行对应时都应使用这个列表
+ */
+export function getBodyParagraphs(doc: Document): Element[] {
+  const body = doc.getElementsByTagName('w:body')[0];
+  if (!body) return [];
+
+  const paragraphs = body.getElementsByTagName('w:p');
+  const result: Element[] = [];
+  for (let i = 0; i < paragraphs.length; i++) {
+    if (!isInAlternateChoice(paragraphs[i])) {
+      result.push(paragraphs[i]);
+    }
+  }
+  return result;
+}
+
+/**
+ * 判断元素是否位于 mc:AlternateContent 的 mc:Choice 中（mammoth 不读取这部分内容）
+ */
+export function isInAlternateChoice(element: Element): boolean {
+  for (let node = element.parentNode; node; node = node.parentNode) {
+    if (node.nodeType === 1 && (node as Element).tagName === 'mc:Choice') return true;
+  }
+  return false;
+}
+
+/**
+ * 获取文档中所有节属性 w:sectPr（段落内的分节符和 w:body 末尾的最后一节）
+ */
+export function getSectionProperties(doc: Document): Element[] {
+  const sections = doc.getElementsByTagName('w:sectPr');
+  const result: Element[] = [];
+  for (let i = 0; i < sections.length; i++) {
+    // 修订记录 w:sectPrChange 中的旧节属性不参与修改
+    const parent = sections[i].parentNode as Element | null;
+    if (parent && parent.tagName !== 'w:sectPrChange') {
+      result.push(sections[i]);
+    }
+  }
+  return result;
+}
+
+/**
+ * 将 #RRGGBB 形式的颜色转换为 Word 使用的 RRGGBB
+ */
+export function toWordColor(color: string): string {
+  return color.replace(/^#/, '').toUpperCase();
+}
@@ -4,25 +4,38 @@
  */
 import { DocumentAnalyzer } from './document/DocumentAnalyzer';
 import { DocumentModifier } from './document/DocumentModifier';
+import { TextReplacer } from './document/TextReplacer';
+import { DocumentSanitizer } from './document/DocumentSanitizer';
 import { 
   DocxAnalysisResult,
-  FontModificationOptions 
+  DocumentProcessingOptions,
+  FontModificationOptions,
+  ReplacementRule,
+  SanitizeOptions,
+  SanitizeReport,
+  TypographyOptions,
+  TypographyReport
 } from '@/types/document-processing';
 
 export default class DocxProcessor {
   private documentAnalyzer: DocumentAnalyzer;
   private documentModifier: DocumentModifier;
+  private textReplacer: TextReplacer;
+  private documentSanitizer: DocumentSanitizer;
 
   constructor() {
     this.documentAnalyzer = new DocumentAnalyzer();
     this.documentModifier = new DocumentModifier();
+    this.textReplacer = new TextReplacer();
+    this.documentSanitizer = new DocumentSanitizer();
   }
 
   /**
    * 解析 docx 文件的 Buffer，提取标题、作者、正文和字体信息
+   * @param typography 设置时统计排版规范化各规则的替换次数
    */  
-  async analyzeDocument(inputBuffer: Buffer, useDeepDetection: boolean = true): Promise<DocxAnalysisResult> {
-    return this.documentAnalyzer.analyzeDocument(inputBuffer, useDeepDetection);
+  async analyzeDocument(inputBuffer: Buffer, useDeepDetection: boolean = true, typography?: TypographyOptions): Promise<DocxAnalysisResult> {
+    return this.documentAnalyzer.analyzeDocument(inputBuffer, useDeepDetection, typography);
   }
 
   /**
@@ -34,19 +47,21 @@ export default class DocxProcessor {
 
   /**
    * 修改文档字体和样式 (基于Buffer)
-   * @returns {Promise<Buffer>} 返回包含新文档内容的Buffer
+   * @returns 新文档内容的Buffer，设置了排版规范化规则时附带各规则实际的替换次数，以及处理中跳过的设置说明
    */
   async modifyFonts(
     inputBuffer: Buffer, 
     titleOptions?: FontModificationOptions,
     bodyOptions?: FontModificationOptions,
-    authorOptions?: FontModificationOptions
-  ): Promise<Buffer> {
+    authorOptions?: FontModificationOptions,
+    processingOptions?: DocumentProcessingOptions
+  ): Promise<{ buffer: Buffer; typography?: TypographyReport; warnings: string[] }> {
     return this.documentModifier.modifyFonts(
       inputBuffer, 
       titleOptions, 
       bodyOptions, 
-      authorOptions
+      authorOptions,
+      processingOptions
     );
   }
   
@@ -77,4 +92,20 @@ export default class DocxProcessor {
   ): Promise<Buffer> {
     return this.documentModifier.modifyTitle(inputBuffer, prefix, suffix);
   }
+
+  /**
+   * 按顺序应用查找替换规则，改写正文、表格、页眉页脚和脚注尾注的文字 (基于Buffer)
+   * @returns 替换后的文档和替换总数
+   */
+  async replaceText(inputBuffer: Buffer, rules: ReplacementRule[]): Promise<{ buffer: Buffer; count: number }> {
+    return this.textReplacer.replace(inputBuffer, rules);
+  }
+
+  /**
+   * 对外发送前清理批注、修订作者、rsid、隐藏文字、个人信息、自定义 XML 和附加模板 (基于Buffer)
+   * @returns 清理后的文档和清理掉的内容
+   */
+  async sanitize(inputBuffer: Buffer, options?: SanitizeOptions): Promise<{ buffer: Buffer; report: SanitizeReport }> {
+    return this.documentSanitizer.sanitize(inputBuffer, options);
+  }
 } 
\ No newline at end of file
@@ -1,4 +1,6 @@
 // filepath: g:\PROJECTALL\c-doc-nextjs\lib\font-utils.ts
+import { RunFontOptions } from '@/types/document-processing';
+
 /**
  * 中文字号与磅值（pt）的映射表
  * 用于将中文传统字号转换为文档处理库需要的磅值
@@ -42,6 +44,21 @@ export const commonChineseFonts = [
   '华文中宋'
 ];
 
+/**
+ * 换算 w:rFonts 各槽位的字体：单独设置的槽位优先，其余使用统一字体；都未设置的槽位为 undefined
+ * @param fontName 统一字体，通常为中文字体
+ */
+export function resolveRunFonts(fontName?: string, fonts?: RunFontOptions): RunFontOptions | undefined {
+  const ascii = fonts?.ascii || fontName;
+  const result: RunFontOptions = {
+    eastAsia: fonts?.eastAsia || fontName,
+    ascii,
+    hAnsi: fonts?.hAnsi || ascii,
+    cs: fonts?.cs || ascii
+  };
+  return Object.values(result).some(Boolean) ? result : undefined;
+}
+
 /**
  * 将中文字号转换为磅值
  * @param chineseFontSize 中文字号字符串，如"小四"，或者直接是数字
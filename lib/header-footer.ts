@@ -0,0 +1,126 @@
+/**
+ * 页眉页脚工具
+ * 将模板中的页眉、页脚和页码设置整理为默认（奇数页）、偶数页和首页各自的段落
+ */
+import { HeaderFooterOptions, HeaderFooterText, PageNumberStyle } from '@/types/document-processing';
+
+export type HeaderFooterType = 'default' | 'even' | 'first';
+
+/**
+ * 段落文字中页码的占位符，输出时替换为 PAGE 域
+ */
+export const PAGE_NUMBER_PLACEHOLDER = '{page}';
+
+const PAGE_NUMBER_TEXT: Record<PageNumberStyle, string> = {
+  'plain': PAGE_NUMBER_PLACEHOLDER,
+  'dashed': `— ${PAGE_NUMBER_PLACEHOLDER} —`,
+  'chinese': `第 ${PAGE_NUMBER_PLACEHOLDER} 页`
+};
+
+/**
+ * 页眉或页脚中的一个段落
+ */
+export interface HeaderFooterParagraph {
+  text: string;  // 已替换 {title} 等占位符，可能包含页码占位符
+  alignment: 'left' | 'center' | 'right';
+}
+
+/**
+ * 整理后的页眉页脚，只包含需要输出的类型
+ */
+export interface ResolvedHeaderFooter {
+  headers: Partial<Record<HeaderFooterType, HeaderFooterParagraph[]>>;
+  footers: Partial<Record<HeaderFooterType, HeaderFooterParagraph[]>>;
+  titlePage: boolean;   // 首页不同
+  evenAndOdd: boolean;  // 奇偶页不同
+  frontMatterFormat?: 'upperRoman' | 'lowerRoman';
+}
+
+/**
+ * 占位符的取值
+ */
+export interface HeaderFooterValues {
+  title?: string;
+  author?: string;
+  date: Date;
+}
+
+/**
+ * 格式化为中文日期，如 2024年5月1日
+ */
+export function formatChineseDate(date: Date): string {
+  return `${date.getFullYear()}年${date.getMonth() + 1}月${date.getDate()}日`;
+}
+
+/**
+ * 替换 {title}、{author}、{date} 占位符
+ */
+export function fillPlaceholders(text: string, values: HeaderFooterValues): string {
+  return text
+    .replace(/\{title\}/g, values.title || '')
+    .replace(/\{author\}/g, values.author || '')
+    .replace(/\{date\}/g, formatChineseDate(values.date));
+}
+
+/**
+ * 判断文字中是否含有 {title}、{author}、{date} 占位符
+ */
+export function hasPlaceholders(text: string): boolean {
+  return /\{(?:title|author|date)\}/.test(text);
+}
+
+/**
+ * 按段落文字中的页码占位符拆分，奇数位置为页码
+ */
+export function splitPageNumber(text: string): string[] {
+  return text.split(PAGE_NUMBER_PLACEHOLDER);
+}
+
+/**
+ * 整理页眉页脚设置；页码位于外侧时自动启用奇偶页不同
+ */
+export function resolveHeaderFooter(options: HeaderFooterOptions, values: HeaderFooterValues): ResolvedHeaderFooter {
+  const pageNumber = options.pageNumber;
+  const outside = pageNumber?.position === 'outside';
+  const evenAndOdd = !!options.differentOddEven || outside;
+  const titlePage = !!options.differentFirstPage;
+  const types: HeaderFooterType[] = ['default'];
+  if (evenAndOdd) types.push('even');
+  if (titlePage) types.push('first');
+
+  const createParagraphs = (part: HeaderFooterText | undefined, type: HeaderFooterType): HeaderFooterParagraph[] => {
+    const text = type === 'first' ? part?.firstText
+      : type === 'even' ? part?.evenText || part?.text
+      : part?.text;
+    return text ? [{ text: fillPlaceholders(text, values), alignment: part?.alignment || 'center' }] : [];
+  };
+
+  const result: ResolvedHeaderFooter = {
+    headers: {},
+    footers: {},
+    titlePage,
+    evenAndOdd,
+    frontMatterFormat: pageNumber?.frontMatterFormat
+  };
+  for (const type of types) {
+    result.headers[type] = createParagraphs(options.header, type);
+
+    const footer = createParagraphs(options.footer, type);
+    if (pageNumber && type !== 'first') {
+      footer.push({
+        text: PAGE_NUMBER_TEXT[pageNumber.style],
+        alignment: outside ? (type === 'even' ? 'left' : 'right') : pageNumber.position as HeaderFooterParagraph['alignment']
+      });
+    }
+    result.footers[type] = footer;
+  }
+
+  // 所有页都没有内容时不输出页眉或页脚，保持原样
+  if (Object.values(result.headers).every(paragraphs => paragraphs!.length === 0)) {
+    result.headers = {};
+  }
+  if (Object.values(result.footers).every(paragraphs => paragraphs!.length === 0)) {
+    result.footers = {};
+  }
+  return result;
+}
@@ -0,0 +1,159 @@
+/**
+ * 标题编号工具
+ * 删除标题开头的手动编号（一、（一）1. 1.1 （1）第一章等），按模板设置的各级格式重新计算编号
+ * 编号可以写成文字，也可以换算为 Word 多级列表的编号定义
+ */
+import { DocxAnalysisResult, HeadingNumberFormat, HeadingNumberingOptions } from '@/types/document-processing';
+import { TextEdit } from './text-edits';
+
+const CHINESE_DIGITS = '零一二三四五六七八九';
+const CHINESE_NUMBER = '[一二三四五六七八九十百零〇]+';
+// 标题开头的手动编号，依次为：第一章、一、（一）、1.1.1、1. 或 1、、（1）、"1 "、①
+const MANUAL_NUMBER_PATTERN = new RegExp('^\\s*(?:'
+  + `第\\s*(?:${CHINESE_NUMBER}|\\d{1,3})\\s*(?:章|节|篇|部分)`
+  + `|${CHINESE_NUMBER}\\s*[、.．]`
+  + `|[（(]\\s*${CHINESE_NUMBER}\\s*[)）]`
+  + '|\\d{1,3}(?:\\s*[.．]\\s*\\d{1,3})+\\s*[.．]?'
+  + '|\\d{1,3}\\s*[.．、](?!\\d)'
+  + '|[（(]\\s*\\d{1,3}\\s*[)）]'
+  + '|\\d{1,2}(?=\\s)'
+  + '|[\\u2460-\\u2473]'
+  + ')[\\s\\u3000]*');
+// 目录、摘要、参考文献、致谢、附录等章节标题不参与编号
+const SECTION_HEADING_PATTERN = /^(目\s*录|摘\s*要|abstract|参\s*考\s*文\s*献|references|bibliography|致\s*谢|后\s*记|acknowledge?ments?|附\s*录|appendix)/i;
+// 没有编号的引言、前言同样不计章，写成"第一章 引言"、"1 引言"时照常计数
+const UNNUMBERED_SECTION_PATTERN = /^(引\s*言|前\s*言|序\s*言|introduction|preface)\s*$/i;
+
+/**
+ * Word 多级列表中一级编号的定义
+ */
+export interface HeadingNumberingLevel {
+  format: 'chineseCounting' | 'decimal' | 'none';  // w:numFmt
+  text: string;                                    // w:lvlText
+  suffix: 'nothing' | 'space';                     // 编号之后的分隔
+  isLegal: boolean;                                // 各级编号统一显示为阿拉伯数字（w:isLgl）
+}
+
+/**
+ * 把正整数转为中文小写数字，与 Word 的 chineseCounting 编号一致，如 12 为"十二"
+ */
+export function toChineseNumber(n: number): string {
+  if (n < 10) return CHINESE_DIGITS[n];
+  if (n < 100) {
+    const tens = Math.floor(n / 10);
+    const ones = n % 10;
+    return `${tens > 1 ? CHINESE_DIGITS[tens] : ''}十${ones > 0 ? CHINESE_DIGITS[ones] : ''}`;
+  }
+  return String(n);
+}
+
+/**
+ * 获取标题开头手动编号（含其后空白）的长度，没有编号时为 0
+ */
+export function getManualNumberLength(text: string): number {
+  return text.match(MANUAL_NUMBER_PATTERN)?.[0].length ?? 0;
+}
+
+/**
+ * 判断段落是否为参与编号的标题：排除文档标题、表格中的段落、摘要以及目录、参考文献、没有编号的引言等章节标题
+ * 题注按章编号时同样以此判断一级标题是否计章
+ */
+export function isNumberedHeading(para: DocxAnalysisResult['paragraphs'][number]): boolean {
+  if (!para.headingLevel || para.isTitle || para.tableIndex !== undefined || para.abstractIndex !== undefined) return false;
+  const numberLength = getManualNumberLength(para.text);
+  const text = para.text.substring(numberLength).trim();
+  if (SECTION_HEADING_PATTERN.test(text)) return false;
+  return numberLength > 0 || !UNNUMBERED_SECTION_PATTERN.test(text);
+}
+
+/**
+ * 计算需要重新编号的标题及其新编号
+ * 计数按标题级别进行，出现上级标题时下级重新计数；未设置格式的级别照常计数但保持原样，
+ * 目录、摘要、参考文献等章节标题不计数（见 isNumberedHeading）
+ * @param textNumbers 是否计算文字编号，使用 Word 自动编号时各标题的编号为空字符串
+ * @returns 以段落索引为键，值为标题级别和编号文字
+ */
+export function resolveHeadingNumbering(
+  analysis: Pick<DocxAnalysisResult, 'paragraphs'>,
+  options: HeadingNumberingOptions,
+  textNumbers: boolean = options.mode === 'text'
+): Map<number, { level: number; number: string }> {
+  const result = new Map<number, { level: number; number: string }>();
+  if (!options.levels.some(Boolean)) return result;
+
+  const counters = [0, 0, 0, 0];
+  analysis.paragraphs.forEach((para, index) => {
+    if (!isNumberedHeading(para)) return;
+    const level = para.headingLevel!;
+
+    counters[level - 1]++;
+    counters.fill(0, level);
+    const format = options.levels[level - 1];
+    if (!format) return;
+    result.set(index, { level, number: textNumbers ? formatHeadingNumber(format, level, counters) : '' });
+  });
+  return result;
+}
+
+/**
+ * 计算把标题开头的手动编号替换为新编号的替换，编号不变时返回空数组
+ * @param number 新编号，空字符串表示只删除原编号
+ */
+export function getHeadingNumberEdits(text: string, number: string): TextEdit[] {
+  const length = getManualNumberLength(text);
+  if (text.substring(0, length) === number) return [];
+  return [{ offset: 0, length, text: number }];
+}
+
+/**
+ * 换算 Word 多级列表一至四级的编号定义，未设置格式的级别不显示编号
+ */
+export function getHeadingNumberingLevels(options: HeadingNumberingOptions): HeadingNumberingLevel[] {
+  return [1, 2, 3, 4].map(level => {
+    const placeholder = `%${level}`;
+    switch (options.levels[level - 1]) {
+      case 'chineseComma':
+        return { format: 'chineseCounting', text: `${placeholder}、`, suffix: 'nothing', isLegal: false };
+      case 'chineseParen':
+        return { format: 'chineseCounting', text: `（${placeholder}）`, suffix: 'nothing', isLegal: false };
+      case 'decimal':
+        return { format: 'decimal', text: `${placeholder}.`, suffix: 'nothing', isLegal: false };
+      case 'decimalParen':
+        return { format: 'decimal', text: `（${placeholder}）`, suffix: 'nothing', isLegal: false };
+      case 'chapter':
+        return { format: 'chineseCounting', text: `第${placeholder}${level === 1 ? '章' : '节'}`, suffix: 'space', isLegal: false };
+      case 'outline':
+        return {
+          format: 'decimal',
+          text: Array.from({ length: level }, (_, i) => `%${i + 1}`).join('.'),
+          suffix: 'space',
+          isLegal: true
+        };
+      default:
+        return { format: 'none', text: '', suffix: 'nothing', isLegal: false };
+    }
+  });
+}
+
+/**
+ * 生成标题的文字编号，与 Word 多级列表显示的编号一致
+ * @param counters 各级标题的当前计数
+ */
+function formatHeadingNumber(format: HeadingNumberFormat, level: number, counters: number[]): string {
+  const n = counters[level - 1];
+  switch (format) {
+    case 'chineseComma':
+      return `${toChineseNumber(n)}、`;
+    case 'chineseParen':
+      return `（${toChineseNumber(n)}）`;
+    case 'decimal':
+      return `${n}.`;
+    case 'decimalParen':
+      return `（${n}）`;
+    case 'chapter':
+      return `第${toChineseNumber(n)}${level === 1 ? '章' : '节'} `;
+    case 'outline':
+      // 上级标题尚未出现时按 1 计
+      return `${counters.slice(0, level).map(count => Math.max(count, 1)).join('.')} `;
+  }
+}
@@ -4,16 +4,63 @@
  * 使用JSZip解析docx文件，避免docx4js的稳定性问题
  */
 import JSZip from 'jszip';
+import { ImagePlacement, ImageAnchorPosition, ImageFormat } from '@/types/document-processing';
+import {
+  loadXmlPart,
+  getBodyParagraphs,
+  getParagraphRuns,
+  getChildElements,
+  getFirstChild
+} from './document/ooxml-utils';
+
+/**
+ * 各图片格式的 MIME 类型和标准扩展名
+ */
+export const IMAGE_FORMATS: Record<ImageFormat, { mimeType: string; extension: string }> = {
+  png: { mimeType: 'image/png', extension: 'png' },
+  jpeg: { mimeType: 'image/jpeg', extension: 'jpg' },
+  gif: { mimeType: 'image/gif', extension: 'gif' },
+  bmp: { mimeType: 'image/bmp', extension: 'bmp' },
+  tiff: { mimeType: 'image/tiff', extension: 'tiff' },
+  webp: { mimeType: 'image/webp', extension: 'webp' },
+  svg: { mimeType: 'image/svg+xml', extension: 'svg' },
+  emf: { mimeType: 'image/x-emf', extension: 'emf' },
+  wmf: { mimeType: 'image/x-wmf', extension: 'wmf' }
+};
+
+// 扩展名与图片格式的对应关系，用于识别 media 中的图片文件
+const EXTENSION_FORMATS: Record<string, ImageFormat> = {
+  '.png': 'png',
+  '.jpg': 'jpeg',
+  '.jpeg': 'jpeg',
+  '.jpe': 'jpeg',
+  '.gif': 'gif',
+  '.bmp': 'bmp',
+  '.dib': 'bmp',
+  '.tif': 'tiff',
+  '.tiff': 'tiff',
+  '.webp': 'webp',
+  '.svg': 'svg',
+  '.emf': 'emf',
+  '.wmf': 'wmf'
+};
+
+// Word 在 a:blip 扩展中引用 SVG 原图的元素
+const SVG_BLIP_TAG = 'asvg:svgBlip';
 
 export interface ExtractedImage {
   name: string;
   base64Data: string;
   mimeType: string;
+  format?: ImageFormat; // 真实格式（可能与扩展名不一致）
   size: number;
   paragraphIndex?: number;
   relationshipId?: string;
   runIndex?: number; // 在段落中的run索引
   xmlPosition?: number; // 在XML中的位置
+  placement?: ImagePlacement; // 原始尺寸和位置
+  svgImageName?: string; // 此图片是 Word SVG 图片的 PNG 后备图时，对应的 SVG 图片名称
+  fallbackImageName?: string; // 此图片是 SVG 图片时，对应的后备图名称（随后备图一同输出）
 }
 
 export interface ImageRelationshipInfo {
@@ -45,6 +92,7 @@ export interface ImageExtractionResult {
     totalImageReferences: number;
     matchedImages: number;
     unlocatedImages: number;
+    formats: Partial<Record<ImageFormat, number>>; // 各格式的图片数量
   };
 }
 
@@ -67,7 +115,8 @@ export class ImageExtractor {
         paragraphsWithImages: 0,
         totalImageReferences: 0,
         matchedImages: 0,
-        unlocatedImages: 0
+        unlocatedImages: 0,
+        formats: {}
       }
     };
 
@@ -92,12 +141,22 @@ export class ImageExtractor {
       console.log('🎯 执行精确图片位置匹配...');
       this.performPreciseImageMatching(result, mediaImages, relationshipDetails, paragraphImages);
       
+      // 5. 读取图片的原始尺寸、裁剪和位置
+      try {
+        const { placements, svgPairs } = await this.extractImagePlacements(zip);
+        this.attachImagePlacements(result, placements);
+        this.pairSvgImages(result, svgPairs);
+      } catch (placementError) {
+        console.warn('⚠️  读取图片尺寸和位置时出错:', placementError);
+      }
+      
       console.log('✅ 图片提取完成:', {
         总图片数: result.totalCount,
         总段落数: result.statistics.totalParagraphs,
         包含图片的段落: result.statistics.paragraphsWithImages,
         匹配成功: result.statistics.matchedImages,
-        位置未知: result.statistics.unlocatedImages
+        位置未知: result.statistics.unlocatedImages,
+        图片格式: result.statistics.formats
       });
       
       return result;
@@ -127,17 +186,19 @@ export class ImageExtractor {
         // 检查是否是图片文件
         if (this.isImageFile(fileName)) {
           const imageBuffer = await file.async('nodebuffer');
-          const mimeType = this.getMimeType(fileName);
+          const format = this.detectImageFormat(imageBuffer, fileName);
+          const mimeType = IMAGE_FORMATS[format].mimeType;
           
           const extractedImage: ExtractedImage = {
             name: fileName,
             base64Data: `data:${mimeType};base64,${imageBuffer.toString('base64')}`,
             mimeType,
+            format,
             size: imageBuffer.length,
           };
           
           images.push(extractedImage);
-          console.log(`提取图片: ${fileName}, 大小: ${imageBuffer.length} bytes`);
+          console.log(`提取图片: ${fileName}, 格式: ${format}, 大小: ${imageBuffer.length} bytes`);
         }
       } catch (error) {
         console.warn(`提取图片 ${fileName} 时出错:`, error);
@@ -376,6 +437,11 @@ export class ImageExtractor {
     result.statistics.totalImageReferences = paragraphImages.reduce(
       (sum, p) => sum + p.images.length, 0
     );
+    mediaImages.forEach(img => {
+      if (img.format) {
+        result.statistics.formats[img.format] = (result.statistics.formats[img.format] || 0) + 1;
+      }
+    });
     
     let matchedCount = 0;
     
@@ -420,35 +486,208 @@ export class ImageExtractor {
     });
   }
 
+  /**
+   * 解析正文中每个 w:drawing 的尺寸、裁剪和位置，以关系ID为键
+   * 段落位置按分析结果的方式（非空文本行）计数
+   * 同时返回 SVG 图片与其后备图的关系ID对应（后备图关系ID -> SVG 关系ID）
+   */
+  private async extractImagePlacements(
+    zip: JSZip
+  ): Promise<{ placements: Map<string, ImagePlacement>; svgPairs: Map<string, string> }> {
+    const placements = new Map<string, ImagePlacement>();
+    const svgPairs = new Map<string, string>();
+    const documentXml = await loadXmlPart(zip, 'word/document.xml');
+    if (!documentXml) return { placements, svgPairs };
+
+    let lineIndex = 0;
+    for (const paragraph of getBodyParagraphs(documentXml)) {
+      // 按 w:br 拆分的各行文本，以及每张图片所在的行和行内位置
+      const lines: string[] = [''];
+      const drawings: { drawing: Element; line: number; offset: number }[] = [];
+
+      for (const run of getParagraphRuns(paragraph)) {
+        for (const child of getChildElements(run)) {
+          if (child.tagName === 'w:t') {
+            lines[lines.length - 1] += child.textContent || '';
+          } else if (child.tagName === 'w:tab') {
+            lines[lines.length - 1] += '\t';
+          } else if (child.tagName === 'w:br' || child.tagName === 'w:cr') {
+            lines.push('');
+          } else if (child.tagName === 'w:drawing') {
+            drawings.push({ drawing: child, line: lines.length - 1, offset: lines[lines.length - 1].length });
+          }
+        }
+      }
+
+      for (const { drawing, line, offset } of drawings) {
+        const nonEmptyBefore = lines.slice(0, line).filter(text => text.trim().length > 0).length;
+        const hasText = lines[line].trim().length > 0;
+        const parsed = this.parseDrawing(drawing, lineIndex + nonEmptyBefore, hasText ? offset : undefined);
+        if (parsed && !placements.has(parsed.relationshipId)) {
+          placements.set(parsed.relationshipId, parsed.placement);
+        }
+        if (parsed?.svgRelationshipId) {
+          svgPairs.set(parsed.relationshipId, parsed.svgRelationshipId);
+        }
+      }
+
+      lineIndex += lines.filter(text => text.trim().length > 0).length;
+    }
+
+    return { placements, svgPairs };
+  }
+
+  /**
+   * 解析 wp:inline / wp:anchor 中的尺寸、裁剪和浮动位置
+   */
+  private parseDrawing(
+    drawing: Element,
+    lineIndex: number,
+    textOffset?: number
+  ): { relationshipId: string; svgRelationshipId?: string; placement: ImagePlacement } | null {
+    const container = getFirstChild(drawing, 'wp:inline') || getFirstChild(drawing, 'wp:anchor');
+    const extent = container && getFirstChild(container, 'wp:extent');
+    const blip = container?.getElementsByTagName('a:blip')[0];
+    const relationshipId = blip?.getAttribute('r:embed');
+    if (!container || !extent || !relationshipId) return null;
+
+    const placement: ImagePlacement = {
+      width: parseInt(extent.getAttribute('cx') || '0', 10),
+      height: parseInt(extent.getAttribute('cy') || '0', 10),
+      type: container.tagName === 'wp:anchor' ? 'anchor' : 'inline',
+      lineIndex,
+      textOffset
+    };
+
+    const srcRect = container.getElementsByTagName('a:srcRect')[0];
+    if (srcRect) {
+      const crop = {
+        left: parseInt(srcRect.getAttribute('l') || '0', 10),
+        top: parseInt(srcRect.getAttribute('t') || '0', 10),
+        right: parseInt(srcRect.getAttribute('r') || '0', 10),
+        bottom: parseInt(srcRect.getAttribute('b') || '0', 10)
+      };
+      if (crop.left || crop.top || crop.right || crop.bottom) {
+        placement.crop = crop;
+      }
+    }
+
+    if (placement.type === 'anchor') {
+      const wrapTypes: Record<string, NonNullable<ImagePlacement['anchor']>['wrap']> = {
+        'wp:wrapNone': 'none',
+        'wp:wrapSquare': 'square',
+        'wp:wrapTight': 'tight',
+        'wp:wrapThrough': 'through',
+        'wp:wrapTopAndBottom': 'topAndBottom'
+      };
+      const wrapElement = getChildElements(container).find(el => el.tagName in wrapTypes);
+      placement.anchor = {
+        horizontal: this.parseAnchorPosition(getFirstChild(container, 'wp:positionH')),
+        vertical: this.parseAnchorPosition(getFirstChild(container, 'wp:positionV')),
+        wrap: wrapElement ? wrapTypes[wrapElement.tagName] : 'none',
+        behindDocument: container.getAttribute('behindDoc') === '1'
+      };
+    }
+
+    // Word 插入的 SVG 图片：a:blip 引用 PNG 后备图，SVG 原图在扩展 asvg:svgBlip 中
+    const svgRelationshipId = blip?.getElementsByTagName(SVG_BLIP_TAG)[0]?.getAttribute('r:embed') || undefined;
+
+    return { relationshipId, svgRelationshipId, placement };
+  }
+
+  /**
+   * 解析 wp:positionH / wp:positionV
+   */
+  private parseAnchorPosition(position: Element | null): ImageAnchorPosition {
+    if (!position) {
+      return { relativeFrom: 'column', offset: 0 };
+    }
+    const offset = getFirstChild(position, 'wp:posOffset')?.textContent;
+    const align = getFirstChild(position, 'wp:align')?.textContent;
+    return {
+      relativeFrom: position.getAttribute('relativeFrom') || 'column',
+      offset: offset ? parseInt(offset, 10) : undefined,
+      align: align || undefined
+    };
+  }
+
+  /**
+   * 将解析到的尺寸和位置关联到对应的图片文件
+   */
+  private attachImagePlacements(result: ImageExtractionResult, placements: Map<string, ImagePlacement>) {
+    let attached = 0;
+    for (const image of result.images) {
+      const relationshipId = this.getImageRelationshipId(result, image);
+      const placement = relationshipId ? placements.get(relationshipId) : undefined;
+      if (placement) {
+        image.placement = placement;
+        attached++;
+      }
+    }
+    console.log(`📐 读取到${attached}张图片的原始尺寸和位置`);
+  }
+
+  /**
+   * 关联 Word SVG 图片与其后备图，SVG 图片随后备图输出，不再单独定位
+   */
+  private pairSvgImages(result: ImageExtractionResult, svgPairs: Map<string, string>) {
+    for (const [fallbackRelationshipId, svgRelationshipId] of svgPairs) {
+      const fallbackImage = result.images.find(img => this.getImageRelationshipId(result, img) === fallbackRelationshipId);
+      const svgImage = result.images.find(img => this.getImageRelationshipId(result, img) === svgRelationshipId);
+      if (fallbackImage && svgImage && svgImage.format === 'svg') {
+        fallbackImage.svgImageName = svgImage.name;
+        svgImage.fallbackImageName = fallbackImage.name;
+        console.log(`🔀 SVG 图片 ${svgImage.name} 使用后备图 ${fallbackImage.name}`);
+      }
+    }
+  }
+
+  /**
+   * 获取图片的关系ID，未在段落中匹配到时按关系文件中的目标文件名查找
+   */
+  private getImageRelationshipId(result: ImageExtractionResult, image: ExtractedImage): string | undefined {
+    const imageName = image.name.split('/').pop() || image.name;
+    return image.relationshipId ||
+      result.relationshipDetails.find(rel => rel.imageName === imageName)?.relationshipId;
+  }
+
   /**
    * 检查文件是否是图片
    */
   private isImageFile(fileName: string): boolean {
-    const imageExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.tiff', '.svg'];
-    const parts = fileName.toLowerCase().split('.');
-    if (parts.length < 2) return false;
-    const ext = `.${parts.pop()}`;
-    return imageExtensions.includes(ext);
+    return this.getExtension(fileName) in EXTENSION_FORMATS;
   }
 
   /**
-   * 根据文件名获取MIME类型
+   * 根据文件头识别图片的真实格式，无法识别时按扩展名判断
    */
-  private getMimeType(fileName: string): string {
+  private detectImageFormat(buffer: Buffer, fileName: string): ImageFormat {
+    const startsWith = (...bytes: number[]) => bytes.every((byte, i) => buffer[i] === byte);
+
+    if (startsWith(0x89, 0x50, 0x4E, 0x47)) return 'png';
+    if (startsWith(0xFF, 0xD8, 0xFF)) return 'jpeg';
+    if (startsWith(0x47, 0x49, 0x46, 0x38)) return 'gif';
+    if (startsWith(0x42, 0x4D)) return 'bmp';
+    if (startsWith(0x49, 0x49, 0x2A, 0x00) || startsWith(0x4D, 0x4D, 0x00, 0x2A)) return 'tiff';
+    if (buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') return 'webp';
+    // EMF 以 EMR_HEADER 记录开头，偏移 40 处为 " EMF" 签名
+    if (startsWith(0x01, 0x00, 0x00, 0x00) && buffer.toString('ascii', 40, 44) === ' EMF') return 'emf';
+    // WMF 可能带有 Aldus 可放置文件头
+    if (startsWith(0xD7, 0xCD, 0xC6, 0x9A) || startsWith(0x01, 0x00, 0x09, 0x00) || startsWith(0x02, 0x00, 0x09, 0x00)) {
+      return 'wmf';
+    }
+    const head = buffer.toString('utf8', 0, 1024).replace(/^\uFEFF/, '').trimStart();
+    if (head.startsWith('<') && /<svg[\s>]/i.test(head)) return 'svg';
+
+    return EXTENSION_FORMATS[this.getExtension(fileName)] || 'png';
+  }
+
+  /**
+   * 获取小写的文件扩展名（含点号）
+   */
+  private getExtension(fileName: string): string {
     const parts = fileName.toLowerCase().split('.');
-    const ext = parts.length > 1 ? `.${parts.pop()}` : undefined;
-    const mimeTypes: Record<string, string> = {
-      '.jpg': 'image/jpeg',
-      '.jpeg': 'image/jpeg',
-      '.png': 'image/png',
-      '.gif': 'image/gif',
-      '.bmp': 'image/bmp',
-      '.webp': 'image/webp',
-      '.tiff': 'image/tiff',
-      '.svg': 'image/svg+xml'
-    };
-    
-    return ext ? mimeTypes[ext] || 'image/png' : 'image/png';
+    return parts.length > 1 ? `.${parts.pop()}` : '';
   }
 }
 
@@ -0,0 +1,63 @@
+/**
+ * 列表编号格式工具
+ * 将模板中各级列表的编号格式和缩进换算为 Word 编号定义使用的取值
+ */
+import { ListLevelOptions, ListNumberFormat } from '@/types/document-processing';
+import { resolveParagraphFormat } from './paragraph-format';
+
+/**
+ * 支持的编号格式，defaultText 中的 %1 会替换为对应级别的编号占位符
+ */
+export const listNumberFormatMap: Record<ListNumberFormat, { label: string; defaultText: string }> = {
+  'decimal': { label: '1. 2. 3.', defaultText: '%1.' },
+  'decimalEnclosedParen': { label: '⑴ ⑵ ⑶', defaultText: '%1' },
+  'decimalEnclosedCircle': { label: '① ② ③', defaultText: '%1' },
+  'chineseCounting': { label: '一、二、三、', defaultText: '%1、' },
+  'ideographTraditional': { label: '甲、乙、丙、', defaultText: '%1、' },
+  'lowerLetter': { label: 'a) b) c)', defaultText: '%1)' },
+  'upperLetter': { label: 'A. B. C.', defaultText: '%1.' },
+  'lowerRoman': { label: 'i. ii. iii.', defaultText: '%1.' },
+  'upperRoman': { label: 'I. II. III.', defaultText: '%1.' }
+};
+
+/**
+ * 换算后的列表级别格式，缩进单位为 twip；未设置的项为 undefined
+ */
+export interface ResolvedListLevel {
+  format?: ListNumberFormat;
+  levelText?: string;
+  indent?: { left?: number; hanging?: number };
+}
+
+/**
+ * 换算列表某一级的格式
+ * @param level 级别，从 0 开始
+ * @param isBullet 项目符号列表只应用缩进，不修改符号
+ * @param fontSize 正文字号（磅），用于把字符缩进换算为 twip
+ */
+export function resolveListLevel(
+  options: ListLevelOptions,
+  level: number,
+  isBullet: boolean,
+  fontSize: number = 12
+): ResolvedListLevel {
+  const result: ResolvedListLevel = {};
+
+  if (!isBullet && options.format) {
+    result.format = options.format;
+    result.levelText = options.levelText ||
+      listNumberFormatMap[options.format].defaultText.replace('%1', `%${level + 1}`);
+  } else if (!isBullet && options.levelText) {
+    result.levelText = options.levelText;
+  }
+
+  const format = resolveParagraphFormat({
+    leftIndent: options.leftIndent,
+    hangingIndent: options.hangingIndent
+  }, fontSize);
+  if (format.indent) {
+    result.indent = { left: format.indent.left, hanging: format.indent.hanging };
+  }
+
+  return result;
+}
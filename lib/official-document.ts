@@ -0,0 +1,258 @@
+/**
+ * 公文版式工具
+ * 按 GB/T 9704《党政机关公文格式》计算各公文要素的字体、缩进、间距和分隔线
+ */
+import {
+  DocumentGridOptions,
+  FontModificationOptions,
+  OfficialDocumentInfo,
+  OfficialDocumentOptions,
+  OfficialElementRole,
+  PageSetupOptions
+} from '@/types/document-processing';
+
+/**
+ * 公文版心每页 22 行，每行 28 字
+ */
+export const OFFICIAL_DOCUMENT_GRID: DocumentGridOptions = { type: 'linesAndChars', linesPerPage: 22, charsPerLine: 28 };
+
+/**
+ * 公文用纸和页边距：A4，天头 37mm，订口 28mm，版心 156×225mm
+ */
+export const OFFICIAL_PAGE_SETUP: PageSetupOptions = {
+  paperSize: 'A4',
+  orientation: 'portrait',
+  margins: { top: 37, bottom: 35, left: 28, right: 26 },
+  grid: OFFICIAL_DOCUMENT_GRID
+};
+
+// 正文默认 3 号字，版记 4 号字
+export const OFFICIAL_BODY_FONT_SIZE = 16;
+const OFFICIAL_RECORD_FONT_SIZE = 14;
+// 版心 225mm 排 22 行时的行高（磅）
+const OFFICIAL_LINE_HEIGHT = 225 / 22 * 72 / 25.4;
+// 发文机关标志上边缘至版心上边缘 35mm，发文字号下 4mm 处为分隔线（磅）
+const MASTHEAD_SPACE_BEFORE = 35 * 72 / 25.4;
+const SEPARATOR_SPACE = 11;
+const DEFAULT_RED = '#FF0000';
+const ATTACHMENT_LABEL = /^附件[：:]/;
+
+/**
+ * 原文档没有发文机关标志、由模板插入时，发文机关标志版式使用的段落索引
+ */
+export const INSERTED_MASTHEAD_INDEX = -1;
+
+/**
+ * 段落边框，size 以 1/8 磅为单位，space 为边框与文字的距离（磅）
+ */
+export interface OfficialBorder {
+  size: number;
+  color: string;
+  space: number;
+}
+
+/**
+ * 单个公文要素段落的版式
+ */
+export interface OfficialElementLayout {
+  role: OfficialElementRole;
+  options: FontModificationOptions;
+  borderTop?: OfficialBorder;
+  borderBottom?: OfficialBorder;
+  frameWidth?: number;     // 版记置于最后一页版心底部的图文框中，宽度为版心宽度（twip）
+  rightTabStop?: number;   // 右对齐制表位位置（twip），印发日期按它右空一字
+}
+
+/**
+ * 计算发文机关标志的版式
+ */
+function resolveMastheadLayout(options: OfficialDocumentOptions): OfficialElementLayout {
+  return {
+    role: 'masthead',
+    options: {
+      targetFontName: options.mastheadFontName || '方正小标宋简体',
+      targetFontSize: options.mastheadFontSize || 36,
+      targetIsBold: false,
+      targetColor: options.mastheadColor || DEFAULT_RED,
+      targetAlignment: 'center',
+      paragraphFormat: {
+        firstLineIndent: { value: 0, unit: 'char' },
+        spaceBefore: 0,
+        spaceAfter: 0,
+        lineSpacing: { rule: 'single' }
+      }
+    }
+  };
+}
+
+/**
+ * 计算识别出的各公文要素的版式
+ * 原文档没有发文机关标志而模板设置了标志文字时，插入的标志以 INSERTED_MASTHEAD_INDEX 为键
+ * @param textWidth 版心宽度（twip）
+ * @returns 以段落索引为键的版式
+ */
+export function resolveOfficialLayout(
+  info: OfficialDocumentInfo,
+  options: OfficialDocumentOptions,
+  styles: { title?: FontModificationOptions; body?: FontModificationOptions },
+  textWidth: number
+): Map<number, OfficialElementLayout> {
+  const layouts = new Map<number, OfficialElementLayout>();
+  const bodyFontSize = styles.body?.targetFontSize || OFFICIAL_BODY_FONT_SIZE;
+  const lines = (count: number) => Math.round(count * OFFICIAL_LINE_HEIGHT * 10) / 10;
+  const chars = (value: number) => ({ value, unit: 'char' as const });
+  const textOptions = (fontSize: number, alignment: FontModificationOptions['targetAlignment']): FontModificationOptions => ({
+    targetFontName: options.fontName || styles.body?.targetFontName,
+    targetFonts: options.fontName ? undefined : styles.body?.targetFonts,
+    targetFontSize: fontSize,
+    targetIsBold: false,
+    targetColor: '#000000',
+    targetAlignment: alignment
+  });
+
+  const find = (role: OfficialElementRole) => info.elements.filter(element => element.role === role);
+  const mastheads = find('masthead');
+  if (mastheads.length === 0 && options.mastheadText) {
+    mastheads.push({ role: 'masthead', paragraphIndex: INSERTED_MASTHEAD_INDEX, text: options.mastheadText });
+  }
+  const documentNumber = find('documentNumber')[0];
+  const signature = find('signature')[0];
+  const date = find('date')[0];
+  const copyTo = find('copyTo')[0];
+  const separatorColor = options.separatorColor || DEFAULT_RED;
+  const separator: OfficialBorder = { size: 12, color: separatorColor, space: SEPARATOR_SPACE };
+  const thickLine: OfficialBorder = { size: 8, color: '#000000', space: 1 };
+  const thinLine: OfficialBorder = { size: 6, color: '#000000', space: 1 };
+
+  mastheads.forEach((element, index) => {
+    const layout = resolveMastheadLayout(options);
+    if (index === 0) {
+      layout.options.paragraphFormat!.spaceBefore = Math.round(MASTHEAD_SPACE_BEFORE);
+    }
+    // 没有发文字号时，分隔线位于发文机关标志之下
+    if (!documentNumber && index === mastheads.length - 1) {
+      layout.options.paragraphFormat!.spaceAfter = lines(1);
+      layout.borderBottom = separator;
+    }
+    layouts.set(element.paragraphIndex, layout);
+  });
+
+  info.elements.forEach(element => {
+    const layout = ((): OfficialElementLayout | undefined => {
+      switch (element.role) {
+        case 'documentNumber':
+          return {
+            role: element.role,
+            options: {
+              ...textOptions(bodyFontSize, 'center'),
+              paragraphFormat: { firstLineIndent: chars(0), spaceBefore: lines(mastheads.length > 0 ? 2 : 0), spaceAfter: 0 }
+            },
+            borderBottom: separator
+          };
+        case 'title':
+          return {
+            role: element.role,
+            options: {
+              ...styles.title,
+              targetAlignment: styles.title?.targetAlignment || 'center',
+              paragraphFormat: { ...styles.title?.paragraphFormat, spaceBefore: lines(2), spaceAfter: 0 }
+            }
+          };
+        case 'recipient':
+          return {
+            role: element.role,
+            options: {
+              ...textOptions(bodyFontSize, 'left'),
+              paragraphFormat: { firstLineIndent: chars(0), leftIndent: chars(0), spaceBefore: lines(1), spaceAfter: 0 }
+            }
+          };
+        case 'attachment': {
+          // "附件："左空二字，回行和其余附件名与第一个附件名对齐
+          const isFirst = ATTACHMENT_LABEL.test(element.text);
+          return {
+            role: element.role,
+            options: {
+              ...textOptions(bodyFontSize, 'left'),
+              paragraphFormat: isFirst
+                ? { leftIndent: chars(5), hangingIndent: chars(3), spaceBefore: lines(1), spaceAfter: 0 }
+                : { leftIndent: chars(5), firstLineIndent: chars(0), spaceBefore: 0, spaceAfter: 0 }
+            }
+          };
+        }
+        case 'signature': {
+          // 成文日期右空四字，发文机关署名以成文日期为准居中
+          const offset = date ? (date.text.length - element.text.length) / 2 : 0;
+          return {
+            role: element.role,
+            options: {
+              ...textOptions(bodyFontSize, 'right'),
+              paragraphFormat: {
+                firstLineIndent: chars(0),
+                rightIndent: chars(Math.max(4 + offset, 2)),
+                spaceBefore: lines(2),
+                spaceAfter: 0
+              }
+            }
+          };
+        }
+        case 'date':
+          return {
+            role: element.role,
+            options: {
+              ...textOptions(bodyFontSize, 'right'),
+              paragraphFormat: { firstLineIndent: chars(0), rightIndent: chars(4), spaceBefore: lines(signature ? 0 : 2), spaceAfter: 0 }
+            }
+          };
+        case 'note':
+          return {
+            role: element.role,
+            options: {
+              ...textOptions(bodyFontSize, 'left'),
+              paragraphFormat: { firstLineIndent: chars(2), leftIndent: chars(0), spaceBefore: 0, spaceAfter: 0 }
+            }
+          };
+        case 'copyTo':
+          // 抄送机关左右各空一字，回行时与冒号后的首字对齐
+          return {
+            role: element.role,
+            options: {
+              ...textOptions(OFFICIAL_RECORD_FONT_SIZE, 'left'),
+              paragraphFormat: { leftIndent: chars(4), hangingIndent: chars(3), rightIndent: chars(1), spaceBefore: 0, spaceAfter: 0 }
+            },
+            borderTop: thickLine,
+            borderBottom: thinLine,
+            frameWidth: textWidth
+          };
+        case 'printedBy':
+          // 印发机关左空一字，印发日期右空一字
+          return {
+            role: element.role,
+            options: {
+              ...textOptions(OFFICIAL_RECORD_FONT_SIZE, 'left'),
+              paragraphFormat: { leftIndent: chars(1), firstLineIndent: chars(0), spaceBefore: 0, spaceAfter: 0 }
+            },
+            borderTop: copyTo ? undefined : thickLine,
+            borderBottom: thickLine,
+            frameWidth: textWidth,
+            rightTabStop: textWidth - OFFICIAL_RECORD_FONT_SIZE * 20
+          };
+        default:
+          return undefined;
+      }
+    })();
+    if (layout) {
+      layouts.set(element.paragraphIndex, layout);
+    }
+  });
+
+  return layouts;
+}
+
+/**
+ * 拆分印发机关和印发日期，二者之间以制表符分隔
+ * @returns 不是"印发机关  日期印发"格式时返回 undefined
+ */
+export function splitPrintedBy(text: string): [string, string] | undefined {
+  const match = text.trim().match(/^(\S.*?)\s+(\d{4}年\d{1,2}月\d{1,2}日\s*印发)$/);
+  return match ? [match[1], match[2]] : undefined;
+}
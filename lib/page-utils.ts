@@ -0,0 +1,105 @@
+/**
+ * 页面设置相关工具
+ * 模板中的长度以毫米表示，Word 内部使用 twip（1/20 磅）
+ */
+import { DocumentGridOptions, DocumentGridType, PageSetupOptions, PaperSize } from '@/types/document-processing';
+
+/**
+ * 常用纸张尺寸（纵向，毫米）
+ */
+export const paperSizeMap: Record<PaperSize, { width: number; height: number; label: string }> = {
+  'A4': { width: 210, height: 297, label: 'A4 (210×297mm)' },
+  'A3': { width: 297, height: 420, label: 'A3 (297×420mm)' },
+  'A5': { width: 148, height: 210, label: 'A5 (148×210mm)' },
+  'B5': { width: 182, height: 257, label: 'B5 (182×257mm)' },
+  'Letter': { width: 215.9, height: 279.4, label: 'Letter (216×279mm)' },
+  '16K': { width: 184, height: 260, label: '16开 (184×260mm)' }
+};
+
+/**
+ * 毫米转换为 twip
+ */
+export function mmToTwips(mm: number): number {
+  return Math.round(mm * 1440 / 25.4);
+}
+
+/**
+ * 换算后的页面设置，单位为 twip；未设置的项为 undefined
+ */
+export interface ResolvedPageSetup {
+  width?: number;   // 纵向宽度
+  height?: number;  // 纵向高度
+  orientation?: 'portrait' | 'landscape';
+  margin: {
+    top?: number;
+    bottom?: number;
+    left?: number;
+    right?: number;
+    gutter?: number;
+    header?: number;
+    footer?: number;
+  };
+}
+
+/**
+ * 将页面设置选项换算为 twip
+ */
+export function resolvePageSetup(options: PageSetupOptions): ResolvedPageSetup {
+  const paper = options.paperSize ? paperSizeMap[options.paperSize] : undefined;
+  const toTwips = (mm?: number) => (mm === undefined || isNaN(mm) ? undefined : mmToTwips(mm));
+
+  return {
+    width: paper ? mmToTwips(paper.width) : undefined,
+    height: paper ? mmToTwips(paper.height) : undefined,
+    orientation: options.orientation,
+    margin: {
+      top: toTwips(options.margins?.top),
+      bottom: toTwips(options.margins?.bottom),
+      left: toTwips(options.margins?.left),
+      right: toTwips(options.margins?.right),
+      gutter: toTwips(options.gutter),
+      header: toTwips(options.headerDistance),
+      footer: toTwips(options.footerDistance)
+    }
+  };
+}
+
+/**
+ * 文档网格，对应节属性 w:docGrid
+ * linePitch 为每行的高度（twip）；charSpace 为每个字符宽度相对基准字号的增量，以 1/4096 磅为单位
+ */
+export interface ResolvedDocumentGrid {
+  type: DocumentGridType;
+  linePitch: number;
+  charSpace?: number;
+}
+
+// Word 中文版默认的行网格（五号字单倍行距 15.6 磅）
+const DEFAULT_LINE_PITCH = 312;
+
+/**
+ * 按版心尺寸计算每页指定行数、每行指定字数的文档网格
+ * @param textWidth 版心宽度（twip）
+ * @param textHeight 版心高度（twip）
+ * @param fontSize 基准字号（磅），Word 以 Normal 样式的字号计算字符网格
+ */
+export function resolveDocumentGrid(
+  options: DocumentGridOptions,
+  textWidth: number,
+  textHeight: number,
+  fontSize: number = 10.5
+): ResolvedDocumentGrid {
+  const { type, linesPerPage, charsPerLine } = options;
+  // 向下取整，保证版心能容纳全部行和字
+  const linePitch = type !== 'default' && linesPerPage && linesPerPage > 0
+    ? Math.floor(textHeight / linesPerPage)
+    : DEFAULT_LINE_PITCH;
+  const usesChars = type === 'linesAndChars' || type === 'snapToChars';
+  return {
+    type,
+    linePitch,
+    charSpace: usesChars && charsPerLine && charsPerLine > 0
+      ? Math.floor((textWidth / charsPerLine / 20 - fontSize) * 4096)
+      : undefined
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * 段落格式换算工具
+ * 将模板中的缩进（字符/毫米）、段间距（磅）和行距换算为 Word 使用的 twip 值
+ */
+import { IndentValue, ParagraphFormatOptions } from '@/types/document-processing';
+import { mmToTwips } from './page-utils';
+
+/**
+ * 换算后的段落格式
+ * xxxChars 为以 1/100 字符为单位的缩进，Word 优先使用它们；xxx 为对应的 twip 值
+ */
+export interface ResolvedParagraphFormat {
+  indent?: {
+    firstLine?: number;
+    firstLineChars?: number;
+    hanging?: number;
+    hangingChars?: number;
+    left?: number;
+    leftChars?: number;
+    right?: number;
+    rightChars?: number;
+  };
+  spacing?: {
+    before?: number;
+    after?: number;
+    line?: number;
+    lineRule?: 'auto' | 'exact' | 'atLeast';
+  };
+}
+
+/**
+ * 换算段落格式
+ * @param fontSize 段落字号（磅），用于把字符缩进换算为 twip
+ */
+export function resolveParagraphFormat(format: ParagraphFormatOptions, fontSize: number = 12): ResolvedParagraphFormat {
+  const result: ResolvedParagraphFormat = {};
+
+  const indent: NonNullable<ResolvedParagraphFormat['indent']> = {};
+  const setIndent = (key: 'firstLine' | 'hanging' | 'left' | 'right', value?: IndentValue) => {
+    if (!value || isNaN(value.value)) return;
+    if (value.unit === 'char') {
+      indent[`${key}Chars`] = Math.round(value.value * 100);
+      indent[key] = Math.round(value.value * fontSize * 20);
+    } else {
+      indent[key] = mmToTwips(value.value);
+    }
+  };
+
+  if (format.hangingIndent) {
+    setIndent('hanging', format.hangingIndent);
+  } else {
+    setIndent('firstLine', format.firstLineIndent);
+  }
+  setIndent('left', format.leftIndent);
+  setIndent('right', format.rightIndent);
+  if (Object.keys(indent).length > 0) {
+    result.indent = indent;
+  }
+
+  const spacing: NonNullable<ResolvedParagraphFormat['spacing']> = {};
+  if (format.spaceBefore !== undefined) spacing.before = Math.round(format.spaceBefore * 20);
+  if (format.spaceAfter !== undefined) spacing.after = Math.round(format.spaceAfter * 20);
+
+  const lineSpacing = format.lineSpacing;
+  if (lineSpacing) {
+    switch (lineSpacing.rule) {
+      case 'single':
+        spacing.line = 240;
+        spacing.lineRule = 'auto';
+        break;
+      case 'multiple':
+        // 多倍行距以 1/240 行为单位
+        spacing.line = Math.round((lineSpacing.value || 1) * 240);
+        spacing.lineRule = 'auto';
+        break;
+      case 'exact':
+      case 'atLeast':
+        spacing.line = Math.round((lineSpacing.value || fontSize) * 20);
+        spacing.lineRule = lineSpacing.rule;
+        break;
+    }
+  }
+  if (Object.keys(spacing).length > 0) {
+    result.spacing = spacing;
+  }
+
+  return result;
+}
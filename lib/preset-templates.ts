@@ -51,7 +51,7 @@ const chineseStandardTemplate: DocumentTemplate = {
   updatedAt: new Date().toISOString(),
   titleStyle: {
     fontName: '方正小标宋简体',
-    fontSize: '小二',
+    fontSize: '二号',
     isBold: false,
     isItalic: false,
     isUnderline: false,
@@ -69,12 +69,38 @@ const chineseStandardTemplate: DocumentTemplate = {
   },
   bodyStyle: {
     fontName: '仿宋_GB2312',
-    fontSize: '小三',
+    fontSize: '三号',
+    fonts: { ascii: 'Times New Roman' },
     isBold: false,
     isItalic: false,
     isUnderline: false,
     color: '#000000',
     alignment: 'left',
+    paragraphFormat: {
+      firstLineIndent: { value: 2, unit: 'char' },
+      spaceBefore: 0,
+      spaceAfter: 0,
+      // 行距由公文版式的文档网格（每页 22 行）决定
+      lineSpacing: { rule: 'single' },
+    },
+  },
+  // 公文结构层次序数依次为“一、”“（一）”“1.”“（1）”，依次使用黑体、楷体、仿宋加粗和仿宋
+  headingStyles: [
+    { fontName: '黑体', fontSize: '三号', isBold: false, alignment: 'left', paragraphFormat: { firstLineIndent: { value: 2, unit: 'char' } } },
+    { fontName: '楷体_GB2312', fontSize: '三号', isBold: false, alignment: 'left', paragraphFormat: { firstLineIndent: { value: 2, unit: 'char' } } },
+    { fontName: '仿宋_GB2312', fontSize: '三号', isBold: true, alignment: 'left', paragraphFormat: { firstLineIndent: { value: 2, unit: 'char' } } },
+    { fontName: '仿宋_GB2312', fontSize: '三号', isBold: false, alignment: 'left', paragraphFormat: { firstLineIndent: { value: 2, unit: 'char' } } },
+  ],
+  // GB/T 9704 规定的版心：天头37mm、订口28mm，版心156mm×225mm，每页22行、每行28字
+  pageSetup: {
+    paperSize: 'A4',
+    orientation: 'portrait',
+    margins: { top: 37, bottom: 35, left: 28, right: 26 },
+    grid: { type: 'linesAndChars', linesPerPage: 22, charsPerLine: 28 },
+  },
+  officialDocument: {
+    mastheadFontName: '方正小标宋简体',
+    fontName: '仿宋_GB2312',
   },
 };
 
@@ -0,0 +1,135 @@
+/**
+ * 参考文献工具
+ * 按 GB/T 7714 解析参考文献条目的责任者、题名、文献类型标识和出版项，并以统一的格式重新著录
+ */
+import { FontModificationOptions, ParsedReference, ReferenceEntryInfo, ReferenceOptions } from '@/types/document-processing';
+
+// "参考文献"标题，可带章节编号
+const HEADING_PATTERN = /^(([一二三四五六七八九十]+、|第[一二三四五六七八九十\d]+章|\d+[.．、]?)\s*)?(参\s*考\s*文\s*献|references|bibliography)[：:]?$/i;
+// 条目编号，如 [1]、［1］、1.、1、
+const NUMBER_PATTERN = /^\s*(?:[[［【]\s*(\d+)\s*[\]］】]|(\d+)\s*[.．、)）](?!\d))\s*/;
+// 文献类型标识和载体标识，如 [J]、[M]、[EB/OL]、[J/OL]
+const TYPE_PATTERN = /[[［]\s*([A-Z]{1,2}(?:\s*\/\s*OL)?)\s*[\]］]/;
+// 责任者与题名之间的句点
+const AUTHOR_END_PATTERN = /[.．。]\s*/;
+const AUTHOR_SEPARATOR_PATTERN = /\s*(?:[,，、;；]|\band\b)\s*/;
+// 带句点的外文名缩写，如"Smith J. A."、"Smith J., Doe B."，此时第一个句点不是责任者的结束
+const DOTTED_INITIALS_PATTERN = /\b[A-Z]\.\s*(?:[A-Z]\.|[,，;；])/;
+// 只有名字缩写的责任者，出现在"Smith, J."等姓名倒置的著录中
+const INITIALS_ONLY_PATTERN = /^[A-Z](?:[.\s-]*[A-Z])*\.?$/;
+// 条目中间出现的另一个序号，一个段落用换行符写了多条参考文献时会合成一个条目
+const MERGED_ENTRY_PATTERN = /[.．。]\s*[[［]\d+[\]］]/;
+const ET_AL_PATTERN = /^(等|et\s*al\.?)$/i;
+// 著录的责任者超过三人时只列前三人
+const MAX_AUTHORS = 3;
+const MAX_AUTHOR_LENGTH = 80;
+const URL_PATTERN = /(https?|ftp):\/\/\S+$/i;
+
+/**
+ * 判断段落是否为"参考文献"标题
+ */
+export function isReferencesHeading(text: string): boolean {
+  return HEADING_PATTERN.test(text.trim());
+}
+
+/**
+ * 拆分条目开头的编号
+ */
+export function splitReferenceNumber(text: string): { number?: number; content: string } {
+  const match = text.match(NUMBER_PATTERN);
+  if (!match) return { content: text.trim() };
+  return { number: parseInt(match[1] || match[2], 10), content: text.substring(match[0].length).trim() };
+}
+
+/**
+ * 解析条目（不含编号）的著录项
+ * @returns 解析失败时返回 error 说明原因
+ */
+export function parseReference(content: string): { parsed?: ParsedReference; error?: string } {
+  if (MERGED_ENTRY_PATTERN.test(content)) return { error: '条目中包含其他序号，可能是用换行符写在同一段落的多条参考文献' };
+
+  const typeMatch = content.match(TYPE_PATTERN);
+  if (!typeMatch) return { error: '缺少文献类型标识，如[J]、[M]' };
+
+  const before = content.substring(0, typeMatch.index).trim();
+  const source = content.substring(typeMatch.index! + typeMatch[0].length).replace(/^[.．。\s]+/, '').trim();
+  if (!source) return { error: '文献类型标识之后缺少出版项' };
+
+  if (DOTTED_INITIALS_PATTERN.test(before)) return { error: '外文责任者的名字缩写带句点，无法确定责任者与题名的分界' };
+
+  // 没有责任者的文献（如标准）以题名开头
+  const authorEnd = before.match(AUTHOR_END_PATTERN);
+  const authorText = authorEnd ? before.substring(0, authorEnd.index).trim() : '';
+  const title = authorEnd ? before.substring(authorEnd.index! + authorEnd[0].length).trim() : before;
+  if (!title) return { error: '无法区分责任者和题名' };
+  if (authorText.length > MAX_AUTHOR_LENGTH) return { error: '责任者过长，可能缺少责任者与题名之间的句点' };
+
+  const names = authorText ? authorText.split(AUTHOR_SEPARATOR_PATTERN).filter(name => name.length > 0) : [];
+  if (names.some(name => INITIALS_ONLY_PATTERN.test(name))) return { error: '外文责任者为"姓, 名"倒置格式，无法区分各责任者' };
+  const etAl = names.length > 0 && ET_AL_PATTERN.test(names[names.length - 1]);
+  return {
+    parsed: {
+      authors: etAl ? names.slice(0, -1) : names,
+      etAl: etAl || undefined,
+      title,
+      type: typeMatch[1].replace(/\s+/g, ''),
+      source
+    }
+  };
+}
+
+/**
+ * 按 GB/T 7714 的著录格式重新生成条目文字（不含编号）
+ * 出版项中的著录符号统一使用半角并在其后加空格，责任者超过三人时只列前三人，其后加"等"或"et al"
+ */
+export function formatReference(reference: ParsedReference): string {
+  const isChinese = /[\u4e00-\u9fa5]/.test(reference.authors.join('') || reference.title);
+  const authors = reference.authors.slice(0, MAX_AUTHORS);
+  if (reference.etAl || reference.authors.length > MAX_AUTHORS) {
+    authors.push(isChinese ? '等' : 'et al');
+  }
+  const title = `${reference.title.replace(/[.．。\s]+$/, '')}[${reference.type}]`;
+  let source = normalizePunctuation(reference.source)
+    .replace(/(\d)\s*[－—–~～]\s*(\d)/g, '$1-$2');
+  if (!URL_PATTERN.test(source) && !source.endsWith('.')) {
+    source += '.';
+  }
+  return [authors.length > 0 ? authors.join(', ') : undefined, title, source].filter(Boolean).join('. ');
+}
+
+/**
+ * 生成带顺序编号的条目文字，无法解析的条目只统一编号，保留原文
+ * @param index 条目在参考文献表中的索引
+ */
+export function formatReferenceEntry(entry: ReferenceEntryInfo, index: number): string {
+  return `[${index + 1}] ${entry.parsed ? formatReference(entry.parsed) : entry.text}`;
+}
+
+/**
+ * 计算参考文献条目样式：未设置时沿用正文字体，未设置段落格式时悬挂缩进两个字符
+ */
+export function resolveReferenceStyle(options: ReferenceOptions, bodyOptions?: FontModificationOptions): FontModificationOptions {
+  const style = options.style || { ...bodyOptions, paragraphFormat: undefined };
+  return {
+    ...style,
+    targetAlignment: style.targetAlignment || 'left',
+    paragraphFormat: style.paragraphFormat || {
+      hangingIndent: { value: 2, unit: 'char' },
+      leftIndent: { value: 2, unit: 'char' }
+    }
+  };
+}
+
+/**
+ * 把全角著录符号换为半角，逗号、冒号、分号后保留一个空格
+ */
+function normalizePunctuation(text: string): string {
+  return text
+    .replace(/，/g, ',').replace(/：/g, ':').replace(/；/g, ';').replace(/．/g, '.')
+    .replace(/（/g, '(').replace(/）/g, ')').replace(/／/g, '/')
+    .replace(/\s*,\s*/g, ', ')
+    .replace(/\s*;\s*/g, '; ')
+    .replace(/\s*:\s*(?!\/\/)/g, ': ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
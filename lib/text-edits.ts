@@ -0,0 +1,100 @@
+/**
+ * 文本替换工具
+ * 在段落文本上计算的替换，分配到组成段落的各个片段（文本运行、w:t），并换算替换后的字符位置
+ */
+
+/**
+ * 一处文本替换：把 offset 开始的 length 个字符替换为 text
+ */
+export interface TextEdit {
+  offset: number;
+  length: number;
+  text: string;
+}
+
+/**
+ * 把段落文本上的替换应用到组成段落的各个片段
+ * 替换文字写入被替换文本的第一个片段，其余片段中被替换的部分删除
+ * @returns 替换后各片段的文本，片段数量不变
+ */
+export function applyTextEdits(segments: string[], edits: TextEdit[]): string[] {
+  const result = [...segments];
+  // 从后往前替换，靠前的替换位置不受影响
+  const sorted = [...edits].sort((a, b) => b.offset - a.offset);
+  for (const edit of sorted) {
+    const end = edit.offset + edit.length;
+    let segmentStart = 0;
+    let inserted = false;
+    segments.forEach((segment, i) => {
+      const segmentEnd = segmentStart + segment.length;
+      const overlaps = segmentStart < end && segmentEnd > edit.offset;
+      // 没有删除文字的替换插入到所在位置的片段中
+      const containsInsertion = edit.length === 0 && segmentStart <= edit.offset && edit.offset <= segmentEnd;
+      if (overlaps || (!inserted && containsInsertion)) {
+        const localStart = Math.max(edit.offset - segmentStart, 0);
+        const localEnd = Math.min(end - segmentStart, segment.length);
+        result[i] = result[i].substring(0, localStart) + (inserted ? '' : edit.text) + result[i].substring(localEnd);
+        inserted = true;
+      }
+      segmentStart = segmentEnd;
+    });
+  }
+  return result;
+}
+
+/**
+ * 换算替换之后的字符位置，位于被替换文本内部的位置归到替换文字的开头
+ */
+export function mapTextOffset(edits: TextEdit[], offset: number): number {
+  let shift = 0;
+  for (const edit of [...edits].sort((a, b) => a.offset - b.offset)) {
+    if (edit.offset + edit.length <= offset) {
+      shift += edit.text.length - edit.length;
+    } else if (edit.offset < offset) {
+      return edit.offset + shift;
+    }
+  }
+  return offset + shift;
+}
+
+/**
+ * 比较修改前后的文本，得到把 oldText 改为 newText 的最少替换，未改变的字符保持原位
+ * 按字符的最长公共子序列计算，连续的改动合并为一处替换
+ */
+export function getTextDiffEdits(oldText: string, newText: string): TextEdit[] {
+  const m = oldText.length;
+  const n = newText.length;
+  // lengths[i][j] 为 oldText.substring(i) 与 newText.substring(j) 的最长公共子序列长度
+  const lengths = Array.from({ length: m + 1 }, () => new Array<number>(n + 1).fill(0));
+  for (let i = m - 1; i >= 0; i--) {
+    for (let j = n - 1; j >= 0; j--) {
+      lengths[i][j] = oldText[i] === newText[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const edits: TextEdit[] = [];
+  let current: TextEdit | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < m || j < n) {
+    if (i < m && j < n && oldText[i] === newText[j]) {
+      current = null;
+      i++;
+      j++;
+      continue;
+    }
+    if (!current) {
+      current = { offset: i, length: 0, text: '' };
+      edits.push(current);
+    }
+    if (j < n && (i === m || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      current.text += newText[j++];
+    } else {
+      current.length++;
+      i++;
+    }
+  }
+  return edits;
+}
@@ -0,0 +1,55 @@
+/**
+ * 查找替换工具
+ * 将模板中的文字或正则表达式替换规则换算为段落文本上的替换
+ */
+import { ReplacementRule } from '@/types/document-processing';
+import { TextEdit } from './text-edits';
+
+const REPLACEMENT_TOKEN_PATTERN = /\$(\$|&|\d{1,2}|<[^>]+>)/g;
+
+/**
+ * 把替换规则编译为全局匹配的正则表达式
+ */
+export function compileReplacementRule(rule: ReplacementRule): RegExp {
+  const source = rule.regex ? rule.find : rule.find.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  try {
+    return new RegExp(source, rule.ignoreCase ? 'gi' : 'g');
+  } catch (error) {
+    throw new Error(`替换规则“${rule.find}”不是有效的正则表达式: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * 计算一条规则在段落文本上的替换，空匹配不替换
+ * @param pattern compileReplacementRule 编译的正则表达式
+ */
+export function getReplacementEdits(text: string, rule: ReplacementRule, pattern: RegExp): TextEdit[] {
+  const edits: TextEdit[] = [];
+  for (const match of text.matchAll(pattern)) {
+    if (match[0].length === 0) continue;
+    const replacement = rule.regex ? expandReplacement(rule.replace, match) : rule.replace;
+    if (replacement !== match[0]) {
+      edits.push({ offset: match.index!, length: match[0].length, text: replacement });
+    }
+  }
+  return edits;
+}
+
+/**
+ * 展开替换文字中的 $&、$1、$<name> 和 $$，与 String.prototype.replace 的规则一致：
+ * 未参与匹配的分组替换为空；两位数的分组不存在时取一位数的分组，其后的数字原样保留（如只有 1 个分组时 $10 为分组 1 加“0”）
+ */
+function expandReplacement(replace: string, match: RegExpMatchArray): string {
+  return replace.replace(REPLACEMENT_TOKEN_PATTERN, (token, name: string) => {
+    if (name === '$') return '$';
+    if (name === '&') return match[0];
+    if (name.startsWith('<')) return match.groups?.[name.slice(1, -1)] ?? '';
+    const index = parseInt(name, 10);
+    if (index >= 1 && index < match.length) return match[index] ?? '';
+    const singleIndex = parseInt(name[0], 10);
+    if (name.length === 2 && singleIndex >= 1 && singleIndex < match.length) {
+      return (match[singleIndex] ?? '') + name[1];
+    }
+    return token;
+  });
+}
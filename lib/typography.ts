@@ -0,0 +1,250 @@
+/**
+ * 中文排版规范化工具
+ * 按中文语境和英文语境统一标点宽度、省略号和引号，整理汉字之间以及汉字与英文、数字之间的空格
+ * 各规则均在原文上计算替换，互相重叠的替换只保留先计算的一个
+ */
+import { TypographyOptions, TypographyReport, TypographyRule } from '@/types/document-processing';
+import { TextEdit } from './text-edits';
+
+const HAN = '\\u3400-\\u4dbf\\u4e00-\\u9fff\\uf900-\\ufaff';
+// 全角标点，包括中文引号和省略号
+const CJK_PUNCTUATION = '\\u3001-\\u303f\\uff01-\\uff0f\\uff1a-\\uff20\\uff3b-\\uff40\\uff5b-\\uff65\\u2018\\u2019\\u201c\\u201d\\u2026';
+const HAN_PATTERN = new RegExp(`[${HAN}]`);
+const CJK_PATTERN = new RegExp(`[${HAN}${CJK_PUNCTUATION}]`);
+const LATIN_PATTERN = /[A-Za-z0-9]/;
+const LETTER_PATTERN = /[A-Za-z]/;
+
+const HALF_TO_FULL: Record<string, string> = { ',': '，', ';': '；', ':': '：', '?': '？', '!': '！', '.': '。' };
+const FULL_TO_HALF: Record<string, string> = { '，': ',', '；': ';', '：': ':', '？': '?', '！': '!', '。': '.' };
+// 判断语境时，句子在全角句末标点或其后有空白的半角句末标点处断开
+const SENTENCE_BREAK_PATTERN = /^(?:[。；！？\n]|[.;!?](?=\s|$))/;
+const ELLIPSIS_PATTERN = /\.{3,}|。{3,}|…+|⋯+/g;
+const CJK_SPACES_PATTERN = new RegExp(`([${HAN}${CJK_PUNCTUATION}])[ \\u00a0]+(?=[${HAN}${CJK_PUNCTUATION}])`, 'g');
+const CJK_LATIN_BOUNDARY_PATTERN = new RegExp(`[${HAN}](?=[A-Za-z0-9])|[A-Za-z0-9](?=[${HAN}])`, 'g');
+const CJK_LATIN_SPACES_PATTERN = new RegExp(`([${HAN}])[ \\u00a0]+(?=[A-Za-z0-9])|([A-Za-z0-9])[ \\u00a0]+(?=[${HAN}])`, 'g');
+
+// 引号样式依次为：左双引号、右双引号、左单引号、右单引号
+const QUOTE_MARKS: Record<NonNullable<TypographyOptions['quotes']>, [string, string, string, string]> = {
+  curly: ['“', '”', '‘', '’'],
+  corner: ['「', '」', '『', '』']
+};
+const OPENING_QUOTES: Record<string, number> = { '“': 0, '「': 0, '‘': 2, '『': 2 };
+const CLOSING_QUOTES: Record<string, number> = { '”': 1, '」': 1, '’': 3, '』': 3 };
+
+type RuleEdit = TextEdit & { rule: TypographyRule };
+
+/**
+ * 各规则在替换次数报告中的名称
+ */
+export const TYPOGRAPHY_RULE_LABELS: Record<TypographyRule, string> = {
+  punctuationWidth: '标点',
+  ellipsis: '省略号',
+  quotes: '引号',
+  cjkSpaces: '汉字间空格',
+  cjkLatinSpacing: '中英文间空格'
+};
+
+/**
+ * 把替换次数报告整理为文字说明，如"标点3处，引号2处"，没有替换时为"无需改动"
+ */
+export function describeTypographyReport(report: TypographyReport): string {
+  return (Object.keys(TYPOGRAPHY_RULE_LABELS) as TypographyRule[])
+    .filter(rule => report[rule])
+    .map(rule => `${TYPOGRAPHY_RULE_LABELS[rule]}${report[rule]}处`)
+    .join('，') || '无需改动';
+}
+
+/**
+ * 是否启用了任一规范化规则
+ */
+export function hasTypographyRules(options?: TypographyOptions): options is TypographyOptions {
+  return !!options && (Object.keys(options) as TypographyRule[]).some(rule => !!options[rule]);
+}
+
+/**
+ * 计算一段文字的规范化替换及各规则的替换次数
+ */
+export function getTypographyEdits(text: string, options: TypographyOptions): { edits: TextEdit[]; counts: TypographyReport } {
+  const candidates: RuleEdit[] = [
+    ...(options.ellipsis ? getEllipsisEdits(text) : []),
+    ...(options.punctuationWidth ? getPunctuationEdits(text) : []),
+    ...(options.quotes ? getQuoteEdits(text, options.quotes) : []),
+    ...(options.cjkSpaces ? getCjkSpaceEdits(text) : []),
+    ...(options.cjkLatinSpacing ? getCjkLatinSpacingEdits(text, options.cjkLatinSpacing) : [])
+  ];
+
+  // 按位置排序（同一位置保持规则顺序），丢弃与已保留的替换重叠的替换
+  const edits: RuleEdit[] = [];
+  let end = -1;
+  candidates
+    .map((edit, order) => ({ edit, order }))
+    .sort((a, b) => a.edit.offset - b.edit.offset || a.order - b.order)
+    .forEach(({ edit }) => {
+      if (edit.offset < end || (edit.offset === end && edit.length === 0 && edits[edits.length - 1]?.length === 0)) return;
+      edits.push(edit);
+      end = edit.offset + edit.length;
+    });
+
+  const counts: TypographyReport = {};
+  edits.forEach(edit => { counts[edit.rule] = (counts[edit.rule] || 0) + 1; });
+  return { edits: edits.map(({ offset, length, text }) => ({ offset, length, text })), counts };
+}
+
+/**
+ * 把各规则的替换次数累加到 report 上
+ */
+export function addTypographyCounts(report: TypographyReport, counts: TypographyReport): TypographyReport {
+  (Object.keys(counts) as TypographyRule[]).forEach(rule => {
+    report[rule] = (report[rule] || 0) + (counts[rule] || 0);
+  });
+  return report;
+}
+
+function getEllipsisEdits(text: string): RuleEdit[] {
+  const edits: RuleEdit[] = [];
+  for (const match of text.matchAll(ELLIPSIS_PATTERN)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    if (match[0] === '……' || !(isCjk(text[start - 1]) || isCjk(text[end]))) continue;
+    edits.push({ rule: 'ellipsis', offset: start, length: match[0].length, text: '……' });
+  }
+  return edits;
+}
+
+/**
+ * 中文语境（所在句子含有汉字）中的半角标点改为全角并去掉其后的空格，夹在英文、数字之间的标点（如 1,000、10:30、网址）除外；
+ * 英文语境（所在句子前后都没有汉字）中的全角标点改为半角，其后紧跟文字时补一个空格
+ */
+function getPunctuationEdits(text: string): RuleEdit[] {
+  const edits: RuleEdit[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const prev = text[i - 1];
+    const next = text[i + 1];
+    if (HALF_TO_FULL[char] && (isHan(prev) || (prev !== undefined && !/\s/.test(prev) && isChineseContext(text, i)))) {
+      if (!isHan(prev) && next !== undefined && /[A-Za-z0-9/\\]/.test(next)) continue;
+      // 点号只在句末转换，连续的点号由省略号规则处理；英文、数字之后的点号只在段末或汉字之前转换，避免改动 e.g. 等缩写
+      if (char === '.' && next !== undefined && /[.\w/\\]/.test(next)) continue;
+      if (char === '.' && !isHan(prev) && next !== undefined && !isCjk(next)) continue;
+      const spaces = text.substring(i + 1).match(/^[ \u00a0]*/)![0];
+      edits.push({ rule: 'punctuationWidth', offset: i, length: 1 + spaces.length, text: HALF_TO_FULL[char] });
+    } else if (FULL_TO_HALF[char] && isEnglishContext(text, i)) {
+      if (char === '。' && (prev === '。' || next === '。')) continue;
+      const needsSpace = next !== undefined && !/\s/.test(next) && !CLOSING_QUOTES[next] && !/[)\]}"'”’]/.test(next);
+      edits.push({ rule: 'punctuationWidth', offset: i, length: 1, text: FULL_TO_HALF[char] + (needsSpace ? ' ' : '') });
+    }
+  }
+
+  // 括号成对转换：括号内或括号前有汉字时用全角，括号内外都没有汉字时用半角
+  for (const match of text.matchAll(/\(([^()]*)\)/g)) {
+    const start = match.index!;
+    if (HAN_PATTERN.test(match[1]) || isHan(text[start - 1])) {
+      edits.push({ rule: 'punctuationWidth', offset: start, length: 1, text: '（' });
+      edits.push({ rule: 'punctuationWidth', offset: start + match[0].length - 1, length: 1, text: '）' });
+    }
+  }
+  for (const match of text.matchAll(/（([^（）]*)）/g)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    if (!HAN_PATTERN.test(match[1]) && match[1].trim() && !isCjk(text[start - 1]) && !isCjk(text[end])) {
+      edits.push({ rule: 'punctuationWidth', offset: start, length: 1, text: '(' });
+      edits.push({ rule: 'punctuationWidth', offset: end - 1, length: 1, text: ')' });
+    }
+  }
+  return edits;
+}
+
+/**
+ * 含有汉字的段落中，直引号按出现顺序配成左右引号，中文引号和直角引号统一为选定的样式
+ * 单直引号只在与汉字相邻时转换，英文单词中的撇号保持原样
+ */
+function getQuoteEdits(text: string, style: NonNullable<TypographyOptions['quotes']>): RuleEdit[] {
+  if (!HAN_PATTERN.test(text)) return [];
+
+  const marks = QUOTE_MARKS[style];
+  const edits: RuleEdit[] = [];
+  let doubleOpen = true;
+  let singleOpen = true;
+  const replace = (offset: number, mark: string) => {
+    if (text[offset] !== mark) edits.push({ rule: 'quotes', offset, length: 1, text: mark });
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const prev = text[i - 1];
+    const next = text[i + 1];
+    const isApostrophe = isLetter(prev) && isLetter(next);
+    if (char === '"') {
+      replace(i, doubleOpen ? marks[0] : marks[1]);
+      doubleOpen = !doubleOpen;
+    } else if (char === '\'' && !isApostrophe && (isHan(prev) || isHan(next))) {
+      replace(i, singleOpen ? marks[2] : marks[3]);
+      singleOpen = !singleOpen;
+    } else if (OPENING_QUOTES[char] !== undefined && !isApostrophe) {
+      replace(i, marks[OPENING_QUOTES[char]]);
+    } else if (CLOSING_QUOTES[char] !== undefined && !isApostrophe) {
+      replace(i, marks[CLOSING_QUOTES[char]]);
+    }
+  }
+  return edits;
+}
+
+function getCjkSpaceEdits(text: string): RuleEdit[] {
+  return Array.from(text.matchAll(CJK_SPACES_PATTERN), match => ({
+    rule: 'cjkSpaces' as const,
+    offset: match.index! + match[1].length,
+    length: match[0].length - match[1].length,
+    text: ''
+  }));
+}
+
+function getCjkLatinSpacingEdits(text: string, mode: NonNullable<TypographyOptions['cjkLatinSpacing']>): RuleEdit[] {
+  if (mode === 'insert') {
+    return Array.from(text.matchAll(CJK_LATIN_BOUNDARY_PATTERN), match => ({
+      rule: 'cjkLatinSpacing' as const,
+      offset: match.index! + 1,
+      length: 0,
+      text: ' '
+    }));
+  }
+  return Array.from(text.matchAll(CJK_LATIN_SPACES_PATTERN), match => {
+    const prefix = (match[1] || match[2]).length;
+    return {
+      rule: 'cjkLatinSpacing' as const,
+      offset: match.index! + prefix,
+      length: match[0].length - prefix,
+      text: ''
+    };
+  });
+}
+
+/**
+ * 全角标点所在句子的前后两部分都没有汉字、且紧邻的前一个字是英文或数字时，视为英文语境
+ */
+function isEnglishContext(text: string, index: number): boolean {
+  return LATIN_PATTERN.test(text[index - 1] || '') && !isChineseContext(text, index);
+}
+
+/**
+ * 标点所在句子（不含标点本身）中有汉字时，视为中文语境
+ */
+function isChineseContext(text: string, index: number): boolean {
+  const isBreak = (i: number) => SENTENCE_BREAK_PATTERN.test(text.substring(i, i + 2));
+  let start = index - 1;
+  while (start >= 0 && !isBreak(start)) start--;
+  let end = index + 1;
+  while (end < text.length && !isBreak(end)) end++;
+  return HAN_PATTERN.test(text.substring(start + 1, index)) || HAN_PATTERN.test(text.substring(index + 1, end));
+}
+
+function isHan(char?: string): boolean {
+  return !!char && HAN_PATTERN.test(char);
+}
+
+function isCjk(char?: string): boolean {
+  return !!char && CJK_PATTERN.test(char);
+}
+
+function isLetter(char?: string): boolean {
+  return !!char && LETTER_PATTERN.test(char);
+}
@@ -0,0 +1,128 @@
+/**
+ * 水印工具
+ * 补全水印选项的默认值，估算文字水印的尺寸，解析图片水印的格式和像素尺寸
+ */
+import { WatermarkOptions } from '@/types/document-processing';
+
+const DEFAULT_FONT_NAME = '宋体';
+const DEFAULT_FONT_SIZE = 54;
+const DEFAULT_COLOR = '#C0C0C0';
+const DEFAULT_OPACITY = 0.5;
+const DEFAULT_TEXT_ROTATION = 45;
+// 估算文字宽度时，半角字符按字号的 0.6 倍计
+const HALF_WIDTH_RATIO = 0.6;
+const DATA_URL_PATTERN = /^data:image\/(png|jpe?g|gif);base64,([A-Za-z0-9+/=\s]+)$/i;
+
+export type WatermarkImageFormat = 'png' | 'jpeg' | 'gif';
+
+/**
+ * 补全默认值后的文字水印，尺寸单位为磅
+ */
+export interface ResolvedTextWatermark {
+  type: 'text';
+  text: string;
+  fontName: string;
+  color: string;
+  width: number;
+  height: number;
+  opacity: number;
+  rotation: number;
+}
+
+/**
+ * 补全默认值后的图片水印
+ */
+export interface ResolvedImageWatermark {
+  type: 'image';
+  data: Buffer;
+  format: WatermarkImageFormat;
+  pixelWidth: number;
+  pixelHeight: number;
+  width?: number;  // 毫米，未设置时按原始尺寸
+  opacity: number;
+  rotation: number;
+}
+
+export type ResolvedWatermark = ResolvedTextWatermark | ResolvedImageWatermark;
+
+/**
+ * 补全水印选项的默认值，文字为空或图片无法识别时抛出错误
+ */
+export function resolveWatermark(options: WatermarkOptions): ResolvedWatermark {
+  const opacity = Math.min(Math.max(options.opacity ?? DEFAULT_OPACITY, 0), 1);
+
+  if (options.type === 'image') {
+    const match = (options.image || '').match(DATA_URL_PATTERN);
+    if (!match) {
+      throw new Error('水印图片无效: 只支持 PNG、JPEG 和 GIF 格式的 data URL');
+    }
+    const format: WatermarkImageFormat = /^jpe?g$/i.test(match[1]) ? 'jpeg' : match[1].toLowerCase() as WatermarkImageFormat;
+    const data = Buffer.from(match[2], 'base64');
+    const size = getImagePixelSize(data, format);
+    if (!size) {
+      throw new Error('水印图片无效: 无法读取图片尺寸');
+    }
+    return {
+      type: 'image',
+      data,
+      format,
+      pixelWidth: size.width,
+      pixelHeight: size.height,
+      width: options.width && options.width > 0 ? options.width : undefined,
+      opacity,
+      rotation: normalizeAngle(options.rotation ?? 0)
+    };
+  }
+
+  const text = (options.text || '').trim();
+  if (!text) {
+    throw new Error('水印文字不能为空');
+  }
+  const fontSize = options.fontSize && options.fontSize > 0 ? options.fontSize : DEFAULT_FONT_SIZE;
+  const widthInEm = Array.from(text).reduce((sum, char) => sum + (isFullWidth(char) ? 1 : HALF_WIDTH_RATIO), 0);
+  return {
+    type: 'text',
+    text,
+    fontName: options.fontName || DEFAULT_FONT_NAME,
+    color: options.color || DEFAULT_COLOR,
+    width: Math.round(widthInEm * fontSize * 10) / 10,
+    height: fontSize,
+    opacity,
+    rotation: normalizeAngle(options.rotation ?? DEFAULT_TEXT_ROTATION)
+  };
+}
+
+/**
+ * 从文件头读取图片的像素尺寸，无法识别时返回 undefined
+ */
+export function getImagePixelSize(data: Buffer, format: WatermarkImageFormat): { width: number; height: number } | undefined {
+  if (format === 'png' && data.length >= 24) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+  if (format === 'gif' && data.length >= 10) {
+    return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+  if (format === 'jpeg') {
+    // 依次跳过各段，SOF 段（C0-CF，除 C4、C8、CC）中记录了图片尺寸
+    let offset = 2;
+    while (offset + 9 <= data.length && data[offset] === 0xFF) {
+      const marker = data[offset + 1];
+      if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+        return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 把角度换算到 0-359
+ */
+function normalizeAngle(angle: number): number {
+  return ((Math.round(angle) % 360) + 360) % 360;
+}
+
+function isFullWidth(char: string): boolean {
+  return /[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]/.test(char);
+}
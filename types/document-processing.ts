@@ -17,6 +17,7 @@ export interface FontInfo {
 // 文本运行信息接口，扩展自FontInfo，添加文本内容
 export interface TextRunInfo extends FontInfo {
   text: string;  // 文本运行的内容
+  verticalAlign?: 'superscript' | 'subscript';  // 上标 / 下标
 }
 
 // 段落信息接口，包含段落文本和所有文本运行
@@ -45,11 +46,13 @@ export interface DocxAnalysisResult {
   title?: {
     text: string;
     exists: boolean;
+    paragraphIndex: number; // 标题所在段落在 paragraphs 中的索引
     styles: FontInfo[];
   };
   author?: {
     text: string;
     exists: boolean;
+    paragraphIndex: number; // 作者所在段落在 paragraphs 中的索引
     styles: FontInfo[];
   };
   bodyText?: string;
@@ -59,8 +62,31 @@ export interface DocxAnalysisResult {
     index: number;
     isTitle?: boolean;
     isAuthor?: boolean;
+    tableIndex?: number; // 所属表格在 tables 中的索引，不在表格中时为空
+    headingLevel?: number; // 标题级别 1-4，不是标题时为空
+    list?: ParagraphListInfo; // 所属列表，不是列表段落时为空
+    officialRole?: OfficialElementRole; // 公文要素角色，不是公文要素时为空
+    role?: ParagraphRoleInfo; // 段落角色及置信度，表格中的段落和无对应角色的公文要素为空
+    abstractIndex?: number; // 所属摘要或关键词块在 abstracts 中的索引
+    captionIndex?: number; // 图表题注在 captions 中的索引，不是题注时为空
+    referenceIndex?: number; // 参考文献条目在 references.entries 中的索引，不是条目时为空
     styles?: FontInfo[];
+    textRuns?: TextRunInfo[]; // 段落内各文本运行的字符格式，无法与 XML 段落对应时为空
   }[];
+  headings?: HeadingInfo[];
+  tables?: TableInfo[];
+  lists?: ListInfo[];
+  footnotes?: NoteInfo[];
+  endnotes?: NoteInfo[];
+  footnoteCount?: number;
+  endnoteCount?: number;
+  links?: LinkInfo[];
+  officialDocument?: OfficialDocumentInfo;
+  paragraphRoles?: ClassifiedParagraphInfo[]; // 识别出的非正文段落，按段落顺序排列
+  abstracts?: AbstractBlockInfo[]; // 中英文摘要和关键词，按段落顺序排列
+  captions?: CaptionInfo[]; // 图表题注，按段落顺序排列
+  references?: ReferenceListInfo; // "参考文献"标题及其后的条目
+  typography?: TypographyReport; // 按排版规范化选项统计的各规则替换次数，与处理时的替换一致，未设置选项时为空
   wordCount?: number;
   images?: {
     name: string;
@@ -70,9 +96,215 @@ export interface DocxAnalysisResult {
   deepFontAnalysis?: DeepFontAnalysisResult;
 }
 
+// 标题级别的识别依据：Word 标题样式、大纲级别或中文编号
+export type HeadingSource = 'style' | 'outline' | 'numbering';
+
+// 各级标题信息
+export interface HeadingInfo {
+  level: number;           // 1-4
+  text: string;
+  paragraphIndex: number;  // 在 paragraphs 中的索引
+  source: HeadingSource;
+  styles?: FontInfo[];
+}
+
+// 脚注或尾注
+export interface NoteInfo {
+  id: string;                 // 原文档中的 w:id
+  type: 'footnote' | 'endnote';
+  paragraphs: string[];       // 注释正文各段落的文本
+  paragraphIndex?: number;    // 引用所在段落在 paragraphs 中的索引，未找到引用时为空
+  textOffset?: number;        // 引用在该段落文本中的字符位置
+}
+
+// 超链接、书签或交叉引用域（REF / PAGEREF）
+export interface LinkInfo {
+  type: 'hyperlink' | 'bookmark' | 'field';
+  paragraphIndex: number;     // 所在段落在 paragraphs 中的索引
+  textOffset: number;         // 在该段落文本中的起始字符位置
+  length: number;             // 覆盖的文本长度，空书签为 0
+  url?: string;               // 外部超链接地址
+  anchor?: string;            // 内部超链接指向的书签名
+  name?: string;              // 书签名
+  instruction?: string;       // 域代码，如 REF _Ref123 \h
+  text?: string;              // 域结果文字（简单域的结果不计入段落文本，length 为 0）
+}
+
+// 段落角色：标题、副标题、作者、作者单位、摘要、关键词、各级标题、图表题注、参考文献条目、落款和正文
+export type ParagraphRole =
+  | 'title' | 'subtitle' | 'author' | 'affiliation' | 'abstract' | 'keywords'
+  | 'heading' | 'caption' | 'reference' | 'signature' | 'body';
+
+// 段落角色的分类结果
+export interface ParagraphRoleInfo {
+  role: ParagraphRole;
+  confidence: number;  // 置信度 0-1
+  rule?: string;       // 得分最高的规则名称，正文段落为空
+}
+
+export interface ClassifiedParagraphInfo extends ParagraphRoleInfo {
+  paragraphIndex: number;  // 所在段落在 paragraphs 中的索引
+  text: string;
+}
+
+// 摘要或关键词块，标签单独成段时内容从下一段开始
+export interface AbstractBlockInfo {
+  type: 'abstract' | 'keywords';
+  language: 'zh' | 'en';
+  paragraphIndex: number;  // 标签所在段落在 paragraphs 中的索引
+  paragraphCount: number;  // 块占用的段落数
+  label: string;           // 原文中的标签，如"摘  要："
+  content: string;         // 标签之后的内容，多个段落以换行连接
+  keywords?: string[];     // 拆分后的各个关键词
+}
+
+// 图表题注，如"图1 系统架构"、"表 2-1 参数"、"续表3"
+export interface CaptionInfo {
+  type: 'figure' | 'table';
+  paragraphIndex: number;  // 题注段落在 paragraphs 中的索引
+  label: string;           // 原文中的题注标签，如"图"、"续表"、"Figure"
+  number: string;          // 原编号，如"3"、"2-1"
+  continued?: boolean;     // 续图、续表沿用前一题注的编号
+  position?: 'above' | 'below';  // 题注位于所属图表的上方或下方，未找到所属图表时为空
+  imageNames?: string[];   // 所属图片的名称
+  tableIndex?: number;     // 所属表格在 tables 中的索引
+}
+
+// 按 GB/T 7714 解析出的参考文献著录项
+export interface ParsedReference {
+  authors: string[];  // 主要责任者，不含原文中的"等"、"et al"
+  etAl?: boolean;     // 原文以"等"、"et al"省略了其余责任者
+  title: string;      // 题名，包括其他题名信息
+  type: string;       // 文献类型标识，如 J、M、D、EB/OL
+  source: string;     // 文献类型标识之后的出版项、出处和页码等
+}
+
+// 参考文献条目
+export interface ReferenceEntryInfo {
+  paragraphIndex: number;
+  text: string;              // 去掉编号后的原文
+  number?: number;           // 原编号，使用 Word 自动编号或没有编号时为空
+  parsed?: ParsedReference;  // 无法解析时为空
+  error?: string;            // 无法解析的原因
+}
+
+// 参考文献表
+export interface ReferenceListInfo {
+  headingIndex: number;          // "参考文献"标题段落在 paragraphs 中的索引
+  entries: ReferenceEntryInfo[];
+  unparsedCount: number;         // 无法解析的条目数，这些条目只统一编号和样式
+}
+
+// 公文（GB/T 9704）版式要素：发文机关标志、发文字号、标题、主送机关、附件说明、
+// 发文机关署名、成文日期、附注，以及版记中的抄送和印发机关、印发日期
+export type OfficialElementRole =
+  | 'masthead' | 'documentNumber' | 'title' | 'recipient' | 'attachment'
+  | 'signature' | 'date' | 'note' | 'copyTo' | 'printedBy';
+
+export interface OfficialElementInfo {
+  role: OfficialElementRole;
+  paragraphIndex: number;  // 所在段落在 paragraphs 中的索引
+  text: string;
+}
+
+// 识别出的公文要素，按段落顺序排列；多个附件各占一个 attachment 要素
+export interface OfficialDocumentInfo {
+  elements: OfficialElementInfo[];
+}
+
+// 表格单元格信息
+export interface TableCellInfo {
+  text: string;
+  paragraphs: string[];  // 单元格内各段落的文本
+  gridSpan?: number;     // 横向合并的列数
+  vMerge?: 'restart' | 'continue';  // 纵向合并状态
+}
+
+// 表格行信息
+export interface TableRowInfo {
+  cells: TableCellInfo[];
+  isHeader?: boolean;  // 是否为重复标题行
+}
+
+// 表格信息
+export interface TableInfo {
+  index: number;
+  startParagraphIndex: number;  // 表格第一个段落在 paragraphs 中的索引
+  paragraphCount: number;       // 表格在 paragraphs 中占用的段落数
+  rows: TableRowInfo[];
+}
+
+// 列表编号格式，取值与 Word 的 w:numFmt 一致
+export type ListNumberFormat =
+  | 'decimal'
+  | 'decimalEnclosedCircle'
+  | 'decimalEnclosedParen'
+  | 'lowerLetter'
+  | 'upperLetter'
+  | 'lowerRoman'
+  | 'upperRoman'
+  | 'chineseCounting'
+  | 'ideographTraditional';
+
+// 列表某一级的编号定义
+export interface ListLevelInfo {
+  level: number;      // 级别，从 0 开始
+  format: string;     // w:numFmt，项目符号为 bullet
+  levelText: string;  // 编号文字，如 "%1."、"（%1）"，项目符号时为符号字符
+  start: number;
+  alignment?: 'left' | 'center' | 'right';
+  indent?: { left?: number; hanging?: number; firstLine?: number };  // twip
+  font?: string;      // 编号或项目符号使用的字体
+}
+
+// 列表定义，对应 numbering.xml 中的 w:num
+export interface ListInfo {
+  numId: string;
+  levels: ListLevelInfo[];
+}
+
+// 段落所属的列表
+export interface ParagraphListInfo {
+  numId: string;     // 对应 lists 中的 numId
+  level: number;     // 级别，从 0 开始
+  isBullet: boolean; // 项目符号列表或编号列表
+}
+
+// 缩进值，unit 为 char 时按字符数，为 mm 时按毫米
+export interface IndentValue {
+  value: number;
+  unit: 'char' | 'mm';
+}
+
+// 行距：single 单倍，multiple 多倍（value 为倍数），exact 固定值 / atLeast 最小值（value 为磅）
+export interface LineSpacingOptions {
+  rule: 'single' | 'multiple' | 'exact' | 'atLeast';
+  value?: number;
+}
+
+// 段落格式选项
+export interface ParagraphFormatOptions {
+  firstLineIndent?: IndentValue;
+  hangingIndent?: IndentValue;  // 与首行缩进互斥，同时设置时以悬挂缩进为准
+  leftIndent?: IndentValue;
+  rightIndent?: IndentValue;
+  spaceBefore?: number;  // 段前间距（磅）
+  spaceAfter?: number;   // 段后间距（磅）
+  lineSpacing?: LineSpacingOptions;
+}
+
 // 字体修改选项
+// 按文种分别设置的字体，对应 w:rFonts 的四个槽位
+export interface RunFontOptions {
+  eastAsia?: string;  // 中文
+  ascii?: string;     // 西文和数字
+  hAnsi?: string;     // 其他西文字符，未设置时与 ascii 相同
+  cs?: string;        // 复杂文种，未设置时与 ascii 相同
+}
+
 export interface FontModificationOptions {
   targetFontName?: string;
+  targetFonts?: RunFontOptions;  // 未设置的槽位使用 targetFontName
   targetFontSize?: number;
   targetIsBold?: boolean;
   targetIsItalic?: boolean;
@@ -81,6 +313,7 @@ export interface FontModificationOptions {
   targetAlignment?: 'left' | 'center' | 'right' | 'justify';
   addPrefix?: string;
   addSuffix?: string;
+  paragraphFormat?: ParagraphFormatOptions;
   modificationRules?: {
     originalStyleKey: string;
     targetFontName?: string;
@@ -93,15 +326,281 @@ export interface FontModificationOptions {
   }[];
 }
 
+// 文档处理模式：regenerate 基于分析结果重新生成文档，inPlace 直接改写原始 OOXML
+export type ProcessingMode = 'regenerate' | 'inPlace';
+
+// 表格格式选项
+export interface TableModificationOptions {
+  fontName?: string;
+  fontSize?: number;
+  headerRowBold?: boolean;
+  borderStyle?: 'single' | 'double' | 'dashed' | 'none';
+  borderSize?: number;   // 边框粗细（磅）
+  borderColor?: string;
+  cellAlignment?: 'left' | 'center' | 'right' | 'justify';
+  cellVerticalAlignment?: 'top' | 'center' | 'bottom';
+  autoFit?: 'contents' | 'window' | 'fixed';  // 根据内容调整 / 根据窗口调整 / 固定列宽
+}
+
+// 列表某一级的格式选项
+export interface ListLevelOptions {
+  format?: ListNumberFormat;  // 编号格式，只作用于编号列表
+  levelText?: string;         // 编号文字，%1 表示第 1 级的编号，为空时按编号格式取默认值
+  leftIndent?: IndentValue;
+  hangingIndent?: IndentValue;
+}
+
+// 列表格式选项
+export interface ListModificationOptions {
+  levels: (ListLevelOptions | undefined)[];  // 依次为第 1、2、3… 级
+}
+
+// 纸张大小
+export type PaperSize = 'A4' | 'A3' | 'A5' | 'B5' | 'Letter' | '16K';
+
+// 文档网格类型：default 无网格，lines 只指定行网格，linesAndChars 指定行和字符网格，snapToChars 文字对齐字符网格
+export type DocumentGridType = 'default' | 'lines' | 'linesAndChars' | 'snapToChars';
+
+// 文档网格（w:docGrid），按版心尺寸换算为行距和字符间距
+export interface DocumentGridOptions {
+  type: DocumentGridType;
+  linesPerPage?: number;  // 每页行数，无网格时忽略
+  charsPerLine?: number;  // 每行字数，只用于 linesAndChars 和 snapToChars
+}
+
+// 页面设置选项，长度单位均为毫米
+export interface PageSetupOptions {
+  paperSize?: PaperSize;
+  orientation?: 'portrait' | 'landscape';
+  margins?: {
+    top: number;
+    bottom: number;
+    left: number;
+    right: number;
+  };
+  gutter?: number;          // 装订线宽度
+  headerDistance?: number;  // 页眉距边界
+  footerDistance?: number;  // 页脚距边界
+  grid?: DocumentGridOptions;
+}
+
+// 页眉或页脚的文字，支持 {title}、{author}、{date} 占位符
+export interface HeaderFooterText {
+  text?: string;        // 所有页的文字，奇偶页不同时为奇数页
+  evenText?: string;    // 奇偶页不同时偶数页的文字，未设置时与奇数页相同
+  firstText?: string;   // 首页不同时首页的文字，未设置时首页为空
+  alignment?: 'left' | 'center' | 'right';
+}
+
+// 页码样式：plain 为“1”，dashed 为公文使用的“— 1 —”，chinese 为“第 1 页”
+export type PageNumberStyle = 'plain' | 'dashed' | 'chinese';
+
+// 页码（显示在页脚）
+export interface PageNumberOptions {
+  style: PageNumberStyle;
+  position: 'left' | 'center' | 'right' | 'outside';  // outside 为外侧：奇数页居右、偶数页居左
+  frontMatterFormat?: 'upperRoman' | 'lowerRoman';   // 第一个一级标题之前的部分单独用罗马数字编页，正文从 1 开始
+}
+
+// 页眉页脚设置
+export interface HeaderFooterOptions {
+  keepOriginal?: boolean;        // 保留原文档的页眉页脚，忽略其余设置
+  header?: HeaderFooterText;
+  footer?: HeaderFooterText;
+  pageNumber?: PageNumberOptions;
+  differentFirstPage?: boolean;  // 首页不同，首页不显示页码
+  differentOddEven?: boolean;    // 奇偶页不同
+  fontName?: string;
+  fontSize?: number;             // 磅
+}
+
+// 公文版式，按 GB/T 9704 编排识别出的公文要素
+export interface OfficialDocumentOptions {
+  mastheadText?: string;      // 原文档没有发文机关标志时插入，如"××市人民政府文件"
+  mastheadFontName?: string;  // 默认方正小标宋简体
+  mastheadFontSize?: number;  // 磅，默认 36
+  mastheadColor?: string;     // #RRGGBB，默认红色
+  separatorColor?: string;    // 发文字号下分隔线的颜色，默认红色
+  fontName?: string;          // 主送机关、附件说明、落款和版记的字体，默认与正文相同
+}
+
+// 摘要和关键词的样式
+export interface AbstractOptions {
+  labelStyle?: FontModificationOptions;    // "摘要："、"关键词："等标签
+  contentStyle?: FontModificationOptions;  // 标签之后的内容，包括标签单独成段时其后的段落
+  keywordSeparator?: string;               // 中文关键词分隔符，默认"；"
+}
+
+// 图表题注的样式和编号方式
+export interface CaptionOptions {
+  style?: FontModificationOptions;  // 题注样式，未设置时沿用正文字体并居中
+  numbering?: 'keep' | 'sequential' | 'chapter';  // 保留原编号、全文顺序编号或按章编号（图2-3），默认保留
+  chapterSeparator?: string;        // 按章编号时章号与序号之间的分隔符，默认"-"
+}
+
+// 参考文献条目的样式
+export interface ReferenceOptions {
+  style?: FontModificationOptions;  // 条目样式，未设置时沿用正文字体，未设置段落格式时悬挂缩进两个字符
+}
+
+// 标题编号格式：一、/（一）/ 1. /（1）/ 第一章（二级以下为第一节）/ 1.1 多级数字编号
+export type HeadingNumberFormat = 'chineseComma' | 'chineseParen' | 'decimal' | 'decimalParen' | 'chapter' | 'outline';
+
+// 各级标题的编号方式，删除标题原有的手动编号和自动编号后重新编号
+export interface HeadingNumberingOptions {
+  levels: (HeadingNumberFormat | undefined)[];  // 依次为一至四级标题，未设置的级别保持原样
+  mode: 'text' | 'word';                        // 编号写成文字，或使用 Word 多级列表自动编号
+}
+
+// 中文排版规范化规则，各规则单独开关
+export interface TypographyOptions {
+  punctuationWidth?: boolean;             // 中文语境中的半角标点改为全角，英文语境中的全角标点改为半角
+  ellipsis?: boolean;                     // 中文语境中的"..."、"。。。"改为"……"
+  quotes?: 'curly' | 'corner';            // 中文语境中的引号统一为“”或「」，未设置时不处理
+  cjkSpaces?: boolean;                    // 删除汉字之间多余的半角空格，全角空格视为有意的排版保留
+  cjkLatinSpacing?: 'insert' | 'remove';  // 汉字与英文、数字之间加空格或去掉空格，未设置时不处理
+}
+
+export type TypographyRule = keyof TypographyOptions;
+
+// 各规则的替换次数
+export type TypographyReport = Partial<Record<TypographyRule, number>>;
+
+// 查找替换规则，按顺序依次应用，前一条规则替换后的文字参与后一条规则的匹配
+export interface ReplacementRule {
+  find: string;
+  replace: string;
+  regex?: boolean;       // find 为正则表达式，replace 中可用 $1、$<name> 引用分组，$$ 表示 $
+  ignoreCase?: boolean;  // 不区分大小写
+}
+
+// 对外发送前的文档清理，各项默认启用，设为 false 时跳过
+export interface SanitizeOptions {
+  comments?: boolean;          // 批注及其在正文中的范围标记
+  revisionAuthors?: boolean;   // 修订标记中的作者替换为 "Author"，删除 people.xml
+  rsid?: boolean;              // w:rsid* 编辑会话标识
+  hiddenText?: boolean;        // 隐藏文字（w:vanish）
+  personalInfo?: boolean;      // docProps 中的作者、最后修改者、单位和经理
+  customXml?: boolean;         // 自定义 XML 部件、正文中的自定义 XML 标记和内容控件的数据绑定
+  attachedTemplate?: boolean;  // 附加模板
+}
+
+// 清理掉的内容
+export interface SanitizeReport {
+  comments: number;             // 批注条数
+  revisionAuthors: string[];    // 匿名化的修订作者
+  revisionMarks: number;        // 匿名化的修订标记数
+  rsids: number;                // w:rsid* 属性和 settings.xml 中登记的 w:rsid 个数
+  hiddenTextRuns: number;       // 隐藏文字的文本运行数
+  hiddenTextLength: number;     // 隐藏文字的字数
+  personalInfo: string[];       // 清除的文档属性，如 creator、company
+  customXmlParts: string[];     // 删除的自定义 XML 部件路径
+  customXmlTags: number;        // 去掉的正文自定义 XML 标记和数据绑定数
+  attachedTemplate?: string;    // 附加模板的路径或名称
+}
+
+// 超链接文字样式
+export interface HyperlinkStyleOptions {
+  color?: string;        // #RRGGBB
+  isUnderline?: boolean;
+}
+
+// 水印，写入各节的页眉，显示在每一页的正文之下
+export interface WatermarkOptions {
+  type: 'text' | 'image';
+  text?: string;      // 文字水印内容，如"内部资料"、"CONFIDENTIAL"
+  fontName?: string;  // 文字水印字体，默认宋体
+  fontSize?: number;  // 文字水印字号（磅），默认 54
+  color?: string;     // 文字水印颜色 #RRGGBB，默认银灰色
+  image?: string;     // 图片水印的 data URL，支持 PNG、JPEG 和 GIF
+  width?: number;     // 图片水印宽度（毫米），默认按原始尺寸且不超过版心宽度
+  opacity?: number;   // 不透明度 0-1，默认 0.5
+  rotation?: number;  // 逆时针旋转角度，文字水印默认 45（斜式），图片水印默认 0
+}
+
+// 自定义文档属性，写入 docProps/custom.xml
+export interface CustomDocumentProperty {
+  name: string;
+  value: string;                                   // 文字可使用 {title}、{author}、{date} 占位符
+  type?: 'text' | 'number' | 'boolean' | 'date';  // 默认 text，boolean 取值为 true/false，date 为 ISO 日期
+}
+
+// 文档属性（docProps/core.xml、app.xml），文字可使用 {title}、{author}、{date} 占位符
+export interface DocumentPropertiesOptions {
+  keepOriginal?: boolean;   // 原文档已有的属性保持不变，只填补空缺；否则以设置的值覆盖
+  title?: string;           // 原文档和设置都没有标题时使用识别出的标题
+  subject?: string;
+  creator?: string;         // 作者，原文档和设置都没有时使用识别出的作者
+  keywords?: string;
+  description?: string;
+  lastModifiedBy?: string;
+  company?: string;
+  created?: string;         // ISO 日期，原文档和设置都没有时为处理时间
+  modified?: string;        // ISO 日期，未设置时为处理时间，不受 keepOriginal 影响
+  custom?: CustomDocumentProperty[];
+}
+
+// 文档级处理选项
+export interface DocumentProcessingOptions {
+  mode?: ProcessingMode;
+  headings?: (FontModificationOptions | undefined)[];  // 依次为一至四级标题的样式
+  headingNumbering?: HeadingNumberingOptions;
+  preserveRunFormatting?: boolean;  // 保留正文中文本运行的加粗、斜体、下划线、上下标和颜色
+  fitImagesToPage?: boolean;  // 宽度超出版心的图片等比缩小到版心宽度
+  table?: TableModificationOptions;
+  list?: ListModificationOptions;
+  footnote?: FontModificationOptions;  // 脚注和尾注文字的样式，未设置时使用比正文小的字号
+  abstract?: AbstractOptions;
+  caption?: CaptionOptions;
+  references?: ReferenceOptions;
+  typography?: TypographyOptions;
+  hyperlink?: HyperlinkStyleOptions;
+  headerFooter?: HeaderFooterOptions;
+  watermark?: WatermarkOptions;
+  properties?: DocumentPropertiesOptions;
+  officialDocument?: OfficialDocumentOptions;
+  page?: PageSetupOptions;
+}
+
+// 浮动图片的定位方式，offset 为 EMU
+export interface ImageAnchorPosition {
+  relativeFrom: string;
+  offset?: number;
+  align?: string;
+}
+
+// 图片在原文档中的尺寸、裁剪和位置
+export interface ImagePlacement {
+  width: number;   // 显示宽度（EMU）
+  height: number;  // 显示高度（EMU）
+  type: 'inline' | 'anchor';  // 嵌入型 / 浮动型
+  crop?: { left: number; top: number; right: number; bottom: number };  // a:srcRect 裁剪比例，单位为 1/1000 百分比
+  anchor?: {
+    horizontal: ImageAnchorPosition;
+    vertical: ImageAnchorPosition;
+    wrap: 'none' | 'square' | 'tight' | 'through' | 'topAndBottom';
+    behindDocument: boolean;
+  };
+  lineIndex: number;    // 所在的分析段落索引；独占一段时为其后第一个分析段落的索引
+  textOffset?: number;  // 图片在该段落文本中的字符位置，独占一段时为空
+}
+
+// 根据文件内容识别的图片格式
+export type ImageFormat = 'png' | 'jpeg' | 'gif' | 'bmp' | 'tiff' | 'webp' | 'svg' | 'emf' | 'wmf';
+
 // 图片提取结果 - 增强版
 export interface ExtractedImage {
   name: string;
   mimeType: string;
+  format?: ImageFormat; // 真实格式（可能与扩展名不一致）
   size: number;
   paragraphIndex?: number;
   relationshipId?: string;
   runIndex?: number; // 在段落中的run索引
   xmlPosition?: number; // 在XML中的位置
+  placement?: ImagePlacement; // 原始尺寸和位置
+  svgImageName?: string; // 此图片是 Word SVG 图片的 PNG 后备图时，对应的 SVG 图片名称
+  fallbackImageName?: string; // 此图片是 SVG 图片时，对应的后备图名称（随后备图一同输出）
   base64Data: string;
 }
 
@@ -138,5 +637,6 @@ export interface ImageExtractionState {
     totalImageReferences: number;
     matchedImages: number;
     unlocatedImages: number;
+    formats?: Partial<Record<ImageFormat, number>>; // 各格式的图片数量
   };
 } 
\ No newline at end of file